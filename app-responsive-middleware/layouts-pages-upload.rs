@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\app-responsive-middleware\layouts-pages-upload.rs
-// Generated at: 2025-10-11T03:35:52.889Z
\ No newline at end of file
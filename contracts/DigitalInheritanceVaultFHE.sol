@@ -1,10 +1,40 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
-contract DigitalInheritanceVaultFHE is SepoliaConfig {
+contract DigitalInheritanceVaultFHE is SepoliaConfig, EIP712 {
+    enum ReleaseKind {
+        TimeLock,
+        Inactivity,
+        MultiSig,
+        DeathCertificate,
+        Expression                       // Combination of the others, see setUnlockExpression
+    }
+    
+    /// @dev Where a released share goes once its beneficiary and all contingents let it lapse
+    enum LapseRule {
+        SplitEqually,                    // Equal parts to every beneficiary still entitled
+        FirstRemaining                   // All to the first such beneficiary in instruction order
+    }
+    
+    enum ClaimStatus {
+        None,
+        Pending,
+        Claimed,
+        Lapsed
+    }
+    
+    enum ExecutorStatus {
+        None,
+        Active,
+        Suspended,                       // Can be authorized again
+        Revoked                          // For good
+    }
+    
     struct EncryptedAsset {
         uint256 id;
         address owner;
@@ -16,11 +46,53 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     }
     
     struct InheritanceInstruction {
-        euint32 encryptedBeneficiary;   // Encrypted beneficiary identifier
+        address beneficiary;             // Needed in clear to grant access on release
         euint32 encryptedShare;          // Encrypted share percentage
         euint32 encryptedReleaseCondition; // Encrypted release condition code
     }
     
+    struct InactivityConfig {
+        uint256 window;                  // Seconds without a check-in before the vault expires
+        uint256 gracePeriod;             // Extra seconds before it can be executed
+    }
+    
+    struct GuardianSet {
+        address[] guardians;
+        uint256 threshold;               // Signatures needed to approve a release
+        uint256 nonce;                   // Bumped on every change, invalidating older signatures
+        bool approved;
+    }
+    
+    /// @dev A guardian's EIP-712 ReleaseApproval signature, collected off-chain
+    struct GuardianSignature {
+        uint256 deadline;
+        bytes signature;
+    }
+    
+    struct DeathAttestation {
+        bytes32 documentHash;            // Hash of the death certificate, kept off-chain
+        string jurisdiction;
+        uint256 issuedAt;                // Issue date of the certificate
+        address signer;                  // Official who signed the certificate
+        address notary;
+        uint256 finalAt;                 // End of the objection window
+        bool objected;
+    }
+    
+    struct ClaimPolicy {
+        uint256 window;                  // Seconds a holder has to claim a released share, 0 to hand shares over at once
+        LapseRule lapseRule;
+    }
+    
+    /// @dev A released share waiting for its holder, the beneficiary or one of their contingents
+    struct ShareClaim {
+        address holder;
+        uint256 deadline;                // End of the holder's claim window
+        uint256 contingentsUsed;         // Contingents the share has already been offered to
+        ClaimStatus status;
+        euint32 value;                   // Share of the asset value, until claimed
+    }
+    
     struct DecryptedAsset {
         uint32 assetType;
         uint32 assetValue;
@@ -32,19 +104,104 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     mapping(uint256 => EncryptedAsset) public encryptedAssets;
     mapping(uint256 => InheritanceInstruction[]) public inheritanceInstructions;
     mapping(uint256 => DecryptedAsset) public decryptedAssets;
+    mapping(uint256 => ReleaseKind) public releaseKinds;
+    // Share of the asset value each beneficiary received, readable by them after release
+    mapping(uint256 => mapping(address => euint32)) public inheritedShares;
+    mapping(uint256 => InactivityConfig) public inactivityConfigs;
+    // One heartbeat covers all vaults of an owner
+    mapping(address => uint256) public lastCheckIn;
+    mapping(uint256 => GuardianSet) private guardianSets;
+    mapping(uint256 => mapping(address => bool)) public isGuardian;
+    
+    // Attestation history per owner, and the index + 1 of the one not objected to
+    mapping(address => DeathAttestation[]) private deathAttestations;
+    mapping(address => uint256) private activeAttestation;
+    uint256 public objectionWindow = 7 days;
+    // Postfix-encoded unlock condition of Expression vaults
+    mapping(uint256 => bytes) public unlockExpressions;
+    // Latest result of verifySharePercentage per caller, decryptable by that caller only
+    mapping(uint256 => mapping(address => ebool)) public shareChecks;
+    
+    // Release rules for unclaimed shares, and the ordered fallbacks of each instruction
+    mapping(uint256 => ClaimPolicy) public claimPolicies;
+    mapping(uint256 => mapping(uint256 => address[])) private contingents;
+    mapping(uint256 => mapping(uint256 => ShareClaim)) public shareClaims;
+    
+    uint256 public constant MAX_GUARDIANS = 16;
+    // Blocks after which an unanswered execution request can be expired, about a day on Sepolia
+    uint256 public constant EXECUTION_TIMEOUT = 7200;
+    uint256 public constant MAX_CONTINGENTS = 4;
+    
+    // Unlock expression opcodes: leaves push a condition, operators combine the top of the stack
+    uint8 public constant LEAF_TIME_LOCK = 0x01;
+    uint8 public constant LEAF_INACTIVITY = 0x02;
+    uint8 public constant LEAF_GUARDIANS = 0x03;
+    uint8 public constant LEAF_ATTESTATION = 0x04;
+    uint8 public constant OP_AND = 0x10;
+    uint8 public constant OP_OR = 0x11;
+    uint8 public constant OP_NOT = 0x12;
+    uint256 public constant MAX_EXPRESSION_LENGTH = 32;
+    uint256 public constant MAX_EXPRESSION_DEPTH = 8;
+    bytes32 public constant RELEASE_APPROVAL_TYPEHASH =
+        keccak256("ReleaseApproval(uint256 vaultId,uint256 nonce,uint256 deadline)");
     
     mapping(address => uint256[]) private ownerVaults;
-    mapping(address => bool) private authorizedExecutors;
+    mapping(address => ExecutorStatus) public executorStatus;
     
     mapping(uint256 => uint256) private requestToVaultId;
+    mapping(uint256 => uint256) private executionRequestToVaultId;
+    mapping(uint256 => bool) public executionPending;
+    // Request id and block of the execution in flight, so a lost callback can be expired
+    mapping(uint256 => uint256) private pendingExecutionRequests;
+    mapping(uint256 => uint256) public executionRequestedAt;
     
-    event VaultCreated(uint256 indexed id, address indexed owner);
+    event VaultCreated(uint256 indexed id, address indexed owner, ReleaseKind releaseKind);
     event AssetAdded(uint256 indexed vaultId);
-    event InstructionAdded(uint256 indexed vaultId, uint256 instructionId);
+    event InstructionAdded(uint256 indexed vaultId, uint256 instructionId, address indexed beneficiary);
+    event InheritanceRequested(uint256 indexed vaultId, uint256 requestId);
     event InheritanceExecuted(uint256 indexed vaultId);
-    event AssetDecrypted(uint256 indexed vaultId);
+    event InheritanceConditionNotMet(uint256 indexed vaultId);
+    event ExecutionExpired(uint256 indexed vaultId, uint256 requestId);
+    event AssetDecryptionRequested(uint256 indexed vaultId, uint256 requestId);
+    event AssetDecrypted(uint256 indexed vaultId, uint256 requestId);
+    event BeneficiaryUpdated(
+        uint256 indexed vaultId,
+        uint256 instructionId,
+        address previousBeneficiary,
+        address indexed newBeneficiary
+    );
+    event ReleaseKindUpdated(uint256 indexed vaultId, ReleaseKind releaseKind);
+    event ReleaseConditionUpdated(uint256 indexed vaultId, uint256 instructionId);
+    event VaultRevoked(uint256 indexed vaultId);
+    event InactivityConfigured(uint256 indexed vaultId, uint256 window, uint256 gracePeriod);
+    event CheckedIn(address indexed owner, uint256 timestamp);
+    event GuardiansConfigured(uint256 indexed vaultId, address[] guardians, uint256 threshold, uint256 nonce);
+    event GuardianApprovalsSubmitted(uint256 indexed vaultId, address[] signers);
+    event DeathAttested(
+        address indexed owner,
+        uint256 attestationId,
+        bytes32 documentHash,
+        string jurisdiction,
+        uint256 issuedAt,
+        address signer,
+        address indexed notary,
+        uint256 finalAt
+    );
+    event AttestationObjected(address indexed owner, uint256 attestationId, address indexed objector, string reason);
+    event ObjectionWindowUpdated(uint256 objectionWindow);
+    event UnlockExpressionUpdated(uint256 indexed vaultId, bytes expression);
+    event SharesVerified(uint256 indexed vaultId, address indexed verifier);
+    event ContingentsUpdated(uint256 indexed vaultId, uint256 instructionId, address[] contingents);
+    event ClaimPolicyUpdated(uint256 indexed vaultId, uint256 window, LapseRule lapseRule);
+    event ShareOffered(uint256 indexed vaultId, uint256 instructionId, address indexed holder, uint256 deadline);
+    event ShareClaimed(uint256 indexed vaultId, uint256 instructionId, address indexed holder);
+    event ShareLapsed(uint256 indexed vaultId, uint256 instructionId, address indexed holder, uint256[] recipients);
+    event ExecutorStatusChanged(address indexed executor, ExecutorStatus status, address indexed notary);
+    event NotaryTransferStarted(address indexed notary, address indexed pendingNotary);
+    event NotaryTransferred(address indexed previousNotary, address indexed newNotary);
     
     address public notary;
+    address public pendingNotary;
     
     modifier onlyNotary() {
         require(msg.sender == notary, "Not notary");
@@ -52,16 +209,28 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     }
     
     modifier onlyOwner(uint256 vaultId) {
-        require(encryptedAssets[vaultId].owner == msg.sender, "Not owner");
+        checkOwner(vaultId);
+        _;
+    }
+    
+    /// @dev Released or revoked vaults are frozen, as is a vault whose execution is in flight
+    modifier whileEditable(uint256 vaultId) {
+        checkEditable(vaultId);
         _;
     }
     
-    constructor() {
+    modifier validInstruction(uint256 vaultId, uint256 instructionId) {
+        require(instructionId < inheritanceInstructions[vaultId].length, "Invalid instruction");
+        _;
+    }
+    
+    constructor() EIP712("DigitalInheritanceVaultFHE", "1") {
         notary = msg.sender;
+        emit NotaryTransferred(address(0), msg.sender);
     }
     
     /// @notice Create a new inheritance vault
-    function createVault() public {
+    function createVault(ReleaseKind releaseKind) public {
         vaultCount += 1;
         uint256 newId = vaultCount;
         
@@ -75,6 +244,10 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
             isActive: true
         });
         
+        FHE.allowThis(encryptedAssets[newId].encryptedAssetType);
+        FHE.allowThis(encryptedAssets[newId].encryptedAssetValue);
+        FHE.allowThis(encryptedAssets[newId].encryptedAccessKey);
+        
         decryptedAssets[newId] = DecryptedAsset({
             assetType: 0,
             assetValue: 0,
@@ -82,23 +255,28 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
             isRevealed: false
         });
         
+        releaseKinds[newId] = releaseKind;
         ownerVaults[msg.sender].push(newId);
-        emit VaultCreated(newId, msg.sender);
+        emit VaultCreated(newId, msg.sender, releaseKind);
     }
     
     /// @notice Add encrypted asset to vault
+    /// @dev All three inputs must come from the same encrypted input bound to this contract and the owner
     function addEncryptedAsset(
         uint256 vaultId,
-        euint32 encryptedAssetType,
-        euint32 encryptedAssetValue,
-        euint32 encryptedAccessKey
-    ) public onlyOwner(vaultId) {
+        externalEuint32 encryptedAssetType,
+        externalEuint32 encryptedAssetValue,
+        externalEuint32 encryptedAccessKey,
+        bytes calldata inputProof
+    ) public onlyOwner(vaultId) whileEditable(vaultId) {
         EncryptedAsset storage asset = encryptedAssets[vaultId];
-        require(asset.isActive, "Vault inactive");
+        asset.encryptedAssetType = FHE.fromExternal(encryptedAssetType, inputProof);
+        asset.encryptedAssetValue = FHE.fromExternal(encryptedAssetValue, inputProof);
+        asset.encryptedAccessKey = FHE.fromExternal(encryptedAccessKey, inputProof);
         
-        asset.encryptedAssetType = encryptedAssetType;
-        asset.encryptedAssetValue = encryptedAssetValue;
-        asset.encryptedAccessKey = encryptedAccessKey;
+        allowVaultHandle(asset.encryptedAssetType, msg.sender);
+        allowVaultHandle(asset.encryptedAssetValue, msg.sender);
+        allowVaultHandle(asset.encryptedAccessKey, msg.sender);
         
         emit AssetAdded(vaultId);
     }
@@ -106,45 +284,151 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     /// @notice Add inheritance instruction
     function addInheritanceInstruction(
         uint256 vaultId,
-        euint32 encryptedBeneficiary,
-        euint32 encryptedShare,
-        euint32 encryptedReleaseCondition
-    ) public onlyOwner(vaultId) {
+        address beneficiary,
+        externalEuint32 encryptedShare,
+        externalEuint32 encryptedReleaseCondition,
+        bytes calldata inputProof
+    ) public onlyOwner(vaultId) whileEditable(vaultId) {
+        require(beneficiary != address(0), "Invalid beneficiary");
+        
         InheritanceInstruction memory instruction = InheritanceInstruction({
-            encryptedBeneficiary: encryptedBeneficiary,
-            encryptedShare: encryptedShare,
-            encryptedReleaseCondition: encryptedReleaseCondition
+            beneficiary: beneficiary,
+            encryptedShare: FHE.fromExternal(encryptedShare, inputProof),
+            encryptedReleaseCondition: FHE.fromExternal(encryptedReleaseCondition, inputProof)
         });
         
+        allowVaultHandle(instruction.encryptedShare, msg.sender);
+        allowVaultHandle(instruction.encryptedReleaseCondition, msg.sender);
+        
         inheritanceInstructions[vaultId].push(instruction);
-        emit InstructionAdded(vaultId, inheritanceInstructions[vaultId].length - 1);
+        emit InstructionAdded(vaultId, inheritanceInstructions[vaultId].length - 1, beneficiary);
+    }
+    
+    /// @notice Authorize inheritance executor, or reinstate a suspended one
+    function authorizeExecutor(address executor) public {
+        setExecutorStatus(executor, ExecutorStatus.Active);
+    }
+    
+    /// @notice Stop an executor from acting until authorized again
+    function suspendExecutor(address executor) public {
+        setExecutorStatus(executor, ExecutorStatus.Suspended);
+    }
+    
+    /// @notice Stop an executor from acting for good
+    function revokeExecutor(address executor) public {
+        setExecutorStatus(executor, ExecutorStatus.Revoked);
+    }
+    
+    /// @notice Whether `executor` may currently execute vaults
+    function authorizedExecutors(address executor) public view returns (bool) {
+        return executorStatus[executor] == ExecutorStatus.Active;
     }
     
-    /// @notice Authorize inheritance executor
-    function authorizeExecutor(address executor) public onlyNotary {
-        authorizedExecutors[executor] = true;
+    /// @dev Only existing executors can be suspended or revoked, and a revoked one stays revoked
+    function setExecutorStatus(address executor, ExecutorStatus status) private onlyNotary {
+        ExecutorStatus current = executorStatus[executor];
+        require(executor != address(0) && current != status && current != ExecutorStatus.Revoked, "Invalid executor");
+        require(status == ExecutorStatus.Active || current != ExecutorStatus.None, "Not executor");
+        executorStatus[executor] = status;
+        emit ExecutorStatusChanged(executor, status, msg.sender);
+    }
+    
+    /// @notice Offer the notary role to `newNotary`, who takes it with acceptNotary
+    /// @dev Offering it to address(0) withdraws a pending offer
+    function transferNotary(address newNotary) public onlyNotary {
+        pendingNotary = newNotary;
+        emit NotaryTransferStarted(msg.sender, newNotary);
+    }
+    
+    /// @notice Take over the notary role offered to the caller
+    function acceptNotary() public {
+        require(msg.sender == pendingNotary, "Not pending notary");
+        emit NotaryTransferred(notary, msg.sender);
+        notary = msg.sender;
+        pendingNotary = address(0);
     }
     
     /// @notice Execute inheritance distribution
+    /// @dev Release conditions are encrypted, so the check is sent to the decryption
+    ///      oracle and the distribution happens in finalizeInheritance
     function executeInheritance(uint256 vaultId) public {
-        require(authorizedExecutors[msg.sender], "Unauthorized executor");
-        EncryptedAsset storage asset = encryptedAssets[vaultId];
-        require(asset.isActive, "Vault inactive");
+        require(authorizedExecutors(msg.sender), "Unauthorized executor");
+        checkEditable(vaultId);
+        // Releasing a vault without instructions would hand its asset to no one
+        require(inheritanceInstructions[vaultId].length > 0, "No inheritance instructions");
+        ReleaseKind releaseKind = releaseKinds[vaultId];
+        if (releaseKind == ReleaseKind.Inactivity) {
+            require(inactivityConfigs[vaultId].window > 0, "Inactivity not configured");
+            require(block.timestamp >= inactivityDeadline(vaultId), "Owner still active");
+        } else if (releaseKind == ReleaseKind.MultiSig) {
+            require(guardianSets[vaultId].threshold > 0, "Guardians not configured");
+            require(guardianSets[vaultId].approved, "Guardian approval missing");
+        } else if (releaseKind == ReleaseKind.DeathCertificate) {
+            require(isDeathAttested(encryptedAssets[vaultId].owner), "Death not attested");
+        } else if (releaseKind == ReleaseKind.Expression) {
+            require(unlockExpressions[vaultId].length > 0, "Expression not set");
+        }
         
-        // Verify release conditions
-        for (uint i = 0; i < inheritanceInstructions[vaultId].length; i++) {
-            InheritanceInstruction storage instruction = inheritanceInstructions[vaultId][i];
-            ebool conditionMet = verifyReleaseCondition(instruction.encryptedReleaseCondition);
-            require(FHE.decrypt(conditionMet), "Condition not met");
+        // Verify release conditions; an expression decides on its own whether release times apply
+        ebool conditionMet = releaseKind == ReleaseKind.Expression
+            ? evaluateUnlockExpression(vaultId)
+            : releaseTimesPassed(vaultId);
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(conditionMet);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.finalizeInheritance.selector);
+        executionRequestToVaultId[reqId] = vaultId;
+        executionPending[vaultId] = true;
+        pendingExecutionRequests[vaultId] = reqId;
+        executionRequestedAt[vaultId] = block.number;
+        
+        emit InheritanceRequested(vaultId, reqId);
+    }
+    
+    /// @notice Complete an inheritance execution once the release conditions are decrypted
+    function finalizeInheritance(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 vaultId = executionRequestToVaultId[requestId];
+        require(vaultId != 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        delete executionRequestToVaultId[requestId];
+        executionPending[vaultId] = false;
+        
+        bool conditionMet = abi.decode(cleartexts, (bool));
+        if (!conditionMet) {
+            emit InheritanceConditionNotMet(vaultId);
+            return;
         }
         
         // Perform encrypted asset distribution
         distributeAssets(vaultId);
         
-        asset.isActive = false;
+        encryptedAssets[vaultId].isActive = false;
         emit InheritanceExecuted(vaultId);
     }
     
+    /// @notice Give up on an execution the oracle has not answered within EXECUTION_TIMEOUT blocks
+    /// @dev Open to the owner and authorized executors; a late callback for it is rejected
+    function expireExecution(uint256 vaultId) public {
+        require(
+            msg.sender == encryptedAssets[vaultId].owner || authorizedExecutors(msg.sender),
+            "Not allowed to expire"
+        );
+        require(executionPending[vaultId], "No execution pending");
+        require(block.number >= executionRequestedAt[vaultId] + EXECUTION_TIMEOUT, "Execution not expired");
+        
+        uint256 requestId = pendingExecutionRequests[vaultId];
+        delete executionRequestToVaultId[requestId];
+        executionPending[vaultId] = false;
+        emit ExecutionExpired(vaultId, requestId);
+    }
+    
     /// @notice Request asset decryption
     function requestAssetDecryption(uint256 vaultId) public {
         require(encryptedAssets[vaultId].owner == msg.sender, "Not owner");
@@ -159,6 +443,8 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptAssetData.selector);
         requestToVaultId[reqId] = vaultId;
+        
+        emit AssetDecryptionRequested(vaultId, reqId);
     }
     
     /// @notice Process decrypted asset data
@@ -183,20 +469,87 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
         dAsset.accessKey = accessKey;
         dAsset.isRevealed = true;
         
-        emit AssetDecrypted(vaultId);
+        emit AssetDecrypted(vaultId, requestId);
+    }
+    
+    /// @notice Whether the release times of all instructions of a vault have passed
+    function releaseTimesPassed(uint256 vaultId) private returns (ebool) {
+        ebool passed = FHE.asEbool(true);
+        for (uint i = 0; i < inheritanceInstructions[vaultId].length; i++) {
+            InheritanceInstruction storage instruction = inheritanceInstructions[vaultId][i];
+            passed = FHE.and(passed, verifyReleaseCondition(instruction.encryptedReleaseCondition));
+        }
+        return passed;
+    }
+    
+    /// @notice Evaluate the unlock expression of a vault
+    /// @dev Plaintext leaves are lifted to ebool so they combine with the encrypted release times
+    function evaluateUnlockExpression(uint256 vaultId) private returns (ebool) {
+        bytes storage expression = unlockExpressions[vaultId];
+        ebool[] memory stack = new ebool[](MAX_EXPRESSION_DEPTH);
+        uint256 depth = 0;
+        
+        for (uint i = 0; i < expression.length; i++) {
+            uint8 op = uint8(expression[i]);
+            if (op == OP_NOT) {
+                stack[depth - 1] = FHE.not(stack[depth - 1]);
+            } else if (op == OP_AND) {
+                depth--;
+                stack[depth - 1] = FHE.and(stack[depth - 1], stack[depth]);
+            } else if (op == OP_OR) {
+                depth--;
+                stack[depth - 1] = FHE.or(stack[depth - 1], stack[depth]);
+            } else if (op == LEAF_TIME_LOCK) {
+                stack[depth++] = releaseTimesPassed(vaultId);
+            } else if (op == LEAF_INACTIVITY) {
+                stack[depth++] = FHE.asEbool(
+                    inactivityConfigs[vaultId].window > 0 && block.timestamp >= inactivityDeadline(vaultId)
+                );
+            } else if (op == LEAF_GUARDIANS) {
+                stack[depth++] = FHE.asEbool(guardianSets[vaultId].threshold > 0 && guardianSets[vaultId].approved);
+            } else {
+                stack[depth++] = FHE.asEbool(isDeathAttested(encryptedAssets[vaultId].owner));
+            }
+        }
+        return stack[0];
+    }
+    
+    /// @notice Check that `expression` is well-formed postfix leaving exactly one condition
+    function validateUnlockExpression(bytes calldata expression) public pure returns (bool) {
+        if (expression.length == 0 || expression.length > MAX_EXPRESSION_LENGTH) {
+            return false;
+        }
+        uint256 depth = 0;
+        for (uint i = 0; i < expression.length; i++) {
+            uint8 op = uint8(expression[i]);
+            if (op >= LEAF_TIME_LOCK && op <= LEAF_ATTESTATION) {
+                depth++;
+                if (depth > MAX_EXPRESSION_DEPTH) return false;
+            } else if (op == OP_AND || op == OP_OR) {
+                if (depth < 2) return false;
+                depth--;
+            } else if (op == OP_NOT) {
+                if (depth < 1) return false;
+            } else {
+                return false;
+            }
+        }
+        return depth == 1;
     }
     
     /// @notice Verify release condition (FHE version)
-    function verifyReleaseCondition(euint32 encryptedCondition) private view returns (ebool) {
+    function verifyReleaseCondition(euint32 encryptedCondition) private returns (ebool) {
         // Example condition: time-based (current timestamp > condition timestamp)
         euint32 currentTime = FHE.asEuint32(uint32(block.timestamp));
         return FHE.gt(currentTime, encryptedCondition);
     }
     
     /// @notice Distribute encrypted assets to beneficiaries
+    /// @dev With a claim window the shares are held until claimed, see claimShare
     function distributeAssets(uint256 vaultId) private {
         EncryptedAsset storage asset = encryptedAssets[vaultId];
         InheritanceInstruction[] storage instructions = inheritanceInstructions[vaultId];
+        bool held = claimPolicies[vaultId].window > 0;
         
         for (uint i = 0; i < instructions.length; i++) {
             InheritanceInstruction storage instruction = instructions[i];
@@ -204,11 +557,113 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
             // Calculate beneficiary share
             euint32 shareValue = FHE.div(
                 FHE.mul(asset.encryptedAssetValue, instruction.encryptedShare),
-                FHE.asEuint32(100)
+                100
             );
             
-            // Transfer encrypted asset share to beneficiary
-            // (In real implementation, this would trigger actual asset transfer)
+            if (held) {
+                FHE.allowThis(shareValue);
+                shareClaims[vaultId][i].value = shareValue;
+                offerShare(vaultId, i, instruction.beneficiary);
+            } else {
+                grantShare(vaultId, instruction.beneficiary, shareValue);
+            }
+        }
+    }
+    
+    /// @notice Hand an encrypted share and the asset details over to its holder
+    /// @dev In a real implementation this would trigger the actual asset transfer
+    function grantShare(uint256 vaultId, address holder, euint32 shareValue) private {
+        EncryptedAsset storage asset = encryptedAssets[vaultId];
+        euint32 inherited = inheritedShares[vaultId][holder];
+        if (FHE.isInitialized(inherited)) {
+            shareValue = FHE.add(inherited, shareValue);
+        }
+        inheritedShares[vaultId][holder] = shareValue;
+        FHE.allowThis(shareValue);
+        FHE.allow(shareValue, holder);
+        FHE.allow(asset.encryptedAssetType, holder);
+        FHE.allow(asset.encryptedAccessKey, holder);
+    }
+    
+    /// @notice Open a claim window on a held share for `holder`
+    function offerShare(uint256 vaultId, uint256 instructionId, address holder) private {
+        ShareClaim storage claim = shareClaims[vaultId][instructionId];
+        claim.holder = holder;
+        claim.deadline = block.timestamp + claimPolicies[vaultId].window;
+        claim.status = ClaimStatus.Pending;
+        emit ShareOffered(vaultId, instructionId, holder, claim.deadline);
+    }
+    
+    /// @notice Claim a released share within its claim window
+    function claimShare(uint256 vaultId, uint256 instructionId) public {
+        ShareClaim storage claim = shareClaims[vaultId][instructionId];
+        require(claim.status == ClaimStatus.Pending, "Nothing to claim");
+        require(claim.holder == msg.sender, "Not share holder");
+        require(block.timestamp <= claim.deadline, "Claim window closed");
+        
+        claim.status = ClaimStatus.Claimed;
+        grantShare(vaultId, msg.sender, claim.value);
+        emit ShareClaimed(vaultId, instructionId, msg.sender);
+    }
+    
+    /// @notice Pass a share whose claim window closed to the next contingent, or
+    ///         redistribute it by the vault's lapse rule once none are left
+    /// @dev Anyone can call this, e.g. a contingent or an executor
+    function lapseShare(uint256 vaultId, uint256 instructionId) public {
+        ShareClaim storage claim = shareClaims[vaultId][instructionId];
+        require(claim.status == ClaimStatus.Pending, "Nothing to lapse");
+        require(block.timestamp > claim.deadline, "Claim window open");
+        
+        address[] storage fallbacks = contingents[vaultId][instructionId];
+        if (claim.contingentsUsed < fallbacks.length) {
+            address next = fallbacks[claim.contingentsUsed];
+            claim.contingentsUsed += 1;
+            offerShare(vaultId, instructionId, next);
+            return;
+        }
+        
+        claim.status = ClaimStatus.Lapsed;
+        emit ShareLapsed(vaultId, instructionId, claim.holder, redistributeShare(vaultId, instructionId));
+    }
+    
+    /// @notice Split a lapsed share among the instructions still claimed or claimable,
+    ///         or return it to the vault owner's estate if there are none
+    /// @dev Encrypted shares cannot be divisors, so a pro-rata split is not possible;
+    ///      the remainder of an equal split goes to the first recipient
+    function redistributeShare(uint256 vaultId, uint256 instructionId) private returns (uint256[] memory recipients) {
+        uint256 count = inheritanceInstructions[vaultId].length;
+        bool firstOnly = claimPolicies[vaultId].lapseRule == LapseRule.FirstRemaining;
+        uint256 entitled = 0;
+        for (uint i = 0; i < count; i++) {
+            ClaimStatus status = shareClaims[vaultId][i].status;
+            if (i != instructionId && (status == ClaimStatus.Pending || status == ClaimStatus.Claimed)) {
+                entitled++;
+            }
+        }
+        if (firstOnly && entitled > 1) entitled = 1;
+        recipients = new uint256[](entitled);
+        euint32 lapsed = shareClaims[vaultId][instructionId].value;
+        if (entitled == 0) {
+            grantShare(vaultId, encryptedAssets[vaultId].owner, lapsed);
+            return recipients;
+        }
+        
+        euint32 part = FHE.div(lapsed, uint32(entitled));
+        euint32 first = FHE.sub(lapsed, FHE.mul(part, uint32(entitled - 1)));
+        uint256 n = 0;
+        for (uint i = 0; i < count && n < entitled; i++) {
+            ShareClaim storage claim = shareClaims[vaultId][i];
+            if (i == instructionId || (claim.status != ClaimStatus.Pending && claim.status != ClaimStatus.Claimed)) {
+                continue;
+            }
+            euint32 amount = n == 0 ? first : part;
+            if (claim.status == ClaimStatus.Claimed) {
+                grantShare(vaultId, claim.holder, amount);
+            } else {
+                claim.value = FHE.add(claim.value, amount);
+                FHE.allowThis(claim.value);
+            }
+            recipients[n++] = i;
         }
     }
     
@@ -219,7 +674,8 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     }
     
     /// @notice Verify beneficiary share percentage
-    function verifySharePercentage(uint256 vaultId) public view returns (ebool) {
+    /// @dev The result is kept in shareChecks under the caller, so checks by others do not replace it
+    function verifySharePercentage(uint256 vaultId) public returns (ebool) {
         InheritanceInstruction[] storage instructions = inheritanceInstructions[vaultId];
         euint32 totalShare = FHE.asEuint32(0);
         
@@ -227,7 +683,12 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
             totalShare = FHE.add(totalShare, instructions[i].encryptedShare);
         }
         
-        return FHE.eq(totalShare, FHE.asEuint32(100));
+        ebool sharesValid = FHE.eq(totalShare, FHE.asEuint32(100));
+        FHE.allowThis(sharesValid);
+        FHE.allow(sharesValid, msg.sender);
+        shareChecks[vaultId][msg.sender] = sharesValid;
+        emit SharesVerified(vaultId, msg.sender);
+        return sharesValid;
     }
     
     /// @notice Get owner vaults
@@ -255,19 +716,19 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     
     /// @notice Get inheritance instructions
     function getInheritanceInstructions(uint256 vaultId) public view returns (
-        euint32[] memory encryptedBeneficiaries,
+        address[] memory instructionBeneficiaries,
         euint32[] memory encryptedShares,
         euint32[] memory encryptedConditions
     ) {
         InheritanceInstruction[] storage instructions = inheritanceInstructions[vaultId];
         uint256 count = instructions.length;
         
-        euint32[] memory beneficiaries = new euint32[](count);
+        address[] memory beneficiaries = new address[](count);
         euint32[] memory shares = new euint32[](count);
         euint32[] memory conditions = new euint32[](count);
         
         for (uint i = 0; i < count; i++) {
-            beneficiaries[i] = instructions[i].encryptedBeneficiary;
+            beneficiaries[i] = instructions[i].beneficiary;
             shares[i] = instructions[i].encryptedShare;
             conditions[i] = instructions[i].encryptedReleaseCondition;
         }
@@ -295,21 +756,274 @@ contract DigitalInheritanceVaultFHE is SepoliaConfig {
     function updateReleaseCondition(
         uint256 vaultId,
         uint256 instructionId,
-        euint32 newCondition
-    ) public onlyOwner(vaultId) {
-        inheritanceInstructions[vaultId][instructionId].encryptedReleaseCondition = newCondition;
+        externalEuint32 newCondition,
+        bytes calldata inputProof
+    ) public onlyOwner(vaultId) whileEditable(vaultId) validInstruction(vaultId, instructionId) {
+        euint32 condition = FHE.fromExternal(newCondition, inputProof);
+        allowVaultHandle(condition, msg.sender);
+        inheritanceInstructions[vaultId][instructionId].encryptedReleaseCondition = condition;
+        emit ReleaseConditionUpdated(vaultId, instructionId);
+    }
+    
+    /// @notice Replace the beneficiary of an instruction
+    function updateBeneficiary(
+        uint256 vaultId,
+        uint256 instructionId,
+        address newBeneficiary
+    ) public onlyOwner(vaultId) whileEditable(vaultId) validInstruction(vaultId, instructionId) {
+        require(newBeneficiary != address(0), "Invalid beneficiary");
+        InheritanceInstruction storage instruction = inheritanceInstructions[vaultId][instructionId];
+        address previousBeneficiary = instruction.beneficiary;
+        instruction.beneficiary = newBeneficiary;
+        emit BeneficiaryUpdated(vaultId, instructionId, previousBeneficiary, newBeneficiary);
+    }
+    
+    /// @notice Change how the vault is meant to be released
+    function updateReleaseKind(uint256 vaultId, ReleaseKind releaseKind) public onlyOwner(vaultId) whileEditable(vaultId) {
+        releaseKinds[vaultId] = releaseKind;
+        emit ReleaseKindUpdated(vaultId, releaseKind);
+    }
+    
+    /// @notice Set the inactivity window and grace period of a vault
+    /// @dev Counts as a check-in, so the window starts now
+    function configureInactivity(
+        uint256 vaultId,
+        uint256 window,
+        uint256 gracePeriod
+    ) public onlyOwner(vaultId) whileEditable(vaultId) {
+        require(window > 0, "Invalid window");
+        inactivityConfigs[vaultId] = InactivityConfig({ window: window, gracePeriod: gracePeriod });
+        emit InactivityConfigured(vaultId, window, gracePeriod);
+        checkIn();
+    }
+    
+    /// @notice Record that the caller is alive, restarting the inactivity window of all their vaults
+    function checkIn() public {
+        lastCheckIn[msg.sender] = block.timestamp;
+        emit CheckedIn(msg.sender, block.timestamp);
+    }
+    
+    /// @notice Time from which an inactivity vault can be executed
+    function inactivityDeadline(uint256 vaultId) public view returns (uint256) {
+        EncryptedAsset storage asset = encryptedAssets[vaultId];
+        InactivityConfig storage config = inactivityConfigs[vaultId];
+        uint256 lastSeen = lastCheckIn[asset.owner];
+        if (asset.timestamp > lastSeen) {
+            lastSeen = asset.timestamp;
+        }
+        return lastSeen + config.window + config.gracePeriod;
+    }
+    
+    /// @notice Name the guardians of a vault and how many of them must approve its release
+    /// @dev Replaces the previous set and discards any approval given under it
+    function setGuardians(
+        uint256 vaultId,
+        address[] calldata guardians,
+        uint256 threshold
+    ) public onlyOwner(vaultId) whileEditable(vaultId) {
+        require(guardians.length > 0 && guardians.length <= MAX_GUARDIANS, "Invalid guardians");
+        require(threshold > 0 && threshold <= guardians.length, "Invalid threshold");
+        
+        GuardianSet storage set = guardianSets[vaultId];
+        for (uint i = 0; i < set.guardians.length; i++) {
+            isGuardian[vaultId][set.guardians[i]] = false;
+        }
+        for (uint i = 0; i < guardians.length; i++) {
+            address guardian = guardians[i];
+            require(guardian != address(0) && !isGuardian[vaultId][guardian], "Invalid guardians");
+            isGuardian[vaultId][guardian] = true;
+        }
+        
+        set.guardians = guardians;
+        set.threshold = threshold;
+        set.nonce += 1;
+        set.approved = false;
+        emit GuardiansConfigured(vaultId, guardians, threshold, set.nonce);
+    }
+    
+    /// @notice Approve the release of a vault with signatures of at least `threshold` guardians
+    /// @dev Anyone can submit; signatures must be ordered by ascending signer address
+    function submitGuardianApprovals(
+        uint256 vaultId,
+        GuardianSignature[] calldata signatures
+    ) public whileEditable(vaultId) {
+        GuardianSet storage set = guardianSets[vaultId];
+        require(set.threshold > 0, "Guardians not configured");
+        require(signatures.length >= set.threshold, "Not enough approvals");
+        
+        address[] memory signers = new address[](signatures.length);
+        address previous = address(0);
+        for (uint i = 0; i < signatures.length; i++) {
+            require(block.timestamp <= signatures[i].deadline, "Approval expired");
+            address signer = ECDSA.recover(
+                releaseApprovalDigest(vaultId, signatures[i].deadline),
+                signatures[i].signature
+            );
+            require(isGuardian[vaultId][signer], "Not guardian");
+            require(signer > previous, "Unordered signatures");
+            signers[i] = signer;
+            previous = signer;
+        }
+        
+        set.approved = true;
+        emit GuardianApprovalsSubmitted(vaultId, signers);
+    }
+    
+    /// @notice EIP-712 digest a guardian signs to approve the release under the current guardian set
+    function releaseApprovalDigest(uint256 vaultId, uint256 deadline) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(RELEASE_APPROVAL_TYPEHASH, vaultId, guardianSets[vaultId].nonce, deadline))
+        );
+    }
+    
+    /// @notice Get the guardian set of a vault
+    function getGuardians(uint256 vaultId) public view returns (
+        address[] memory guardians,
+        uint256 threshold,
+        uint256 nonce,
+        bool approved
+    ) {
+        GuardianSet storage set = guardianSets[vaultId];
+        return (set.guardians, set.threshold, set.nonce, set.approved);
+    }
+    
+    /// @notice Record a death certificate for `owner`, final once the objection window has passed
+    function attestDeath(
+        address owner,
+        bytes32 documentHash,
+        string calldata jurisdiction,
+        uint256 issuedAt,
+        address signer
+    ) public onlyNotary {
+        require(owner != address(0) && documentHash != bytes32(0) && signer != address(0), "Invalid attestation");
+        require(bytes(jurisdiction).length > 0 && issuedAt <= block.timestamp, "Invalid attestation");
+        require(activeAttestation[owner] == 0, "Attestation exists");
+        
+        uint256 finalAt = block.timestamp + objectionWindow;
+        deathAttestations[owner].push(DeathAttestation({
+            documentHash: documentHash,
+            jurisdiction: jurisdiction,
+            issuedAt: issuedAt,
+            signer: signer,
+            notary: msg.sender,
+            finalAt: finalAt,
+            objected: false
+        }));
+        uint256 attestationId = deathAttestations[owner].length - 1;
+        activeAttestation[owner] = attestationId + 1;
+        
+        emit DeathAttested(owner, attestationId, documentHash, jurisdiction, issuedAt, signer, msg.sender, finalAt);
+    }
+    
+    /// @notice Void an attestation during its objection window
+    /// @dev Open to the owner themselves, authorized executors and the notary
+    function objectToAttestation(address owner, uint256 attestationId, string calldata reason) public {
+        require(
+            msg.sender == owner || msg.sender == notary || authorizedExecutors(msg.sender),
+            "Not allowed to object"
+        );
+        require(activeAttestation[owner] == attestationId + 1, "Invalid attestation");
+        DeathAttestation storage attestation = deathAttestations[owner][attestationId];
+        require(block.timestamp < attestation.finalAt, "Attestation final");
+        
+        attestation.objected = true;
+        activeAttestation[owner] = 0;
+        emit AttestationObjected(owner, attestationId, msg.sender, reason);
+    }
+    
+    /// @notice Change the objection window of future attestations
+    function setObjectionWindow(uint256 window) public onlyNotary {
+        objectionWindow = window;
+        emit ObjectionWindowUpdated(window);
+    }
+    
+    /// @notice Whether the death of `owner` is attested and past its objection window
+    function isDeathAttested(address owner) public view returns (bool) {
+        uint256 active = activeAttestation[owner];
+        return active != 0 && block.timestamp >= deathAttestations[owner][active - 1].finalAt;
+    }
+    
+    /// @notice Get all attestations ever submitted for an owner, including objected ones
+    function getDeathAttestations(address owner) public view returns (DeathAttestation[] memory) {
+        return deathAttestations[owner];
+    }
+    
+    /// @notice Set the unlock expression used once the vault's release kind is Expression
+    function setUnlockExpression(
+        uint256 vaultId,
+        bytes calldata expression
+    ) public onlyOwner(vaultId) whileEditable(vaultId) {
+        require(validateUnlockExpression(expression), "Invalid expression");
+        unlockExpressions[vaultId] = expression;
+        emit UnlockExpressionUpdated(vaultId, expression);
+    }
+    
+    /// @notice Name the ordered fallbacks of an instruction's beneficiary
+    function setContingents(
+        uint256 vaultId,
+        uint256 instructionId,
+        address[] calldata fallbacks
+    ) public onlyOwner(vaultId) whileEditable(vaultId) validInstruction(vaultId, instructionId) {
+        require(fallbacks.length <= MAX_CONTINGENTS, "Too many contingents");
+        for (uint i = 0; i < fallbacks.length; i++) {
+            require(fallbacks[i] != address(0), "Invalid contingent");
+        }
+        contingents[vaultId][instructionId] = fallbacks;
+        emit ContingentsUpdated(vaultId, instructionId, fallbacks);
+    }
+    
+    /// @notice Get the ordered fallbacks of an instruction's beneficiary
+    function getContingents(uint256 vaultId, uint256 instructionId) public view returns (address[] memory) {
+        return contingents[vaultId][instructionId];
+    }
+    
+    /// @notice Set how long holders have to claim released shares and where lapsed shares go
+    function setClaimPolicy(
+        uint256 vaultId,
+        uint256 window,
+        LapseRule lapseRule
+    ) public onlyOwner(vaultId) whileEditable(vaultId) {
+        claimPolicies[vaultId] = ClaimPolicy({ window: window, lapseRule: lapseRule });
+        emit ClaimPolicyUpdated(vaultId, window, lapseRule);
+    }
+    
+    /// @notice Withdraw the vault so it can never be executed
+    function revokeVault(uint256 vaultId) public onlyOwner(vaultId) whileEditable(vaultId) {
+        encryptedAssets[vaultId].isActive = false;
+        emit VaultRevoked(vaultId);
     }
     
     /// @notice Calculate inheritance tax
-    function calculateInheritanceTax(uint256 vaultId) public view returns (euint32) {
+    /// @dev Owner only: the tax would disclose the asset value to anyone allowed to decrypt it
+    function calculateInheritanceTax(uint256 vaultId) public onlyOwner(vaultId) returns (euint32) {
         EncryptedAsset storage asset = encryptedAssets[vaultId];
         
         // Simplified tax calculation: 10% for values over 1000
         ebool taxable = FHE.gt(asset.encryptedAssetValue, FHE.asEuint32(1000));
-        return FHE.cmux(
+        euint32 tax = FHE.select(
             taxable,
-            FHE.div(asset.encryptedAssetValue, FHE.asEuint32(10)),
+            FHE.div(asset.encryptedAssetValue, 10),
             FHE.asEuint32(0)
         );
+        // User decryption needs the contract to hold the handle as well as the caller
+        FHE.allowThis(tax);
+        FHE.allow(tax, msg.sender);
+        return tax;
+    }
+    
+    // Modifier checks live in functions so their code is not repeated in every function they guard
+    function checkOwner(uint256 vaultId) private view {
+        require(encryptedAssets[vaultId].owner == msg.sender, "Not owner");
+    }
+    
+    function checkEditable(uint256 vaultId) private view {
+        require(encryptedAssets[vaultId].isActive, "Vault inactive");
+        require(!executionPending[vaultId], "Execution pending");
+    }
+    
+    /// @notice Grant the contract and the vault owner access to a stored handle
+    function allowVaultHandle(euint32 handle, address owner) private {
+        FHE.allowThis(handle);
+        FHE.allow(handle, owner);
     }
 }
\ No newline at end of file
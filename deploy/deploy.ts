@@ -1,390 +1,158 @@
 // deploy/deploy.ts
+// Deploys UniversalAdapter and DigitalInheritanceVaultFHE and records them under
+// the chain id in the deployments manifest, frontend/web/src/deployments.json:
+//
+//   npm run deploy -- --network localhost             # a running `npx hardhat node`
+//   npm run deploy -- --network sepolia --dry-run     # estimate only, send nothing
+//
+// The network is --network, else HARDHAT_NETWORK, else hardhat's default. On
+// live networks the deployer is the account configured for the network in
+// hardhat.config.ts, i.e. DEPLOYER_PRIVATE_KEY from the environment or .env.
+// Contracts are compiled for the target network first, since the FHEVM plugin
+// wires mock or Sepolia coprocessor addresses into the bytecode.
 import fs from "fs";
 import path from "path";
-import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
-
-
-const WORD_LIBRARY = [
-
-  'api', 'app', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
-  'frontend', 'gateway', 'handler', 'interface', 'middleware', 'model', 'module',
-  'provider', 'router', 'service', 'util', 'validator', 'adapter', 'bridge',
-  'decorator', 'factory', 'manager', 'registry', 'resolver', 'serializer',
-  
-
-  'user', 'account', 'profile', 'payment', 'order', 'product', 'inventory',
-  'customer', 'admin', 'notification', 'message', 'email', 'sms', 'upload',
-  'download', 'export', 'import', 'report', 'analytics', 'statistics',
-  
-
-  'types', 'constants', 'helpers', 'hooks', 'styles', 'components', 'layouts',
-  'pages', 'routes', 'queries', 'mutations', 'subscriptions', 'fragments',
-  
-
-  'main', 'common', 'shared', 'global', 'local', 'base', 'core', 'advanced',
-  'simple', 'complex', 'dynamic', 'static', 'responsive', 'adaptive', 'secure',
-  
-  'utils', 'lib', 'src', 'dist', 'build', 'test', 'spec', 'mock', 'fixture',
-  'example', 'demo', 'template', 'boilerplate', 'configuration', 'environment'
-];
-
-
-const FILE_EXTENSIONS = {
-  code: ['.ts', '.js', '.tsx', '.jsx', '.sol', '.java', '.py', '.rs', '.go'],
-  config: ['.json', '.yaml', '.yml', '.toml', '.ini', '.env'],
-  docs: ['.md', '.txt', '.rst', '.adoc'],
-  styles: ['.css', '.scss', '.sass', '.less', '.styl']
-};
-
-const DIFF_CONFIG = {
-  minFolders: 3,
-  maxFolders: 8,
-  minFilesPerFolder: 1,
-  maxFilesPerFolder: 5,
-  maxDepth: 3
-};
-
-interface GeneratedFile {
-  path: string;
-  type: 'file' | 'folder';
-  content?: string;
+import type { ContractFactory, ethers as Ethers } from "ethers";
+import type { Artifact, HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  abiHash,
+  CONTRACT_NAMES,
+  ContractDeployment,
+  ContractName,
+  DeploymentsManifest
+} from "../frontend/web/src/manifest";
+
+const ROOT = path.join(__dirname, "..");
+const MANIFEST = path.join(ROOT, "frontend", "web", "src", "deployments.json");
+// UniversalAdapter has no source in contracts/; its compiled artifact is kept with the frontend
+const UNIVERSAL_ADAPTER_ARTIFACT = path.join(ROOT, "frontend", "web", "src", "abi", "UniversalAdapter.json");
+
+interface Options {
+  network?: string;
+  dryRun: boolean;
 }
 
-class DifferentialGenerator {
-  private cacheFile: string;
-  private projectRoot: string;
-  private existingPaths: Set<string>;
-
-  constructor(projectRoot: string) {
-    this.projectRoot = projectRoot;
-    this.cacheFile = path.join(projectRoot, '.diffcache');
-    this.existingPaths = this.getAllExistingPaths();
-  }
-
-  private getAllExistingPaths(): Set<string> {
-    const paths = new Set<string>();
-    
-    const scanDirectory = (dir: string) => {
-      try {
-        const items = fs.readdirSync(dir);
-        for (const item of items) {
-          if (item === '.diffcache') continue; 
-          
-          const fullPath = path.join(dir, item);
-          const relativePath = path.relative(this.projectRoot, fullPath);
-          paths.add(relativePath);
-          
-          if (fs.statSync(fullPath).isDirectory()) {
-            scanDirectory(fullPath);
-          }
-        }
-      } catch (error) {
-
-      }
-    };
-    
-    scanDirectory(this.projectRoot);
-    return paths;
-  }
-
-  private getRandomItem<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
-  }
-
-  private generateFileName(): string {
-    const wordCount = Math.floor(Math.random() * 3) + 1;
-    const words: string[] = [];
-    
-    for (let i = 0; i < wordCount; i++) {
-      words.push(this.getRandomItem(WORD_LIBRARY));
+function parseArgs(argv: string[]): Options {
+  const options: Options = { dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (arg === "--network") {
+      options.network = argv[++i];
+      if (!options.network) throw new Error("--network needs a network name");
+    } else if (arg.startsWith("--network=")) {
+      options.network = arg.slice("--network=".length);
+    } else {
+      throw new Error(`Unknown argument "${arg}"; expected --network <name> or --dry-run`);
     }
-    
-    return words.join('-');
-  }
-
-  private generateFileExtension(): string {
-    const extTypes = Object.values(FILE_EXTENSIONS).flat();
-    return this.getRandomItem(extTypes);
-  }
-
-  private generateFolderName(): string {
-    return this.generateFileName();
-  }
-
-  private generateFileContent(filePath: string): string {
-    const ext = path.extname(filePath);
-    
-    switch (ext) {
-      case '.ts':
-      case '.js':
-      case '.tsx':
-      case '.jsx':
-        return this.generateTypeScriptContent();
-      case '.json':
-        return this.generateJSONContent();
-      case '.md':
-        return this.generateMarkdownContent();
-      case '.css':
-      case '.scss':
-        return this.generateStyleContent();
-      case '.sol':
-        return this.generateSolidityContent();
-      default:
-        return `// Auto-generated file: ${filePath}\n// Generated at: ${new Date().toISOString()}`;
-    }
-  }
-
-  private generateTypeScriptContent(): string {
-    const imports = [
-      "import React from 'react';",
-      "import { useState, useEffect } from 'react';",
-      "import { ethers } from 'ethers';",
-      "import axios from 'axios';",
-      "export const config = { runtime: 'edge' };"
-    ];
-    
-    const contents = [
-      `export const ${this.generateFileName()} = () => { return null; };`,
-      `export default function ${this.generateFileName()}() { return <div>Component</div>; }`,
-      `export const use${this.generateFileName()} = () => { return {}; };`,
-      `interface ${this.generateFileName()}Props { data: string }`
-    ];
-    
-    return `${this.getRandomItem(imports)}\n\n${this.getRandomItem(contents)}\n`;
-  }
-
-  private generateJSONContent(): string {
-    const configs = {
-      settings: { theme: "dark", language: "en" },
-      dependencies: { [this.generateFileName()]: "^1.0.0" },
-      rules: { [this.generateFileName()]: "warn" }
-    };
-    
-    return JSON.stringify(this.getRandomItem(Object.values(configs)), null, 2);
   }
+  return options;
+}
 
-  private generateMarkdownContent(): string {
-    return `# ${this.generateFileName()}\n\nThis is an auto-generated documentation file.\n\n## Usage\n\nExample usage goes here.\n\n## Configuration\n\nAdd your configuration details here.`;
-  }
-
-  private generateStyleContent(): string {
-    return `.${this.generateFileName()} {\n  margin: 0;\n  padding: 1rem;\n  background-color: #fff;\n}\n\n.container {\n  max-width: 1200px;\n  margin: 0 auto;\n}`;
-  }
-
-  private generateSolidityContent(): string {
-    return `// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract ${this.generateFileName()} {\n    address public owner;\n    \n    constructor() {\n        owner = msg.sender;\n    }\n    \n    function dummy() public pure returns (uint256) {\n        return 42;\n    }\n}`;
-  }
-
-  private generateUniquePath(baseDir: string, isFile: boolean = true): string {
-    let attempts = 0;
-    let fullPath: string;
-    let relativePath: string;
-    
-    do {
-      const name = isFile ? 
-        `${this.generateFileName()}${this.generateFileExtension()}` : 
-        this.generateFolderName();
-      
-      fullPath = path.join(baseDir, name);
-      relativePath = path.relative(this.projectRoot, fullPath);
-      attempts++;
-    } while (this.existingPaths.has(relativePath) && attempts < 50);
-    
-    this.existingPaths.add(relativePath);
-    return fullPath;
-  }
-
-  private cleanPreviousFiles(): void {
-    if (!fs.existsSync(this.cacheFile)) {
-      console.log("No previous differential files to clean.");
-      return;
-    }
-
-    try {
-      const previousFiles = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as string[];
-      console.log(`Cleaning ${previousFiles.length} previous differential files...`);
-      
-      for (const filePath of previousFiles) {
-        try {
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            console.log(`Deleted: ${filePath}`);
-
-            let dir = path.dirname(filePath);
-            while (dir !== this.projectRoot) {
-              try {
-                const files = fs.readdirSync(dir);
-                if (files.length === 0) {
-                  fs.rmdirSync(dir);
-                  console.log(`Removed empty directory: ${dir}`);
-                  dir = path.dirname(dir);
-                } else {
-                  break;
-                }
-              } catch (error) {
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to delete ${filePath}:`, error);
-        }
-      }
-      
-
-      fs.unlinkSync(this.cacheFile);
-    } catch (error) {
-      console.warn("Error cleaning previous files:", error);
-    }
+async function readArtifact(hre: HardhatRuntimeEnvironment, name: ContractName): Promise<Artifact> {
+  if (name === "UniversalAdapter" && !(await hre.artifacts.artifactExists(name))) {
+    return JSON.parse(fs.readFileSync(UNIVERSAL_ADAPTER_ARTIFACT, "utf8"));
   }
+  return hre.artifacts.readArtifact(name);
+}
 
-  public generateDifferentialFiles(): string[] {
-    this.cleanPreviousFiles();
-    
-    const generatedFiles: string[] = [];
-    const folderCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFolders - DIFF_CONFIG.minFolders + 1)) + DIFF_CONFIG.minFolders;
-    
-    console.log(`Generating ${folderCount} differential folders...`);
-    
-    const generateInDirectory = (currentDir: string, depth: number = 0): void => {
-      if (depth > DIFF_CONFIG.maxDepth) return;
-      
-
-      const fileCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFilesPerFolder - DIFF_CONFIG.minFilesPerFolder + 1)) + DIFF_CONFIG.minFilesPerFolder;
-      
-      for (let i = 0; i < fileCount; i++) {
-        const filePath = this.generateUniquePath(currentDir, true);
-        
-        try {
-          fs.mkdirSync(path.dirname(filePath), { recursive: true });
-          const content = this.generateFileContent(filePath);
-          fs.writeFileSync(filePath, content);
-          generatedFiles.push(filePath);
-          console.log(`Created: ${filePath}`);
-        } catch (error) {
-          console.warn(`Failed to create file ${filePath}:`, error);
-        }
-      }
-      
+async function dryRun(hre: HardhatRuntimeEnvironment, factories: Record<ContractName, ContractFactory>, deployer: Ethers.Signer) {
+  const provider = hre.ethers.provider;
+  const address = await deployer.getAddress();
+  const [balance, nonce, feeData] = await Promise.all([
+    provider.getBalance(address),
+    provider.getTransactionCount(address, "pending"),
+    provider.getFeeData()
+  ]);
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+  let total = 0n;
+  for (const [i, name] of CONTRACT_NAMES.entries()) {
+    const tx = await factories[name].getDeployTransaction();
+    const gas = await provider.estimateGas({ ...tx, from: address });
+    total += gas * gasPrice;
+    const predicted = hre.ethers.getCreateAddress({ from: address, nonce: nonce + i });
+    console.log(`${name}: ~${gas} gas, would deploy at ${predicted}`);
+  }
+  console.log(`Estimated cost: ${hre.ethers.formatEther(total)} ETH at ${hre.ethers.formatUnits(gasPrice, "gwei")} gwei`);
+  console.log(`Deployer balance: ${hre.ethers.formatEther(balance)} ETH`);
+  if (balance < total) {
+    throw new Error("The deployer cannot pay for the deployment");
+  }
+  console.log("Dry run: nothing was sent or written");
+}
 
-      if (depth < DIFF_CONFIG.maxDepth && Math.random() > 0.5) {
-        const subFolderPath = this.generateUniquePath(currentDir, false);
-        
-        try {
-          fs.mkdirSync(subFolderPath, { recursive: true });
-          generatedFiles.push(subFolderPath);
-          console.log(`Created folder: ${subFolderPath}`);
-          generateInDirectory(subFolderPath, depth + 1);
-        } catch (error) {
-          console.warn(`Failed to create folder ${subFolderPath}:`, error);
-        }
-      }
+async function deploy(
+  factories: Record<ContractName, ContractFactory>,
+  artifacts: Record<ContractName, Artifact>,
+  deployer: string
+): Promise<Record<ContractName, ContractDeployment>> {
+  const deployed = {} as Record<ContractName, ContractDeployment>;
+  for (const name of CONTRACT_NAMES) {
+    const contract = await factories[name].deploy();
+    const receipt = await contract.deploymentTransaction()!.wait();
+    if (!receipt) throw new Error(`The ${name} deployment was dropped`);
+    deployed[name] = {
+      address: await contract.getAddress(),
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+      deployer,
+      abiHash: abiHash(artifacts[name].abi)
     };
-    
-
-    const baseDirs = [
-      this.projectRoot,
-      path.join(this.projectRoot, 'src'),
-      path.join(this.projectRoot, 'frontend', 'web', 'src')
-    ];
-    
-    for (const baseDir of baseDirs) {
-      if (fs.existsSync(baseDir)) {
-        for (let i = 0; i < Math.ceil(folderCount / baseDirs.length); i++) {
-          generateInDirectory(baseDir);
-        }
-      }
-    }
-    
-
-    if (generatedFiles.length > 0) {
-      fs.writeFileSync(this.cacheFile, JSON.stringify(generatedFiles, null, 2));
-      console.log(`Generated ${generatedFiles.length} differential files. Cache saved to: ${this.cacheFile}`);
-    }
-    
-    return generatedFiles;
+    console.log(`${name} deployed at ${deployed[name].address} (block ${receipt.blockNumber})`);
   }
+  return deployed;
 }
 
-async function ask(prompt: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise<string>((resolve) =>
-    rl.question(prompt, (ans) => {
-      rl.close();
-      resolve(ans.trim());
-    })
-  );
+/** Records the chain's contracts in the manifest, keeping the entries of other chains. */
+function recordDeployment(chainId: number, network: string, contracts: Record<ContractName, ContractDeployment>) {
+  const manifest: DeploymentsManifest = JSON.parse(fs.readFileSync(MANIFEST, "utf8"));
+  manifest[String(chainId)] = { network, contracts };
+  // Chains in numeric order keep diffs of the manifest small
+  const sorted = Object.fromEntries(Object.entries(manifest).sort(([a], [b]) => Number(a) - Number(b)));
+  fs.writeFileSync(MANIFEST, JSON.stringify(sorted, null, 2) + "\n");
+  console.log(`Recorded chain ${chainId} in ${path.relative(ROOT, MANIFEST)}`);
 }
 
 async function main() {
-  const projectRoot = path.join(__dirname, "..");
-  
-
-  console.log("=== Generating Differential Files ===");
-  const generator = new DifferentialGenerator(projectRoot);
-  generator.generateDifferentialFiles();
-  console.log("=== Differential Files Generation Complete ===\n");
-
+  const options = parseArgs(process.argv.slice(2));
+  if (options.network) process.env.HARDHAT_NETWORK = options.network;
+  // Loaded after HARDHAT_NETWORK is set, which picks the network the runtime connects to
+  const hre: HardhatRuntimeEnvironment = await import("hardhat");
+  const network = hre.network.name;
 
-  const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
+  await hre.run("compile", { quiet: true });
 
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
-
-  console.log("Deployer account:", wallet.address);
-
-  // Deploy the plain UniversalAdapter contract
-  const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-  const factory = await UniversalAdapterFactory.deploy();
-  await factory.waitForDeployment();
+  const [deployer] = await hre.ethers.getSigners();
+  if (!deployer) {
+    throw new Error(`No account configured for ${network}; set DEPLOYER_PRIVATE_KEY`);
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  console.log(`Deploying to ${network} (chain ${chainId}) from ${deployer.address}`);
 
-  const deployedAddress = (factory as any).target || (factory as any).address;
-  console.log("UniversalAdapter contract deployed at:", deployedAddress);
+  const artifacts = {} as Record<ContractName, Artifact>;
+  const factories = {} as Record<ContractName, ContractFactory>;
+  for (const name of CONTRACT_NAMES) {
+    artifacts[name] = await readArtifact(hre, name);
+    factories[name] = await hre.ethers.getContractFactory(artifacts[name].abi, artifacts[name].bytecode, deployer);
+  }
 
-  // Write config for the frontend
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
-  } else {
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
-    };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+  if (options.dryRun) {
+    await dryRun(hre, factories, deployer);
+    return;
+  }
 
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
-    }
+  const contracts = await deploy(factories, artifacts, deployer.address);
+  if (network === "hardhat") {
+    // The in-process network disappears with this process
+    console.log("Not recording a deployment to the in-process hardhat network; use --network localhost");
+    return;
   }
+  recordDeployment(Number(chainId), network, contracts);
 }
 
-main().catch((e) => {
-  console.error(e);
+main().catch(e => {
+  console.error(e.message ?? e);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -1,20 +1,77 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { config, getContractReadOnly } from "./contract";
+import { FheInitError, getFhevmInstance } from "./fhe";
+import { getVaultClientWithSigner, RELEASE_KINDS, VaultError } from "./vaultClient";
+import { emptyProjection, getCachedProjection, getVaultIndexer, Projection } from "./indexer";
+import { attestationStatus } from "./attestation";
+import { executionExpired } from "./executor";
+import { ConditionLeaf, defaultExpression, requiredLeaves, validateExpression } from "./conditions";
+import { guardianConfigFromInput } from "./guardians";
+import { DAY_SECONDS, DEFAULT_INACTIVITY, inactivityFromDays } from "./inactivity";
+import { emptyShareInput, knownShares, sharesFromInput } from "./shares";
+import { claimPolicyFromDays } from "./succession";
+import { emptyUnlockTime, unlockTimeFromInput } from "./timeLock";
+import {
+  ASSET_TYPES,
+  createVaultItem,
+  InheritanceItem,
+  isReleaseKind,
+  ItemEdit,
+  RELEASE_KIND_LABELS,
+  toInheritanceItem,
+  updateVaultItem
+} from "./vaultModel";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import MigrationPanel from "./components/MigrationPanel";
+import AttestationHistory from "./components/AttestationHistory";
+import BeneficiaryInbox from "./components/BeneficiaryInbox";
+import BeneficiaryPicker from "./components/BeneficiaryPicker";
+import ClaimPolicyPicker, { ClaimPolicyInput } from "./components/ClaimPolicyPicker";
+import ConditionBuilder from "./components/ConditionBuilder";
+import ConditionReport from "./components/ConditionReport";
+import ExpiringVaults from "./components/ExpiringVaults";
+import ExecutorDashboard from "./components/ExecutorDashboard";
+import GuardianConsole from "./components/GuardianConsole";
+import GuardianPicker from "./components/GuardianPicker";
+import InactivityCountdown from "./components/InactivityCountdown";
+import InactivityPanel from "./components/InactivityPanel";
+import InactivityPicker from "./components/InactivityPicker";
+import ModalEditItem from "./components/ModalEditItem";
+import ModalDecryption from "./components/ModalDecryption";
+import ModalGuardianApprovals from "./components/ModalGuardianApprovals";
+import NotaryAttestationForm from "./components/NotaryAttestationForm";
+import NotaryConsole from "./components/NotaryConsole";
+import ShareVerification from "./components/ShareVerification";
+import SimulatePanel from "./components/SimulatePanel";
+import SuccessionChain from "./components/SuccessionChain";
+import TimeLockCountdown from "./components/TimeLockCountdown";
+import UnlockTimePicker from "./components/UnlockTimePicker";
+import VersionHistory from "./components/VersionHistory";
 import "./App.css";
 
-interface InheritanceItem {
-  id: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
-  assetType: string;
-  beneficiary: string;
-  unlockCondition: string;
-}
+const REFRESH_INTERVAL_MS = 60_000;
+
+const defaultInactivityDays = () => ({
+  window: String(DEFAULT_INACTIVITY.window / DAY_SECONDS),
+  gracePeriod: String(DEFAULT_INACTIVITY.gracePeriod / DAY_SECONDS)
+});
+
+const defaultClaimPolicyInput = (): ClaimPolicyInput => ({ days: "", lapseRule: "SplitEqually" });
+
+const usesLeaf = (item: InheritanceItem, leaf: ConditionLeaf) =>
+  requiredLeaves(item.unlockCondition, item.expression).has(leaf);
+
+// Shares are encrypted on-chain; only those set from this browser are known
+const knownShare = (item: InheritanceItem, index: number): number | undefined =>
+  knownShares(config.vaultContractAddress, item.id)[index];
+
+const txErrorMessage = (e: any, action: string) =>
+  (e instanceof VaultError && e.code === "USER_REJECTED") || e.message?.includes("user rejected transaction")
+    ? "Transaction rejected by user"
+    : `${action} failed: ` + (e.message || "Unknown error");
 
 const App: React.FC = () => {
   // Randomized style selections
@@ -26,11 +83,20 @@ const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [vaultItems, setVaultItems] = useState<InheritanceItem[]>([]);
+  const [attestations, setAttestations] = useState<Projection["attestations"]>({});
+  const [roles, setRoles] = useState<Projection["roles"]>(() => emptyProjection().roles);
+  const [indexedBlock, setIndexedBlock] = useState(-1);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<InheritanceItem | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [successionItemId, setSuccessionItemId] = useState<string | null>(null);
+  const [decryptingItem, setDecryptingItem] = useState<InheritanceItem | null>(null);
+  const [approvingItem, setApprovingItem] = useState<InheritanceItem | null>(null);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
@@ -39,20 +105,28 @@ const App: React.FC = () => {
   const [newItemData, setNewItemData] = useState({
     assetType: "",
     description: "",
-    beneficiary: "",
+    beneficiaries: emptyShareInput(),
     unlockCondition: "",
-    sensitiveData: ""
+    unlockTime: emptyUnlockTime(),
+    inactivityDays: defaultInactivityDays(),
+    guardianInput: { addresses: "", threshold: "1" },
+    claimPolicyInput: defaultClaimPolicyInput(),
+    expression: defaultExpression(),
+    assetValue: "",
+    accessKey: ""
   });
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedAssetType, setSelectedAssetType] = useState("all");
 
   // Randomly selected additional features: Search & Filter, Data Statistics
   
-  const assetTypes = ["Crypto", "NFT", "Document", "Credentials", "Other"];
+  const assetTypes = ASSET_TYPES;
   
+  // Types are encrypted on-chain; only those revealed or set from this browser are known
   const filteredItems = vaultItems.filter(item => {
     const matchesSearch = item.assetType.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                         item.beneficiary.toLowerCase().includes(searchTerm.toLowerCase());
+                         item.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         item.beneficiaries.some(b => b.toLowerCase().includes(searchTerm.toLowerCase()));
     const matchesType = selectedAssetType === "all" || item.assetType === selectedAssetType;
     return matchesSearch && matchesType;
   });
@@ -62,7 +136,9 @@ const App: React.FC = () => {
   const docCount = vaultItems.filter(i => i.assetType === "Document").length;
 
   useEffect(() => {
-    loadVaultItems().finally(() => setLoading(false));
+    showCachedItems().then(loadVaultItems);
+    const timer = setInterval(loadVaultItems, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
   }, []);
 
   const onWalletSelect = async (wallet: any) => {
@@ -89,58 +165,29 @@ const App: React.FC = () => {
     setProvider(null);
   };
 
+  const showProjection = (projection: Projection) => {
+    const list = Object.values(projection.vaults).map(vault => toInheritanceItem(vault, projection));
+    list.sort((a, b) => b.timestamp - a.timestamp);
+    setVaultItems(list);
+    setAttestations(projection.attestations);
+    setRoles(projection.roles);
+    setIndexedBlock(projection.lastBlock);
+  };
+
+  // Cached items are shown right away and replaced once the index has caught up
+  const showCachedItems = async () => {
+    const cached = await getCachedProjection();
+    if (cached) {
+      showProjection(cached);
+      setLoading(false);
+    }
+  };
+
   const loadVaultItems = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("vault_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing vault keys:", e);
-        }
-      }
-      
-      const list: InheritanceItem[] = [];
-      
-      for (const key of keys) {
-        try {
-          const itemBytes = await contract.getData(`vault_${key}`);
-          if (itemBytes.length > 0) {
-            try {
-              const itemData = JSON.parse(ethers.toUtf8String(itemBytes));
-              list.push({
-                id: key,
-                encryptedData: itemData.data,
-                timestamp: itemData.timestamp,
-                owner: itemData.owner,
-                assetType: itemData.assetType,
-                beneficiary: itemData.beneficiary,
-                unlockCondition: itemData.unlockCondition
-              });
-            } catch (e) {
-              console.error(`Error parsing item data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading item ${key}:`, e);
-        }
-      }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setVaultItems(list);
+      const indexer = await getVaultIndexer();
+      showProjection(await indexer.sync());
     } catch (e) {
       console.error("Error loading vault items:", e);
     } finally {
@@ -163,47 +210,40 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newItemData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      if (!isReleaseKind(newItemData.unlockCondition)) {
+        throw new Error(`Unknown unlock condition "${newItemData.unlockCondition}"`);
       }
+      const leaves = requiredLeaves(newItemData.unlockCondition, newItemData.expression);
+      const releaseTime = leaves.has("time") ? unlockTimeFromInput(newItemData.unlockTime) : 0;
+      const inactivity = leaves.has("inactivity")
+        ? inactivityFromDays(newItemData.inactivityDays.window, newItemData.inactivityDays.gracePeriod)
+        : null;
+      const guardians = leaves.has("guardians")
+        ? guardianConfigFromInput(newItemData.guardianInput.addresses, newItemData.guardianInput.threshold)
+        : null;
       
-      const itemId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const itemData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        assetType: newItemData.assetType,
-        beneficiary: newItemData.beneficiary,
-        unlockCondition: newItemData.unlockCondition
-      };
+      const { chainId } = await provider.getNetwork();
+      const instance = await getFhevmInstance(Number(chainId));
+      const vault = await getVaultClientWithSigner();
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `vault_${itemId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(itemData))
-      );
-      
-      const keysBytes = await contract.getData("vault_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(itemId);
-      
-      await contract.setData(
-        "vault_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      await createVaultItem(
+        vault,
+        instance,
+        account,
+        {
+          assetType: newItemData.assetType,
+          description: newItemData.description,
+          assetValue: BigInt(newItemData.assetValue),
+          accessKey: BigInt(newItemData.accessKey),
+          beneficiaries: sharesFromInput(newItemData.beneficiaries),
+          unlockCondition: newItemData.unlockCondition,
+          releaseTime,
+          inactivity,
+          guardians,
+          expression: newItemData.unlockCondition === "Expression" ? newItemData.expression : null,
+          claimPolicy: claimPolicyFromDays(newItemData.claimPolicyInput.days, newItemData.claimPolicyInput.lapseRule)
+        },
+        message => setTransactionStatus({ visible: true, status: "pending", message })
       );
       
       setTransactionStatus({
@@ -220,15 +260,25 @@ const App: React.FC = () => {
         setNewItemData({
           assetType: "",
           description: "",
-          beneficiary: "",
+          beneficiaries: emptyShareInput(),
           unlockCondition: "",
-          sensitiveData: ""
+          unlockTime: emptyUnlockTime(),
+          inactivityDays: defaultInactivityDays(),
+          guardianInput: { addresses: "", threshold: "1" },
+          claimPolicyInput: defaultClaimPolicyInput(),
+          expression: defaultExpression(),
+          assetValue: "",
+          accessKey: ""
         });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
+      let errorMessage: string;
+      if (e instanceof FheInitError) {
+        console.error("FHE initialization failed:", e);
+        errorMessage = "FHE unavailable, nothing was submitted: " + e.message;
+      } else {
+        errorMessage = txErrorMessage(e, "Submission");
+      }
       
       setTransactionStatus({
         visible: true,
@@ -244,6 +294,69 @@ const App: React.FC = () => {
     }
   };
 
+  const showTransientStatus = (status: "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    setTimeout(() => {
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    }, status === "success" ? 2000 : 3000);
+  };
+
+  const saveItemEdit = async (edit: ItemEdit) => {
+    if (!editingItem) return;
+    
+    setSavingEdit(true);
+    try {
+      const vault = await getVaultClientWithSigner();
+      let instance = null;
+      if (edit.releaseTime !== undefined && provider) {
+        const { chainId } = await provider.getNetwork();
+        instance = await getFhevmInstance(Number(chainId));
+      }
+      const sent = await updateVaultItem(
+        vault,
+        instance,
+        account,
+        editingItem,
+        edit,
+        message => setTransactionStatus({ visible: true, status: "pending", message })
+      );
+      
+      setEditingItem(null);
+      showTransientStatus("success", sent > 0 ? "Item updated, new version recorded" : "Nothing to change");
+      if (sent > 0) await loadVaultItems();
+    } catch (e: any) {
+      showTransientStatus("error", txErrorMessage(e, "Update"));
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const revokeItem = async (item: InheritanceItem) => {
+    if (!window.confirm(`Revoke item #${item.id}? It can never be executed or edited again.`)) return;
+    
+    setTransactionStatus({ visible: true, status: "pending", message: "Revoking item..." });
+    try {
+      const vault = await getVaultClientWithSigner();
+      await vault.revokeVault(BigInt(item.id));
+      showTransientStatus("success", "Item revoked");
+      await loadVaultItems();
+    } catch (e: any) {
+      showTransientStatus("error", txErrorMessage(e, "Revoke"));
+    }
+  };
+
+  const expireExecution = async (item: InheritanceItem) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Expiring unanswered execution..." });
+    try {
+      const vault = await getVaultClientWithSigner();
+      await vault.expireExecution(BigInt(item.id));
+      showTransientStatus("success", "Execution expired; the item can be edited again");
+      await loadVaultItems();
+    } catch (e: any) {
+      showTransientStatus("error", txErrorMessage(e, "Expiry"));
+    }
+  };
+
   const checkAvailability = async () => {
     try {
       const contract = await getContractReadOnly();
@@ -365,8 +478,54 @@ const App: React.FC = () => {
               </select>
             </div>
           </div>
+          
+          {account && (
+            <InactivityPanel account={account} items={vaultItems} onCheckedIn={loadVaultItems} />
+          )}
         </div>
         
+        {account && provider && (
+          <MigrationPanel account={account} provider={provider} onMigrated={loadVaultItems} />
+        )}
+        
+        {account && (
+          <ExpiringVaults account={account} items={vaultItems} />
+        )}
+        
+        {account && provider && (
+          <ExecutorDashboard
+            account={account}
+            provider={provider}
+            items={vaultItems}
+            blockNumber={indexedBlock}
+            onExecuted={loadVaultItems}
+          />
+        )}
+        
+        {account && provider && (
+          <GuardianConsole account={account} provider={provider} items={vaultItems} />
+        )}
+        
+        {account && (
+          <NotaryConsole account={account} roles={roles} onChanged={loadVaultItems} />
+        )}
+        
+        {account && (
+          <NotaryAttestationForm account={account} onAttested={loadVaultItems} />
+        )}
+        
+        {account && (
+          <AttestationHistory account={account} attestations={attestations} onObjected={loadVaultItems} />
+        )}
+        
+        {account && (
+          <SimulatePanel account={account} items={vaultItems} />
+        )}
+        
+        {account && provider && (
+          <BeneficiaryInbox account={account} provider={provider} items={vaultItems} />
+        )}
+        
         <div className="assets-section">
           <div className="section-header">
             <h2>Your Encrypted Assets</h2>
@@ -401,31 +560,139 @@ const App: React.FC = () => {
                     <div className="asset-id">#{item.id.substring(0, 6)}</div>
                   </div>
                   <div className="asset-details">
+                    {item.description && (
+                      <div className="detail-row">
+                        <span>Description:</span>
+                        <span>{item.description}</span>
+                      </div>
+                    )}
                     <div className="detail-row">
                       <span>Owner:</span>
                       <span>{item.owner.substring(0, 6)}...{item.owner.substring(38)}</span>
                     </div>
                     <div className="detail-row">
-                      <span>Beneficiary:</span>
-                      <span>{item.beneficiary.substring(0, 6)}...{item.beneficiary.substring(38)}</span>
+                      <span>{item.beneficiaries.length > 1 ? "Beneficiaries:" : "Beneficiary:"}</span>
+                      <span className="beneficiary-list">
+                        {item.beneficiaries.map((beneficiary, i) => (
+                          <span key={i}>
+                            {beneficiary.substring(0, 6)}...{beneficiary.substring(38)}
+                            {knownShare(item, i) !== undefined && ` (${knownShare(item, i)}%)`}
+                          </span>
+                        ))}
+                      </span>
+                    </div>
+                    <div className="detail-row">
+                      <span>Shares:</span>
+                      <ShareVerification item={item} provider={provider} />
                     </div>
                     <div className="detail-row">
                       <span>Unlock Condition:</span>
                       <span>{item.unlockCondition}</span>
                     </div>
+                    {item.unlockCondition === "Expression" && (
+                      <div className="detail-row">
+                        <span>Unlock Expression:</span>
+                        <ConditionReport item={item} />
+                      </div>
+                    )}
+                    {usesLeaf(item, "time") && item.isActive && (
+                      <div className="detail-row">
+                        <span>Unlocks In:</span>
+                        <TimeLockCountdown item={item} account={account} provider={provider} />
+                      </div>
+                    )}
+                    {usesLeaf(item, "inactivity") && item.isActive && (
+                      <div className="detail-row">
+                        <span>Executable In:</span>
+                        <InactivityCountdown item={item} />
+                      </div>
+                    )}
+                    {usesLeaf(item, "guardians") && (
+                      <div className="detail-row">
+                        <span>Guardians:</span>
+                        <span>
+                          {item.guardians
+                            ? `${item.guardians.threshold} of ${item.guardians.guardians.length}${item.guardians.approved ? ", approved" : ""}`
+                            : "Not configured"}
+                        </span>
+                      </div>
+                    )}
+                    {usesLeaf(item, "attestation") && (
+                      <div className="detail-row">
+                        <span>Death Certificate:</span>
+                        <span>
+                          {!item.attestation
+                            ? "Not attested"
+                            : attestationStatus(item.attestation) === "final"
+                              ? `Final (${item.attestation.jurisdiction})`
+                              : `In objection window until ${new Date(item.attestation.finalAt * 1000).toLocaleString()}`}
+                        </span>
+                      </div>
+                    )}
                     <div className="detail-row">
                       <span>Date Added:</span>
                       <span>{new Date(item.timestamp * 1000).toLocaleDateString()}</span>
                     </div>
+                    {item.revoked && (
+                      <div className="detail-row">
+                        <span>Status:</span>
+                        <span>Revoked</span>
+                      </div>
+                    )}
                   </div>
+                  {historyItemId === item.id && <VersionHistory history={item.history} />}
+                  {successionItemId === item.id && (
+                    <SuccessionChain item={item} account={account} provider={provider} onChanged={loadVaultItems} />
+                  )}
                   <div className="asset-actions">
+                    <button 
+                      className="action-btn cyber-button"
+                      onClick={() => setHistoryItemId(historyItemId === item.id ? null : item.id)}
+                    >
+                      History (v{item.history.length})
+                    </button>
+                    <button 
+                      className="action-btn cyber-button"
+                      onClick={() => setSuccessionItemId(successionItemId === item.id ? null : item.id)}
+                    >
+                      Succession
+                    </button>
+                    {isOwner(item.owner) && item.isActive && !item.executionPending && (
+                      <>
+                        <button 
+                          className="action-btn cyber-button"
+                          onClick={() => setEditingItem(item)}
+                        >
+                          Edit
+                        </button>
+                        <button 
+                          className="action-btn cyber-button"
+                          onClick={() => revokeItem(item)}
+                        >
+                          Revoke
+                        </button>
+                      </>
+                    )}
+                    {isOwner(item.owner) && executionExpired(item, indexedBlock) && (
+                      <button 
+                        className="action-btn cyber-button"
+                        onClick={() => expireExecution(item)}
+                      >
+                        Expire Execution
+                      </button>
+                    )}
+                    {usesLeaf(item, "guardians") && item.guardians && !item.guardians.approved && item.isActive && provider && (
+                      <button 
+                        className="action-btn cyber-button"
+                        onClick={() => setApprovingItem(item)}
+                      >
+                        Approvals
+                      </button>
+                    )}
                     {isOwner(item.owner) && (
                       <button 
                         className="action-btn cyber-button"
-                        onClick={() => {
-                          // Placeholder for future functionality
-                          alert("FHE verification will execute when conditions are met");
-                        }}
+                        onClick={() => setDecryptingItem(item)}
                       >
                         Check Status
                       </button>
@@ -449,6 +716,33 @@ const App: React.FC = () => {
         />
       )}
       
+      {editingItem && (
+        <ModalEditItem
+          item={editingItem}
+          saving={savingEdit}
+          onSave={saveItemEdit}
+          onClose={() => setEditingItem(null)}
+        />
+      )}
+      
+      {decryptingItem && provider && (
+        <ModalDecryption
+          item={decryptingItem}
+          provider={provider}
+          onDecrypted={loadVaultItems}
+          onClose={() => setDecryptingItem(null)}
+        />
+      )}
+      
+      {approvingItem && provider && (
+        <ModalGuardianApprovals
+          item={approvingItem}
+          provider={provider}
+          onSubmitted={loadVaultItems}
+          onClose={() => setApprovingItem(null)}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -502,6 +796,8 @@ const App: React.FC = () => {
   );
 };
 
+const isUint32 = (value: string) => /^\d+$/.test(value) && BigInt(value) <= 0xffffffffn;
+
 interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
@@ -519,6 +815,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   setItemData,
   assetTypes
 }) => {
+  // Settings the chosen condition needs, e.g. the leaves of an expression
+  const leaves = isReleaseKind(itemData.unlockCondition)
+    ? requiredLeaves(itemData.unlockCondition, itemData.expression)
+    : new Set<ConditionLeaf>();
+  
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setItemData({
@@ -528,11 +829,59 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   };
 
   const handleSubmit = () => {
-    if (!itemData.assetType || !itemData.beneficiary || !itemData.unlockCondition || !itemData.sensitiveData) {
+    if (!itemData.assetType || !itemData.unlockCondition || !itemData.assetValue || !itemData.accessKey) {
       alert("Please fill required fields");
       return;
     }
     
+    if (itemData.unlockCondition === "Expression") {
+      const problem = validateExpression(itemData.expression);
+      if (problem) {
+        alert(problem);
+        return;
+      }
+    }
+    
+    if (leaves.has("time")) {
+      try {
+        unlockTimeFromInput(itemData.unlockTime);
+      } catch (e: any) {
+        alert(e.message);
+        return;
+      }
+    }
+    
+    if (leaves.has("inactivity")) {
+      try {
+        inactivityFromDays(itemData.inactivityDays.window, itemData.inactivityDays.gracePeriod);
+      } catch (e: any) {
+        alert(e.message);
+        return;
+      }
+    }
+    
+    if (leaves.has("guardians")) {
+      try {
+        guardianConfigFromInput(itemData.guardianInput.addresses, itemData.guardianInput.threshold);
+      } catch (e: any) {
+        alert(e.message);
+        return;
+      }
+    }
+    
+    try {
+      sharesFromInput(itemData.beneficiaries);
+      claimPolicyFromDays(itemData.claimPolicyInput.days, itemData.claimPolicyInput.lapseRule);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    
+    if (!isUint32(itemData.assetValue) || !isUint32(itemData.accessKey)) {
+      alert("Asset value and access key must be whole numbers between 0 and 4294967295");
+      return;
+    }
+    
     onSubmit();
   };
 
@@ -572,22 +921,15 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 name="description"
                 value={itemData.description} 
                 onChange={handleChange}
-                placeholder="Brief description..." 
+                placeholder="Brief description, kept in this browser only..." 
                 className="cyber-input"
               />
             </div>
             
-            <div className="form-group">
-              <label>Beneficiary Address *</label>
-              <input 
-                type="text"
-                name="beneficiary"
-                value={itemData.beneficiary} 
-                onChange={handleChange}
-                placeholder="0x..." 
-                className="cyber-input"
-              />
-            </div>
+            <BeneficiaryPicker
+              value={itemData.beneficiaries}
+              onChange={(beneficiaries) => setItemData({ ...itemData, beneficiaries })}
+            />
             
             <div className="form-group">
               <label>Unlock Condition *</label>
@@ -598,22 +940,68 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 className="cyber-select"
               >
                 <option value="">Select condition</option>
-                <option value="TimeLock">Time Lock (after date)</option>
-                <option value="Inactivity">Inactivity Period</option>
-                <option value="MultiSig">Multi-Signature Approval</option>
-                <option value="DeathCert">Death Certificate Verification</option>
+                {RELEASE_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{RELEASE_KIND_LABELS[kind]}</option>
+                ))}
               </select>
             </div>
             
-            <div className="form-group full-width">
-              <label>Sensitive Data *</label>
-              <textarea 
-                name="sensitiveData"
-                value={itemData.sensitiveData} 
+            {itemData.unlockCondition === "Expression" && (
+              <ConditionBuilder
+                value={itemData.expression}
+                onChange={(expression) => setItemData({ ...itemData, expression })}
+              />
+            )}
+            
+            {leaves.has("time") && (
+              <UnlockTimePicker
+                value={itemData.unlockTime}
+                onChange={(unlockTime) => setItemData({ ...itemData, unlockTime })}
+              />
+            )}
+            
+            {leaves.has("inactivity") && (
+              <InactivityPicker
+                value={itemData.inactivityDays}
+                onChange={(inactivityDays) => setItemData({ ...itemData, inactivityDays })}
+              />
+            )}
+            
+            {leaves.has("guardians") && (
+              <GuardianPicker
+                value={itemData.guardianInput}
+                onChange={(guardianInput) => setItemData({ ...itemData, guardianInput })}
+              />
+            )}
+            
+            <ClaimPolicyPicker
+              value={itemData.claimPolicyInput}
+              onChange={(claimPolicyInput) => setItemData({ ...itemData, claimPolicyInput })}
+            />
+            
+            <div className="form-group">
+              <label>Asset Value *</label>
+              <input 
+                type="number"
+                name="assetValue"
+                min={0}
+                value={itemData.assetValue} 
                 onChange={handleChange}
-                placeholder="Enter sensitive data to encrypt..." 
-                className="cyber-textarea"
-                rows={4}
+                placeholder="Estimated value..." 
+                className="cyber-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Access Key *</label>
+              <input 
+                type="password"
+                inputMode="numeric"
+                name="accessKey"
+                value={itemData.accessKey} 
+                onChange={handleChange}
+                placeholder="Numeric secret to encrypt..." 
+                className="cyber-input"
               />
             </div>
           </div>
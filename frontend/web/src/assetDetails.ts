@@ -0,0 +1,21 @@
+// assetDetails.ts
+// The asset type is encrypted on-chain until the owner reveals it, and the
+// description never leaves the browser. Like shares and release times, the
+// owner's browser that created a vault remembers both to label and filter it.
+import { readVaultValue, writeVaultValue } from "./vaultStore";
+
+const ASSET_DETAILS_KEY = "vault_asset_details";
+
+export interface AssetDetails {
+  assetType: string;
+  /** Free text from the create form, empty if none was given. */
+  description: string;
+}
+
+export function rememberAssetDetails(vaultAddress: string, vaultId: string, details: AssetDetails): void {
+  writeVaultValue(ASSET_DETAILS_KEY, vaultAddress, vaultId, details);
+}
+
+export function knownAssetDetails(vaultAddress: string, vaultId: string): AssetDetails | null {
+  return readVaultValue<AssetDetails>(ASSET_DETAILS_KEY, vaultAddress, vaultId) ?? null;
+}
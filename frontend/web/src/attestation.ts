@@ -0,0 +1,63 @@
+// attestation.ts
+// Death certificate attestations for DeathCert vaults. The notary records the
+// certificate's hash, jurisdiction, issue date and signer for an owner. Until
+// finalAt the owner, an executor or the notary can object; after that every
+// DeathCert vault of the owner can be executed.
+import { ethers } from "ethers";
+import type { AttestationProjection } from "./indexer";
+import type { AttestationInput } from "./vaultClient";
+
+export type AttestationStatus = "pending" | "final" | "objected";
+
+export function attestationStatus(
+  attestation: AttestationProjection,
+  now = Math.floor(Date.now() / 1000)
+): AttestationStatus {
+  if (attestation.objection) return "objected";
+  return now >= attestation.finalAt ? "final" : "pending";
+}
+
+/** The attestation that has not been objected to, if any; the contract allows one at a time. */
+export const activeAttestation = (history: readonly AttestationProjection[] = []) =>
+  history.find(a => !a.objection) ?? null;
+
+/** keccak256 of a certificate file, computed locally so the document never leaves the browser. */
+export async function hashDocument(file: File): Promise<string> {
+  return ethers.keccak256(new Uint8Array(await file.arrayBuffer()));
+}
+
+/** Attestation form input; `issuedDate` is a `date` input value. */
+export interface AttestationForm {
+  documentHash: string;
+  jurisdiction: string;
+  issuedDate: string;
+  signer: string;
+}
+
+export const emptyAttestationForm = (): AttestationForm => ({
+  documentHash: "",
+  jurisdiction: "",
+  issuedDate: "",
+  signer: ""
+});
+
+/** Converts form input into an attestation, throwing if the contract would reject it. */
+export function attestationFromInput(form: AttestationForm): AttestationInput {
+  if (!ethers.isHexString(form.documentHash, 32) || /^0x0+$/.test(form.documentHash)) {
+    throw new Error("Document hash must be a 32-byte hex value");
+  }
+  if (!form.jurisdiction.trim()) {
+    throw new Error("Please enter the issuing jurisdiction");
+  }
+  if (!ethers.isAddress(form.signer)) {
+    throw new Error("Certificate signer must be a valid address");
+  }
+  const issuedAt = Math.floor(Date.parse(`${form.issuedDate}T00:00:00Z`) / 1000);
+  if (!Number.isFinite(issuedAt)) {
+    throw new Error("Please choose the issue date");
+  }
+  if (issuedAt > Date.now() / 1000) {
+    throw new Error("Issue date cannot be in the future");
+  }
+  return { documentHash: form.documentHash, jurisdiction: form.jurisdiction.trim(), issuedAt, signer: form.signer };
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\backend\gateway-factory-layouts\config-responsive-database.java
-// Generated at: 2025-10-11T03:35:52.896Z
\ No newline at end of file
@@ -0,0 +1,118 @@
+// cache.ts
+// IndexedDB persistence for the vault index. Entries are keyed by chain id
+// and contract addresses, so a redeploy (a new address in deployments.json)
+// starts from an empty index and the old deployment's entry is dropped.
+import type { IndexSnapshot, SnapshotStore } from "./indexer";
+
+const DB_NAME = "digital-vault";
+const DB_VERSION = 1;
+const STORE_NAME = "vault_index";
+// Bump when the projection format changes so stale snapshots are rebuilt
+const SNAPSHOT_VERSION = 10;
+
+interface CacheEntry {
+  key: string;
+  chainId: number;
+  vaultAddress: string;
+  adapterAddress: string;
+  version: number;
+  snapshot: IndexSnapshot;
+  updatedAt: number;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        store.createIndex("chainId", "chainId");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch(e => {
+      db = null;
+      throw e;
+    });
+  }
+  return db;
+}
+
+/**
+ * Snapshot store for one deployment. Storage failures are logged and the
+ * indexer carries on without persistence, as it would on a first visit.
+ */
+export class IndexedDbSnapshotStore implements SnapshotStore {
+  readonly chainId: number;
+  readonly vaultAddress: string;
+  readonly adapterAddress: string;
+  readonly key: string;
+
+  constructor(chainId: number, vaultAddress: string, adapterAddress: string | null) {
+    this.chainId = chainId;
+    this.vaultAddress = vaultAddress.toLowerCase();
+    this.adapterAddress = (adapterAddress || "").toLowerCase();
+    this.key = `${chainId}:${this.vaultAddress}:${this.adapterAddress}`;
+  }
+
+  async load(): Promise<IndexSnapshot | null> {
+    try {
+      const store = (await openDb()).transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+      const entry: CacheEntry | undefined = await request(store.get(this.key));
+      return entry && entry.version === SNAPSHOT_VERSION ? entry.snapshot : null;
+    } catch (e) {
+      console.warn("Could not read the vault cache:", e);
+      return null;
+    }
+  }
+
+  async save(snapshot: IndexSnapshot): Promise<void> {
+    const entry: CacheEntry = {
+      key: this.key,
+      chainId: this.chainId,
+      vaultAddress: this.vaultAddress,
+      adapterAddress: this.adapterAddress,
+      version: SNAPSHOT_VERSION,
+      snapshot,
+      updatedAt: Date.now()
+    };
+    try {
+      const store = (await openDb()).transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+      await request(store.put(entry));
+    } catch (e) {
+      console.warn("Could not write the vault cache:", e);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const store = (await openDb()).transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+      await request(store.delete(this.key));
+    } catch (e) {
+      console.warn("Could not clear the vault cache:", e);
+    }
+  }
+
+  /** Deletes the entries of other deployments on the same chain. */
+  async pruneOtherDeployments(): Promise<void> {
+    try {
+      const store = (await openDb()).transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+      const keys = await request(store.index("chainId").getAllKeys(this.chainId));
+      await Promise.all(keys.filter(key => key !== this.key).map(key => request(store.delete(key))));
+    } catch (e) {
+      console.warn("Could not prune the vault cache:", e);
+    }
+  }
+}
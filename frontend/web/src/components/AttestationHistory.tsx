@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { normAddr } from '../contract';
+import { attestationStatus } from '../attestation';
+import type { AttestationProjection, Projection } from '../indexer';
+import { formatCountdown } from '../timeLock';
+import { getVaultClientReadOnly, getVaultClientWithSigner, VaultError } from '../vaultClient';
+
+interface AttestationHistoryProps {
+  account: string;
+  attestations: Projection['attestations'];
+  onObjected: () => void;
+}
+
+const STATUS_LABELS = {
+  'pending': 'In objection window',
+  'final': 'Final',
+  'objected': 'Objected'
+};
+
+/** Every death attestation submitted for an owner, with objections. */
+export default function AttestationHistory({ account, attestations, onObjected }: AttestationHistoryProps) {
+  const [owner, setOwner] = useState(account);
+  const [mayObject, setMayObject] = useState(false);
+  const [objectingId, setObjectingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => setOwner(account), [account]);
+
+  // The owner can always object; the notary and executors on behalf of anyone
+  useEffect(() => {
+    let cancelled = false;
+    getVaultClientReadOnly()
+      .then(async vault => {
+        const [notary, isExecutor] = await Promise.all([vault.getNotary(), vault.isAuthorizedExecutor(account)]);
+        if (!cancelled) setMayObject(isExecutor || normAddr(notary) === normAddr(account));
+      })
+      .catch(e => console.error('Reading objection rights failed:', e));
+    return () => { cancelled = true; };
+  }, [account]);
+
+  const history = ethers.isAddress(owner) ? attestations[owner.toLowerCase()] ?? [] : [];
+  const canObject = mayObject || normAddr(owner) === normAddr(account);
+
+  const object = async (attestation: AttestationProjection) => {
+    const reason = window.prompt('Reason for the objection');
+    if (reason === null) return;
+
+    setObjectingId(attestation.attestationId);
+    setError('');
+    try {
+      const vault = await getVaultClientWithSigner();
+      await vault.objectToAttestation(owner, BigInt(attestation.attestationId), reason);
+      onObjected();
+    } catch (e: any) {
+      setError(e instanceof VaultError && e.code === 'USER_REJECTED'
+        ? 'Transaction rejected by user'
+        : `Objection failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setObjectingId(null);
+    }
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <div className="assets-section">
+      <div className="section-header">
+        <h2>Death Attestations</h2>
+        <div className="header-actions">
+          <input
+            type="text"
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            placeholder="Owner address 0x..."
+            className="cyber-input"
+          />
+        </div>
+      </div>
+      {error && <div className="inbox-error">{error}</div>}
+
+      {history.length === 0 ? (
+        <div className="no-assets cyber-card">
+          <p>No attestation has been submitted for this owner</p>
+        </div>
+      ) : (
+        <ol className="version-history attestation-history">
+          {history.slice().reverse().map(attestation => {
+            const status = attestationStatus(attestation, now);
+            return (
+              <li key={attestation.attestationId}>
+                <span className="version-number">#{attestation.attestationId}</span>
+                <div>
+                  <span>
+                    {STATUS_LABELS[status]}
+                    {status === 'pending' && ` (final in ${formatCountdown(attestation.finalAt - now)})`}
+                  </span>
+                  <div className="version-meta">
+                    {attestation.jurisdiction}, issued {new Date(attestation.issuedAt * 1000).toLocaleDateString()},
+                    signed by {attestation.signer.substring(0, 6)}...{attestation.signer.substring(38)}
+                  </div>
+                  <div className="version-meta" title={attestation.documentHash}>
+                    Document {attestation.documentHash.substring(0, 10)}..., submitted{' '}
+                    {new Date(attestation.submittedAt * 1000).toLocaleString()} by notary{' '}
+                    {attestation.notary.substring(0, 6)}...{attestation.notary.substring(38)}
+                  </div>
+                  {attestation.objection && (
+                    <div className="version-meta">
+                      Objected by {attestation.objection.objector.substring(0, 6)}...{attestation.objection.objector.substring(38)}
+                      {attestation.objection.reason && `: ${attestation.objection.reason}`}
+                    </div>
+                  )}
+                  {status === 'pending' && canObject && (
+                    <button
+                      className="link-button"
+                      disabled={objectingId === attestation.attestationId}
+                      onClick={() => object(attestation)}
+                    >
+                      {objectingId === attestation.attestationId ? 'Objecting...' : 'Object'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { getFhevmInstance } from '../fhe';
+import { claimInheritance, ClaimedAsset, inboxStatus, isLeftTo } from '../inbox';
+import { claimableShares } from '../succession';
+import { getVaultClientWithSigner } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+
+interface BeneficiaryInboxProps {
+  account: string;
+  provider: ethers.BrowserProvider;
+  items: InheritanceItem[];
+}
+
+const STATUS_LABELS = {
+  'locked': 'Locked',
+  'executing': 'Release in progress',
+  'released': 'Released',
+  'revoked': 'Revoked by owner'
+};
+
+export default function BeneficiaryInbox({ account, provider, items }: BeneficiaryInboxProps) {
+  const [claimed, setClaimed] = useState<Record<string, ClaimedAsset>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const inbox = items.filter(item => isLeftTo(item, account));
+
+  const claim = async (item: InheritanceItem) => {
+    setBusyId(item.id);
+    setError('');
+    try {
+      const { chainId } = await provider.getNetwork();
+      const asset = await claimInheritance(
+        await getVaultClientWithSigner(),
+        await getFhevmInstance(Number(chainId)),
+        await provider.getSigner(),
+        item
+      );
+      setClaimed({ ...claimed, [item.id]: asset });
+    } catch (e: any) {
+      console.error(`Claiming vault ${item.id} failed:`, e);
+      setError(`Claim failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="assets-section inbox-section">
+      <div className="section-header">
+        <h2>Left to Me</h2>
+      </div>
+      {error && <div className="inbox-error">{error}</div>}
+
+      {inbox.length === 0 ? (
+        <div className="no-assets cyber-card">
+          <p>Nothing has been left to this account yet</p>
+        </div>
+      ) : (
+        <div className="assets-grid">
+          {inbox.map(item => {
+            const status = inboxStatus(item);
+            const asset = claimed[item.id];
+            const claimable = claimableShares(item, account);
+            const claimBy = item.instructions
+              .filter(i => claimable.includes(i.instructionId))
+              .map(i => i.claim!.deadline);
+            return (
+              <div className="asset-card cyber-card" key={item.id}>
+                <div className="asset-header">
+                  <div className="asset-type">{asset ? asset.assetType : item.assetType}</div>
+                  <div className="asset-id">#{item.id.substring(0, 6)}</div>
+                </div>
+                <div className="asset-details">
+                  <div className="detail-row">
+                    <span>From:</span>
+                    <span>{item.owner.substring(0, 6)}...{item.owner.substring(38)}</span>
+                  </div>
+                  <div className="detail-row">
+                    <span>Unlock Condition:</span>
+                    <span>{item.unlockCondition}</span>
+                  </div>
+                  <div className="detail-row">
+                    <span>Status:</span>
+                    <span className={`inbox-status ${status}`}>{STATUS_LABELS[status]}</span>
+                  </div>
+                  {claimBy.length > 0 && !asset && (
+                    <div className="detail-row">
+                      <span>Claim By:</span>
+                      <span>{new Date(Math.min(...claimBy) * 1000).toLocaleString()}</span>
+                    </div>
+                  )}
+                  {asset && (
+                    <>
+                      <div className="detail-row">
+                        <span>Your Share:</span>
+                        <span>{asset.shareValue.toString()}</span>
+                      </div>
+                      <div className="detail-row">
+                        <span>Access Key:</span>
+                        <span>{asset.accessKey.toString()}</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+                <div className="asset-actions">
+                  {status === 'released' && !asset && (
+                    <button
+                      className="action-btn cyber-button"
+                      disabled={busyId !== null}
+                      onClick={() => claim(item)}
+                    >
+                      {busyId === item.id ? 'Decrypting...' : 'Claim'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { emptyShareRow, FULL_SHARE, ShareInput, shareTotal, sharesFromInput } from '../shares';
+import { MAX_CONTINGENTS } from '../succession';
+
+interface BeneficiaryPickerProps {
+  value: ShareInput[];
+  onChange: (value: ShareInput[]) => void;
+}
+
+export default function BeneficiaryPicker({ value, onChange }: BeneficiaryPickerProps) {
+  const total = shareTotal(value);
+  let problem = '';
+  if (value.every(row => row.beneficiary.trim())) {
+    try {
+      sharesFromInput(value);
+    } catch (e: any) {
+      problem = e.message;
+    }
+  }
+
+  const updateRow = (index: number, row: ShareInput) =>
+    onChange(value.map((current, i) => (i === index ? row : current)));
+
+  return (
+    <div className="form-group beneficiary-picker">
+      <label>Beneficiaries and Shares *</label>
+      {value.map((row, i) => (
+        <div key={i} className="beneficiary-row">
+          <div className="condition-row">
+            <input
+              type="text"
+              value={row.beneficiary}
+              onChange={(e) => updateRow(i, { ...row, beneficiary: e.target.value })}
+              placeholder="0x..."
+              className="cyber-input"
+            />
+            <input
+              type="number"
+              min={1}
+              max={FULL_SHARE}
+              value={row.share}
+              onChange={(e) => updateRow(i, { ...row, share: e.target.value })}
+              className="cyber-input share-input"
+            />
+            <span>%</span>
+            {value.length > 1 && (
+              <button className="link-button" onClick={() => onChange(value.filter((_, j) => j !== i))}>
+                Remove
+              </button>
+            )}
+          </div>
+          <input
+            type="text"
+            value={row.contingents}
+            onChange={(e) => updateRow(i, { ...row, contingents: e.target.value })}
+            placeholder={`Contingents in order, up to ${MAX_CONTINGENTS} (0x..., 0x...)`}
+            className="cyber-input contingents-input"
+          />
+        </div>
+      ))}
+      <button
+        className="link-button"
+        onClick={() => onChange([...value, emptyShareRow(Math.max(FULL_SHARE - total, 0))])}
+      >
+        + Add beneficiary
+      </button>
+      <div className={`unlock-time-preview ${total === FULL_SHARE ? '' : 'share-invalid'}`}>
+        {problem || `Total ${total}% of ${FULL_SHARE}%`}
+      </div>
+    </div>
+  );
+}
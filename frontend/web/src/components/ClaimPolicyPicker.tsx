@@ -0,0 +1,56 @@
+import React from 'react';
+import { formatDays } from '../inactivity';
+import { claimPolicyFromDays, LAPSE_RULE_LABELS } from '../succession';
+import { LAPSE_RULES, LapseRule } from '../vaultClient';
+
+/** Claim window as typed into the form; see claimPolicyFromDays. */
+export interface ClaimPolicyInput {
+  days: string;
+  lapseRule: LapseRule;
+}
+
+interface ClaimPolicyPickerProps {
+  value: ClaimPolicyInput;
+  onChange: (value: ClaimPolicyInput) => void;
+}
+
+export default function ClaimPolicyPicker({ value, onChange }: ClaimPolicyPickerProps) {
+  let preview = '';
+  try {
+    const policy = claimPolicyFromDays(value.days, value.lapseRule);
+    preview = policy
+      ? `Unclaimed shares pass to the next contingent after ${formatDays(policy.window)}`
+      : 'Shares are handed over on release; contingents never apply';
+  } catch (e: any) {
+    preview = e.message;
+  }
+
+  return (
+    <>
+      <div className="form-group">
+        <label>Claim Window (days)</label>
+        <input
+          type="number"
+          min={1}
+          value={value.days}
+          onChange={(e) => onChange({ ...value, days: e.target.value })}
+          placeholder="No deadline"
+          className="cyber-input"
+        />
+        <div className="unlock-time-preview">{preview}</div>
+      </div>
+      <div className="form-group">
+        <label>If No One Claims a Share</label>
+        <select
+          value={value.lapseRule}
+          onChange={(e) => onChange({ ...value, lapseRule: e.target.value as LapseRule })}
+          className="cyber-select"
+        >
+          {LAPSE_RULES.map(rule => (
+            <option key={rule} value={rule}>{LAPSE_RULE_LABELS[rule]}</option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+}
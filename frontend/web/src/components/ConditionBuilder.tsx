@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CONDITION_LEAVES,
+  ConditionExpr,
+  ConditionLeaf,
+  formatExpression,
+  LEAF_LABELS,
+  leaf,
+  parseExpression,
+  validateExpression
+} from '../conditions';
+
+interface ConditionBuilderProps {
+  value: ConditionExpr;
+  onChange: (value: ConditionExpr) => void;
+}
+
+interface NodeEditorProps {
+  node: ConditionExpr;
+  onChange: (node: ConditionExpr) => void;
+  onRemove?: () => void;
+}
+
+function NodeEditor({ node, onChange, onRemove }: NodeEditorProps) {
+  const negated = node.type === 'not';
+  const inner = node.type === 'not' ? node.arg : node;
+  const setInner = (next: ConditionExpr) => onChange(negated ? { type: 'not', arg: next } : next);
+  const toggleNot = () => onChange(negated ? inner : { type: 'not', arg: node });
+
+  return (
+    <div className="condition-node">
+      <div className="condition-row">
+        <label className="condition-not">
+          <input type="checkbox" checked={negated} onChange={toggleNot} /> NOT
+        </label>
+        {inner.type === 'leaf' && (
+          <>
+            <select
+              value={inner.leaf}
+              onChange={(e) => setInner(leaf(e.target.value as ConditionLeaf))}
+              className="cyber-select"
+            >
+              {CONDITION_LEAVES.map(name => (
+                <option key={name} value={name}>{LEAF_LABELS[name]}</option>
+              ))}
+            </select>
+            <button className="link-button" onClick={() => setInner({ type: 'and', args: [inner, leaf('time')] })}>
+              Group
+            </button>
+          </>
+        )}
+        {inner.type === 'not' && <NodeEditor node={inner} onChange={setInner} />}
+        {(inner.type === 'and' || inner.type === 'or') && (
+          <select
+            value={inner.type}
+            onChange={(e) => setInner({ ...inner, type: e.target.value as 'and' | 'or' })}
+            className="cyber-select"
+          >
+            <option value="and">All of (AND)</option>
+            <option value="or">Any of (OR)</option>
+          </select>
+        )}
+        {onRemove && <button className="link-button" onClick={onRemove}>Remove</button>}
+      </div>
+
+      {(inner.type === 'and' || inner.type === 'or') && (
+        <div className="condition-children">
+          {inner.args.map((arg, i) => (
+            <NodeEditor
+              key={i}
+              node={arg}
+              onChange={(next) => setInner({ ...inner, args: inner.args.map((a, j) => (j === i ? next : a)) })}
+              onRemove={() => setInner({ ...inner, args: inner.args.filter((_, j) => j !== i) })}
+            />
+          ))}
+          <button className="link-button" onClick={() => setInner({ ...inner, args: [...inner.args, leaf('time')] })}>
+            + Condition
+          </button>
+          <button
+            className="link-button"
+            onClick={() => setInner({ ...inner, args: [...inner.args, { type: 'or', args: [leaf('guardians'), leaf('attestation')] }] })}
+          >
+            + Group
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Visual editor for unlock expressions, kept in sync with their text form. */
+export default function ConditionBuilder({ value, onChange }: ConditionBuilderProps) {
+  const [text, setText] = useState(() => formatExpression(value));
+  const [parseError, setParseError] = useState('');
+  // Changes typed as text keep the text as typed rather than its normalized form
+  const typed = useRef(false);
+
+  useEffect(() => {
+    if (!typed.current) setText(formatExpression(value));
+    typed.current = false;
+  }, [value]);
+
+  const editText = (next: string) => {
+    setText(next);
+    try {
+      const parsed = parseExpression(next);
+      setParseError('');
+      typed.current = true;
+      onChange(parsed);
+    } catch (e: any) {
+      setParseError(e.message);
+    }
+  };
+
+  const problem = parseError || validateExpression(value);
+
+  return (
+    <div className="form-group condition-builder">
+      <label>Unlock Expression *</label>
+      <NodeEditor node={value} onChange={(next) => { setParseError(''); onChange(next); }} />
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => editText(e.target.value)}
+        placeholder="time AND (guardians OR attestation)"
+        className="cyber-input"
+      />
+      <div className="unlock-time-preview">{problem || 'Valid expression'}</div>
+    </div>
+  );
+}
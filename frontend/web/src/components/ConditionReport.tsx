@@ -0,0 +1,31 @@
+import React from 'react';
+import { config } from '../contract';
+import { evaluateExpression, formatExpression, LEAF_LABELS } from '../conditions';
+import { knownUnlockTime } from '../timeLock';
+import { InheritanceItem } from '../vaultModel';
+
+interface ConditionReportProps {
+  item: InheritanceItem;
+}
+
+const mark = (satisfied: boolean | null) => (satisfied === null ? '?' : satisfied ? '✓' : '✗');
+
+/** Which leaves of an item's unlock expression are currently satisfied. */
+export default function ConditionReport({ item }: ConditionReportProps) {
+  if (!item.expression) return <span>Not set</span>;
+
+  const report = evaluateExpression(item.expression, item, knownUnlockTime(config.vaultContractAddress, item.id));
+  return (
+    <div className="condition-report">
+      <div title={formatExpression(item.expression)}>
+        {formatExpression(item.expression)} {mark(report.satisfied)}
+      </div>
+      {report.leaves.map(({ leaf, satisfied }) => (
+        <div key={leaf} className="version-meta">
+          {mark(satisfied)} {LEAF_LABELS[leaf]}
+          {satisfied === null && ' (encrypted)'}
+        </div>
+      ))}
+    </div>
+  );
+}
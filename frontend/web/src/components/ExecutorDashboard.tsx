@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { CONDITION_NOT_MET, executeVault, executionExpired, executionReadiness, ReadinessState } from '../executor';
+import { getVaultClientReadOnly, getVaultClientWithSigner } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+import ShareVerification from './ShareVerification';
+
+interface ExecutorDashboardProps {
+  account: string;
+  provider: ethers.BrowserProvider;
+  items: InheritanceItem[];
+  /** Last indexed block, against which pending executions expire. */
+  blockNumber: number;
+  onExecuted: () => void;
+}
+
+const STATE_LABELS: Record<ReadinessState, string> = {
+  ready: 'Ready',
+  blocked: 'Blocked',
+  pending: 'Pending',
+  released: 'Released',
+  revoked: 'Revoked'
+};
+
+const OUTCOME_LABELS = {
+  pending: 'Waiting for the oracle',
+  notMet: CONDITION_NOT_MET,
+  executed: 'Released',
+  expired: 'Expired without an answer'
+};
+
+/** Every vault as an authorized executor sees it, executable from here. */
+export default function ExecutorDashboard({ account, provider, items, blockNumber, onExecuted }: ExecutorDashboardProps) {
+  const [isExecutor, setIsExecutor] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    getVaultClientReadOnly()
+      .then(vault => vault.isAuthorizedExecutor(account))
+      .then(authorized => { if (!cancelled) setIsExecutor(authorized); })
+      .catch(e => console.error('Checking executor authorization failed:', e));
+    return () => { cancelled = true; };
+  }, [account]);
+
+  if (!isExecutor) return null;
+  const now = Math.floor(Date.now() / 1000);
+  const rows = items
+    .map(item => ({ item, readiness: executionReadiness(item, now) }))
+    .filter(row => showAll || row.readiness.state !== 'released' && row.readiness.state !== 'revoked');
+
+  // Blocked vaults cannot be executed from here; for the others the dry run
+  // throws the decoded revert reason before any gas is spent
+  const execute = async (item: InheritanceItem) => {
+    setBusy(item.id);
+    setErrors(({ [item.id]: _, ...rest }) => rest);
+    try {
+      const vault = await getVaultClientWithSigner();
+      const { chainId } = await provider.getNetwork();
+      await executeVault(vault, BigInt(item.id), { chainId: Number(chainId), onProgress: setProgress });
+      onExecuted();
+    } catch (e: any) {
+      console.error(`Executing vault ${item.id} failed:`, e);
+      setErrors(current => ({ ...current, [item.id]: e.message || 'Unknown error' }));
+    } finally {
+      setBusy(null);
+      setProgress('');
+    }
+  };
+
+  // A lost oracle callback would otherwise keep the vault pending for good
+  const expire = async (item: InheritanceItem) => {
+    setBusy(item.id);
+    setErrors(({ [item.id]: _, ...rest }) => rest);
+    try {
+      const vault = await getVaultClientWithSigner();
+      await vault.expireExecution(BigInt(item.id));
+      onExecuted();
+    } catch (e: any) {
+      console.error(`Expiring the execution of vault ${item.id} failed:`, e);
+      setErrors(current => ({ ...current, [item.id]: e.message || 'Unknown error' }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="assets-section">
+      <div className="section-header">
+        <h2>Executor Dashboard</h2>
+        <label className="executor-filter">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show released and revoked vaults
+        </label>
+      </div>
+      {rows.length === 0 ? (
+        <div className="no-assets cyber-card">
+          <p>No vault is waiting to be executed</p>
+        </div>
+      ) : (
+        <div className="assets-grid">
+          {rows.map(({ item, readiness }) => (
+            <div className="asset-card cyber-card" key={item.id}>
+              <div className="asset-header">
+                <div className="asset-type">{item.assetType}</div>
+                <div className="asset-id">#{item.id.substring(0, 6)}</div>
+              </div>
+              <div className="asset-details">
+                <div className="detail-row">
+                  <span>Owner:</span>
+                  <span>{item.owner.substring(0, 6)}...{item.owner.substring(38)}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Release:</span>
+                  <span>{item.unlockCondition}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Status:</span>
+                  <span className={`executor-${readiness.state}`} title={readiness.reason}>
+                    {STATE_LABELS[readiness.state]}: {readiness.reason}
+                  </span>
+                </div>
+                <div className="detail-row">
+                  <span>Instructions:</span>
+                  <span>{item.instructions.length}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Shares:</span>
+                  <ShareVerification item={item} provider={provider} />
+                </div>
+                {item.lastExecution && (
+                  <div className="detail-row">
+                    <span>Last Execution:</span>
+                    <span>
+                      {OUTCOME_LABELS[item.lastExecution.outcome]},{' '}
+                      {new Date(item.lastExecution.timestamp * 1000).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+              </div>
+              {executionExpired(item, blockNumber) ? (
+                <button className="cyber-button" disabled={busy !== null} onClick={() => expire(item)}>
+                  {busy === item.id ? 'Expiring...' : 'Expire Request'}
+                </button>
+              ) : readiness.state !== 'released' && readiness.state !== 'revoked' && (
+                <button
+                  className="cyber-button"
+                  disabled={busy !== null || readiness.state === 'pending' || readiness.state === 'blocked'}
+                  title={readiness.state === 'blocked' ? readiness.reason : undefined}
+                  onClick={() => execute(item)}
+                >
+                  {busy === item.id ? progress || 'Executing...' : 'Execute'}
+                </button>
+              )}
+              {errors[item.id] && <div className="inbox-error">{errors[item.id]}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { EXPIRY_WARNING_SECONDS, expiringItems, formatDays } from '../inactivity';
+import { getVaultClientReadOnly } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+import InactivityCountdown from './InactivityCountdown';
+
+interface ExpiringVaultsProps {
+  account: string;
+  items: InheritanceItem[];
+}
+
+/** Inactivity vaults an authorized executor can execute now or soon. */
+export default function ExpiringVaults({ account, items }: ExpiringVaultsProps) {
+  const [isExecutor, setIsExecutor] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getVaultClientReadOnly()
+      .then(vault => vault.isAuthorizedExecutor(account))
+      .then(authorized => { if (!cancelled) setIsExecutor(authorized); })
+      .catch(e => console.error('Checking executor authorization failed:', e));
+    return () => { cancelled = true; };
+  }, [account]);
+
+  if (!isExecutor) return null;
+  const expiring = expiringItems(items);
+
+  return (
+    <div className="assets-section">
+      <div className="section-header">
+        <h2>Expiring Vaults</h2>
+      </div>
+      {expiring.length === 0 ? (
+        <div className="no-assets cyber-card">
+          <p>No inactivity vault becomes executable within {formatDays(EXPIRY_WARNING_SECONDS)}</p>
+        </div>
+      ) : (
+        <div className="assets-grid">
+          {expiring.map(item => (
+            <div className="asset-card cyber-card" key={item.id}>
+              <div className="asset-header">
+                <div className="asset-type">{item.assetType}</div>
+                <div className="asset-id">#{item.id.substring(0, 6)}</div>
+              </div>
+              <div className="asset-details">
+                <div className="detail-row">
+                  <span>Owner:</span>
+                  <span>{item.owner.substring(0, 6)}...{item.owner.substring(38)}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Last Check-In:</span>
+                  <span>{item.lastCheckIn ? new Date(item.lastCheckIn * 1000).toLocaleString() : 'Never'}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Executable In:</span>
+                  <InactivityCountdown item={item} />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
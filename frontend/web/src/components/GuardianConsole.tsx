@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { config } from '../contract';
+import { encodeApproval, isGuardianOf, rememberApproval, signReleaseApproval } from '../guardians';
+import { InheritanceItem } from '../vaultModel';
+
+interface GuardianConsoleProps {
+  account: string;
+  provider: ethers.BrowserProvider;
+  items: InheritanceItem[];
+}
+
+/** Items the connected account guards, where it can sign its release approval. */
+export default function GuardianConsole({ account, provider, items }: GuardianConsoleProps) {
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [signingId, setSigningId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const guarded = items.filter(item => item.unlockCondition === 'MultiSig' && isGuardianOf(item.guardians, account));
+  if (guarded.length === 0) return null;
+
+  const sign = async (item: InheritanceItem) => {
+    if (!item.guardians) return;
+    setSigningId(item.id);
+    setError('');
+    try {
+      const { chainId } = await provider.getNetwork();
+      const approval = await signReleaseApproval(
+        await provider.getSigner(),
+        Number(chainId),
+        config.vaultContractAddress,
+        item.id,
+        item.guardians.nonce
+      );
+      rememberApproval(approval);
+      setCodes({ ...codes, [item.id]: encodeApproval(approval) });
+    } catch (e: any) {
+      console.error(`Signing the approval of vault ${item.id} failed:`, e);
+      setError(`Signing failed: ${e.shortMessage || e.message || 'Unknown error'}`);
+    } finally {
+      setSigningId(null);
+    }
+  };
+
+  return (
+    <div className="assets-section guardian-section">
+      <div className="section-header">
+        <h2>Guardian Approvals</h2>
+      </div>
+      {error && <div className="inbox-error">{error}</div>}
+
+      <div className="assets-grid">
+        {guarded.map(item => {
+          const set = item.guardians!;
+          return (
+            <div className="asset-card cyber-card" key={item.id}>
+              <div className="asset-header">
+                <div className="asset-type">{item.assetType}</div>
+                <div className="asset-id">#{item.id.substring(0, 6)}</div>
+              </div>
+              <div className="asset-details">
+                <div className="detail-row">
+                  <span>Owner:</span>
+                  <span>{item.owner.substring(0, 6)}...{item.owner.substring(38)}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Beneficiary:</span>
+                  <span>{item.beneficiary.substring(0, 6)}...{item.beneficiary.substring(38)}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Quorum:</span>
+                  <span>{set.threshold} of {set.guardians.length}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Status:</span>
+                  <span>{set.approved ? 'Approved' : item.isActive ? 'Awaiting approvals' : 'Closed'}</span>
+                </div>
+              </div>
+              {codes[item.id] && (
+                <div className="form-group">
+                  <label>Approval code, send it to whoever submits the approvals</label>
+                  <textarea readOnly value={codes[item.id]} rows={4} className="cyber-input approval-code" />
+                </div>
+              )}
+              {item.isActive && !set.approved && (
+                <div className="asset-actions">
+                  <button
+                    className="action-btn cyber-button"
+                    disabled={signingId === item.id}
+                    onClick={() => sign(item)}
+                  >
+                    {signingId === item.id ? 'Signing...' : 'Sign Approval'}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { guardianConfigFromInput } from '../guardians';
+
+/** Guardian set as typed into the form; see guardianConfigFromInput. */
+export interface GuardianInput {
+  addresses: string;
+  threshold: string;
+}
+
+interface GuardianPickerProps {
+  value: GuardianInput;
+  onChange: (value: GuardianInput) => void;
+}
+
+export default function GuardianPicker({ value, onChange }: GuardianPickerProps) {
+  let preview = '';
+  if (value.addresses.trim()) {
+    try {
+      const config = guardianConfigFromInput(value.addresses, value.threshold);
+      preview = `Release needs ${config.threshold} of ${config.guardians.length} guardian signatures`;
+    } catch (e: any) {
+      preview = e.message;
+    }
+  }
+
+  return (
+    <>
+      <div className="form-group">
+        <label>Guardian Addresses * (one per line)</label>
+        <textarea
+          value={value.addresses}
+          onChange={(e) => onChange({ ...value, addresses: e.target.value })}
+          placeholder={'0x...\n0x...'}
+          rows={3}
+          className="cyber-input"
+        />
+      </div>
+      <div className="form-group">
+        <label>Required Approvals *</label>
+        <input
+          type="number"
+          min={1}
+          value={value.threshold}
+          onChange={(e) => onChange({ ...value, threshold: e.target.value })}
+          className="cyber-input"
+        />
+        {preview && <div className="unlock-time-preview">{preview}</div>}
+      </div>
+    </>
+  );
+}
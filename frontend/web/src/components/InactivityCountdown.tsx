@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { inactivityDeadline, inactivityStatus } from '../inactivity';
+import { formatCountdown, formatInZone, localTimeZone } from '../timeLock';
+import { InheritanceItem } from '../vaultModel';
+
+interface InactivityCountdownProps {
+  item: InheritanceItem;
+}
+
+/** Time left until an Inactivity item becomes executable. */
+export default function InactivityCountdown({ item }: InactivityCountdownProps) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const deadline = inactivityDeadline(item);
+  if (deadline === null) return <span>Not configured</span>;
+
+  const status = inactivityStatus(item, now);
+  return (
+    <span className={`countdown inactivity-${status}`} title={formatInZone(deadline, localTimeZone())}>
+      {status === 'expired' ? 'Executable' : formatCountdown(deadline - now)}
+      {status === 'grace' && ' (grace period)'}
+    </span>
+  );
+}
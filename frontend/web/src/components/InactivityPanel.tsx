@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { normAddr } from '../contract';
+import { inactivityDeadline, lastSeen } from '../inactivity';
+import { getVaultClientWithSigner, VaultError } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+import InactivityCountdown from './InactivityCountdown';
+
+interface InactivityPanelProps {
+  account: string;
+  items: InheritanceItem[];
+  onCheckedIn: () => void;
+}
+
+/** Dead-man's switch of the connected owner. One check-in covers all their vaults. */
+export default function InactivityPanel({ account, items, onCheckedIn }: InactivityPanelProps) {
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const watched = items
+    .filter(item => item.unlockCondition === 'Inactivity' && item.isActive && normAddr(item.owner) === normAddr(account))
+    .filter(item => inactivityDeadline(item) !== null)
+    .sort((a, b) => inactivityDeadline(a)! - inactivityDeadline(b)!);
+  if (watched.length === 0) return null;
+
+  const soonest = watched[0];
+  const lastCheckIn = Math.max(...watched.map(lastSeen));
+
+  const checkIn = async () => {
+    setCheckingIn(true);
+    setMessage('');
+    try {
+      const vault = await getVaultClientWithSigner();
+      await vault.checkIn();
+      setMessage('Check-in recorded');
+      onCheckedIn();
+    } catch (e: any) {
+      setMessage(e instanceof VaultError && e.code === 'USER_REJECTED'
+        ? 'Check-in rejected'
+        : `Check-in failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  return (
+    <div className="dashboard-card cyber-card inactivity-panel">
+      <h3>Dead-Man's Switch</h3>
+      <div className="asset-details">
+        <div className="detail-row">
+          <span>Last Check-In:</span>
+          <span>{new Date(lastCheckIn * 1000).toLocaleString()}</span>
+        </div>
+        <div className="detail-row">
+          <span>Watched Items:</span>
+          <span>{watched.length}</span>
+        </div>
+        <div className="detail-row">
+          <span>First Release In (#{soonest.id}):</span>
+          <InactivityCountdown item={soonest} />
+        </div>
+      </div>
+      <button className="cyber-button primary" disabled={checkingIn} onClick={checkIn}>
+        {checkingIn ? 'Checking in...' : "I'm Alive"}
+      </button>
+      {message && <div className="unlock-time-preview">{message}</div>}
+    </div>
+  );
+}
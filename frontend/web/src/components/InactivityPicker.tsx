@@ -0,0 +1,49 @@
+import React from 'react';
+import { formatDays, inactivityFromDays } from '../inactivity';
+
+/** Days as typed into the form; see inactivityFromDays. */
+export interface InactivityDays {
+  window: string;
+  gracePeriod: string;
+}
+
+interface InactivityPickerProps {
+  value: InactivityDays;
+  onChange: (value: InactivityDays) => void;
+}
+
+export default function InactivityPicker({ value, onChange }: InactivityPickerProps) {
+  let preview = '';
+  try {
+    const inactivity = inactivityFromDays(value.window, value.gracePeriod);
+    preview = `Executable after ${formatDays(inactivity.window + inactivity.gracePeriod)} without a check-in`;
+  } catch (e: any) {
+    preview = e.message;
+  }
+
+  return (
+    <>
+      <div className="form-group">
+        <label>Inactivity Window (days) *</label>
+        <input
+          type="number"
+          min={1}
+          value={value.window}
+          onChange={(e) => onChange({ ...value, window: e.target.value })}
+          className="cyber-input"
+        />
+      </div>
+      <div className="form-group">
+        <label>Grace Period (days)</label>
+        <input
+          type="number"
+          min={0}
+          value={value.gracePeriod}
+          onChange={(e) => onChange({ ...value, gracePeriod: e.target.value })}
+          className="cyber-input"
+        />
+        <div className="unlock-time-preview">{preview}</div>
+      </div>
+    </>
+  );
+}
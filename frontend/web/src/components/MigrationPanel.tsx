@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, getContractReadOnly, getContractWithSigner } from '../contract';
+import { getFhevmInstance } from '../fhe';
+import {
+  classifyLegacyEntry,
+  LegacyEntry,
+  migrateLegacyEntry,
+  migrationProgress,
+  needsReleaseTime,
+  parseAccessKey,
+  toLegacyEntries
+} from '../migration';
+import { getVaultIndexer } from '../indexer';
+import { findOrphanedRecords, relinkOrphanedRecords } from '../legacyIndex';
+import { emptyUnlockTime, unlockTimeFromInput, UnlockTimeValue } from '../timeLock';
+import { getVaultClientWithSigner } from '../vaultClient';
+import UnlockTimePicker from './UnlockTimePicker';
+
+interface MigrationPanelProps {
+  account: string;
+  provider: ethers.BrowserProvider;
+  onMigrated: () => void;
+}
+
+const STATUS_LABELS = {
+  'ready': 'Ready',
+  'needs-access-key': 'Enter a numeric access key',
+  'migrated': 'Migrated',
+  'not-owner': 'Owned by another account',
+  'invalid': 'Cannot be migrated (bad beneficiary or condition)'
+};
+
+export default function MigrationPanel({ account, provider, onMigrated }: MigrationPanelProps) {
+  const [entries, setEntries] = useState<LegacyEntry[]>([]);
+  const [accessKeys, setAccessKeys] = useState<Record<string, string>>({});
+  const [unlockTimes, setUnlockTimes] = useState<Record<string, UnlockTimeValue>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+  const [orphans, setOrphans] = useState<string[]>([]);
+  const [relinking, setRelinking] = useState(false);
+
+  const loadEntries = async () => {
+    try {
+      const adapter = await getContractReadOnly();
+      if (!adapter) return;
+      const projection = await (await getVaultIndexer()).sync();
+      const records = Object.values(projection.legacyRecords);
+      const legacy = toLegacyEntries(records);
+      setEntries(legacy.filter(entry => classifyLegacyEntry(entry, account) !== 'not-owner'));
+      setOrphans(await findOrphanedRecords(adapter, records));
+    } catch (e) {
+      console.error('Error loading legacy vault records:', e);
+    }
+  };
+
+  const relink = async () => {
+    setRelinking(true);
+    try {
+      const adapter = await getContractWithSigner();
+      const linked = await relinkOrphanedRecords(adapter, orphans);
+      setProgress(`Re-linked ${linked.length} records into vault_keys`);
+      await loadEntries();
+    } catch (e: any) {
+      console.error('Re-linking orphaned records failed:', e);
+      setProgress(`Re-linking failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setRelinking(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [account]);
+
+  const migrate = async (entry: LegacyEntry) => {
+    const accessKey = parseAccessKey(accessKeys[entry.key] ?? entry.secret);
+    if (accessKey === null) return;
+    let releaseTime: number | null = null;
+    if (needsReleaseTime(entry.record)) {
+      try {
+        releaseTime = unlockTimeFromInput(unlockTimes[entry.key] ?? emptyUnlockTime());
+      } catch (e: any) {
+        setProgress(e.message);
+        return;
+      }
+    }
+
+    setBusyKey(entry.key);
+    try {
+      const { chainId } = await provider.getNetwork();
+      const deps = {
+        adapter: await getContractWithSigner(),
+        vault: await getVaultClientWithSigner(),
+        instance: await getFhevmInstance(Number(chainId)),
+        account
+      };
+      const vaultId = await migrateLegacyEntry(entry, accessKey, releaseTime, deps, setProgress);
+      setProgress(`Migrated to vault #${vaultId}`);
+      await loadEntries();
+      onMigrated();
+    } catch (e: any) {
+      console.error(`Migration of ${entry.key} failed:`, e);
+      setProgress(`Migration failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const pending = entries.filter(entry => classifyLegacyEntry(entry, account) !== 'migrated');
+  if (pending.length === 0 && orphans.length === 0) return null;
+
+  return (
+    <div className="migration-panel cyber-card">
+      <h3>Legacy Items</h3>
+      <p>These items were stored before vaults existed. Migrate them to encrypt them with FHE.</p>
+      {pending.map(entry => {
+        const status = classifyLegacyEntry(entry, account);
+        const canEditKey = status === 'needs-access-key';
+        const keyReady = parseAccessKey(accessKeys[entry.key] ?? entry.secret) !== null;
+        const needsTime = status !== 'invalid' && needsReleaseTime(entry.record);
+        const timeReady = !needsTime || !!unlockTimes[entry.key]?.date;
+        const started = migrationProgress(config.vaultContractAddress, entry);
+        return (
+          <div className="migration-row" key={entry.key}>
+            <span>{entry.record.assetType || 'Unknown'}</span>
+            <span>{entry.record.beneficiary.substring(0, 6)}...{entry.record.beneficiary.substring(38)}</span>
+            <span>{STATUS_LABELS[status]}</span>
+            {canEditKey && (
+              <input
+                type="password"
+                inputMode="numeric"
+                placeholder="Access key"
+                className="cyber-input"
+                value={accessKeys[entry.key] ?? ''}
+                onChange={(e) => setAccessKeys({ ...accessKeys, [entry.key]: e.target.value })}
+              />
+            )}
+            {needsTime && (
+              <UnlockTimePicker
+                value={unlockTimes[entry.key] ?? emptyUnlockTime()}
+                onChange={(value) => setUnlockTimes({ ...unlockTimes, [entry.key]: value })}
+              />
+            )}
+            <button
+              className="cyber-button"
+              disabled={busyKey !== null || status === 'invalid' || !keyReady || !timeReady}
+              onClick={() => migrate(entry)}
+            >
+              {busyKey === entry.key ? 'Migrating...' : started ? `Resume (vault #${started.vaultId})` : 'Migrate'}
+            </button>
+          </div>
+        );
+      })}
+      {orphans.length > 0 && (
+        <div className="migration-row">
+          <span>{orphans.length} records are missing from the legacy vault_keys index</span>
+          <button className="cyber-button" disabled={relinking} onClick={relink}>
+            {relinking ? 'Re-linking...' : 'Re-link'}
+          </button>
+        </div>
+      )}
+      {progress && <div className="migration-progress">{progress}</div>}
+    </div>
+  );
+}
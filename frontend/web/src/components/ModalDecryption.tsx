@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  AssetDecryption,
+  awaitDecryption,
+  DecryptionRequest,
+  DecryptionTimeoutError,
+  findDecryption,
+  findPendingDecryption,
+  requestDecryption
+} from '../decryption';
+import { getVaultClientReadOnly, getVaultClientWithSigner } from '../vaultClient';
+import { assetTypeLabel, InheritanceItem } from '../vaultModel';
+
+interface ModalDecryptionProps {
+  item: InheritanceItem;
+  provider: ethers.BrowserProvider;
+  onDecrypted: () => void;
+  onClose: () => void;
+}
+
+/** confirm: not revealed and nothing requested; revealing waits for the owner to confirm. */
+type Phase = 'checking' | 'confirm' | 'working' | 'done' | 'timeout' | 'error';
+
+export default function ModalDecryption({ item, provider, onDecrypted, onClose }: ModalDecryptionProps) {
+  const [phase, setPhase] = useState<Phase>('checking');
+  const [message, setMessage] = useState('Checking decryption status...');
+  const [pending, setPending] = useState<DecryptionRequest | null>(null);
+  const [result, setResult] = useState<AssetDecryption | null>(null);
+  const [checks, setChecks] = useState(0);
+
+  // Opening the modal only reads; nothing is sent before the owner confirms the reveal
+  useEffect(() => {
+    let cancelled = false;
+    setPhase('checking');
+    setMessage('Checking decryption status...');
+    const check = async () => {
+      const vault = await getVaultClientReadOnly();
+      const vaultId = BigInt(item.id);
+      const current = await vault.getDecryptedAsset(vaultId);
+      const previous = current.isRevealed ? await findDecryption(vault, vaultId) : null;
+      const request = current.isRevealed ? null : await findPendingDecryption(vault, vaultId);
+      if (cancelled) return;
+      if (previous) {
+        setResult(previous);
+        setPhase('done');
+      } else if (current.isRevealed) {
+        setMessage('The asset is revealed, but its oracle callback was not found');
+        setPhase('error');
+      } else if (request) {
+        setPending(request);
+        setMessage(`Decryption request ${request.requestId} is waiting for the oracle`);
+        setPhase('timeout');
+      } else {
+        setPhase('confirm');
+      }
+    };
+    check().catch((e: any) => {
+      if (cancelled) return;
+      console.error(`Checking the decryption of vault ${item.id} failed:`, e);
+      setMessage(`Checking decryption status failed: ${e.message || 'Unknown error'}`);
+      setPhase('error');
+    });
+    return () => { cancelled = true; };
+  }, [item.id, checks]);
+
+  const run = async (request: DecryptionRequest | null) => {
+    setPhase('working');
+    try {
+      const vault = await getVaultClientWithSigner();
+      const vaultId = BigInt(item.id);
+
+      if (!request) {
+        setMessage('Requesting decryption...');
+        request = await requestDecryption(vault, vaultId);
+        setPending(request);
+      }
+
+      const { chainId } = await provider.getNetwork();
+      const decryption = await awaitDecryption(vault, request, { chainId: Number(chainId), onProgress: setMessage });
+      setResult(decryption);
+      setPhase('done');
+      onDecrypted();
+    } catch (e: any) {
+      if (e instanceof DecryptionTimeoutError) {
+        setMessage(e.message);
+        setPhase('timeout');
+      } else {
+        console.error(`Decrypting vault ${item.id} failed:`, e);
+        setMessage(`Decryption failed: ${e.message || 'Unknown error'}`);
+        setPhase('error');
+      }
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Asset #{item.id} Status</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {phase === 'confirm' ? (
+            <div className="decryption-progress">
+              The asset of this item is encrypted. Revealing it asks the decryption oracle to publish its type,
+              value and access key on-chain, where anyone can read them for good. This cannot be undone.
+            </div>
+          ) : phase !== 'done' && <div className="decryption-progress">{message}</div>}
+          {pending && phase !== 'done' && (
+            <div className="detail-row">
+              <span>Request ID:</span>
+              <span>{pending.requestId.toString()}</span>
+            </div>
+          )}
+
+          {result && (
+            <div className="asset-details">
+              <div className="detail-row">
+                <span>Asset Type:</span>
+                <span>{assetTypeLabel(result.asset.assetType)}</span>
+              </div>
+              <div className="detail-row">
+                <span>Asset Value:</span>
+                <span>{result.asset.assetValue}</span>
+              </div>
+              <div className="detail-row">
+                <span>Access Key:</span>
+                <span>{result.asset.accessKey}</span>
+              </div>
+              <div className="detail-row">
+                <span>Request ID:</span>
+                <span>{result.requestId.toString()}</span>
+              </div>
+              <div className="detail-row">
+                <span>Request Tx:</span>
+                <span title={result.requestTx}>{result.requestTx ? `${result.requestTx.substring(0, 10)}...` : 'Unknown'}</span>
+              </div>
+              <div className="detail-row">
+                <span>Oracle Callback Tx:</span>
+                <span title={result.callbackTx}>{result.callbackTx.substring(0, 10)}...</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Close
+          </button>
+          {phase === 'confirm' && (
+            <button onClick={() => run(null)} className="submit-btn cyber-button primary">
+              Reveal Publicly
+            </button>
+          )}
+          {(phase === 'timeout' || phase === 'error') && (
+            <button
+              onClick={() => (pending ? run(pending) : setChecks(n => n + 1))}
+              className="submit-btn cyber-button primary"
+            >
+              {pending ? 'Keep Waiting' : 'Retry'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { ConditionExpr, defaultExpression, requiredLeaves, validateExpression } from '../conditions';
+import { config } from '../contract';
+import { guardianConfigFromInput } from '../guardians';
+import { DAY_SECONDS, DEFAULT_INACTIVITY, inactivityFromDays } from '../inactivity';
+import { knownShares } from '../shares';
+import { claimPolicyFromDays, contingentsFromInput, MAX_CONTINGENTS, NO_CLAIM_WINDOW } from '../succession';
+import { emptyUnlockTime, unlockTimeFromInput } from '../timeLock';
+import { ClaimPolicy, RELEASE_KINDS } from '../vaultClient';
+import { InheritanceItem, ItemEdit, RELEASE_KIND_LABELS } from '../vaultModel';
+import ClaimPolicyPicker, { ClaimPolicyInput } from './ClaimPolicyPicker';
+import ConditionBuilder from './ConditionBuilder';
+import GuardianPicker from './GuardianPicker';
+import InactivityPicker from './InactivityPicker';
+import UnlockTimePicker from './UnlockTimePicker';
+
+interface ModalEditItemProps {
+  item: InheritanceItem;
+  saving: boolean;
+  onSave: (edit: ItemEdit) => void;
+  onClose: () => void;
+}
+
+export default function ModalEditItem({ item, saving, onSave, onClose }: ModalEditItemProps) {
+  const [edit, setEdit] = useState<ItemEdit>({
+    beneficiaries: item.beneficiaries,
+    unlockCondition: item.unlockCondition
+  });
+  const [unlockTime, setUnlockTime] = useState(emptyUnlockTime);
+  const [inactivityDays, setInactivityDays] = useState(() => {
+    const current = item.inactivity ?? DEFAULT_INACTIVITY;
+    return { window: String(current.window / DAY_SECONDS), gracePeriod: String(current.gracePeriod / DAY_SECONDS) };
+  });
+  const [guardianInput, setGuardianInput] = useState(() => ({
+    addresses: item.guardians?.guardians.join('\n') ?? '',
+    threshold: String(item.guardians?.threshold ?? 1)
+  }));
+
+  const shares = knownShares(config.vaultContractAddress, item.id);
+  const [contingentInput, setContingentInput] = useState(() => item.instructions.map(i => i.contingents.join('\n')));
+  const [claimPolicyInput, setClaimPolicyInput] = useState<ClaimPolicyInput>(() => ({
+    days: item.claimPolicy?.window ? String(item.claimPolicy.window / DAY_SECONDS) : '',
+    lapseRule: item.claimPolicy?.lapseRule ?? NO_CLAIM_WINDOW.lapseRule
+  }));
+  const [expression, setExpression] = useState<ConditionExpr>(() => item.expression ?? defaultExpression());
+
+  const isExpression = edit.unlockCondition === 'Expression';
+  const leaves = requiredLeaves(edit.unlockCondition, expression);
+  const usesTime = leaves.has('time');
+  const hadTime = requiredLeaves(item.unlockCondition, item.expression).has('time');
+  // Starting to use a time lock needs a date; an existing one may keep its own
+  const timeRequired = usesTime && !hadTime;
+
+  const handleSave = () => {
+    const invalid = edit.beneficiaries.find(beneficiary => !ethers.isAddress(beneficiary));
+    if (invalid !== undefined) {
+      alert(`Beneficiary ${invalid} is not a valid address`);
+      return;
+    }
+
+    let releaseTime: number | undefined;
+    if (!usesTime && hadTime) {
+      // Leaving the time lock must not leave the old date enforced on-chain
+      releaseTime = 0;
+    } else if (usesTime && (unlockTime.date || timeRequired)) {
+      try {
+        releaseTime = unlockTimeFromInput(unlockTime);
+      } catch (e: any) {
+        alert(e.message);
+        return;
+      }
+    }
+    if (isExpression) {
+      const problem = validateExpression(expression);
+      if (problem) {
+        alert(problem);
+        return;
+      }
+    }
+
+    let inactivity;
+    if (leaves.has('inactivity')) {
+      try {
+        inactivity = inactivityFromDays(inactivityDays.window, inactivityDays.gracePeriod);
+      } catch (e: any) {
+        alert(e.message);
+        return;
+      }
+    }
+    let guardians;
+    if (leaves.has('guardians')) {
+      try {
+        guardians = guardianConfigFromInput(guardianInput.addresses, guardianInput.threshold);
+      } catch (e: any) {
+        alert(e.message);
+        return;
+      }
+    }
+    let contingents: string[][];
+    let claimPolicy: ClaimPolicy;
+    try {
+      contingents = contingentInput.map((input, i) => contingentsFromInput(input, edit.beneficiaries[i]));
+      claimPolicy = claimPolicyFromDays(claimPolicyInput.days, claimPolicyInput.lapseRule) ?? NO_CLAIM_WINDOW;
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    onSave({
+      ...edit,
+      releaseTime,
+      inactivity,
+      guardians,
+      expression: isExpression ? expression : undefined,
+      contingents,
+      claimPolicy
+    });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Edit Item #{item.id}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="form-grid">
+            {edit.beneficiaries.map((beneficiary, i) => (
+              <div key={i} className="form-group">
+                <label>
+                  Beneficiary Address *
+                  {edit.beneficiaries.length > 1 && shares[i] !== undefined && ` (${shares[i]}%)`}
+                </label>
+                <input
+                  type="text"
+                  value={beneficiary}
+                  onChange={(e) =>
+                    setEdit({ ...edit, beneficiaries: edit.beneficiaries.map((b, j) => (j === i ? e.target.value : b)) })
+                  }
+                  placeholder="0x..."
+                  className="cyber-input"
+                />
+                <textarea
+                  value={contingentInput[i]}
+                  onChange={(e) => setContingentInput(contingentInput.map((c, j) => (j === i ? e.target.value : c)))}
+                  placeholder={`Contingents in order, up to ${MAX_CONTINGENTS}, one per line`}
+                  rows={2}
+                  className="cyber-input contingents-input"
+                />
+              </div>
+            ))}
+
+            <ClaimPolicyPicker value={claimPolicyInput} onChange={setClaimPolicyInput} />
+
+            <div className="form-group">
+              <label>Unlock Condition *</label>
+              <select
+                value={edit.unlockCondition}
+                onChange={(e) => setEdit({ ...edit, unlockCondition: e.target.value as ItemEdit['unlockCondition'] })}
+                className="cyber-select"
+              >
+                {RELEASE_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{RELEASE_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+
+            {isExpression && <ConditionBuilder value={expression} onChange={setExpression} />}
+
+            {usesTime && (
+              <UnlockTimePicker value={unlockTime} onChange={setUnlockTime} required={timeRequired} />
+            )}
+
+            {leaves.has('inactivity') && (
+              <InactivityPicker value={inactivityDays} onChange={setInactivityDays} />
+            )}
+
+            {leaves.has('guardians') && (
+              <GuardianPicker value={guardianInput} onChange={setGuardianInput} />
+            )}
+          </div>
+
+          <div className="privacy-notice">
+            <div className="privacy-icon"></div> Every change is recorded as a new version that executors can review
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={saving} className="submit-btn cyber-button primary">
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
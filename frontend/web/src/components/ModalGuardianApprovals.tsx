@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, normAddr } from '../contract';
+import {
+  collectSignatures,
+  decodeApproval,
+  GuardianApproval,
+  rememberApproval,
+  storedApprovals,
+  verifyApproval
+} from '../guardians';
+import { getVaultClientWithSigner, VaultError } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+
+interface ModalGuardianApprovalsProps {
+  item: InheritanceItem;
+  provider: ethers.BrowserProvider;
+  onSubmitted: () => void;
+  onClose: () => void;
+}
+
+/** Collects guardian approval codes for an item and submits them in one transaction. */
+export default function ModalGuardianApprovals({ item, provider, onSubmitted, onClose }: ModalGuardianApprovalsProps) {
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [pasted, setPasted] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    provider.getNetwork().then(network => setChainId(Number(network.chainId)));
+  }, [provider]);
+
+  const set = item.guardians;
+  if (!set) return null;
+
+  const problems: string[] = [];
+  const candidates: GuardianApproval[] = [...storedApprovals(config.vaultContractAddress, item.id)];
+  for (const line of pasted.split('\n').map(l => l.trim()).filter(Boolean)) {
+    try {
+      candidates.push(decodeApproval(line));
+    } catch (e: any) {
+      problems.push(e.message);
+    }
+  }
+
+  const valid: GuardianApproval[] = [];
+  if (chainId !== null) {
+    for (const approval of candidates) {
+      const problem = verifyApproval(approval, chainId, config.vaultContractAddress, item.id, set);
+      if (problem) {
+        problems.push(`${approval.guardian.substring(0, 6)}...: ${problem}`);
+      } else {
+        valid.push(approval);
+      }
+    }
+  }
+  const approvedBy = (guardian: string) => valid.some(a => normAddr(a.guardian) === normAddr(guardian));
+  const signatures = collectSignatures(valid);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setMessage('');
+    try {
+      valid.forEach(rememberApproval);
+      const vault = await getVaultClientWithSigner();
+      await vault.submitGuardianApprovals(BigInt(item.id), signatures);
+      onSubmitted();
+      onClose();
+    } catch (e: any) {
+      setMessage(e instanceof VaultError && e.code === 'USER_REJECTED'
+        ? 'Transaction rejected by user'
+        : `Submission failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Guardian Approvals #{item.id}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="asset-details">
+            {set.guardians.map(guardian => (
+              <div className="detail-row" key={guardian}>
+                <span>{guardian.substring(0, 6)}...{guardian.substring(38)}</span>
+                <span>{approvedBy(guardian) ? 'Signed' : 'Waiting'}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="form-group">
+            <label>Paste approval codes (one per line)</label>
+            <textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              rows={4}
+              className="cyber-input approval-code"
+            />
+          </div>
+
+          {problems.map((problem, i) => (
+            <div className="inbox-error" key={i}>{problem}</div>
+          ))}
+          {message && <div className="inbox-error">{message}</div>}
+
+          <div className="privacy-notice">
+            <div className="privacy-icon"></div> {signatures.length} of {set.threshold} required signatures collected
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Cancel
+          </button>
+          <button
+            onClick={submit}
+            disabled={submitting || signatures.length < set.threshold}
+            className="submit-btn cyber-button primary"
+          >
+            {submitting ? 'Submitting...' : 'Submit Approvals'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
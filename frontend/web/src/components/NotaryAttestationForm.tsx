@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { normAddr } from '../contract';
+import { AttestationForm, attestationFromInput, emptyAttestationForm, hashDocument } from '../attestation';
+import { getVaultClientReadOnly, getVaultClientWithSigner, VaultError } from '../vaultClient';
+
+interface NotaryAttestationFormProps {
+  account: string;
+  onAttested: () => void;
+}
+
+/** Lets the notary record a death certificate for a vault owner. */
+export default function NotaryAttestationForm({ account, onAttested }: NotaryAttestationFormProps) {
+  const [isNotary, setIsNotary] = useState(false);
+  const [owner, setOwner] = useState('');
+  const [form, setForm] = useState<AttestationForm>(emptyAttestationForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    getVaultClientReadOnly()
+      .then(vault => vault.getNotary())
+      .then(notary => { if (!cancelled) setIsNotary(normAddr(notary) === normAddr(account)); })
+      .catch(e => console.error('Reading the notary failed:', e));
+    return () => { cancelled = true; };
+  }, [account]);
+
+  if (!isNotary) return null;
+
+  const pickDocument = async (file: File | undefined) => {
+    if (!file) return;
+    setForm({ ...form, documentHash: await hashDocument(file) });
+  };
+
+  const submit = async () => {
+    if (!ethers.isAddress(owner)) {
+      setMessage('Owner must be a valid address');
+      return;
+    }
+    let attestation;
+    try {
+      attestation = attestationFromInput(form);
+    } catch (e: any) {
+      setMessage(e.message);
+      return;
+    }
+
+    setSubmitting(true);
+    setMessage('');
+    try {
+      const vault = await getVaultClientWithSigner();
+      await vault.attestDeath(owner, attestation);
+      setMessage('Attestation recorded, the objection window is open');
+      setOwner('');
+      setForm(emptyAttestationForm());
+      onAttested();
+    } catch (e: any) {
+      setMessage(e instanceof VaultError && e.code === 'USER_REJECTED'
+        ? 'Transaction rejected by user'
+        : `Attestation failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="assets-section">
+      <div className="section-header">
+        <h2>Attest a Death Certificate</h2>
+      </div>
+      <div className="cyber-card attestation-form">
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Deceased Owner *</label>
+            <input
+              type="text"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              placeholder="0x..."
+              className="cyber-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Certificate Document *</label>
+            <input type="file" onChange={(e) => pickDocument(e.target.files?.[0])} className="cyber-input" />
+            <input
+              type="text"
+              value={form.documentHash}
+              onChange={(e) => setForm({ ...form, documentHash: e.target.value })}
+              placeholder="or paste its keccak256 hash"
+              className="cyber-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Jurisdiction *</label>
+            <input
+              type="text"
+              value={form.jurisdiction}
+              onChange={(e) => setForm({ ...form, jurisdiction: e.target.value })}
+              placeholder="e.g. US-CA"
+              className="cyber-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Issue Date *</label>
+            <input
+              type="date"
+              value={form.issuedDate}
+              onChange={(e) => setForm({ ...form, issuedDate: e.target.value })}
+              className="cyber-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Certificate Signer *</label>
+            <input
+              type="text"
+              value={form.signer}
+              onChange={(e) => setForm({ ...form, signer: e.target.value })}
+              placeholder="0x..."
+              className="cyber-input"
+            />
+          </div>
+        </div>
+        {message && <div className="unlock-time-preview">{message}</div>}
+        <button className="cyber-button primary" disabled={submitting} onClick={submit}>
+          {submitting ? 'Submitting...' : 'Submit Attestation'}
+        </button>
+      </div>
+    </div>
+  );
+}
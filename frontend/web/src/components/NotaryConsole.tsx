@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { normAddr } from '../contract';
+import { RoleChange, RolesProjection } from '../indexer';
+import { ExecutorStatus, getVaultClientReadOnly, getVaultClientWithSigner, VaultClient, VaultError } from '../vaultClient';
+
+interface NotaryConsoleProps {
+  account: string;
+  roles: RolesProjection;
+  onChanged: () => void;
+}
+
+const STATUS_ORDER: ExecutorStatus[] = ['Active', 'Suspended', 'Revoked', 'None'];
+
+const short = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+function describeChange(change: RoleChange): string {
+  switch (change.change) {
+    case 'executor':
+      return `${short(change.actor)} set executor ${short(change.account)} to ${change.status}`;
+    case 'notaryOffered':
+      return change.account === ethers.ZeroAddress
+        ? `${short(change.actor)} withdrew the notary offer`
+        : `${short(change.actor)} offered the notary role to ${short(change.account)}`;
+    case 'notaryTransferred':
+      return change.actor === ethers.ZeroAddress
+        ? `${short(change.account)} deployed the vault as notary`
+        : `${short(change.account)} took over as notary from ${short(change.actor)}`;
+  }
+}
+
+/** Executors and the notary role, for the notary and for an account offered the role. */
+export default function NotaryConsole({ account, roles, onChanged }: NotaryConsoleProps) {
+  const [notary, setNotary] = useState('');
+  const [pendingNotary, setPendingNotary] = useState('');
+  const [newExecutor, setNewExecutor] = useState('');
+  const [newNotary, setNewNotary] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  // Read from the contract rather than the index, which may not have caught up
+  useEffect(() => {
+    let cancelled = false;
+    getVaultClientReadOnly()
+      .then(vault => Promise.all([vault.getNotary(), vault.getPendingNotary()]))
+      .then(([current, pending]) => {
+        if (cancelled) return;
+        setNotary(current);
+        setPendingNotary(pending);
+      })
+      .catch(e => console.error('Reading the notary failed:', e));
+    return () => { cancelled = true; };
+  }, [account, roles]);
+
+  const isNotary = notary !== '' && normAddr(notary) === normAddr(account);
+  const isOffered = pendingNotary !== '' && normAddr(pendingNotary) === normAddr(account);
+  if (!isNotary && !isOffered) return null;
+
+  const send = async (key: string, action: (vault: VaultClient) => Promise<unknown>, done: string) => {
+    setBusy(key);
+    setMessage('');
+    try {
+      await action(await getVaultClientWithSigner());
+      setMessage(done);
+      onChanged();
+      return true;
+    } catch (e: any) {
+      setMessage(e instanceof VaultError && e.code === 'USER_REJECTED'
+        ? 'Transaction rejected by user'
+        : `Failed: ${e.message || 'Unknown error'}`);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addExecutor = async () => {
+    if (!ethers.isAddress(newExecutor)) {
+      setMessage('Executor must be a valid address');
+      return;
+    }
+    if (await send('add', vault => vault.authorizeExecutor(newExecutor), 'Executor authorized')) setNewExecutor('');
+  };
+
+  const offerNotary = async () => {
+    if (!ethers.isAddress(newNotary) || normAddr(newNotary) === normAddr(account)) {
+      setMessage('New notary must be a valid address other than yours');
+      return;
+    }
+    if (await send('offer', vault => vault.transferNotary(newNotary), 'Notary role offered, waiting for it to be accepted')) {
+      setNewNotary('');
+    }
+  };
+
+  const executors = Object.values(roles.executors)
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || b.since - a.since);
+  const hasOffer = pendingNotary !== '' && pendingNotary !== ethers.ZeroAddress;
+
+  return (
+    <div className="assets-section">
+      <div className="section-header">
+        <h2>Notary Console</h2>
+      </div>
+      <div className="cyber-card notary-console">
+        {isOffered && (
+          <div className="form-group">
+            <label>The notary role has been offered to you by {short(notary)}</label>
+            <button className="cyber-button" disabled={busy !== null} onClick={() =>
+              send('accept', vault => vault.acceptNotary(), 'You are now the notary')
+            }>
+              {busy === 'accept' ? 'Accepting...' : 'Accept the notary role'}
+            </button>
+          </div>
+        )}
+
+        {isNotary && (
+          <>
+            <div className="form-group">
+              <label>Executors</label>
+              {executors.length === 0 ? (
+                <div className="version-meta">No executor has been authorized</div>
+              ) : (
+                <ol className="version-history">
+                  {executors.map(({ executor, status, since }) => (
+                    <li key={executor}>
+                      <span className={`version-number executor-status-${status.toLowerCase()}`}>{status}</span>
+                      <span>{executor}</span>
+                      <span className="version-meta">
+                        since {new Date(since * 1000).toLocaleString()}
+                        {status === 'Suspended' && (
+                          <button className="link-button" disabled={busy !== null} onClick={() =>
+                            send(executor, vault => vault.authorizeExecutor(executor), 'Executor reinstated')
+                          }>
+                            Reinstate
+                          </button>
+                        )}
+                        {status === 'Active' && (
+                          <button className="link-button" disabled={busy !== null} onClick={() =>
+                            send(executor, vault => vault.suspendExecutor(executor), 'Executor suspended')
+                          }>
+                            Suspend
+                          </button>
+                        )}
+                        {status !== 'Revoked' && (
+                          <button className="link-button" disabled={busy !== null} onClick={() => {
+                            if (window.confirm(`Revoke ${executor}? A revoked executor cannot be authorized again.`)) {
+                              send(executor, vault => vault.revokeExecutor(executor), 'Executor revoked');
+                            }
+                          }}>
+                            Revoke
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label>Authorize an Executor</label>
+              <div className="condition-row">
+                <input
+                  type="text"
+                  value={newExecutor}
+                  onChange={(e) => setNewExecutor(e.target.value)}
+                  placeholder="0x..."
+                  className="cyber-input"
+                />
+                <button className="cyber-button" disabled={busy !== null} onClick={addExecutor}>
+                  {busy === 'add' ? 'Authorizing...' : 'Authorize'}
+                </button>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label>Transfer the Notary Role</label>
+              {hasOffer ? (
+                <div className="unlock-time-preview">
+                  Offered to {pendingNotary}, who has not accepted yet{' '}
+                  <button className="link-button" disabled={busy !== null} onClick={() =>
+                    send('offer', vault => vault.transferNotary(ethers.ZeroAddress), 'Notary offer withdrawn')
+                  }>
+                    Withdraw
+                  </button>
+                </div>
+              ) : (
+                <div className="condition-row">
+                  <input
+                    type="text"
+                    value={newNotary}
+                    onChange={(e) => setNewNotary(e.target.value)}
+                    placeholder="0x..."
+                    className="cyber-input"
+                  />
+                  <button className="cyber-button" disabled={busy !== null} onClick={offerNotary}>
+                    {busy === 'offer' ? 'Offering...' : 'Offer'}
+                  </button>
+                </div>
+              )}
+              <div className="unlock-time-preview">You stay notary until the new notary accepts</div>
+            </div>
+
+            <div className="form-group">
+              <label>Audit Trail</label>
+              <ol className="version-history">
+                {[...roles.history].reverse().map(change => (
+                  <li key={`${change.transactionHash}:${change.change}:${change.account}`}>
+                    <span>{describeChange(change)}</span>
+                    <span className="version-meta">
+                      {new Date(change.timestamp * 1000).toLocaleString()}, block {change.blockNumber}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        )}
+
+        {message && <div className="unlock-time-preview">{message}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config } from '../contract';
+import { getFhevmInstance, userDecryptHandles } from '../fhe';
+import { FULL_SHARE, knownShareCheck, rememberShareCheck, ShareCheck } from '../shares';
+import { getVaultClientWithSigner } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+
+interface ShareVerificationProps {
+  item: InheritanceItem;
+  provider: ethers.BrowserProvider | null;
+}
+
+export default function ShareVerification({ item, provider }: ShareVerificationProps) {
+  const instructionCount = item.beneficiaries.length;
+  const [check, setCheck] = useState<ShareCheck | null>(() =>
+    knownShareCheck(config.vaultContractAddress, item.id, instructionCount)
+  );
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    setCheck(knownShareCheck(config.vaultContractAddress, item.id, instructionCount));
+  }, [item.id, instructionCount]);
+
+  // The sum is computed on the encrypted shares; only its result is decrypted, for the caller alone
+  const verify = async () => {
+    if (!provider) return;
+    setVerifying(true);
+    try {
+      const vault = await getVaultClientWithSigner();
+      const signer = await provider.getSigner();
+      await vault.verifySharePercentage(BigInt(item.id));
+      const handle = await vault.getShareCheck(BigInt(item.id), await signer.getAddress());
+
+      const { chainId } = await provider.getNetwork();
+      const [valid] = await userDecryptHandles(
+        await getFhevmInstance(Number(chainId)),
+        signer,
+        vault.address,
+        [handle]
+      );
+      const result = { valid: valid === 1n, instructionCount, checkedAt: Math.floor(Date.now() / 1000) };
+      rememberShareCheck(vault.address, item.id, result);
+      setCheck(result);
+    } catch (e: any) {
+      console.error(`Verifying the shares of vault ${item.id} failed:`, e);
+      alert(`Could not verify the shares: ${e.message || 'Unknown error'}`);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (instructionCount === 0) return <span>No beneficiaries</span>;
+
+  return (
+    <span className="share-check">
+      {check && (
+        <span
+          className={check.valid ? 'share-valid' : 'share-invalid'}
+          title={`Checked on-chain ${new Date(check.checkedAt * 1000).toLocaleString()}`}
+        >
+          {check.valid ? `✓ Total ${FULL_SHARE}%` : `✗ Not ${FULL_SHARE}%`}
+        </span>
+      )}
+      {provider && (
+        <button className="link-button" disabled={verifying} onClick={verify}>
+          {verifying ? 'Verifying...' : check ? 'Re-check' : 'Verify on-chain'}
+        </button>
+      )}
+      {!check && !provider && <span>Unverified</span>}
+    </span>
+  );
+}
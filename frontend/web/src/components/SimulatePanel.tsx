@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { config, normAddr } from '../contract';
+import { HARDHAT_RPC_URL } from '../fhe';
+import {
+  DEFAULT_HORIZON,
+  forkNetwork,
+  rpcNetwork,
+  scenarioFromInput,
+  SIMULATION_ACTIONS,
+  SimulationAction,
+  simulateRelease,
+  timeline,
+  VaultSimulation
+} from '../simulator';
+import { knownUnlockTime } from '../timeLock';
+import { InheritanceItem } from '../vaultModel';
+
+interface SimulatePanelProps {
+  account: string;
+  items: InheritanceItem[];
+}
+
+interface StepInput {
+  at: string;
+  action: SimulationAction;
+}
+
+const ACTION_LABELS: Record<SimulationAction, string> = {
+  checkIn: 'Owner checks in',
+  approve: 'Guardians approve',
+  attest: 'Notary attests death'
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+  step: 'Step',
+  released: 'Released',
+  blocked: 'Blocked',
+  'not-met': 'Not met',
+  undecided: 'Undecided'
+};
+
+/**
+ * Runs the release simulator against a local hardhat node, either on its own
+ * state or on a fresh fork of the deployment network.
+ */
+export default function SimulatePanel({ account, items }: SimulatePanelProps) {
+  const [fork, setFork] = useState(true);
+  const [vaultId, setVaultId] = useState('mine');
+  const [steps, setSteps] = useState<StepInput[]>([]);
+  const [until, setUntil] = useState(DEFAULT_HORIZON);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState('');
+  const [results, setResults] = useState<VaultSimulation[]>([]);
+
+  const owned = items.filter(item => normAddr(item.owner) === normAddr(account));
+
+  const updateStep = (index: number, step: StepInput) =>
+    setSteps(steps.map((current, i) => (i === index ? step : current)));
+
+  const run = async () => {
+    const vaultIds = vaultId === 'mine' ? owned.map(item => BigInt(item.id)) : [BigInt(vaultId)];
+    if (vaultIds.length === 0) {
+      setError('You have no vaults to simulate');
+      return;
+    }
+
+    setRunning(true);
+    setError('');
+    setResults([]);
+    try {
+      const network = rpcNetwork(HARDHAT_RPC_URL);
+      if (fork) {
+        setProgress(`Forking ${config.network}...`);
+        await forkNetwork(network, config.network);
+      }
+      const latest = await network.request({ method: 'eth_getBlockByNumber', params: ['latest', false] });
+      const scenario = scenarioFromInput({ until, steps }, Number(latest.timestamp));
+      setResults(await simulateRelease(network, {
+        vaultAddress: config.vaultContractAddress,
+        vaultIds,
+        scenario,
+        mock: !fork,
+        onProgress: setProgress
+      }));
+    } catch (e: any) {
+      setError(`Simulation failed: ${e.message || 'Unknown error'}`);
+    } finally {
+      setRunning(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="assets-section">
+      <div className="section-header">
+        <h2>Simulate Release</h2>
+      </div>
+      <div className="cyber-card simulate-panel">
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Chain State</label>
+            <select
+              value={fork ? 'fork' : 'node'}
+              onChange={(e) => setFork(e.target.value === 'fork')}
+              className="cyber-select"
+            >
+              <option value="fork">Fresh fork of {config.network}</option>
+              <option value="node">Local node as it is (FHEVM mock)</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Vault</label>
+            <select value={vaultId} onChange={(e) => setVaultId(e.target.value)} className="cyber-select">
+              <option value="mine">All my vaults</option>
+              {items.map(item => (
+                <option key={item.id} value={item.id}>#{item.id} ({item.unlockCondition})</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Simulate Until</label>
+            <input
+              type="text"
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+              placeholder="+5y, 2030-01-31"
+              className="cyber-input"
+            />
+          </div>
+        </div>
+
+        <div className="simulate-steps">
+          {steps.map((step, i) => (
+            <div key={i} className="condition-row">
+              <select
+                value={step.action}
+                onChange={(e) => updateStep(i, { ...step, action: e.target.value as SimulationAction })}
+                className="cyber-select"
+              >
+                {SIMULATION_ACTIONS.map(action => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={step.at}
+                onChange={(e) => updateStep(i, { ...step, at: e.target.value })}
+                placeholder="+90d"
+                className="cyber-input"
+              />
+              <button className="link-button" onClick={() => setSteps(steps.filter((_, j) => j !== i))}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <button className="link-button" onClick={() => setSteps([...steps, { at: '+90d', action: 'checkIn' }])}>
+            + Add step
+          </button>
+        </div>
+
+        <div className="privacy-notice">
+          <div className="privacy-icon"></div> Runs on the hardhat node at {HARDHAT_RPC_URL}.
+          {fork ? ' Forking resets that node.' : ' Its state is rolled back afterwards.'}
+          {' '}Guardian approvals are signed by simulation keys standing in for the real guardians.
+        </div>
+        {error && <div className="inbox-error">{error}</div>}
+        <button className="cyber-button primary" disabled={running} onClick={run}>
+          {running ? progress || 'Simulating...' : 'Run Simulation'}
+        </button>
+      </div>
+
+      {results.map(result => {
+        const savedTime = knownUnlockTime(config.vaultContractAddress, result.vaultId.toString());
+        const undecided = result.checks[result.checks.length - 1]?.outcome === 'undecided';
+        return (
+          <div key={result.vaultId.toString()} className="cyber-card simulate-result">
+            <h3>
+              #{result.vaultId.toString()} ({result.releaseKind}):{' '}
+              {result.releasedAt !== null
+                ? `releases ${new Date(result.releasedAt * 1000).toLocaleString()}`
+                : undecided
+                  ? 'depends on the encrypted release time'
+                  : 'does not release in this scenario'}
+            </h3>
+            {undecided && savedTime !== null && (
+              <div className="version-meta">
+                Release time saved in this browser: {new Date(savedTime * 1000).toLocaleString()}
+              </div>
+            )}
+            <ol className="version-history">
+              {timeline(result).map((entry, i) => (
+                <li key={i}>
+                  <span className={`version-number simulate-${entry.label}`}>{OUTCOME_LABELS[entry.label]}</span>
+                  <span>{entry.text}</span>
+                  <span className="version-meta">{new Date(entry.time * 1000).toLocaleString()}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
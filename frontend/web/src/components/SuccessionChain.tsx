@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { config, normAddr } from '../contract';
+import { formatDays } from '../inactivity';
+import { knownShares } from '../shares';
+import { LAPSE_RULE_LABELS, lapsedShares, LinkState, successionChain } from '../succession';
+import { getVaultClientWithSigner } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+
+interface SuccessionChainProps {
+  item: InheritanceItem;
+  account: string;
+  provider: ethers.BrowserProvider | null;
+  onChanged: () => void;
+}
+
+const STATE_LABELS: Record<LinkState, string> = {
+  waiting: 'In line',
+  offered: 'Claimable',
+  claimed: 'Claimed',
+  missed: 'Missed'
+};
+
+/** Who each share goes to, in order, and how far down the line a released share has gone. */
+export default function SuccessionChain({ item, account, provider, onChanged }: SuccessionChainProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const shares = knownShares(config.vaultContractAddress, item.id);
+  const now = Math.floor(Date.now() / 1000);
+  const lapsed = lapsedShares(item, now);
+
+  const send = async (instructionId: string, action: 'claim' | 'lapse') => {
+    setBusy(instructionId);
+    setError('');
+    try {
+      const vault = await getVaultClientWithSigner();
+      if (action === 'claim') {
+        await vault.claimShare(BigInt(item.id), BigInt(instructionId));
+      } else {
+        await vault.lapseShare(BigInt(item.id), BigInt(instructionId));
+      }
+      onChanged();
+    } catch (e: any) {
+      console.error(`${action} of share ${instructionId} in vault ${item.id} failed:`, e);
+      setError(e.message || 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="succession-chain">
+      <div className="version-meta">
+        {item.claimPolicy && item.claimPolicy.window > 0
+          ? `Each holder has ${formatDays(item.claimPolicy.window)} to claim; after the last contingent: ${LAPSE_RULE_LABELS[item.claimPolicy.lapseRule].toLowerCase()}`
+          : 'No claim window: shares go to the beneficiaries on release and contingents never apply'}
+      </div>
+      {item.instructions.map(instruction => {
+        const claim = instruction.claim;
+        return (
+          <ol key={instruction.instructionId} className="version-history">
+            <li className="succession-share">
+              Share #{instruction.instructionId}
+              {shares[instruction.instructionId] !== undefined && ` (${shares[instruction.instructionId]}%)`}
+            </li>
+            {successionChain(instruction, now).map((link, position) => (
+              <li key={position}>
+                <span className={`version-number succession-${link.state}`}>{STATE_LABELS[link.state]}</span>
+                <span>
+                  {link.role === 'beneficiary' ? 'Beneficiary' : `Contingent ${position}`}{' '}
+                  {link.holder.substring(0, 6)}...{link.holder.substring(38)}
+                  {normAddr(link.holder) === normAddr(account) && ' (you)'}
+                </span>
+                <span className="version-meta">
+                  {link.deadline !== null && `until ${new Date(link.deadline * 1000).toLocaleString()}`}
+                  {link.state === 'offered' && normAddr(link.holder) === normAddr(account) && provider && (
+                    <button
+                      className="link-button"
+                      disabled={busy !== null}
+                      onClick={() => send(instruction.instructionId, 'claim')}
+                    >
+                      {busy === instruction.instructionId ? 'Claiming...' : 'Claim'}
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+            {claim?.status === 'Lapsed' && (
+              <li>
+                <span className="version-number succession-missed">Lapsed</span>
+                <span>
+                  {claim.recipients.length > 0
+                    ? `Redistributed to share ${claim.recipients.map(id => `#${id}`).join(', ')}`
+                    : "Returned to the owner's estate"}
+                </span>
+              </li>
+            )}
+            {claim && lapsed.includes(instruction.instructionId) && provider && (
+              <li>
+                <button
+                  className="link-button"
+                  disabled={busy !== null}
+                  onClick={() => send(instruction.instructionId, 'lapse')}
+                >
+                  {busy === instruction.instructionId
+                    ? 'Passing on...'
+                    : claim.contingentsUsed < instruction.contingents.length
+                      ? 'Pass on to the next contingent'
+                      : 'Redistribute the lapsed share'}
+                </button>
+              </li>
+            )}
+          </ol>
+        );
+      })}
+      {error && <div className="inbox-error">{error}</div>}
+    </div>
+  );
+}
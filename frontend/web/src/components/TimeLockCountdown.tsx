@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, normAddr } from '../contract';
+import { getFhevmInstance, userDecryptHandles } from '../fhe';
+import { formatCountdown, formatInZone, knownUnlockTime, localTimeZone, rememberUnlockTime } from '../timeLock';
+import { getVaultClientWithSigner } from '../vaultClient';
+import { InheritanceItem } from '../vaultModel';
+
+interface TimeLockCountdownProps {
+  item: InheritanceItem;
+  account: string;
+  provider: ethers.BrowserProvider | null;
+}
+
+export default function TimeLockCountdown({ item, account, provider }: TimeLockCountdownProps) {
+  const [unlockTime, setUnlockTime] = useState<number | null>(() =>
+    knownUnlockTime(config.vaultContractAddress, item.id)
+  );
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [revealing, setRevealing] = useState(false);
+
+  useEffect(() => {
+    setUnlockTime(knownUnlockTime(config.vaultContractAddress, item.id));
+  }, [item.id, item.history.length]);
+
+  useEffect(() => {
+    if (!unlockTime) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [unlockTime]);
+
+  // The release time is only decryptable by the owner, e.g. on another device
+  const reveal = async () => {
+    if (!provider) return;
+    setRevealing(true);
+    try {
+      const vault = await getVaultClientWithSigner();
+      const [instruction] = await vault.getInheritanceInstructions(BigInt(item.id));
+      if (!instruction) return;
+
+      const { chainId } = await provider.getNetwork();
+      const [time] = await userDecryptHandles(
+        await getFhevmInstance(Number(chainId)),
+        await provider.getSigner(),
+        vault.address,
+        [instruction.encryptedReleaseCondition]
+      );
+      rememberUnlockTime(vault.address, item.id, Number(time));
+      setUnlockTime(Number(time));
+    } catch (e: any) {
+      console.error(`Revealing the unlock time of vault ${item.id} failed:`, e);
+      alert(`Could not reveal the unlock time: ${e.message || 'Unknown error'}`);
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  if (unlockTime === 0) return <span>No date set</span>;
+
+  if (unlockTime) {
+    return (
+      <span className="countdown" title={formatInZone(unlockTime, localTimeZone())}>
+        {formatCountdown(unlockTime - now)}
+      </span>
+    );
+  }
+
+  if (provider && normAddr(account) === normAddr(item.owner)) {
+    return (
+      <button className="link-button" disabled={revealing} onClick={reveal}>
+        {revealing ? 'Decrypting...' : 'Reveal'}
+      </button>
+    );
+  }
+  return <span>Encrypted</span>;
+}
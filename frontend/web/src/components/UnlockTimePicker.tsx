@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { formatInZone, localTimeZone, timeZones, unlockTimeFromInput, UnlockTimeValue } from '../timeLock';
+
+interface UnlockTimePickerProps {
+  value: UnlockTimeValue;
+  onChange: (value: UnlockTimeValue) => void;
+  /** Optional when editing, where an empty date keeps the current unlock time. */
+  required?: boolean;
+}
+
+export default function UnlockTimePicker({ value, onChange, required = true }: UnlockTimePickerProps) {
+  const zones = useMemo(timeZones, []);
+
+  let preview = '';
+  if (value.date) {
+    try {
+      preview = `Unlocks ${formatInZone(unlockTimeFromInput(value), localTimeZone())} in your time zone`;
+    } catch (e: any) {
+      preview = e.message;
+    }
+  }
+
+  return (
+    <div className="form-group unlock-time-picker">
+      <label>{required ? 'Unlock Date *' : 'New Unlock Date (leave empty to keep)'}</label>
+      <div className="unlock-time-inputs">
+        <input
+          type="datetime-local"
+          value={value.date}
+          onChange={(e) => onChange({ ...value, date: e.target.value })}
+          className="cyber-input"
+        />
+        <select
+          value={value.timeZone}
+          onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+          className="cyber-select"
+        >
+          {zones.map(zone => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+      </div>
+      {preview && <div className="unlock-time-preview">{preview}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { VaultVersion } from '../indexer';
+import { describeVersion } from '../vaultModel';
+
+interface VersionHistoryProps {
+  history: VaultVersion[];
+}
+
+export default function VersionHistory({ history }: VersionHistoryProps) {
+  return (
+    <ol className="version-history">
+      {[...history].reverse().map(version => (
+        <li key={version.version}>
+          <span className="version-number">v{version.version}</span>
+          <span>{describeVersion(version)}</span>
+          <span className="version-meta" title={version.transactionHash}>
+            {version.editor.substring(0, 6)}...{version.editor.substring(38)} · {new Date(version.timestamp * 1000).toLocaleString()}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
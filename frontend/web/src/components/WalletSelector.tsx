@@ -1,4 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { config } from '../contract';
+
+const SEPOLIA_CHAIN_ID = 11155111;
 
 interface WalletInfo {
   name: string;
@@ -355,8 +358,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the chain the app is using
+      await switchToAppChain(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,14 +368,15 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToAppChain = async (provider: any) => {
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId: '0x' + config.chainId.toString(16) }],
       });
     } catch (switchError: any) {
-      if (switchError.code === 4902) {
+      // Only Sepolia can be added for the user; other chains must already be in the wallet
+      if (switchError.code === 4902 && config.chainId === SEPOLIA_CHAIN_ID) {
         try {
           await provider.request({
             method: 'wallet_addEthereumChain',
@@ -0,0 +1,277 @@
+// conditions.ts
+// Unlock condition expressions for Expression vaults: AND/OR/NOT over the
+// time-lock, inactivity, guardian-quorum and attestation leaves. On-chain an
+// expression is postfix bytecode (see setUnlockExpression in
+// contracts/DigitalInheritanceVaultFHE.sol); here it is a tree with a text
+// form such as "time AND (guardians OR attestation)".
+import { ethers } from "ethers";
+import { attestationStatus } from "./attestation";
+import { inactivityStatus } from "./inactivity";
+import type { ReleaseKind } from "./vaultClient";
+import type { InheritanceItem } from "./vaultModel";
+
+export const CONDITION_LEAVES = ["time", "inactivity", "guardians", "attestation"] as const;
+export type ConditionLeaf = (typeof CONDITION_LEAVES)[number];
+
+export type ConditionExpr =
+  | { type: "leaf"; leaf: ConditionLeaf }
+  | { type: "and" | "or"; args: ConditionExpr[] }
+  | { type: "not"; arg: ConditionExpr };
+
+export const LEAF_LABELS: Record<ConditionLeaf, string> = {
+  time: "Time lock passed",
+  inactivity: "Owner inactive",
+  guardians: "Guardian quorum approved",
+  attestation: "Death certificate final"
+};
+
+// Opcodes and limits mirror the contract constants
+const LEAF_OPCODES: Record<ConditionLeaf, number> = { time: 0x01, inactivity: 0x02, guardians: 0x03, attestation: 0x04 };
+const OP_AND = 0x10;
+const OP_OR = 0x11;
+const OP_NOT = 0x12;
+export const MAX_EXPRESSION_LENGTH = 32;
+export const MAX_EXPRESSION_DEPTH = 8;
+
+/** Leaf each single-condition release kind stands for. */
+const KIND_LEAVES: Partial<Record<ReleaseKind, ConditionLeaf>> = {
+  TimeLock: "time",
+  Inactivity: "inactivity",
+  MultiSig: "guardians",
+  DeathCert: "attestation"
+};
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+export const leaf = (name: ConditionLeaf): ConditionExpr => ({ type: "leaf", leaf: name });
+
+/** "time AND (guardians OR attestation)", the starting point of the builder. */
+export const defaultExpression = (): ConditionExpr => ({
+  type: "and",
+  args: [leaf("time"), { type: "or", args: [leaf("guardians"), leaf("attestation")] }]
+});
+
+export function expressionLeaves(expr: ConditionExpr, into = new Set<ConditionLeaf>()): Set<ConditionLeaf> {
+  switch (expr.type) {
+    case "leaf":
+      into.add(expr.leaf);
+      break;
+    case "not":
+      expressionLeaves(expr.arg, into);
+      break;
+    default:
+      expr.args.forEach(arg => expressionLeaves(arg, into));
+  }
+  return into;
+}
+
+/** Leaves whose settings (release time, window, guardians) an item of this kind needs. */
+export function requiredLeaves(kind: ReleaseKind, expr: ConditionExpr | null): Set<ConditionLeaf> {
+  if (kind === "Expression") return expr ? expressionLeaves(expr) : new Set();
+  const single = KIND_LEAVES[kind];
+  return new Set(single ? [single] : []);
+}
+
+function toPostfix(expr: ConditionExpr, out: number[]): void {
+  switch (expr.type) {
+    case "leaf":
+      out.push(LEAF_OPCODES[expr.leaf]);
+      break;
+    case "not":
+      toPostfix(expr.arg, out);
+      out.push(OP_NOT);
+      break;
+    default:
+      if (expr.args.length < 2) {
+        throw new ExpressionError(`${expr.type.toUpperCase()} needs at least two conditions`);
+      }
+      toPostfix(expr.args[0], out);
+      for (const arg of expr.args.slice(1)) {
+        toPostfix(arg, out);
+        out.push(expr.type === "and" ? OP_AND : OP_OR);
+      }
+  }
+}
+
+/** Checks postfix bytecode the way validateUnlockExpression does on-chain. */
+function checkPostfix(code: readonly number[]): void {
+  if (code.length === 0) throw new ExpressionError("Expression is empty");
+  if (code.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is too long (${code.length} of ${MAX_EXPRESSION_LENGTH} steps)`);
+  }
+  let depth = 0;
+  for (const op of code) {
+    if (op >= LEAF_OPCODES.time && op <= LEAF_OPCODES.attestation) {
+      if (++depth > MAX_EXPRESSION_DEPTH) throw new ExpressionError("Expression is nested too deeply");
+    } else if (op === OP_AND || op === OP_OR) {
+      if (depth < 2) throw new ExpressionError("Operator is missing a condition");
+      depth--;
+    } else if (op === OP_NOT) {
+      if (depth < 1) throw new ExpressionError("NOT is missing a condition");
+    } else {
+      throw new ExpressionError(`Unknown opcode 0x${op.toString(16)}`);
+    }
+  }
+  if (depth !== 1) throw new ExpressionError("Expression does not combine into a single condition");
+}
+
+/** Encodes an expression as the hex bytes setUnlockExpression takes, throwing if the contract would reject it. */
+export function encodeExpression(expr: ConditionExpr): string {
+  const code: number[] = [];
+  toPostfix(expr, code);
+  checkPostfix(code);
+  return ethers.hexlify(new Uint8Array(code));
+}
+
+/** Returns why an expression cannot be stored, or null if it can. */
+export function validateExpression(expr: ConditionExpr): string | null {
+  try {
+    encodeExpression(expr);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+}
+
+/** Rebuilds an expression from its on-chain bytes; chained operators of one kind are flattened. */
+export function decodeExpression(hex: string): ConditionExpr {
+  const code = Array.from(ethers.getBytes(hex));
+  checkPostfix(code);
+  const opcodes = Object.entries(LEAF_OPCODES) as [ConditionLeaf, number][];
+  const stack: ConditionExpr[] = [];
+  for (const op of code) {
+    if (op === OP_NOT) {
+      stack.push({ type: "not", arg: stack.pop()! });
+    } else if (op === OP_AND || op === OP_OR) {
+      const right = stack.pop()!;
+      const left = stack.pop()!;
+      const type = op === OP_AND ? "and" : "or";
+      stack.push({ type, args: left.type === type ? [...left.args, right] : [left, right] });
+    } else {
+      stack.push(leaf(opcodes.find(([, opcode]) => opcode === op)![0]));
+    }
+  }
+  return stack[0];
+}
+
+export function formatExpression(expr: ConditionExpr, nested = false): string {
+  switch (expr.type) {
+    case "leaf":
+      return expr.leaf;
+    case "not":
+      return `NOT ${formatExpression(expr.arg, true)}`;
+    default: {
+      const text = expr.args.map(arg => formatExpression(arg, true)).join(` ${expr.type.toUpperCase()} `);
+      return nested ? `(${text})` : text;
+    }
+  }
+}
+
+/**
+ * Parses the text form. AND binds tighter than OR, NOT tighter than both;
+ * keywords are case-insensitive.
+ */
+export function parseExpression(text: string): ConditionExpr {
+  const tokens = text.match(/\(|\)|[A-Za-z]+|\S/g) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos]?.toUpperCase();
+
+  const parseOr = (): ConditionExpr => {
+    const args = [parseAnd()];
+    while (peek() === "OR") {
+      pos++;
+      args.push(parseAnd());
+    }
+    return args.length === 1 ? args[0] : { type: "or", args };
+  };
+  const parseAnd = (): ConditionExpr => {
+    const args = [parseUnary()];
+    while (peek() === "AND") {
+      pos++;
+      args.push(parseUnary());
+    }
+    return args.length === 1 ? args[0] : { type: "and", args };
+  };
+  const parseUnary = (): ConditionExpr => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new ExpressionError("Expression ends unexpectedly");
+    if (token.toUpperCase() === "NOT") return { type: "not", arg: parseUnary() };
+    if (token === "(") {
+      const inner = parseOr();
+      if (tokens[pos++] !== ")") throw new ExpressionError("Missing closing parenthesis");
+      return inner;
+    }
+    const name = token.toLowerCase();
+    if (!(CONDITION_LEAVES as readonly string[]).includes(name)) {
+      throw new ExpressionError(`Unknown condition "${token}", expected one of ${CONDITION_LEAVES.join(", ")}`);
+    }
+    return leaf(name as ConditionLeaf);
+  };
+
+  const expr = parseOr();
+  if (pos < tokens.length) throw new ExpressionError(`Unexpected "${tokens[pos]}"`);
+  return expr;
+}
+
+/** null means the leaf cannot be decided here, e.g. a release time this browser never saw. */
+export interface LeafReport {
+  leaf: ConditionLeaf;
+  satisfied: boolean | null;
+}
+
+export interface ExpressionReport {
+  satisfied: boolean | null;
+  leaves: LeafReport[];
+}
+
+/**
+ * Evaluates an item's expression from the indexed state, with three-valued
+ * logic for undecidable leaves. `unlockTime` is the plaintext release time if
+ * known; on-chain it stays encrypted.
+ */
+export function evaluateExpression(
+  expr: ConditionExpr,
+  item: InheritanceItem,
+  unlockTime: number | null,
+  now = Math.floor(Date.now() / 1000)
+): ExpressionReport {
+  const leafValue = (name: ConditionLeaf): boolean | null => {
+    switch (name) {
+      case "time":
+        return unlockTime === null ? null : now > unlockTime;
+      case "inactivity":
+        return inactivityStatus(item, now) === "expired";
+      case "guardians":
+        return !!item.guardians?.approved;
+      case "attestation":
+        return !!item.attestation && attestationStatus(item.attestation, now) === "final";
+    }
+  };
+
+  const evaluate = (node: ConditionExpr): boolean | null => {
+    switch (node.type) {
+      case "leaf":
+        return leafValue(node.leaf);
+      case "not": {
+        const value = evaluate(node.arg);
+        return value === null ? null : !value;
+      }
+      default: {
+        const values = node.args.map(evaluate);
+        const decisive = node.type === "and" ? false : true;
+        if (values.includes(decisive)) return decisive;
+        return values.includes(null) ? null : !decisive;
+      }
+    }
+  };
+
+  return {
+    satisfied: evaluate(expr),
+    leaves: Array.from(expressionLeaves(expr), name => ({ leaf: name, satisfied: leafValue(name) }))
+  };
+}
@@ -1,12 +1,74 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { abiHash, CONTRACT_NAMES, ContractName, deploymentFor } from "./manifest";
+import { DigitalInheritanceVaultFHE__factory, UniversalAdapter__factory } from "./typechain";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+const BUNDLED_ABIS: Record<ContractName, readonly unknown[]> = {
+  UniversalAdapter: UniversalAdapter__factory.abi,
+  DigitalInheritanceVaultFHE: DigitalInheritanceVaultFHE__factory.abi
+};
+
+const RPC_URLS: Record<string, string[]> = configJson.rpcUrls;
+
+/** The chain the app works on and its contracts, from deployments.json. */
+export interface ActiveDeployment {
+  chainId: number;
+  /** First RPC endpoint configured for the chain. */
+  network: string;
+  /** UniversalAdapter address, empty if the chain has none. */
+  contractAddress: string;
+  /** DigitalInheritanceVaultFHE address, empty if the chain has none. */
+  vaultContractAddress: string;
+}
+
+function activeDeployment(chainId: number): ActiveDeployment {
+  const contracts = deploymentFor(chainId)?.contracts ?? {};
+  for (const name of CONTRACT_NAMES) {
+    const deployed = contracts[name];
+    if (deployed && deployed.abiHash !== abiHash(BUNDLED_ABIS[name])) {
+      console.warn(`The bundled ${name} ABI differs from the one deployed at ${deployed.address} on chain ${chainId}`);
+    }
+  }
+  return {
+    chainId,
+    network: RPC_URLS[String(chainId)]?.[0] ?? "",
+    contractAddress: contracts.UniversalAdapter?.address ?? "",
+    vaultContractAddress: contracts.DigitalInheritanceVaultFHE?.address ?? ""
+  };
+}
+
+/** Starts on config.json's defaultChainId; selectWalletChain moves it to the wallet's chain. */
+export const config: ActiveDeployment = activeDeployment(configJson.defaultChainId);
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+/**
+ * Moves the app to the injected wallet's chain when it has a deployment.
+ * Call before the first render: modules read `config` as they load data, so a
+ * later change of chain reloads the page rather than switching in place.
+ */
+export async function selectWalletChain(): Promise<void> {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum?.request) return;
+  try {
+    const chainId = Number(await ethereum.request({ method: "eth_chainId" }));
+    if (deploymentFor(chainId)) Object.assign(config, activeDeployment(chainId));
+  } catch (e) {
+    console.warn("Could not read the wallet's chain:", e);
+  }
+  ethereum.on?.("chainChanged", (hexChainId: string) => {
+    const chainId = Number(hexChainId);
+    if (chainId !== config.chainId && deploymentFor(chainId)) window.location.reload();
+  });
+}
+
+/** Deploy block of one of the active chain's contracts, if the manifest records it. */
+export function knownDeployBlock(address: string): number | null {
+  const contracts = Object.values(deploymentFor(config.chainId)?.contracts ?? {});
+  const deployed = contracts.find(c => normAddr(c.address) === normAddr(address));
+  return deployed?.blockNumber ?? null;
+}
+
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,20 +80,12 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
+export const getReadOnlyProvider = async () => {
+  const rpcUrls = RPC_URLS[String(config.chainId)] ?? [];
   
   for (const url of rpcUrls) {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
+      const provider = new ethers.JsonRpcProvider(url, config.chainId);
       
       const blockNumber = await Promise.race([
         provider.getBlockNumber(),
@@ -47,13 +101,14 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All RPC providers for chain ${config.chainId} failed`);
 };
 
 export async function getContractReadOnly() {
+  if (!config.contractAddress) return null;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = await getReadOnlyProvider();
+    const contract = UniversalAdapter__factory.connect(config.contractAddress, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -71,10 +126,13 @@ export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  if (!config.contractAddress) {
+    throw new Error(`UniversalAdapter is not deployed on chain ${config.chainId}`);
+  }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = UniversalAdapter__factory.connect(config.contractAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
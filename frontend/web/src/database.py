@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\database.py
-// Generated at: 2025-10-11T03:35:52.892Z
\ No newline at end of file
@@ -0,0 +1,141 @@
+// decryption.ts
+// Public decryption of a vault's asset. requestAssetDecryption only queues a
+// request; the values are stored later, when the decryption oracle calls
+// decryptAssetData in a transaction of its own and AssetDecrypted is emitted.
+import { ethers } from "ethers";
+import { HARDHAT_CHAIN_ID, runMockDecryptionOracle } from "./fhe";
+import { findDeployBlock, queryFilterInRanges } from "./logs";
+import { DecryptedAsset, VaultClient } from "./vaultClient";
+
+export const DECRYPTION_TIMEOUT_MS = 5 * 60_000;
+const POLL_INTERVAL_MS = 5_000;
+
+export interface DecryptionRequest {
+  vaultId: bigint;
+  requestId: bigint;
+  requestTx: string;
+  blockNumber: number;
+}
+
+export interface AssetDecryption extends DecryptionRequest {
+  /** Transaction in which the oracle delivered the values. */
+  callbackTx: string;
+  asset: DecryptedAsset;
+}
+
+/** The oracle has not answered yet. Waiting again with the same request is safe. */
+export class DecryptionTimeoutError extends Error {
+  readonly request: DecryptionRequest;
+
+  constructor(request: DecryptionRequest, timeoutMs: number) {
+    super(`Request ${request.requestId} was not fulfilled within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "DecryptionTimeoutError";
+    this.request = request;
+  }
+}
+
+export async function requestDecryption(vault: VaultClient, vaultId: bigint): Promise<DecryptionRequest> {
+  const { requestId, hash, blockNumber } = await vault.requestAssetDecryption(vaultId);
+  return { vaultId, requestId, requestTx: hash, blockNumber };
+}
+
+/**
+ * Polls for the AssetDecrypted event of `request` and returns the revealed
+ * values. On the hardhat network the mock oracle is run before every poll.
+ */
+export async function awaitDecryption(
+  vault: VaultClient,
+  request: DecryptionRequest,
+  options: { chainId: number; timeoutMs?: number; onProgress?: (message: string) => void }
+): Promise<AssetDecryption> {
+  const { chainId, timeoutMs = DECRYPTION_TIMEOUT_MS, onProgress } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    if (chainId === HARDHAT_CHAIN_ID) {
+      onProgress?.("Running the local decryption oracle...");
+      await runMockDecryptionOracle();
+    }
+
+    const callbackTx = await findCallback(vault, request);
+    if (callbackTx) {
+      return { ...request, callbackTx, asset: await vault.getDecryptedAsset(request.vaultId) };
+    }
+
+    if (Date.now() >= deadline) {
+      throw new DecryptionTimeoutError(request, timeoutMs);
+    }
+    const remaining = Math.ceil((deadline - Date.now()) / 1000);
+    onProgress?.(`Waiting for the decryption oracle (request ${request.requestId}, ${remaining}s left)...`);
+    await new Promise(res => setTimeout(res, POLL_INTERVAL_MS));
+  }
+}
+
+/** Looks up the request and callback of a vault that was decrypted earlier. */
+export async function findDecryption(vault: VaultClient, vaultId: bigint): Promise<AssetDecryption | null> {
+  const provider = vault.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Vault contract is not connected to a provider");
+  }
+
+  const fromBlock = await findDeployBlock(provider, vault.address);
+  const toBlock = await provider.getBlockNumber();
+  const [decrypted] = await queryFilterInRanges(
+    vault.contract,
+    vault.contract.filters.AssetDecrypted(vaultId),
+    fromBlock,
+    toBlock
+  );
+  if (!decrypted) return null;
+
+  const requestId: bigint = decrypted.args.requestId;
+  const requests = await queryFilterInRanges(
+    vault.contract,
+    vault.contract.filters.AssetDecryptionRequested(vaultId),
+    fromBlock,
+    decrypted.blockNumber
+  );
+  const requested = requests.find(log => log.args.requestId === requestId);
+
+  return {
+    vaultId,
+    requestId,
+    requestTx: requested?.transactionHash ?? "",
+    blockNumber: requested?.blockNumber ?? decrypted.blockNumber,
+    callbackTx: decrypted.transactionHash,
+    asset: await vault.getDecryptedAsset(vaultId)
+  };
+}
+
+/**
+ * The latest decryption request of a vault that is not revealed yet, if any.
+ * The contract refuses requests once the asset is revealed, so such a
+ * request is still waiting for the oracle.
+ */
+export async function findPendingDecryption(vault: VaultClient, vaultId: bigint): Promise<DecryptionRequest | null> {
+  const provider = vault.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Vault contract is not connected to a provider");
+  }
+
+  const fromBlock = await findDeployBlock(provider, vault.address);
+  const toBlock = await provider.getBlockNumber();
+  const requests = await queryFilterInRanges(
+    vault.contract,
+    vault.contract.filters.AssetDecryptionRequested(vaultId),
+    fromBlock,
+    toBlock
+  );
+  const latest = requests[requests.length - 1];
+  if (!latest) return null;
+  return { vaultId, requestId: latest.args.requestId, requestTx: latest.transactionHash, blockNumber: latest.blockNumber };
+}
+
+async function findCallback(vault: VaultClient, request: DecryptionRequest): Promise<string | null> {
+  const logs = await vault.contract.queryFilter(
+    vault.contract.filters.AssetDecrypted(request.vaultId),
+    request.blockNumber
+  );
+  const callback = logs.find(log => log instanceof ethers.EventLog && log.args.requestId === request.requestId);
+  return callback?.transactionHash ?? null;
+}
@@ -0,0 +1,97 @@
+// executor.ts
+// Executor's view of a vault. executeInheritance first checks the plaintext
+// gates of the release kind, which executionReadiness mirrors from the indexed
+// state, and then asks the oracle to decrypt the encrypted release conditions;
+// only the oracle can tell whether those hold, so a vault reported "ready" may
+// still come back as "Condition not met".
+import { attestationStatus } from "./attestation";
+import { evaluateExpression } from "./conditions";
+import { HARDHAT_CHAIN_ID, runMockDecryptionOracle } from "./fhe";
+import { inactivityStatus } from "./inactivity";
+import type { VaultClient, VaultTxResult } from "./vaultClient";
+import type { InheritanceItem } from "./vaultModel";
+
+// Shown for a vault whose last execution was decrypted as not releasable
+export const CONDITION_NOT_MET = "Condition not met";
+
+// Mirrors EXECUTION_TIMEOUT in contracts/DigitalInheritanceVaultFHE.sol
+export const EXECUTION_TIMEOUT_BLOCKS = 7200;
+
+/**
+ * ready: executeInheritance should go through. blocked: it would revert.
+ * pending: waiting for the oracle.
+ */
+export type ReadinessState = "ready" | "blocked" | "pending" | "released" | "revoked";
+
+export interface Readiness {
+  state: ReadinessState;
+  /** Revert reason of the contract where it has one. */
+  reason: string;
+}
+
+export function executionReadiness(item: InheritanceItem, now = Math.floor(Date.now() / 1000)): Readiness {
+  if (item.revoked) return { state: "revoked", reason: "Vault revoked" };
+  if (!item.isActive) return { state: "released", reason: "Vault inactive" };
+  if (item.executionPending) return { state: "pending", reason: "Execution pending" };
+  const blocked = (reason: string): Readiness => ({ state: "blocked", reason });
+  if (item.instructions.length === 0) return blocked("No inheritance instructions");
+
+  switch (item.unlockCondition) {
+    case "Inactivity":
+      if (!item.inactivity || item.inactivity.window === 0) return blocked("Inactivity not configured");
+      if (inactivityStatus(item, now) !== "expired") return blocked("Owner still active");
+      break;
+    case "MultiSig":
+      if (!item.guardians || item.guardians.threshold === 0) return blocked("Guardians not configured");
+      if (!item.guardians.approved) return blocked("Guardian approval missing");
+      break;
+    case "DeathCert":
+      if (!item.attestation || attestationStatus(item.attestation, now) !== "final") return blocked("Death not attested");
+      break;
+    case "Expression":
+      if (!item.expression) return blocked("Expression not set");
+      // Release times are encrypted, so only leaves the indexer knows can rule the vault out
+      if (evaluateExpression(item.expression, item, null, now).satisfied === false) return blocked(CONDITION_NOT_MET);
+      break;
+  }
+
+  const lastOutcome = item.lastExecution?.outcome === "notMet" ? ` (last attempt: ${CONDITION_NOT_MET.toLowerCase()})` : "";
+  return { state: "ready", reason: `Plaintext conditions hold${lastOutcome}` };
+}
+
+/**
+ * Whether the vault's pending execution has gone unanswered long enough at
+ * `blockNumber` for the owner or an executor to expire it.
+ */
+export function executionExpired(item: InheritanceItem, blockNumber: number): boolean {
+  return (
+    item.executionPending &&
+    item.lastExecution !== null &&
+    blockNumber >= item.lastExecution.requestBlock + EXECUTION_TIMEOUT_BLOCKS
+  );
+}
+
+/**
+ * Dry-runs executeInheritance and, if it would not revert, sends it. The
+ * decoded revert reason of the dry run is thrown as a VaultError without
+ * spending gas. On the hardhat network the mock oracle is run right away,
+ * so the outcome is indexed by the time this returns.
+ */
+export async function executeVault(
+  vault: VaultClient,
+  vaultId: bigint,
+  options: { chainId: number; onProgress?: (message: string) => void }
+): Promise<VaultTxResult> {
+  const { chainId, onProgress } = options;
+  onProgress?.("Simulating execution...");
+  await vault.dryRunExecution(vaultId);
+
+  onProgress?.("Requesting execution...");
+  const result = await vault.executeInheritance(vaultId);
+
+  if (chainId === HARDHAT_CHAIN_ID) {
+    onProgress?.("Running the local decryption oracle...");
+    await runMockDecryptionOracle();
+  }
+  return result;
+}
@@ -0,0 +1,159 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { config } from "./contract";
+
+export const HARDHAT_CHAIN_ID = 31337;
+export const HARDHAT_RPC_URL = "http://127.0.0.1:8545";
+
+// Fixed addresses used by @fhevm/hardhat-plugin for its mock gateway
+const MOCK_GATEWAY_CHAIN_ID = 55815;
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+const UINT32_MAX = 0xffffffffn;
+
+export class FheInitError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "FheInitError";
+  }
+}
+
+export interface EncryptedInput {
+  handles: string[];
+  inputProof: string;
+}
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+/**
+ * Returns the FHEVM instance for a chain, creating it on first use.
+ * On the hardhat network (chainId 31337) a mock instance backed by the
+ * @fhevm/hardhat-plugin node is used instead of the Zama relayer.
+ */
+export function getFhevmInstance(chainId: number): Promise<FhevmInstance> {
+  let instance = instances.get(chainId);
+  if (!instance) {
+    instance = (chainId === HARDHAT_CHAIN_ID ? createMockInstance() : createRelayerInstance(chainId)).catch(e => {
+      instances.delete(chainId);
+      throw e instanceof FheInitError ? e : new FheInitError(`FHE instance initialization failed: ${e?.message || e}`, e);
+    });
+    instances.set(chainId, instance);
+  }
+  return instance;
+}
+
+async function createRelayerInstance(chainId: number): Promise<FhevmInstance> {
+  if (chainId !== SepoliaConfig.chainId) {
+    throw new FheInitError(`No FHEVM relayer is configured for chain ${chainId}`);
+  }
+  const ready = await initSDK();
+  if (!ready) {
+    throw new FheInitError("FHE SDK failed to load its WASM modules");
+  }
+  return createInstance({ ...SepoliaConfig, network: config.network });
+}
+
+async function createMockInstance(): Promise<FhevmInstance> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(HARDHAT_RPC_URL);
+
+  let metadata: { ACLAddress: string; InputVerifierAddress: string; KMSVerifierAddress: string };
+  try {
+    metadata = await provider.send("fhevm_relayer_metadata", []);
+  } catch (e) {
+    throw new FheInitError(`${HARDHAT_RPC_URL} is not a hardhat node running the FHEVM mock`, e);
+  }
+
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: HARDHAT_CHAIN_ID,
+    gatewayChainId: MOCK_GATEWAY_CHAIN_ID,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+/**
+ * Stand-in for the decryption oracle on a local hardhat node: the
+ * @fhevm/hardhat-plugin mock fulfills every pending decryption request,
+ * calling back the requesting contracts, when asked to over RPC.
+ */
+export async function runMockDecryptionOracle(): Promise<void> {
+  const provider = new ethers.JsonRpcProvider(HARDHAT_RPC_URL);
+  try {
+    await provider.send("fhevm_awaitDecryptionOracle", []);
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Encrypts a list of uint32 values into a single input bound to
+ * `contractAddress` and `userAddress`. Handles are returned in the same
+ * order as `values` and share one input proof.
+ */
+export async function encryptUint32s(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  values: readonly (number | bigint)[]
+): Promise<EncryptedInput> {
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) {
+    const v = BigInt(value);
+    if (v < 0n || v > UINT32_MAX) {
+      throw new RangeError(`${value} does not fit in a uint32`);
+    }
+    input.add32(v);
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+/**
+ * Decrypts handles the signer has been granted access to on `contractAddress`.
+ * The signer authorizes a throwaway keypair with an EIP-712 signature and the
+ * relayer returns the values re-encrypted for that keypair.
+ */
+export async function userDecryptHandles(
+  instance: FhevmInstance,
+  signer: ethers.Signer,
+  contractAddress: string,
+  handles: readonly string[]
+): Promise<bigint[]> {
+  if (handles.some(h => h === ethers.ZeroHash)) {
+    throw new RangeError("Cannot decrypt an uninitialized handle");
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = 1;
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    durationDays
+  );
+  return handles.map(h => BigInt(results[h] as bigint | string));
+}
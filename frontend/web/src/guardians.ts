@@ -0,0 +1,181 @@
+// guardians.ts
+// Guardian M-of-N approval for MultiSig vaults. Each guardian signs an EIP-712
+// ReleaseApproval bound to the vault's current guardian nonce. Signed
+// approvals travel off-chain as approval codes and anyone holding enough of
+// them submits them together through submitGuardianApprovals.
+import { ethers } from "ethers";
+import { normAddr } from "./contract";
+import type { GuardianProjection } from "./indexer";
+import type { GuardianSignature } from "./vaultClient";
+
+// Mirrors MAX_GUARDIANS in contracts/DigitalInheritanceVaultFHE.sol
+export const MAX_GUARDIANS = 16;
+
+export const APPROVAL_VALIDITY_SECONDS = 30 * 86400;
+
+const APPROVALS_KEY = "vault_guardian_approvals";
+
+export const RELEASE_APPROVAL_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ReleaseApproval: [
+    { name: "vaultId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+};
+
+export const approvalDomain = (chainId: number, verifyingContract: string): ethers.TypedDataDomain => ({
+  name: "DigitalInheritanceVaultFHE",
+  version: "1",
+  chainId,
+  verifyingContract
+});
+
+export interface GuardianConfig {
+  guardians: string[];
+  threshold: number;
+}
+
+/** A signed approval as exchanged between guardians. Numbers are strings so it stays JSON. */
+export interface GuardianApproval {
+  chainId: number;
+  vault: string;
+  vaultId: string;
+  nonce: string;
+  deadline: number;
+  guardian: string;
+  signature: string;
+}
+
+/** Converts form input (addresses separated by commas or new lines) into a guardian set, throwing if it is invalid. */
+export function guardianConfigFromInput(addresses: string, threshold: string): GuardianConfig {
+  const guardians = addresses.split(/[\s,]+/).filter(Boolean);
+  if (guardians.length === 0 || guardians.length > MAX_GUARDIANS) {
+    throw new Error(`Name between 1 and ${MAX_GUARDIANS} guardians`);
+  }
+  const seen = new Set<string>();
+  for (const guardian of guardians) {
+    if (!ethers.isAddress(guardian)) {
+      throw new Error(`Guardian ${guardian} is not a valid address`);
+    }
+    if (seen.has(normAddr(guardian))) {
+      throw new Error(`Guardian ${guardian} is listed twice`);
+    }
+    seen.add(normAddr(guardian));
+  }
+  const required = Number(threshold);
+  if (!Number.isInteger(required) || required < 1 || required > guardians.length) {
+    throw new Error(`Required approvals must be between 1 and ${guardians.length}`);
+  }
+  return { guardians: guardians.map(g => ethers.getAddress(g)), threshold: required };
+}
+
+export const isGuardianOf = (set: GuardianProjection | null, account: string) =>
+  !!set && set.guardians.some(g => normAddr(g) === normAddr(account));
+
+export async function signReleaseApproval(
+  signer: ethers.Signer,
+  chainId: number,
+  vaultAddress: string,
+  vaultId: string,
+  nonce: string,
+  deadline = Math.floor(Date.now() / 1000) + APPROVAL_VALIDITY_SECONDS
+): Promise<GuardianApproval> {
+  const signature = await signer.signTypedData(approvalDomain(chainId, vaultAddress), RELEASE_APPROVAL_TYPES, {
+    vaultId,
+    nonce,
+    deadline
+  });
+  return {
+    chainId,
+    vault: vaultAddress,
+    vaultId,
+    nonce,
+    deadline,
+    guardian: await signer.getAddress(),
+    signature
+  };
+}
+
+export const encodeApproval = (approval: GuardianApproval) => JSON.stringify(approval);
+
+export function decodeApproval(code: string): GuardianApproval {
+  let approval: any;
+  try {
+    approval = JSON.parse(code);
+  } catch (e) {
+    throw new Error("Not a guardian approval code");
+  }
+  if (!approval || typeof approval.signature !== "string" || !ethers.isAddress(approval.guardian)) {
+    throw new Error("Not a guardian approval code");
+  }
+  return approval as GuardianApproval;
+}
+
+/** Returns why `approval` cannot be submitted for the vault, or null if it can. */
+export function verifyApproval(
+  approval: GuardianApproval,
+  chainId: number,
+  vaultAddress: string,
+  vaultId: string,
+  set: GuardianProjection,
+  now = Math.floor(Date.now() / 1000)
+): string | null {
+  if (approval.chainId !== chainId || normAddr(approval.vault) !== normAddr(vaultAddress)) {
+    return "Signed for another deployment";
+  }
+  if (approval.vaultId !== vaultId) return `Signed for vault #${approval.vaultId}`;
+  if (approval.nonce !== set.nonce) return "Signed for an earlier guardian set";
+  if (approval.deadline <= now) return "Expired";
+
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(
+      approvalDomain(chainId, vaultAddress),
+      RELEASE_APPROVAL_TYPES,
+      { vaultId: approval.vaultId, nonce: approval.nonce, deadline: approval.deadline },
+      approval.signature
+    );
+  } catch (e) {
+    return "Invalid signature";
+  }
+  if (normAddr(signer) !== normAddr(approval.guardian)) return "Signature does not match the guardian";
+  if (!isGuardianOf(set, signer)) return "Not a guardian of this vault";
+  return null;
+}
+
+/** One signature per guardian, ordered by ascending signer address as the contract requires. */
+export function collectSignatures(approvals: readonly GuardianApproval[]): GuardianSignature[] {
+  const latest = new Map<string, GuardianApproval>();
+  for (const approval of approvals) {
+    const current = latest.get(normAddr(approval.guardian));
+    if (!current || approval.deadline > current.deadline) {
+      latest.set(normAddr(approval.guardian), approval);
+    }
+  }
+  return Array.from(latest.values())
+    .sort((a, b) => (BigInt(a.guardian) < BigInt(b.guardian) ? -1 : 1))
+    .map(a => ({ deadline: a.deadline, signature: a.signature }));
+}
+
+const readApprovals = (): GuardianApproval[] => {
+  try {
+    return JSON.parse(localStorage.getItem(APPROVALS_KEY) || "[]");
+  } catch (e) {
+    return [];
+  }
+};
+
+/** Keeps an approval signed or pasted in this browser, so it need not be pasted again. */
+export function rememberApproval(approval: GuardianApproval): void {
+  const sameSlot = (a: GuardianApproval) =>
+    normAddr(a.vault) === normAddr(approval.vault) &&
+    a.vaultId === approval.vaultId &&
+    normAddr(a.guardian) === normAddr(approval.guardian);
+  const approvals = readApprovals().filter(a => !sameSlot(a));
+  approvals.push(approval);
+  localStorage.setItem(APPROVALS_KEY, JSON.stringify(approvals));
+}
+
+export function storedApprovals(vaultAddress: string, vaultId: string): GuardianApproval[] {
+  return readApprovals().filter(a => normAddr(a.vault) === normAddr(vaultAddress) && a.vaultId === vaultId);
+}
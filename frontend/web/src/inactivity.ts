@@ -0,0 +1,66 @@
+// inactivity.ts
+// Dead-man's switch for Inactivity vaults. The owner checks in with a single
+// transaction covering all their vaults; once `window` seconds pass without
+// one, the vault expires and can be executed after a further `gracePeriod`.
+// Mirrors inactivityDeadline() in contracts/DigitalInheritanceVaultFHE.sol.
+import type { InactivityConfig } from "./vaultClient";
+import type { InheritanceItem } from "./vaultModel";
+
+export const DAY_SECONDS = 86400;
+
+export const DEFAULT_INACTIVITY: InactivityConfig = { window: 180 * DAY_SECONDS, gracePeriod: 30 * DAY_SECONDS };
+
+// Executors are shown vaults that can be executed within this time
+export const EXPIRY_WARNING_SECONDS = 14 * DAY_SECONDS;
+
+/** alive: inside the window; grace: window elapsed, not yet executable; expired: executable. */
+export type InactivityStatus = "alive" | "grace" | "expired";
+
+/** Converts form input in days into seconds, throwing if it cannot be configured. */
+export function inactivityFromDays(windowDays: string, graceDays: string): InactivityConfig {
+  const window = Number(windowDays);
+  const gracePeriod = Number(graceDays || 0);
+  if (!Number.isInteger(window) || window < 1) {
+    throw new Error("Inactivity window must be a whole number of days, at least 1");
+  }
+  if (!Number.isInteger(gracePeriod) || gracePeriod < 0) {
+    throw new Error("Grace period must be a whole number of days");
+  }
+  return { window: window * DAY_SECONDS, gracePeriod: gracePeriod * DAY_SECONDS };
+}
+
+export const formatDays = (seconds: number) => {
+  const days = Math.round(seconds / DAY_SECONDS);
+  return `${days} day${days === 1 ? "" : "s"}`;
+};
+
+/** When the owner was last seen: their latest check-in, or the vault creation. */
+export const lastSeen = (item: InheritanceItem) => Math.max(item.lastCheckIn, item.timestamp);
+
+/** Unix seconds from which the item can be executed, or null if no window is configured. */
+export function inactivityDeadline(item: InheritanceItem): number | null {
+  if (!item.inactivity || item.inactivity.window === 0) return null;
+  return lastSeen(item) + item.inactivity.window + item.inactivity.gracePeriod;
+}
+
+export function inactivityStatus(item: InheritanceItem, now = Math.floor(Date.now() / 1000)): InactivityStatus | null {
+  const deadline = inactivityDeadline(item);
+  if (deadline === null || !item.inactivity) return null;
+  if (now >= deadline) return "expired";
+  return now >= deadline - item.inactivity.gracePeriod ? "grace" : "alive";
+}
+
+/** Active Inactivity items that are executable or will be within `within` seconds, soonest first. */
+export function expiringItems(
+  items: readonly InheritanceItem[],
+  now = Math.floor(Date.now() / 1000),
+  within = EXPIRY_WARNING_SECONDS
+): InheritanceItem[] {
+  return items
+    .filter(item => {
+      if (item.unlockCondition !== "Inactivity" || !item.isActive) return false;
+      const deadline = inactivityDeadline(item);
+      return deadline !== null && deadline - now <= within;
+    })
+    .sort((a, b) => inactivityDeadline(a)! - inactivityDeadline(b)!);
+}
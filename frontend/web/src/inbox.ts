@@ -0,0 +1,65 @@
+// inbox.ts
+// Items left to the connected account, as a beneficiary or a contingent. Once
+// a vault is executed the contract grants each beneficiary access to its
+// inherited share and to the asset's type and access key, which they decrypt
+// for themselves with the relayer. With a claim window, shares are held until
+// their holder claims them first (see succession.ts).
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { normAddr } from "./contract";
+import { userDecryptHandles } from "./fhe";
+import { claimableShares } from "./succession";
+import { VaultClient } from "./vaultClient";
+import { assetTypeLabel, InheritanceItem } from "./vaultModel";
+
+export type InboxStatus = "locked" | "executing" | "released" | "revoked";
+
+export interface ClaimedAsset {
+  assetType: string;
+  shareValue: bigint;
+  accessKey: bigint;
+}
+
+export const isLeftTo = (item: InheritanceItem, account: string) =>
+  item.instructions.some(instruction =>
+    [instruction.beneficiary, ...instruction.contingents].some(holder => normAddr(holder) === normAddr(account))
+  );
+
+export function inboxStatus(item: InheritanceItem): InboxStatus {
+  if (item.revoked) return "revoked";
+  if (!item.isActive) return "released";
+  return item.executionPending ? "executing" : "locked";
+}
+
+/**
+ * Decrypts what `signer` inherited from a released vault. Shares held for the
+ * signer are claimed first, a transaction each; otherwise it only costs a
+ * signature.
+ */
+export async function claimInheritance(
+  vault: VaultClient,
+  instance: FhevmInstance,
+  signer: ethers.Signer,
+  item: InheritanceItem
+): Promise<ClaimedAsset> {
+  const beneficiary = await signer.getAddress();
+  const vaultId = BigInt(item.id);
+  for (const instructionId of claimableShares(item, beneficiary)) {
+    await vault.claimShare(vaultId, BigInt(instructionId));
+  }
+
+  const [share, asset] = await Promise.all([
+    vault.getInheritedShare(vaultId, beneficiary),
+    vault.getEncryptedAsset(vaultId)
+  ]);
+  if (share === ethers.ZeroHash) {
+    throw new Error(`Nothing was left to ${beneficiary} in vault #${vaultId}`);
+  }
+
+  const [shareValue, assetType, accessKey] = await userDecryptHandles(instance, signer, vault.address, [
+    share,
+    asset.encryptedAssetType,
+    asset.encryptedAccessKey
+  ]);
+  return { assetType: assetTypeLabel(Number(assetType)), shareValue, accessKey };
+}
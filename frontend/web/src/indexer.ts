@@ -0,0 +1,646 @@
+// indexer.ts
+// Event-sourced view of the vault contract and the legacy adapter records.
+// Logs are applied in block ranges and the projection is saved after each
+// range, so a refresh only reads what happened since the last processed block
+// instead of calling the contract once per vault. Snapshots are cached in
+// IndexedDB (see cache.ts).
+import { ethers } from "ethers";
+import { IndexedDbSnapshotStore } from "./cache";
+import { config, getContractReadOnly, retry } from "./contract";
+import { recordFromLog, StoredRecord } from "./legacyIndex";
+import { findDeployBlock, LOG_BLOCK_RANGE, queryFilterInRanges } from "./logs";
+import type { UniversalAdapter } from "./typechain";
+import {
+  ClaimPolicy,
+  ClaimStatus,
+  ExecutorStatus,
+  getVaultClientReadOnly,
+  InactivityConfig,
+  ReleaseKind,
+  VaultClient,
+  VaultEvent
+} from "./vaultClient";
+
+/** Where a released share stands, from ShareOffered, ShareClaimed and ShareLapsed. */
+export interface ClaimProjection {
+  holder: string;
+  deadline: number;
+  /** Contingents the share has already been offered to. */
+  contingentsUsed: number;
+  status: Exclude<ClaimStatus, "None">;
+  /** Instruction ids a lapsed share was redistributed to; empty if it went back to the owner. */
+  recipients: string[];
+}
+
+export interface InstructionProjection {
+  instructionId: string;
+  beneficiary: string;
+  /** Ordered fallbacks of the beneficiary. */
+  contingents: string[];
+  /** Null until the vault is released with a claim window. */
+  claim: ClaimProjection | null;
+}
+
+export type VaultChange =
+  | "created"
+  | "asset"
+  | "instruction"
+  | "beneficiary"
+  | "releaseKind"
+  | "releaseCondition"
+  | "inactivity"
+  | "guardians"
+  | "expression"
+  | "contingents"
+  | "claimPolicy"
+  | "revoked";
+
+export interface GuardianProjection {
+  guardians: string[];
+  threshold: number;
+  /** Decimal string of the on-chain nonce signatures are bound to. */
+  nonce: string;
+  approved: boolean;
+}
+
+/** The latest executeInheritance of a vault and what the oracle made of it. */
+export interface ExecutionProjection {
+  requestId: string;
+  outcome: "pending" | "notMet" | "executed" | "expired";
+  /** Timestamp of the block that requested, or later settled, the execution. */
+  timestamp: number;
+  /** Block of the request, which can be expired EXECUTION_TIMEOUT blocks later. */
+  requestBlock: number;
+  transactionHash: string;
+}
+
+/** A death attestation as rebuilt from DeathAttested and AttestationObjected. */
+export interface AttestationProjection {
+  attestationId: string;
+  documentHash: string;
+  jurisdiction: string;
+  issuedAt: number;
+  signer: string;
+  notary: string;
+  /** Timestamp of the block it was submitted in. */
+  submittedAt: number;
+  finalAt: number;
+  transactionHash: string;
+  objection: { objector: string; reason: string; timestamp: number; transactionHash: string } | null;
+}
+
+/** A change of the notary or of an executor, for the notary's audit trail. */
+export interface RoleChange {
+  change: "executor" | "notaryOffered" | "notaryTransferred";
+  /** The executor, the account offered the notary role (ZeroAddress when withdrawn) or the new notary. */
+  account: string;
+  /** The notary who made the change; the previous notary of a transfer, ZeroAddress at deployment. */
+  actor: string;
+  status?: ExecutorStatus;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** Notary and executors as rebuilt from ExecutorStatusChanged and the notary transfer events. */
+export interface RolesProjection {
+  notary: string;
+  /** Account offered the notary role and yet to accept, if any. */
+  pendingNotary: string | null;
+  /** Latest status per lower-cased executor address. */
+  executors: Record<string, { executor: string; status: ExecutorStatus; since: number }>;
+  /** Oldest first. */
+  history: RoleChange[];
+}
+
+/** One owner edit. Versions are numbered from 1 in chain order. */
+export interface VaultVersion {
+  version: number;
+  change: VaultChange;
+  /** Edits are owner-only, so this is always the vault owner. */
+  editor: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+  instructionId?: string;
+  beneficiary?: string;
+  previousBeneficiary?: string;
+  releaseKind?: ReleaseKind;
+  inactivity?: InactivityConfig;
+  guardians?: string[];
+  threshold?: number;
+  /** Hex bytes of the unlock expression. */
+  expression?: string;
+  contingents?: string[];
+  claimPolicy?: ClaimPolicy;
+}
+
+/** What a version records about the change itself. */
+type VersionChange = Omit<VaultVersion, "version" | "editor" | "timestamp" | "blockNumber" | "transactionHash">;
+
+/** A vault as rebuilt from its events. Ids are strings so the projection stays JSON. */
+export interface VaultProjection {
+  vaultId: string;
+  owner: string;
+  releaseKind: ReleaseKind;
+  /** Timestamp of the block the vault was created in. */
+  timestamp: number;
+  hasAsset: boolean;
+  instructions: InstructionProjection[];
+  isActive: boolean;
+  revoked: boolean;
+  executionPending: boolean;
+  history: VaultVersion[];
+  /** Asset type code once AssetDecrypted has been seen, 0 before. */
+  revealedAssetType: number;
+  /** Null until the owner configures an inactivity window. */
+  inactivity: InactivityConfig | null;
+  /** Null until the owner names guardians. */
+  guardians: GuardianProjection | null;
+  /** Hex bytes of the unlock expression, null until one is set. */
+  unlockExpression: string | null;
+  /** Null until the owner sets a claim window; shares are then handed over at once. */
+  claimPolicy: ClaimPolicy | null;
+  /** Null until an executor first tries to execute the vault. */
+  lastExecution: ExecutionProjection | null;
+}
+
+export interface Projection {
+  /** Last block whose logs have been applied, -1 before the first sync. */
+  lastBlock: number;
+  vaults: Record<string, VaultProjection>;
+  legacyRecords: Record<string, StoredRecord>;
+  /** Latest CheckedIn timestamp per lower-cased owner address. */
+  checkIns: Record<string, number>;
+  /** Death attestations per lower-cased owner address, oldest first. */
+  attestations: Record<string, AttestationProjection[]>;
+  roles: RolesProjection;
+}
+
+/**
+ * What gets persisted between page loads. Logs within REORG_DEPTH blocks of
+ * the chain head can still be reorganized, so they are only applied to
+ * `head`, which is rebuilt from `confirmed` on every sync.
+ */
+export interface IndexSnapshot {
+  confirmed: Projection;
+  /** Block hash at confirmed.lastBlock, checked before resuming from it. */
+  confirmedHash: string;
+  head: Projection;
+}
+
+export interface SnapshotStore {
+  load(): Promise<IndexSnapshot | null>;
+  save(snapshot: IndexSnapshot): Promise<void>;
+}
+
+// Sepolia has not reorganized deeper than a few blocks; 64 is two epochs
+export const REORG_DEPTH = 64;
+
+export const emptyProjection = (): Projection => ({
+  lastBlock: -1,
+  vaults: {},
+  legacyRecords: {},
+  checkIns: {},
+  attestations: {},
+  roles: { notary: "", pendingNotary: null, executors: {}, history: [] }
+});
+
+const emptySnapshot = (): IndexSnapshot => ({
+  confirmed: emptyProjection(),
+  confirmedHash: "",
+  head: emptyProjection()
+});
+
+export class VaultIndexer {
+  readonly vault: VaultClient;
+  readonly adapter: UniversalAdapter | null;
+  private readonly store: SnapshotStore;
+  private snapshot: IndexSnapshot | null = null;
+  private syncing: Promise<Projection> | null = null;
+
+  constructor(vault: VaultClient, adapter: UniversalAdapter | null, store: SnapshotStore) {
+    this.vault = vault;
+    this.adapter = adapter;
+    this.store = store;
+  }
+
+  /** Applies every log up to the latest block. Concurrent calls share one sync. */
+  sync(): Promise<Projection> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async loadSnapshot(): Promise<IndexSnapshot> {
+    if (!this.snapshot) {
+      this.snapshot = (await this.store.load()) ?? emptySnapshot();
+    }
+    return this.snapshot;
+  }
+
+  private async runSync(): Promise<Projection> {
+    const provider = this.vault.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("Vault contract is not connected to a provider");
+    }
+
+    let snapshot = await this.loadSnapshot();
+    if (!(await this.isCanonical(provider, snapshot))) {
+      console.warn(`Block ${snapshot.confirmed.lastBlock} is no longer on the chain; rebuilding the vault index`);
+      snapshot = emptySnapshot();
+    }
+
+    const latest = await retry(() => provider.getBlockNumber());
+    const confirmed = snapshot.confirmed;
+    let confirmedHash = snapshot.confirmedHash;
+    await this.applyRange(provider, confirmed, latest - REORG_DEPTH, async () => {
+      confirmedHash = await this.blockHash(provider, confirmed.lastBlock);
+      await this.store.save({ confirmed, confirmedHash, head: confirmed });
+    });
+
+    const head: Projection = structuredClone(confirmed);
+    await this.applyRange(provider, head, latest);
+
+    this.snapshot = { confirmed, confirmedHash, head };
+    await this.store.save(this.snapshot);
+    return head;
+  }
+
+  /** False if the block the confirmed projection ends at was reorganized away or the chain was reset. */
+  private async isCanonical(provider: ethers.Provider, snapshot: IndexSnapshot): Promise<boolean> {
+    if (snapshot.confirmed.lastBlock < 0) return true;
+    const block = await retry(() => provider.getBlock(snapshot.confirmed.lastBlock));
+    return block?.hash === snapshot.confirmedHash;
+  }
+
+  private async blockHash(provider: ethers.Provider, blockNumber: number): Promise<string> {
+    const block = await retry(() => provider.getBlock(blockNumber));
+    if (!block?.hash) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return block.hash;
+  }
+
+  /** Applies the logs after projection.lastBlock up to `toBlock`, calling onChunk after each range. */
+  private async applyRange(
+    provider: ethers.Provider,
+    projection: Projection,
+    toBlock: number,
+    onChunk?: () => Promise<void>
+  ): Promise<void> {
+    const fromBlock = projection.lastBlock >= 0 ? projection.lastBlock + 1 : await this.startBlock(provider);
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+      const end = Math.min(start + LOG_BLOCK_RANGE - 1, toBlock);
+      const [vaultLogs, adapterLogs] = await Promise.all([
+        queryFilterInRanges(this.vault.contract, "*", start, end),
+        this.adapter ? queryFilterInRanges(this.adapter, this.adapter.filters.DataStored(), start, end) : []
+      ]);
+
+      await this.applyVaultLogs(projection, vaultLogs);
+      for (const log of adapterLogs) {
+        const record = recordFromLog(log);
+        if (record) projection.legacyRecords[record.id] = record;
+      }
+
+      projection.lastBlock = end;
+      await onChunk?.();
+    }
+  }
+
+  private async startBlock(provider: ethers.Provider): Promise<number> {
+    const blocks = await Promise.all([
+      findDeployBlock(provider, this.vault.address),
+      ...(this.adapter ? [findDeployBlock(provider, await this.adapter.getAddress())] : [])
+    ]);
+    return Math.min(...blocks);
+  }
+
+  private async applyVaultLogs(projection: Projection, logs: readonly ethers.EventLog[]): Promise<void> {
+    const timestamps = new Map<number, number>();
+    const blockTimestamp = async (log: ethers.EventLog) => {
+      let timestamp = timestamps.get(log.blockNumber);
+      if (timestamp === undefined) {
+        timestamp = (await retry(() => log.getBlock())).timestamp;
+        timestamps.set(log.blockNumber, timestamp);
+      }
+      return timestamp;
+    };
+
+    for (const log of logs) {
+      const [event] = this.vault.decodeEvents([log]);
+      if (!event) continue;
+      if (isRoleEvent(event)) {
+        applyRoleEvent(projection.roles, event, log, await blockTimestamp(log));
+        continue;
+      }
+      if (!("vaultId" in event)) {
+        await applyOwnerEvent(projection, event, log, blockTimestamp);
+        continue;
+      }
+
+      const id = event.vaultId.toString();
+      if (event.name === "VaultCreated") {
+        const timestamp = await blockTimestamp(log);
+        const vault: VaultProjection = {
+          vaultId: id,
+          owner: event.owner,
+          releaseKind: event.releaseKind,
+          timestamp,
+          hasAsset: false,
+          instructions: [],
+          isActive: true,
+          revoked: false,
+          executionPending: false,
+          history: [],
+          revealedAssetType: 0,
+          inactivity: null,
+          guardians: null,
+          unlockExpression: null,
+          claimPolicy: null,
+          lastExecution: null
+        };
+        vault.history.push(versionOf(vault, log, timestamp, { change: "created", releaseKind: event.releaseKind }));
+        projection.vaults[id] = vault;
+        continue;
+      }
+
+      const vault = projection.vaults[id];
+      if (!vault) {
+        console.warn(`${event.name} for unknown vault ${id} in block ${log.blockNumber}`);
+        continue;
+      }
+      const recordVersion = async (change: VersionChange) => {
+        vault.history.push(versionOf(vault, log, await blockTimestamp(log), change));
+      };
+
+      switch (event.name) {
+        case "AssetAdded":
+          vault.hasAsset = true;
+          await recordVersion({ change: "asset" });
+          break;
+        case "InstructionAdded":
+          vault.instructions.push({
+            instructionId: event.instructionId.toString(),
+            beneficiary: event.beneficiary,
+            contingents: [],
+            claim: null
+          });
+          await recordVersion({
+            change: "instruction",
+            instructionId: event.instructionId.toString(),
+            beneficiary: event.beneficiary
+          });
+          break;
+        case "BeneficiaryUpdated": {
+          const instructionId = event.instructionId.toString();
+          const instruction = vault.instructions.find(i => i.instructionId === instructionId);
+          if (instruction) instruction.beneficiary = event.newBeneficiary;
+          await recordVersion({
+            change: "beneficiary",
+            instructionId,
+            beneficiary: event.newBeneficiary,
+            previousBeneficiary: event.previousBeneficiary
+          });
+          break;
+        }
+        case "ReleaseKindUpdated":
+          vault.releaseKind = event.releaseKind;
+          await recordVersion({ change: "releaseKind", releaseKind: event.releaseKind });
+          break;
+        case "ReleaseConditionUpdated":
+          await recordVersion({ change: "releaseCondition", instructionId: event.instructionId.toString() });
+          break;
+        case "InactivityConfigured": {
+          const inactivity = { window: event.window, gracePeriod: event.gracePeriod };
+          vault.inactivity = inactivity;
+          await recordVersion({ change: "inactivity", inactivity });
+          break;
+        }
+        case "GuardiansConfigured":
+          vault.guardians = {
+            guardians: event.guardians,
+            threshold: event.threshold,
+            nonce: event.nonce.toString(),
+            approved: false
+          };
+          await recordVersion({ change: "guardians", guardians: event.guardians, threshold: event.threshold });
+          break;
+        case "UnlockExpressionUpdated":
+          vault.unlockExpression = event.expression;
+          await recordVersion({ change: "expression", expression: event.expression });
+          break;
+        case "ContingentsUpdated": {
+          const instructionId = event.instructionId.toString();
+          const instruction = vault.instructions.find(i => i.instructionId === instructionId);
+          if (instruction) instruction.contingents = event.contingents;
+          await recordVersion({ change: "contingents", instructionId, contingents: event.contingents });
+          break;
+        }
+        case "ClaimPolicyUpdated": {
+          const claimPolicy = { window: event.window, lapseRule: event.lapseRule };
+          vault.claimPolicy = claimPolicy;
+          await recordVersion({ change: "claimPolicy", claimPolicy });
+          break;
+        }
+        case "ShareOffered": {
+          const instruction = vault.instructions.find(i => i.instructionId === event.instructionId.toString());
+          if (instruction) {
+            instruction.claim = {
+              holder: event.holder,
+              deadline: event.deadline,
+              // The first offer goes to the beneficiary, later ones to the contingents in turn
+              contingentsUsed: instruction.claim ? instruction.claim.contingentsUsed + 1 : 0,
+              status: "Pending",
+              recipients: []
+            };
+          }
+          break;
+        }
+        case "ShareClaimed":
+        case "ShareLapsed": {
+          const claim = vault.instructions.find(i => i.instructionId === event.instructionId.toString())?.claim;
+          if (!claim) break;
+          if (event.name === "ShareClaimed") {
+            claim.status = "Claimed";
+          } else {
+            claim.status = "Lapsed";
+            claim.recipients = event.recipients.map(id => id.toString());
+          }
+          break;
+        }
+        case "GuardianApprovalsSubmitted":
+          if (vault.guardians) vault.guardians.approved = true;
+          break;
+        case "VaultRevoked":
+          vault.isActive = false;
+          vault.revoked = true;
+          await recordVersion({ change: "revoked" });
+          break;
+        case "InheritanceRequested":
+          vault.executionPending = true;
+          vault.lastExecution = {
+            requestId: event.requestId.toString(),
+            outcome: "pending",
+            timestamp: await blockTimestamp(log),
+            requestBlock: log.blockNumber,
+            transactionHash: log.transactionHash
+          };
+          break;
+        case "InheritanceConditionNotMet":
+        case "InheritanceExecuted":
+          vault.executionPending = false;
+          if (event.name === "InheritanceExecuted") vault.isActive = false;
+          if (vault.lastExecution) {
+            vault.lastExecution = {
+              ...vault.lastExecution,
+              outcome: event.name === "InheritanceExecuted" ? "executed" : "notMet",
+              timestamp: await blockTimestamp(log),
+              transactionHash: log.transactionHash
+            };
+          }
+          break;
+        case "ExecutionExpired":
+          vault.executionPending = false;
+          if (vault.lastExecution) {
+            vault.lastExecution = {
+              ...vault.lastExecution,
+              outcome: "expired",
+              timestamp: await blockTimestamp(log),
+              transactionHash: log.transactionHash
+            };
+          }
+          break;
+        case "AssetDecrypted": {
+          // The event only carries the id; the values are public once revealed
+          const decrypted = await this.vault.getDecryptedAsset(event.vaultId);
+          vault.revealedAssetType = decrypted.assetType;
+          break;
+        }
+      }
+    }
+  }
+}
+
+type RoleEvent = Extract<VaultEvent, { name: "ExecutorStatusChanged" | "NotaryTransferStarted" | "NotaryTransferred" }>;
+type OwnerEvent = Exclude<VaultEvent, { vaultId: bigint } | RoleEvent>;
+
+const isRoleEvent = (event: VaultEvent): event is RoleEvent =>
+  event.name === "ExecutorStatusChanged" || event.name === "NotaryTransferStarted" || event.name === "NotaryTransferred";
+
+function applyRoleEvent(roles: RolesProjection, event: RoleEvent, log: ethers.EventLog, timestamp: number): void {
+  const at = { timestamp, blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+  switch (event.name) {
+    case "ExecutorStatusChanged":
+      roles.executors[event.executor.toLowerCase()] = { executor: event.executor, status: event.status, since: timestamp };
+      roles.history.push({ change: "executor", account: event.executor, actor: event.notary, status: event.status, ...at });
+      break;
+    case "NotaryTransferStarted":
+      roles.pendingNotary = event.pendingNotary === ethers.ZeroAddress ? null : event.pendingNotary;
+      roles.history.push({ change: "notaryOffered", account: event.pendingNotary, actor: event.notary, ...at });
+      break;
+    case "NotaryTransferred":
+      roles.notary = event.newNotary;
+      roles.pendingNotary = null;
+      roles.history.push({ change: "notaryTransferred", account: event.newNotary, actor: event.previousNotary, ...at });
+      break;
+  }
+}
+
+/** Applies an event about an owner rather than one of their vaults. */
+async function applyOwnerEvent(
+  projection: Projection,
+  event: OwnerEvent,
+  log: ethers.EventLog,
+  blockTimestamp: (log: ethers.EventLog) => Promise<number>
+): Promise<void> {
+  switch (event.name) {
+    case "CheckedIn":
+      projection.checkIns[event.owner.toLowerCase()] = event.timestamp;
+      break;
+    case "DeathAttested": {
+      const owner = event.owner.toLowerCase();
+      (projection.attestations[owner] ??= []).push({
+        attestationId: event.attestationId.toString(),
+        documentHash: event.documentHash,
+        jurisdiction: event.jurisdiction,
+        issuedAt: event.issuedAt,
+        signer: event.signer,
+        notary: event.notary,
+        submittedAt: await blockTimestamp(log),
+        finalAt: event.finalAt,
+        transactionHash: log.transactionHash,
+        objection: null
+      });
+      break;
+    }
+    case "AttestationObjected": {
+      const attestation = projection.attestations[event.owner.toLowerCase()]?.find(
+        a => a.attestationId === event.attestationId.toString()
+      );
+      if (attestation) {
+        attestation.objection = {
+          objector: event.objector,
+          reason: event.reason,
+          timestamp: await blockTimestamp(log),
+          transactionHash: log.transactionHash
+        };
+      }
+      break;
+    }
+  }
+}
+
+function versionOf(
+  vault: VaultProjection,
+  log: ethers.EventLog,
+  timestamp: number,
+  change: VersionChange
+): VaultVersion {
+  return {
+    ...change,
+    version: vault.history.length + 1,
+    editor: vault.owner,
+    timestamp,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash
+  };
+}
+
+let store: IndexedDbSnapshotStore | null = null;
+
+/** Cache entry of the configured deployment. Entries of earlier deployments are dropped. */
+function getSnapshotStore(): IndexedDbSnapshotStore {
+  if (!store) {
+    store = new IndexedDbSnapshotStore(config.chainId, config.vaultContractAddress, config.contractAddress);
+    store.pruneOtherDeployments();
+  }
+  return store;
+}
+
+/** Last saved projection, readable before any RPC connection is made. */
+export async function getCachedProjection(): Promise<Projection | null> {
+  const snapshot = await getSnapshotStore().load();
+  return snapshot && snapshot.head.lastBlock >= 0 ? snapshot.head : null;
+}
+
+let indexer: Promise<VaultIndexer> | null = null;
+
+/** Shared read-only indexer for the configured vault and adapter contracts. */
+export function getVaultIndexer(): Promise<VaultIndexer> {
+  if (!indexer) {
+    indexer = (async () => {
+      const vault = await getVaultClientReadOnly();
+      const adapter = await getContractReadOnly();
+      return new VaultIndexer(vault, adapter, getSnapshotStore());
+    })().catch(e => {
+      indexer = null;
+      throw e;
+    });
+  }
+  return indexer;
+}
@@ -0,0 +1,74 @@
+// legacyIndex.ts
+// UniversalAdapter records live under `vault_${id}`, and clients used to keep
+// their ids in a `vault_keys` array rewritten on every submission. Concurrent
+// writers dropped each other's ids and a failed second transaction left the
+// record unlisted, so records are indexed from the append-only DataStored
+// events instead (see indexer.ts). vault_keys is only repaired for older readers.
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "./typechain";
+
+export const KEYS_KEY = "vault_keys";
+const RECORD_PREFIX = "vault_";
+
+export interface StoredRecord {
+  id: string;
+  /** Latest value written for the record, as hex bytes. */
+  value: string;
+  sender: string;
+  blockNumber: number;
+}
+
+/** Decodes a DataStored log, or returns null if it is not a `vault_${id}` write. */
+export function recordFromLog(log: ethers.EventLog): StoredRecord | null {
+  const key: string = log.args.key;
+  if (key === KEYS_KEY || !key.startsWith(RECORD_PREFIX)) return null;
+  const id = key.substring(RECORD_PREFIX.length);
+  return { id, value: log.args.value, sender: log.args.sender, blockNumber: log.blockNumber };
+}
+
+export async function readLinkedKeys(adapter: UniversalAdapter): Promise<string[]> {
+  const bytes: string = await adapter.getData(KEYS_KEY);
+  if (!bytes || bytes === "0x") return [];
+  try {
+    const keys = JSON.parse(ethers.toUtf8String(bytes));
+    return Array.isArray(keys) ? keys.map(String) : [];
+  } catch (e) {
+    console.error("Error parsing vault keys:", e);
+    return [];
+  }
+}
+
+/** Ids of records that exist on-chain but are missing from vault_keys. */
+export async function findOrphanedRecords(
+  adapter: UniversalAdapter,
+  records: readonly StoredRecord[]
+): Promise<string[]> {
+  const linkedSet = new Set(await readLinkedKeys(adapter));
+  return records.filter(record => !linkedSet.has(record.id)).map(record => record.id);
+}
+
+/**
+ * Adds `orphans` back to vault_keys. The write is checked afterwards and
+ * redone if another client replaced the array in the meantime.
+ */
+export async function relinkOrphanedRecords(
+  adapter: UniversalAdapter,
+  orphans: readonly string[],
+  attempts = 3
+): Promise<string[]> {
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const linked = await readLinkedKeys(adapter);
+    const missing = orphans.filter(id => !linked.includes(id));
+    if (missing.length === 0) return [...orphans];
+
+    const tx = await adapter.setData(KEYS_KEY, ethers.toUtf8Bytes(JSON.stringify([...linked, ...missing])));
+    await tx.wait();
+  }
+
+  const linked = await readLinkedKeys(adapter);
+  const stillMissing = orphans.filter(id => !linked.includes(id));
+  if (stillMissing.length > 0) {
+    throw new Error(`vault_keys kept changing; ${stillMissing.length} records are still unlinked`);
+  }
+  return [...orphans];
+}
@@ -0,0 +1,72 @@
+// logs.ts
+import { ethers } from "ethers";
+import { knownDeployBlock, retry } from "./contract";
+
+// Most public RPCs reject eth_getLogs over more than a few thousand blocks
+export const LOG_BLOCK_RANGE = 5000;
+
+const deployBlocks = new Map<string, Promise<number>>();
+
+/**
+ * Finds the block a contract was deployed in: from deployments.json when it is
+ * recorded there, else by binary searching for the first block where it has
+ * code, which needs an RPC that serves historical state.
+ */
+export function findDeployBlock(provider: ethers.Provider, address: string): Promise<number> {
+  const known = knownDeployBlock(address);
+  if (known !== null) return Promise.resolve(known);
+  const cacheKey = address.toLowerCase();
+  let block = deployBlocks.get(cacheKey);
+  if (!block) {
+    block = (async () => {
+      let high = await retry(() => provider.getBlockNumber());
+      let low = 0;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const code = await retry(() => provider.getCode(address, mid));
+        if (code === "0x") {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      return low;
+    })().catch(e => {
+      deployBlocks.delete(cacheKey);
+      throw e;
+    });
+    deployBlocks.set(cacheKey, block);
+  }
+  return block;
+}
+
+/**
+ * Runs queryFilter over [fromBlock, toBlock] in chunks of at most `step`
+ * blocks, halving the chunk when the RPC refuses the range.
+ */
+export async function queryFilterInRanges(
+  contract: ethers.BaseContract,
+  filter: ethers.ContractEventName,
+  fromBlock: number,
+  toBlock: number,
+  step = LOG_BLOCK_RANGE
+): Promise<ethers.EventLog[]> {
+  const logs: ethers.EventLog[] = [];
+  let start = fromBlock;
+  let size = step;
+
+  while (start <= toBlock) {
+    const end = Math.min(start + size - 1, toBlock);
+    try {
+      const chunk = await retry(() => contract.queryFilter(filter, start, end), 1);
+      for (const log of chunk) {
+        if (log instanceof ethers.EventLog) logs.push(log);
+      }
+      start = end + 1;
+    } catch (e) {
+      if (size === 1) throw e;
+      size = Math.max(1, Math.floor(size / 2));
+    }
+  }
+  return logs;
+}
@@ -0,0 +1,44 @@
+// manifest.ts
+// The deployments manifest, deployments.json, lists the contracts deployed on
+// each chain, keyed by chain id. `npm run deploy` adds to it, and the web
+// app, the hardhat tasks and the keeper all look up addresses here, so moving
+// between a local node, Sepolia and mainnet needs no code change. Keep it free
+// of browser APIs: the tasks and the keeper load it under node.
+import { ethers } from "ethers";
+import manifestJson from "./deployments.json";
+
+export const CONTRACT_NAMES = ["UniversalAdapter", "DigitalInheritanceVaultFHE"] as const;
+export type ContractName = (typeof CONTRACT_NAMES)[number];
+
+export interface ContractDeployment {
+  address: string;
+  /** Null for deployments recorded before the manifest existed. */
+  blockNumber: number | null;
+  transactionHash: string | null;
+  deployer: string;
+  /** abiHash of the ABI the contract was deployed with. */
+  abiHash: string;
+}
+
+export interface ChainDeployment {
+  /** Hardhat network name the contracts were deployed with. */
+  network: string;
+  contracts: Partial<Record<ContractName, ContractDeployment>>;
+}
+
+export type DeploymentsManifest = Record<string, ChainDeployment>;
+
+export const DEPLOYMENTS = manifestJson as DeploymentsManifest;
+
+/** Fingerprint of an ABI, for telling whether a bundled ABI matches a deployment. */
+export function abiHash(abi: readonly unknown[]): string {
+  return ethers.id(JSON.stringify(abi));
+}
+
+export function deploymentFor(chainId: number): ChainDeployment | null {
+  return DEPLOYMENTS[String(chainId)] ?? null;
+}
+
+export function contractDeployment(chainId: number, name: ContractName): ContractDeployment | null {
+  return deploymentFor(chainId)?.contracts[name] ?? null;
+}
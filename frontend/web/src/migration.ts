@@ -0,0 +1,154 @@
+// migration.ts
+// One-shot migration of the UniversalAdapter `vault_${id}` records into
+// DigitalInheritanceVaultFHE vaults. Each record has to be migrated by its
+// owner, since vaults are owned by the account that creates them.
+//
+// A migration takes several transactions. Its progress is kept in this
+// browser from the moment the vault exists, so a retry after a failure
+// carries on with that vault instead of creating another one.
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { normAddr } from "./contract";
+import { DEFAULT_INACTIVITY } from "./inactivity";
+import type { StoredRecord } from "./legacyIndex";
+import { FULL_SHARE } from "./shares";
+import { validateUnlockTime } from "./timeLock";
+import type { UniversalAdapter } from "./typechain";
+import { VaultClient } from "./vaultClient";
+import { ASSET_TYPES, createVaultItem, CreationProgress, isReleaseKind } from "./vaultModel";
+import { readVaultValue, writeVaultValue } from "./vaultStore";
+
+export interface LegacyRecord {
+  data: string;
+  timestamp: number;
+  owner: string;
+  assetType: string;
+  beneficiary: string;
+  unlockCondition: string;
+  vaultId?: string;
+}
+
+export type LegacyStatus = "ready" | "needs-access-key" | "migrated" | "not-owner" | "invalid";
+
+export interface LegacyEntry {
+  key: string;
+  record: LegacyRecord;
+  /** Secret recovered from the old base64 "encryption", if any. */
+  secret: string | null;
+}
+
+const LEGACY_PREFIX = "FHE-";
+const MIGRATIONS_KEY = "vault_legacy_migrations";
+const UINT32_MAX = 0xffffffffn;
+
+const decodeBytes = <T>(bytes: string): T | null => {
+  if (!bytes || bytes === "0x") return null;
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Recovers the form data that submitItem used to store as `FHE-${btoa(json)}`. */
+export function decodeLegacySecret(data: string): string | null {
+  if (!data?.startsWith(LEGACY_PREFIX)) return null;
+  try {
+    const payload = JSON.parse(atob(data.substring(LEGACY_PREFIX.length)));
+    return typeof payload.sensitiveData === "string" ? payload.sensitiveData : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/** Decodes the indexed adapter records, including those missing from vault_keys. */
+export function toLegacyEntries(records: readonly StoredRecord[]): LegacyEntry[] {
+  const entries: LegacyEntry[] = [];
+
+  for (const stored of records) {
+    const record = decodeBytes<LegacyRecord>(stored.value);
+    if (!record) continue;
+    entries.push({ key: stored.id, record, secret: decodeLegacySecret(record.data) });
+  }
+  return entries;
+}
+
+/** Parses a numeric secret into an access key, or null if it is not a uint32. */
+export function parseAccessKey(value: string | null): bigint | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const key = BigInt(value.trim());
+  return key <= UINT32_MAX ? key : null;
+}
+
+export function classifyLegacyEntry(entry: LegacyEntry, account: string): LegacyStatus {
+  const { record } = entry;
+  if (record.vaultId) return "migrated";
+  if (normAddr(record.owner) !== normAddr(account)) return "not-owner";
+  if (!ethers.isAddress(record.beneficiary) || !isReleaseKind(record.unlockCondition)) return "invalid";
+  return parseAccessKey(entry.secret) === null ? "needs-access-key" : "ready";
+}
+
+/**
+ * Legacy records never captured a date, and an encrypted release time of 0
+ * has always passed, so time-locked records need one before they are migrated.
+ */
+export const needsReleaseTime = (record: LegacyRecord) => record.unlockCondition === "TimeLock";
+
+/** Progress of an interrupted migration of `entry` to the vault contract at `vaultAddress`, if any. */
+export function migrationProgress(vaultAddress: string, entry: LegacyEntry): CreationProgress | null {
+  return readVaultValue<CreationProgress>(MIGRATIONS_KEY, vaultAddress, entry.key) ?? null;
+}
+
+/**
+ * Recreates a legacy record as a vault, then rewrites the record with the
+ * new vault id and without the base64 secret so it is not migrated twice.
+ * An earlier attempt that failed part way is resumed with the vault it created.
+ * The secret stays readable in the adapter's transaction history.
+ * `releaseTime` is required for time-locked records and ignored otherwise.
+ */
+export async function migrateLegacyEntry(
+  entry: LegacyEntry,
+  accessKey: bigint,
+  releaseTime: number | null,
+  deps: { adapter: UniversalAdapter; vault: VaultClient; instance: FhevmInstance; account: string },
+  onProgress?: (message: string) => void
+): Promise<bigint> {
+  const { record } = entry;
+  if (!isReleaseKind(record.unlockCondition)) {
+    throw new Error(`Unknown unlock condition "${record.unlockCondition}"`);
+  }
+  if (needsReleaseTime(record)) {
+    const problem = releaseTime === null ? "Time-locked items need an unlock date" : validateUnlockTime(releaseTime);
+    if (problem) throw new Error(problem);
+  }
+
+  const vaultId = await createVaultItem(
+    deps.vault,
+    deps.instance,
+    deps.account,
+    {
+      assetType: ASSET_TYPES.includes(record.assetType) ? record.assetType : "Other",
+      description: "",
+      assetValue: 0n,
+      accessKey,
+      beneficiaries: [{ beneficiary: record.beneficiary, share: FULL_SHARE, contingents: [] }],
+      unlockCondition: record.unlockCondition,
+      // Legacy records never captured a window or guardians; the owner can edit them later
+      releaseTime: needsReleaseTime(record) ? releaseTime! : 0,
+      inactivity: DEFAULT_INACTIVITY,
+      guardians: null,
+      expression: null,
+      claimPolicy: null
+    },
+    onProgress,
+    migrationProgress(deps.vault.address, entry),
+    progress => writeVaultValue(MIGRATIONS_KEY, deps.vault.address, entry.key, progress)
+  );
+
+  onProgress?.("Marking legacy record as migrated...");
+  const migrated: LegacyRecord = { ...record, data: "", vaultId: vaultId.toString() };
+  const tx = await deps.adapter.setData(`vault_${entry.key}`, ethers.toUtf8Bytes(JSON.stringify(migrated)));
+  await tx.wait();
+
+  return vaultId;
+}
@@ -0,0 +1,8 @@
+// releaseKinds.ts
+// The contract's ReleaseKind enum by name. vaultClient.ts exports it to the
+// web app; the simulator, the hardhat tasks and the keeper import it from here
+// since vaultClient.ts pulls in browser code. Keep it free of browser APIs.
+
+/** Values of the contract's ReleaseKind enum, in declaration order. */
+export const RELEASE_KINDS = ["TimeLock", "Inactivity", "MultiSig", "DeathCert", "Expression"] as const;
+export type ReleaseKind = (typeof RELEASE_KINDS)[number];
@@ -0,0 +1,100 @@
+// shares.ts
+// A vault is split between beneficiaries by percentage, one inheritance
+// instruction per beneficiary with its share encrypted. The contract divides
+// the asset value by these shares on release and verifySharePercentage checks
+// on-chain that they total 100. Like release times, the plaintext shares are
+// only known to the owner's browser that set them.
+import { ethers } from "ethers";
+import { normAddr } from "./contract";
+import { contingentsFromInput } from "./succession";
+import { readVaultValue, writeVaultValue } from "./vaultStore";
+
+export const FULL_SHARE = 100;
+
+const SHARES_KEY = "vault_beneficiary_shares";
+const SHARE_CHECKS_KEY = "vault_share_checks";
+
+export interface BeneficiaryShare {
+  beneficiary: string;
+  /** Whole percent of the asset value. */
+  share: number;
+  /** Ordered fallbacks if the beneficiary does not claim; see succession.ts. */
+  contingents: string[];
+}
+
+/** Form row, as typed by the owner. */
+export interface ShareInput {
+  beneficiary: string;
+  share: string;
+  /** Contingent addresses separated by commas or new lines. */
+  contingents: string;
+}
+
+export const emptyShareRow = (share = FULL_SHARE): ShareInput => ({
+  beneficiary: "",
+  share: String(share),
+  contingents: ""
+});
+
+export const emptyShareInput = (): ShareInput[] => [emptyShareRow()];
+
+/** Sum of the rows' shares that parse as numbers, for a running total in the form. */
+export const shareTotal = (rows: readonly ShareInput[]) =>
+  rows.reduce((total, row) => total + (Number(row.share) || 0), 0);
+
+/** Converts form rows into beneficiary shares, throwing if they cannot be stored or do not total 100%. */
+export function sharesFromInput(rows: readonly ShareInput[]): BeneficiaryShare[] {
+  if (rows.length === 0) {
+    throw new Error("Name at least one beneficiary");
+  }
+  const seen = new Set<string>();
+  const shares = rows.map(row => {
+    const beneficiary = row.beneficiary.trim();
+    if (!ethers.isAddress(beneficiary)) {
+      throw new Error(`Beneficiary ${beneficiary || "address"} is not a valid address`);
+    }
+    if (seen.has(normAddr(beneficiary))) {
+      throw new Error(`Beneficiary ${beneficiary} is listed twice`);
+    }
+    seen.add(normAddr(beneficiary));
+    const share = Number(row.share);
+    if (!Number.isInteger(share) || share < 1 || share > FULL_SHARE) {
+      throw new Error(`Share of ${beneficiary} must be a whole percentage between 1 and ${FULL_SHARE}`);
+    }
+    return {
+      beneficiary: ethers.getAddress(beneficiary),
+      share,
+      contingents: contingentsFromInput(row.contingents, beneficiary)
+    };
+  });
+  const total = shares.reduce((sum, s) => sum + s.share, 0);
+  if (total !== FULL_SHARE) {
+    throw new Error(`Shares must total ${FULL_SHARE}%, they add up to ${total}%`);
+  }
+  return shares;
+}
+
+/** Shares by instruction id, as set from this browser. */
+export function rememberShares(vaultAddress: string, vaultId: string, shares: Record<string, number>): void {
+  writeVaultValue(SHARES_KEY, vaultAddress, vaultId, { ...knownShares(vaultAddress, vaultId), ...shares });
+}
+
+export function knownShares(vaultAddress: string, vaultId: string): Record<string, number> {
+  return readVaultValue<Record<string, number>>(SHARES_KEY, vaultAddress, vaultId) ?? {};
+}
+
+/** A decrypted verifySharePercentage result; it only holds while the vault has the same instructions. */
+export interface ShareCheck {
+  valid: boolean;
+  instructionCount: number;
+  checkedAt: number;
+}
+
+export function rememberShareCheck(vaultAddress: string, vaultId: string, check: ShareCheck): void {
+  writeVaultValue(SHARE_CHECKS_KEY, vaultAddress, vaultId, check);
+}
+
+export function knownShareCheck(vaultAddress: string, vaultId: string, instructionCount: number): ShareCheck | null {
+  const check = readVaultValue<ShareCheck>(SHARE_CHECKS_KEY, vaultAddress, vaultId);
+  return check && check.instructionCount === instructionCount ? check : null;
+}
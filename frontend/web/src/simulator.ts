@@ -0,0 +1,494 @@
+// simulator.ts
+// Release simulator. Replays a scenario of owner check-ins, guardian approvals
+// and death attestations on a hardhat network, travelling forward in time and
+// attempting executeInheritance wherever the outcome can change. Every attempt
+// is rolled back, so the report says when a vault would first release and why
+// each earlier attempt would not.
+//
+// It drives the network through plain JSON-RPC, so the same code serves the
+// Simulate panel (a local `npx hardhat node`) and the vault:simulate task
+// (the in-process hardhat network). Keep it free of browser APIs: the task
+// loads it under node.
+import { ethers } from "ethers";
+import { DigitalInheritanceVaultFHE, DigitalInheritanceVaultFHE__factory } from "./typechain";
+import { RELEASE_KINDS } from "./releaseKinds";
+
+const HOUR_SECONDS = 3600;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+const UNIT_SECONDS: Record<string, number> = {
+  h: HOUR_SECONDS,
+  d: DAY_SECONDS,
+  w: 7 * DAY_SECONDS,
+  y: 365 * DAY_SECONDS
+};
+
+export const DEFAULT_HORIZON = "+5y";
+
+// Simulated transactions skip gas estimation so reverts surface from the mined attempt
+const GAS_LIMIT = 10_000_000;
+const SIMULATION_BALANCE = ethers.toQuantity(ethers.parseEther("100"));
+const APPROVAL_VALIDITY_SECONDS = 30 * DAY_SECONDS;
+
+// Emitted by the FHEVM decryption oracle for every FHE.requestDecryption
+const DECRYPTION_ORACLE = new ethers.Interface([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)"
+]);
+
+export const SIMULATION_ACTIONS = ["checkIn", "approve", "attest"] as const;
+export type SimulationAction = (typeof SIMULATION_ACTIONS)[number];
+
+/**
+ * A scheduled step. checkIn and attest act for `owner`, approve for
+ * `vaultId`; without them the step applies to every simulated vault.
+ */
+export interface SimulationStep {
+  at: number;
+  action: SimulationAction;
+  owner?: string;
+  vaultId?: bigint;
+}
+
+export interface Scenario {
+  steps: SimulationStep[];
+  /** Last moment to simulate, in unix seconds. */
+  until: number;
+}
+
+/** A scenario as written by hand: times are "+90d", ISO dates or unix seconds. */
+export interface ScenarioInput {
+  until?: string;
+  steps?: { at: string; action: string; owner?: string; vaultId?: string | number }[];
+}
+
+/**
+ * released: executeInheritance released the vault. blocked: it reverted.
+ * not-met: the oracle decrypted the release conditions as false.
+ * undecided: the plaintext gates passed but the encrypted part can only be
+ * decided by a real decryption oracle, as on a fork of a live network.
+ */
+export type CheckOutcome = "released" | "blocked" | "not-met" | "undecided";
+
+export interface SimulationCheck {
+  time: number;
+  outcome: CheckOutcome;
+  reason: string;
+}
+
+export interface StepReport {
+  time: number;
+  message: string;
+}
+
+export interface VaultSimulation {
+  vaultId: bigint;
+  owner: string;
+  releaseKind: string;
+  /** First time the vault releases, null if it does not within the scenario. */
+  releasedAt: number | null;
+  checks: SimulationCheck[];
+  /** What each step did, or why it could not be applied. */
+  steps: StepReport[];
+}
+
+export interface SimulationOptions {
+  vaultAddress: string;
+  /** Vaults to simulate; every vault of the deployment if omitted. */
+  vaultIds?: bigint[];
+  scenario: Scenario;
+  /** Whether the network runs the FHEVM mock, whose ciphertexts can be read back; false on a fork of a live network. */
+  mock: boolean;
+  onProgress?: (message: string) => void;
+}
+
+export const formatTime = (time: number) => new Date(time * 1000).toISOString().replace(".000Z", "Z");
+
+/** Parses "+90d" (h, d, w or y) relative to `now`, an ISO date, or unix seconds. */
+export function parseWhen(text: string, now: number): number {
+  const value = text.trim();
+  const relative = /^\+(\d+)([hdwy])$/i.exec(value);
+  if (relative) return now + Number(relative[1]) * UNIT_SECONDS[relative[2].toLowerCase()];
+  if (/^\d+$/.test(value)) return Number(value);
+  const parsed = Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Cannot read "${text}" as a time; use +90d, 2030-01-31 or unix seconds`);
+  }
+  return Math.floor(parsed / 1000);
+}
+
+/** Converts a hand-written scenario, throwing if a step cannot be simulated. */
+export function scenarioFromInput(input: ScenarioInput, now: number): Scenario {
+  const steps = (input.steps ?? []).map((step, i): SimulationStep => {
+    if (!(SIMULATION_ACTIONS as readonly string[]).includes(step.action)) {
+      throw new Error(`Step ${i + 1}: unknown action "${step.action}", expected one of ${SIMULATION_ACTIONS.join(", ")}`);
+    }
+    if (step.owner !== undefined && !ethers.isAddress(step.owner)) {
+      throw new Error(`Step ${i + 1}: owner ${step.owner} is not a valid address`);
+    }
+    return {
+      at: parseWhen(String(step.at), now),
+      action: step.action as SimulationAction,
+      owner: step.owner,
+      vaultId: step.vaultId === undefined ? undefined : BigInt(step.vaultId)
+    };
+  });
+  const until = parseWhen(input.until ?? DEFAULT_HORIZON, now);
+  if (steps.some(step => step.at > until)) {
+    throw new Error("Every step must happen before the end of the simulation");
+  }
+  return { steps: steps.sort((a, b) => a.at - b.at), until };
+}
+
+export interface TimelineEntry {
+  time: number;
+  label: CheckOutcome | "step";
+  text: string;
+}
+
+/** Steps and execution attempts of a vault in the order they happened. */
+export function timeline(result: VaultSimulation): TimelineEntry[] {
+  return [
+    ...result.steps.map(step => ({ time: step.time, label: "step" as const, text: step.message })),
+    ...result.checks.map(check => ({ time: check.time, label: check.outcome, text: check.reason }))
+  ].sort((a, b) => a.time - b.time);
+}
+
+/** An EIP-1193 view of a JSON-RPC endpoint such as a `npx hardhat node`. */
+export function rpcNetwork(url: string): ethers.Eip1193Provider {
+  const provider = new ethers.JsonRpcProvider(url);
+  return { request: ({ method, params }) => provider.send(method, (params as unknown[]) ?? []) };
+}
+
+/** Resets a hardhat network to a fork of `jsonRpcUrl`, at its latest block unless `blockNumber` is given. */
+export async function forkNetwork(network: ethers.Eip1193Provider, jsonRpcUrl: string, blockNumber?: number) {
+  const forking = blockNumber === undefined ? { jsonRpcUrl } : { jsonRpcUrl, blockNumber };
+  await network.request({ method: "hardhat_reset", params: [{ forking }] });
+}
+
+/**
+ * Simulates each vault from the network's current state. Everything is rolled
+ * back afterwards, so the network may be a node other tools are using; it
+ * only gains a few empty blocks.
+ */
+export async function simulateRelease(
+  network: ethers.Eip1193Provider,
+  options: SimulationOptions
+): Promise<VaultSimulation[]> {
+  const simulation = new Simulation(network, options);
+  return simulation.run();
+}
+
+/** Unix seconds after which every release time has passed, or null if unknown. */
+type ReleaseTime = number | null;
+
+class Simulation {
+  private readonly provider: ethers.BrowserProvider;
+  private readonly vault: DigitalInheritanceVaultFHE;
+
+  constructor(private readonly network: ethers.Eip1193Provider, private readonly options: SimulationOptions) {
+    this.provider = new ethers.BrowserProvider(network);
+    this.vault = DigitalInheritanceVaultFHE__factory.connect(options.vaultAddress, this.provider);
+  }
+
+  async run(): Promise<VaultSimulation[]> {
+    if ((await this.provider.getCode(this.options.vaultAddress)) === "0x") {
+      throw new Error(`No vault contract at ${this.options.vaultAddress} on this network`);
+    }
+    let vaultIds = this.options.vaultIds;
+    if (!vaultIds) {
+      const count: bigint = await this.vault.vaultCount();
+      vaultIds = Array.from({ length: Number(count) }, (_, i) => BigInt(i + 1));
+    }
+
+    const results: VaultSimulation[] = [];
+    for (const vaultId of vaultIds) {
+      this.options.onProgress?.(`Simulating vault #${vaultId}`);
+      const snapshot = await this.rpc("evm_snapshot");
+      try {
+        results.push(await this.simulateVault(vaultId));
+      } finally {
+        await this.rollback(snapshot);
+      }
+    }
+    return results;
+  }
+
+  private async simulateVault(vaultId: bigint): Promise<VaultSimulation> {
+    const asset = await this.vault.encryptedAssets(vaultId);
+    if (asset.owner === ethers.ZeroAddress) {
+      throw new Error(`Vault #${vaultId} does not exist`);
+    }
+    const owner: string = asset.owner;
+    const result: VaultSimulation = {
+      vaultId,
+      owner,
+      releaseKind: RELEASE_KINDS[Number(await this.vault.releaseKinds(vaultId))],
+      releasedAt: null,
+      checks: [],
+      steps: []
+    };
+    const executor = await this.executor();
+    const releaseTime = await this.releaseTime(vaultId);
+    const { until } = this.options.scenario;
+    const pending = this.options.scenario.steps.filter(step =>
+      step.action === "approve"
+        ? step.vaultId === undefined || step.vaultId === vaultId
+        : step.owner === undefined || ethers.getAddress(step.owner) === owner
+    );
+
+    let next: number | undefined = (await this.latestTimestamp()) + 1;
+    while (next !== undefined && next <= until) {
+      while (pending.length > 0 && pending[0].at <= next) {
+        result.steps.push(await this.applyStep(pending.shift()!, vaultId, owner, executor));
+      }
+      const check = await this.attempt(result, executor, releaseTime, next);
+      result.checks.push(check);
+      if (check.outcome === "released") {
+        result.releasedAt = check.time;
+        break;
+      }
+      if (check.outcome === "undecided") break;
+
+      // Jump to the next moment something can change
+      const after = check.time;
+      const candidates = [pending[0]?.at, ...(await this.deadlines(vaultId, owner, releaseTime)), until];
+      next = candidates
+        .filter((time): time is number => time !== undefined && time > after && time <= until)
+        .sort((a, b) => a - b)[0];
+    }
+    return result;
+  }
+
+  /** Tries executeInheritance at `time` and rolls it back. */
+  private async attempt(
+    { vaultId, owner, releaseKind }: VaultSimulation,
+    executor: ethers.Signer,
+    releaseTime: ReleaseTime,
+    time: number
+  ): Promise<SimulationCheck> {
+    const snapshot = await this.rpc("evm_snapshot");
+    try {
+      const minedAt = await this.setNextTimestamp(time);
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        const tx = await this.vault.connect(executor).getFunction("executeInheritance")(vaultId, { gasLimit: GAS_LIMIT });
+        receipt = await tx.wait();
+      } catch (e) {
+        const reason = revertReason(e);
+        return { time: minedAt, outcome: "blocked", reason: await this.explain(reason, vaultId, owner) };
+      }
+
+      const isExpression = releaseKind === "Expression";
+      if (!this.options.mock) {
+        return {
+          time: minedAt,
+          outcome: "undecided",
+          reason: "Plaintext conditions met; only the decryption oracle can check the encrypted release times"
+        };
+      }
+      // Read the decrypted condition straight from the mock instead of running the
+      // oracle callback, whose bookkeeping does not survive the rollback
+      const request = receipt!.logs
+        .map(log => DECRYPTION_ORACLE.parseLog(log))
+        .find(parsed => parsed?.name === "DecryptionRequest");
+      if (!request) {
+        throw new Error(`Execution of vault #${vaultId} did not request a decryption`);
+      }
+      const [clearText]: string[] = await this.rpc("fhevm_getClearText", [[request.args.cts[0]]]);
+      if (BigInt(clearText) !== 0n) {
+        return { time: minedAt, outcome: "released", reason: isExpression ? "Unlock expression satisfied" : "Released" };
+      }
+      const reason = isExpression
+        ? "Unlock expression evaluated to false"
+        : releaseTime !== null
+          ? `Release time ${formatTime(releaseTime)} not reached`
+          : "Release time not reached";
+      return { time: minedAt, outcome: "not-met", reason };
+    } finally {
+      await this.rollback(snapshot);
+    }
+  }
+
+  /** Adds when a blocking gate opens, where the contract knows it. */
+  private async explain(reason: string, vaultId: bigint, owner: string): Promise<string> {
+    if (reason === "Owner still active") {
+      return `${reason} until ${formatTime(Number(await this.vault.inactivityDeadline(vaultId)))}`;
+    }
+    if (reason === "Death not attested") {
+      const finalAt = await this.pendingAttestationFinalAt(owner);
+      if (finalAt !== null) return `${reason}; objection window ends ${formatTime(finalAt)}`;
+    }
+    return reason;
+  }
+
+  /** Times at which a plaintext gate or the release time may flip. */
+  private async deadlines(vaultId: bigint, owner: string, releaseTime: ReleaseTime): Promise<number[]> {
+    const deadlines: number[] = [];
+    const [window] = await this.vault.inactivityConfigs(vaultId);
+    if (window > 0n) deadlines.push(Number(await this.vault.inactivityDeadline(vaultId)));
+    const finalAt = await this.pendingAttestationFinalAt(owner);
+    if (finalAt !== null) deadlines.push(finalAt);
+    if (releaseTime !== null) deadlines.push(releaseTime + 1);
+    return deadlines;
+  }
+
+  private async pendingAttestationFinalAt(owner: string): Promise<number | null> {
+    const attestations: DigitalInheritanceVaultFHE.DeathAttestationStructOutput[] = await this.vault.getDeathAttestations(owner);
+    const active = attestations.find(a => !a.objected);
+    return active ? Number(active.finalAt) : null;
+  }
+
+  /**
+   * The latest release time over the vault's instructions, which the contract
+   * compares with `>`. Only the mock can reveal it; on a fork it stays encrypted.
+   */
+  private async releaseTime(vaultId: bigint): Promise<ReleaseTime> {
+    if (!this.options.mock) return null;
+    const [, , conditions] = await this.vault.getInheritanceInstructions(vaultId);
+    if (conditions.length === 0) return null;
+    const clearTexts: string[] = await this.rpc("fhevm_getClearText", [Array.from(conditions as string[])]);
+    return Math.max(...clearTexts.map(hex => Number(BigInt(hex))));
+  }
+
+  private async applyStep(
+    step: SimulationStep,
+    vaultId: bigint,
+    owner: string,
+    executor: ethers.Signer
+  ): Promise<StepReport> {
+    const time = await this.setNextTimestamp(step.at);
+    try {
+      switch (step.action) {
+        case "checkIn": {
+          await this.send(this.vault.connect(await this.impersonate(owner)).getFunction("checkIn")());
+          return { time, message: "Owner checked in" };
+        }
+        case "attest": {
+          const notary = await this.impersonate(await this.vault.notary());
+          await this.send(
+            this.vault.connect(notary).getFunction("attestDeath")(
+              owner,
+              ethers.id(`simulated certificate ${owner}`),
+              "Simulation",
+              time,
+              await notary.getAddress()
+            )
+          );
+          return { time, message: "Notary attested the owner's death" };
+        }
+        case "approve":
+          return { time, message: await this.approve(vaultId, owner, executor) };
+      }
+    } catch (e) {
+      return { time, message: `${step.action} skipped: ${revertReason(e)}` };
+    }
+  }
+
+  /**
+   * Real guardians cannot sign here, so the vault's guardians are swapped for
+   * simulation keys with the same M-of-N threshold and a quorum of them signs.
+   */
+  private async approve(vaultId: bigint, owner: string, executor: ethers.Signer): Promise<string> {
+    const [guardians, threshold] = await this.vault.getGuardians(vaultId);
+    if (threshold === 0n) return "approve skipped: no guardians configured";
+
+    const keys = Array.from(guardians as string[], () => ethers.Wallet.createRandom());
+    keys.sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1));
+    await this.send(
+      this.vault.connect(await this.impersonate(owner)).getFunction("setGuardians")(
+        vaultId,
+        keys.map(k => k.address),
+        threshold,
+        { gasLimit: GAS_LIMIT }
+      )
+    );
+
+    const [, , nonce] = await this.vault.getGuardians(vaultId);
+    const { chainId } = await this.provider.getNetwork();
+    const deadline = (await this.latestTimestamp()) + APPROVAL_VALIDITY_SECONDS;
+    const domain = { name: "DigitalInheritanceVaultFHE", version: "1", chainId, verifyingContract: this.options.vaultAddress };
+    const types = {
+      ReleaseApproval: [
+        { name: "vaultId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ]
+    };
+    const signatures = await Promise.all(
+      keys.slice(0, Number(threshold)).map(async key => ({
+        deadline,
+        signature: await key.signTypedData(domain, types, { vaultId, nonce, deadline })
+      }))
+    );
+    await this.send(
+      this.vault.connect(executor).getFunction("submitGuardianApprovals")(vaultId, signatures, { gasLimit: GAS_LIMIT })
+    );
+    return `${threshold} of ${keys.length} guardians approved (simulation keys)`;
+  }
+
+  /** The notary, authorized as executor for the simulation if it is not one already. */
+  private async executor(): Promise<ethers.Signer> {
+    const notaryAddress: string = await this.vault.notary();
+    const notary = await this.impersonate(notaryAddress);
+    if (!(await this.vault.authorizedExecutors(notaryAddress))) {
+      await this.send(this.vault.connect(notary).getFunction("authorizeExecutor")(notaryAddress));
+    }
+    return notary;
+  }
+
+  private async impersonate(address: string): Promise<ethers.JsonRpcSigner> {
+    await this.rpc("hardhat_impersonateAccount", [address]);
+    await this.rpc("hardhat_setBalance", [address, SIMULATION_BALANCE]);
+    return new ethers.JsonRpcSigner(this.provider, address);
+  }
+
+  private async send(pending: Promise<ethers.ContractTransactionResponse>): Promise<void> {
+    await (await pending).wait();
+  }
+
+  /**
+   * Reverts to `snapshot` but keeps the block height: the FHEVM mock reads
+   * coprocessor events with a cursor that only moves forward, so the reverted
+   * blocks are replaced by empty ones.
+   */
+  private async rollback(snapshot: string): Promise<void> {
+    const height = Number(await this.rpc("eth_blockNumber"));
+    await this.rpc("evm_revert", [snapshot]);
+    const reverted = height - Number(await this.rpc("eth_blockNumber"));
+    if (reverted > 0) await this.rpc("hardhat_mine", [ethers.toQuantity(reverted)]);
+  }
+
+  /** Makes the next block be mined at `time`, or right after the latest one if that is later. */
+  private async setNextTimestamp(time: number): Promise<number> {
+    const next = Math.max(time, (await this.latestTimestamp()) + 1);
+    await this.rpc("evm_setNextBlockTimestamp", [next]);
+    return next;
+  }
+
+  private async latestTimestamp(): Promise<number> {
+    const block = await this.rpc("eth_getBlockByNumber", ["latest", false]);
+    return Number(block.timestamp);
+  }
+
+  private rpc(method: string, params: unknown[] = []): Promise<any> {
+    return this.network.request({ method, params });
+  }
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+/** The revert string of a failed transaction, wherever the provider put it. */
+export function revertReason(e: any): string {
+  const seen = new Set<unknown>();
+  const search = (value: any): string | undefined => {
+    if (!value || typeof value !== "object" || seen.has(value)) return undefined;
+    seen.add(value);
+    if (typeof value.reason === "string" && value.reason) return value.reason;
+    if (typeof value.data === "string" && value.data.startsWith(ERROR_STRING_SELECTOR)) {
+      return ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(value.data, 4))[0];
+    }
+    const quoted = /reverted with reason string '(.*)'/.exec(value.message ?? "");
+    if (quoted) return quoted[1];
+    return search(value.error) ?? search(value.info) ?? search(value.data) ?? search(value.cause);
+  };
+  return search(e) ?? e?.shortMessage ?? e?.message ?? "Reverted";
+}
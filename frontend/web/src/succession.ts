@@ -0,0 +1,97 @@
+// succession.ts
+// Contingent beneficiaries and unclaimed shares. With a claim window set,
+// a released share is held until its beneficiary claims it. Once the window
+// closes anyone can pass it on to the next contingent, who gets a window of
+// their own, and after the last contingent the share is redistributed among
+// the other beneficiaries by the vault's lapse rule, or returned to the
+// owner's estate if none of them is left. Mirrors claimShare and lapseShare in
+// contracts/DigitalInheritanceVaultFHE.sol.
+import { ethers } from "ethers";
+import { normAddr } from "./contract";
+import { DAY_SECONDS } from "./inactivity";
+import type { InstructionProjection } from "./indexer";
+import type { ClaimPolicy, LapseRule } from "./vaultClient";
+import type { InheritanceItem } from "./vaultModel";
+
+// Mirrors MAX_CONTINGENTS in contracts/DigitalInheritanceVaultFHE.sol
+export const MAX_CONTINGENTS = 4;
+
+/** What the contract holds for a vault that never set a claim window. */
+export const NO_CLAIM_WINDOW: ClaimPolicy = { window: 0, lapseRule: "SplitEqually" };
+
+export const LAPSE_RULE_LABELS: Record<LapseRule, string> = {
+  SplitEqually: "Split equally among the other beneficiaries",
+  FirstRemaining: "All to the first other beneficiary"
+};
+
+/** Converts form input (addresses separated by commas or new lines) into contingents, throwing if they are invalid. */
+export function contingentsFromInput(addresses: string, beneficiary: string): string[] {
+  const contingents = addresses.split(/[\s,]+/).filter(Boolean);
+  if (contingents.length > MAX_CONTINGENTS) {
+    throw new Error(`Name at most ${MAX_CONTINGENTS} contingents per beneficiary`);
+  }
+  const seen = new Set<string>([normAddr(beneficiary)]);
+  for (const contingent of contingents) {
+    if (!ethers.isAddress(contingent)) {
+      throw new Error(`Contingent ${contingent} is not a valid address`);
+    }
+    if (seen.has(normAddr(contingent))) {
+      throw new Error(`Contingent ${contingent} is already in line for this share`);
+    }
+    seen.add(normAddr(contingent));
+  }
+  return contingents.map(c => ethers.getAddress(c));
+}
+
+/** Converts a claim window in days into a policy; an empty window hands shares over at once. */
+export function claimPolicyFromDays(days: string, lapseRule: LapseRule): ClaimPolicy | null {
+  if (!days.trim()) return null;
+  const window = Number(days);
+  if (!Number.isInteger(window) || window < 1) {
+    throw new Error("Claim window must be a whole number of days, at least 1");
+  }
+  return { window: window * DAY_SECONDS, lapseRule };
+}
+
+/** waiting: not offered yet; offered: may claim now; claimed; missed: let the window close. */
+export type LinkState = "waiting" | "offered" | "claimed" | "missed";
+
+export interface SuccessionLink {
+  holder: string;
+  role: "beneficiary" | "contingent";
+  state: LinkState;
+  /** End of the claim window while offered or once missed. */
+  deadline: number | null;
+}
+
+/** The beneficiary and contingents of an instruction in order, with how far the share has gone down the line. */
+export function successionChain(
+  instruction: InstructionProjection,
+  now = Math.floor(Date.now() / 1000)
+): SuccessionLink[] {
+  const claim = instruction.claim;
+  // Whoever holds the claim is at position contingentsUsed: 0 for the beneficiary, n for the n-th contingent
+  const line = [instruction.beneficiary, ...instruction.contingents];
+  return line.map((holder, position) => {
+    const role = position === 0 ? "beneficiary" : "contingent";
+    if (!claim || position > claim.contingentsUsed) return { holder, role, state: "waiting", deadline: null };
+    if (position < claim.contingentsUsed) return { holder, role, state: "missed", deadline: null };
+    if (claim.status === "Claimed") return { holder, role, state: "claimed", deadline: claim.deadline };
+    const missed = claim.status === "Lapsed" || now > claim.deadline;
+    return { holder, role, state: missed ? "missed" : "offered", deadline: claim.deadline };
+  });
+}
+
+/** Ids of instructions whose share is held for `account` and still claimable. */
+export function claimableShares(item: InheritanceItem, account: string, now = Math.floor(Date.now() / 1000)): string[] {
+  return item.instructions
+    .filter(i => i.claim?.status === "Pending" && normAddr(i.claim.holder) === normAddr(account) && now <= i.claim.deadline)
+    .map(i => i.instructionId);
+}
+
+/** Ids of instructions whose claim window closed without a claim, which anyone may pass on. */
+export function lapsedShares(item: InheritanceItem, now = Math.floor(Date.now() / 1000)): string[] {
+  return item.instructions
+    .filter(i => i.claim?.status === "Pending" && now > i.claim.deadline)
+    .map(i => i.instructionId);
+}
@@ -0,0 +1,100 @@
+// timeLock.ts
+// The release time of an instruction is an encrypted uint32 of unix seconds,
+// compared on-chain against block.timestamp. Only the owner can decrypt it,
+// so the owner's browser remembers the times it set to show countdowns.
+import { readVaultValue, writeVaultValue } from "./vaultStore";
+
+// Largest timestamp an euint32 can hold (2106-02-07)
+export const MAX_UNLOCK_TIME = 0xffffffff;
+
+const UNLOCK_TIMES_KEY = "vault_unlock_times";
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export function timeZones(): string[] {
+  const supported: string[] | undefined = (Intl as any).supportedValuesOf?.("timeZone");
+  const zones = supported && supported.length > 0 ? supported : [localTimeZone()];
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in milliseconds. */
+function zoneOffsetMs(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(new Date(utcMs));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Converts a `datetime-local` value ("2030-01-31T18:30") read as wall-clock
+ * time in `timeZone` into unix seconds.
+ */
+export function zonedTimeToUnix(local: string, timeZone: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(local);
+  if (!match) {
+    throw new Error(`Invalid date "${local}"`);
+  }
+  const [, y, mo, d, h, mi] = match.map(Number);
+  const asUtc = Date.UTC(y, mo - 1, d, h, mi);
+  // The offset depends on the instant itself; a second pass settles DST changes
+  let utcMs = asUtc - zoneOffsetMs(asUtc, timeZone);
+  utcMs = asUtc - zoneOffsetMs(utcMs, timeZone);
+  return Math.floor(utcMs / 1000);
+}
+
+export const formatInZone = (unix: number, timeZone: string) =>
+  new Date(unix * 1000).toLocaleString(undefined, { timeZone, timeZoneName: "short" });
+
+/** Returns why `unix` cannot be used as an unlock time, or null if it can. */
+export function validateUnlockTime(unix: number, now = Math.floor(Date.now() / 1000)): string | null {
+  if (!Number.isFinite(unix)) return "Unlock time is not a valid date";
+  if (unix <= now) return "Unlock time must be in the future";
+  if (unix > MAX_UNLOCK_TIME) return "Unlock time must be before 2106";
+  return null;
+}
+
+export interface UnlockTimeValue {
+  /** `datetime-local` value, read as wall-clock time in `timeZone`. */
+  date: string;
+  timeZone: string;
+}
+
+export const emptyUnlockTime = (): UnlockTimeValue => ({ date: "", timeZone: localTimeZone() });
+
+/** Converts picker input into unix seconds, throwing if it is not a usable unlock time. */
+export function unlockTimeFromInput(value: UnlockTimeValue): number {
+  if (!value.date) {
+    throw new Error("Please choose an unlock date");
+  }
+  const unix = zonedTimeToUnix(value.date, value.timeZone);
+  const problem = validateUnlockTime(unix);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return unix;
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return "Unlocked";
+  const days = Math.floor(seconds / 86400);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const clock = `${pad(Math.floor((seconds % 86400) / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+export function rememberUnlockTime(vaultAddress: string, vaultId: string, unix: number): void {
+  writeVaultValue(UNLOCK_TIMES_KEY, vaultAddress, vaultId, unix);
+}
+
+export function knownUnlockTime(vaultAddress: string, vaultId: string): number | null {
+  return readVaultValue<number>(UNLOCK_TIMES_KEY, vaultAddress, vaultId) ?? null;
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { DigitalInheritanceVaultFHE__factory } from "./DigitalInheritanceVaultFHE__factory";
+export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
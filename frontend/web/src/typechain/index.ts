@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { DigitalInheritanceVaultFHE } from "./DigitalInheritanceVaultFHE";
+export type { UniversalAdapter } from "./UniversalAdapter";
+export * as factories from "./factories";
+export { DigitalInheritanceVaultFHE__factory } from "./factories/DigitalInheritanceVaultFHE__factory";
+export { UniversalAdapter__factory } from "./factories/UniversalAdapter__factory";
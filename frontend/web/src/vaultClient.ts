@@ -0,0 +1,923 @@
+// vaultClient.ts
+import { ethers } from "ethers";
+import { config, getReadOnlyProvider, normAddr } from "./contract";
+import { RELEASE_KINDS, ReleaseKind } from "./releaseKinds";
+import { DigitalInheritanceVaultFHE, DigitalInheritanceVaultFHE__factory } from "./typechain";
+
+/** A bytes32 ciphertext handle as stored by the FHE library (euint32 / ebool). */
+export type Handle = string;
+
+export { RELEASE_KINDS };
+export type { ReleaseKind };
+
+/** Values of the contract's LapseRule enum, in declaration order. */
+export const LAPSE_RULES = ["SplitEqually", "FirstRemaining"] as const;
+export type LapseRule = (typeof LAPSE_RULES)[number];
+
+/** Values of the contract's ClaimStatus enum, in declaration order. */
+export const CLAIM_STATUSES = ["None", "Pending", "Claimed", "Lapsed"] as const;
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
+/** Values of the contract's ExecutorStatus enum, in declaration order. */
+export const EXECUTOR_STATUSES = ["None", "Active", "Suspended", "Revoked"] as const;
+export type ExecutorStatus = (typeof EXECUTOR_STATUSES)[number];
+
+/** External (not yet verified) input handles sharing one input proof. */
+export interface AssetHandles {
+  assetType: Handle;
+  assetValue: Handle;
+  accessKey: Handle;
+  inputProof: string;
+}
+
+export interface InstructionHandles {
+  beneficiary: string;
+  share: Handle;
+  releaseCondition: Handle;
+  inputProof: string;
+}
+
+export interface EncryptedAsset {
+  vaultId: bigint;
+  owner: string;
+  encryptedAssetType: Handle;
+  encryptedAssetValue: Handle;
+  encryptedAccessKey: Handle;
+  isActive: boolean;
+}
+
+export interface VaultSummary {
+  vaultId: bigint;
+  owner: string;
+  timestamp: number;
+  isActive: boolean;
+  releaseKind: ReleaseKind;
+}
+
+export interface Instruction {
+  instructionId: bigint;
+  beneficiary: string;
+  encryptedShare: Handle;
+  encryptedReleaseCondition: Handle;
+}
+
+/** Inactivity settings in seconds; a zero window means none are configured. */
+export interface InactivityConfig {
+  window: number;
+  gracePeriod: number;
+}
+
+export interface GuardianSet {
+  guardians: string[];
+  threshold: number;
+  /** Signatures are only valid for the nonce they were made under. */
+  nonce: bigint;
+  approved: boolean;
+}
+
+/** Claim window in seconds, 0 when released shares are handed over at once. */
+export interface ClaimPolicy {
+  window: number;
+  lapseRule: LapseRule;
+}
+
+/** A released share held for its beneficiary or one of their contingents. */
+export interface ShareClaim {
+  holder: string;
+  /** End of the holder's claim window in unix seconds. */
+  deadline: number;
+  /** Contingents the share has already been offered to. */
+  contingentsUsed: number;
+  status: ClaimStatus;
+  /** Encrypted share of the asset value, only meaningful until claimed. */
+  value: Handle;
+}
+
+/** A guardian's signed ReleaseApproval; see guardians.ts. */
+export interface GuardianSignature {
+  deadline: number;
+  signature: string;
+}
+
+/** What a notary attests about a deceased owner. */
+export interface AttestationInput {
+  /** keccak256 of the certificate document, which itself stays off-chain. */
+  documentHash: string;
+  jurisdiction: string;
+  /** Issue date of the certificate in unix seconds. */
+  issuedAt: number;
+  /** Official who signed the certificate. */
+  signer: string;
+}
+
+export interface DeathAttestation extends AttestationInput {
+  attestationId: bigint;
+  notary: string;
+  /** End of the objection window in unix seconds. */
+  finalAt: number;
+  objected: boolean;
+}
+
+export interface DecryptedAsset {
+  vaultId: bigint;
+  assetType: number;
+  assetValue: number;
+  accessKey: number;
+  isRevealed: boolean;
+}
+
+export type VaultEvent =
+  | { name: "VaultCreated"; vaultId: bigint; owner: string; releaseKind: ReleaseKind }
+  | { name: "AssetAdded"; vaultId: bigint }
+  | { name: "InstructionAdded"; vaultId: bigint; instructionId: bigint; beneficiary: string }
+  | { name: "InheritanceRequested"; vaultId: bigint; requestId: bigint }
+  | { name: "InheritanceExecuted"; vaultId: bigint }
+  | { name: "InheritanceConditionNotMet"; vaultId: bigint }
+  | { name: "ExecutionExpired"; vaultId: bigint; requestId: bigint }
+  | { name: "AssetDecryptionRequested"; vaultId: bigint; requestId: bigint }
+  | { name: "AssetDecrypted"; vaultId: bigint; requestId: bigint }
+  | {
+      name: "BeneficiaryUpdated";
+      vaultId: bigint;
+      instructionId: bigint;
+      previousBeneficiary: string;
+      newBeneficiary: string;
+    }
+  | { name: "ReleaseKindUpdated"; vaultId: bigint; releaseKind: ReleaseKind }
+  | { name: "ReleaseConditionUpdated"; vaultId: bigint; instructionId: bigint }
+  | { name: "VaultRevoked"; vaultId: bigint }
+  | { name: "InactivityConfigured"; vaultId: bigint; window: number; gracePeriod: number }
+  | { name: "CheckedIn"; owner: string; timestamp: number }
+  | { name: "GuardiansConfigured"; vaultId: bigint; guardians: string[]; threshold: number; nonce: bigint }
+  | { name: "GuardianApprovalsSubmitted"; vaultId: bigint; signers: string[] }
+  | {
+      name: "DeathAttested";
+      owner: string;
+      attestationId: bigint;
+      documentHash: string;
+      jurisdiction: string;
+      issuedAt: number;
+      signer: string;
+      notary: string;
+      finalAt: number;
+    }
+  | { name: "AttestationObjected"; owner: string; attestationId: bigint; objector: string; reason: string }
+  | { name: "ObjectionWindowUpdated"; objectionWindow: number }
+  | { name: "UnlockExpressionUpdated"; vaultId: bigint; expression: string }
+  | { name: "SharesVerified"; vaultId: bigint; verifier: string }
+  | { name: "ContingentsUpdated"; vaultId: bigint; instructionId: bigint; contingents: string[] }
+  | { name: "ClaimPolicyUpdated"; vaultId: bigint; window: number; lapseRule: LapseRule }
+  | { name: "ShareOffered"; vaultId: bigint; instructionId: bigint; holder: string; deadline: number }
+  | { name: "ShareClaimed"; vaultId: bigint; instructionId: bigint; holder: string }
+  | { name: "ShareLapsed"; vaultId: bigint; instructionId: bigint; holder: string; recipients: bigint[] }
+  | { name: "ExecutorStatusChanged"; executor: string; status: ExecutorStatus; notary: string }
+  | { name: "NotaryTransferStarted"; notary: string; pendingNotary: string }
+  | { name: "NotaryTransferred"; previousNotary: string; newNotary: string };
+
+export interface VaultTxResult {
+  hash: string;
+  blockNumber: number;
+  events: VaultEvent[];
+}
+
+export type VaultErrorCode =
+  | "NOT_OWNER"
+  | "NOT_NOTARY"
+  | "UNAUTHORIZED_EXECUTOR"
+  | "VAULT_INACTIVE"
+  | "EXECUTION_PENDING"
+  | "NO_EXECUTION_PENDING"
+  | "EXECUTION_NOT_EXPIRED"
+  | "NOT_ALLOWED_TO_EXPIRE"
+  | "NO_INSTRUCTIONS"
+  | "ALREADY_DECRYPTED"
+  | "INVALID_REQUEST"
+  | "INVALID_BENEFICIARY"
+  | "INVALID_INSTRUCTION"
+  | "INVALID_WINDOW"
+  | "INACTIVITY_NOT_CONFIGURED"
+  | "OWNER_STILL_ACTIVE"
+  | "INVALID_GUARDIANS"
+  | "INVALID_THRESHOLD"
+  | "GUARDIANS_NOT_CONFIGURED"
+  | "GUARDIAN_APPROVAL_MISSING"
+  | "NOT_ENOUGH_APPROVALS"
+  | "APPROVAL_EXPIRED"
+  | "NOT_GUARDIAN"
+  | "UNORDERED_SIGNATURES"
+  | "DEATH_NOT_ATTESTED"
+  | "INVALID_ATTESTATION"
+  | "ATTESTATION_EXISTS"
+  | "ATTESTATION_FINAL"
+  | "NOT_ALLOWED_TO_OBJECT"
+  | "INVALID_EXPRESSION"
+  | "EXPRESSION_NOT_SET"
+  | "TOO_MANY_CONTINGENTS"
+  | "INVALID_CONTINGENT"
+  | "NOTHING_TO_CLAIM"
+  | "NOT_SHARE_HOLDER"
+  | "CLAIM_WINDOW_CLOSED"
+  | "NOTHING_TO_LAPSE"
+  | "CLAIM_WINDOW_OPEN"
+  | "INVALID_EXECUTOR"
+  | "NOT_EXECUTOR"
+  | "NOT_PENDING_NOTARY"
+  | "USER_REJECTED"
+  | "NOT_CONFIGURED"
+  | "UNKNOWN";
+
+// Revert strings from contracts/DigitalInheritanceVaultFHE.sol
+const REVERT_REASONS: Record<string, VaultErrorCode> = {
+  "Not owner": "NOT_OWNER",
+  "Not notary": "NOT_NOTARY",
+  "Unauthorized executor": "UNAUTHORIZED_EXECUTOR",
+  "Vault inactive": "VAULT_INACTIVE",
+  "Execution pending": "EXECUTION_PENDING",
+  "No execution pending": "NO_EXECUTION_PENDING",
+  "Execution not expired": "EXECUTION_NOT_EXPIRED",
+  "Not allowed to expire": "NOT_ALLOWED_TO_EXPIRE",
+  "No inheritance instructions": "NO_INSTRUCTIONS",
+  "Already decrypted": "ALREADY_DECRYPTED",
+  "Invalid request": "INVALID_REQUEST",
+  "Invalid beneficiary": "INVALID_BENEFICIARY",
+  "Invalid instruction": "INVALID_INSTRUCTION",
+  "Invalid window": "INVALID_WINDOW",
+  "Inactivity not configured": "INACTIVITY_NOT_CONFIGURED",
+  "Owner still active": "OWNER_STILL_ACTIVE",
+  "Invalid guardians": "INVALID_GUARDIANS",
+  "Invalid threshold": "INVALID_THRESHOLD",
+  "Guardians not configured": "GUARDIANS_NOT_CONFIGURED",
+  "Guardian approval missing": "GUARDIAN_APPROVAL_MISSING",
+  "Not enough approvals": "NOT_ENOUGH_APPROVALS",
+  "Approval expired": "APPROVAL_EXPIRED",
+  "Not guardian": "NOT_GUARDIAN",
+  "Unordered signatures": "UNORDERED_SIGNATURES",
+  "Death not attested": "DEATH_NOT_ATTESTED",
+  "Invalid attestation": "INVALID_ATTESTATION",
+  "Attestation exists": "ATTESTATION_EXISTS",
+  "Attestation final": "ATTESTATION_FINAL",
+  "Not allowed to object": "NOT_ALLOWED_TO_OBJECT",
+  "Invalid expression": "INVALID_EXPRESSION",
+  "Expression not set": "EXPRESSION_NOT_SET",
+  "Too many contingents": "TOO_MANY_CONTINGENTS",
+  "Invalid contingent": "INVALID_CONTINGENT",
+  "Nothing to claim": "NOTHING_TO_CLAIM",
+  "Not share holder": "NOT_SHARE_HOLDER",
+  "Claim window closed": "CLAIM_WINDOW_CLOSED",
+  "Nothing to lapse": "NOTHING_TO_LAPSE",
+  "Claim window open": "CLAIM_WINDOW_OPEN",
+  "Invalid executor": "INVALID_EXECUTOR",
+  "Not executor": "NOT_EXECUTOR",
+  "Not pending notary": "NOT_PENDING_NOTARY"
+};
+
+export function findEvent<N extends VaultEvent["name"]>(
+  events: readonly VaultEvent[],
+  name: N
+): Extract<VaultEvent, { name: N }> | undefined {
+  return events.find(ev => ev.name === name) as Extract<VaultEvent, { name: N }> | undefined;
+}
+
+export class VaultError extends Error {
+  readonly code: VaultErrorCode;
+  readonly reason?: string;
+
+  constructor(code: VaultErrorCode, message: string, reason?: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "VaultError";
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+export function toVaultError(e: any): VaultError {
+  if (e instanceof VaultError) return e;
+
+  if (e?.code === "ACTION_REJECTED" || e?.info?.error?.code === 4001) {
+    return new VaultError("USER_REJECTED", "Transaction rejected by user", undefined, e);
+  }
+
+  const reason: string | undefined = e?.reason ?? e?.revert?.args?.[0];
+  if (reason && REVERT_REASONS[reason]) {
+    return new VaultError(REVERT_REASONS[reason], reason, reason, e);
+  }
+
+  return new VaultError("UNKNOWN", e?.shortMessage || e?.message || "Unknown vault error", reason, e);
+}
+
+export class VaultClient {
+  readonly contract: DigitalInheritanceVaultFHE;
+
+  constructor(address: string, runner: ethers.ContractRunner) {
+    if (!address) {
+      throw new VaultError("NOT_CONFIGURED", "Vault contract address is not configured");
+    }
+    this.contract = DigitalInheritanceVaultFHE__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  /** Creates an empty vault owned by the signer and returns its id. */
+  async createVault(releaseKind: ReleaseKind): Promise<VaultTxResult & { vaultId: bigint }> {
+    const result = await this.send(() => this.contract.createVault(RELEASE_KINDS.indexOf(releaseKind)));
+    const created = findEvent(result.events, "VaultCreated");
+    if (!created) {
+      throw new VaultError("UNKNOWN", "VaultCreated event missing from receipt");
+    }
+    return { ...result, vaultId: created.vaultId };
+  }
+
+  async addEncryptedAsset(vaultId: bigint, asset: AssetHandles): Promise<VaultTxResult> {
+    return this.send(() =>
+      this.contract.addEncryptedAsset(
+        vaultId,
+        asset.assetType,
+        asset.assetValue,
+        asset.accessKey,
+        asset.inputProof
+      )
+    );
+  }
+
+  async addInheritanceInstruction(
+    vaultId: bigint,
+    instruction: InstructionHandles
+  ): Promise<VaultTxResult & { instructionId: bigint }> {
+    const result = await this.send(() =>
+      this.contract.addInheritanceInstruction(
+        vaultId,
+        instruction.beneficiary,
+        instruction.share,
+        instruction.releaseCondition,
+        instruction.inputProof
+      )
+    );
+    const added = findEvent(result.events, "InstructionAdded");
+    if (!added) {
+      throw new VaultError("UNKNOWN", "InstructionAdded event missing from receipt");
+    }
+    return { ...result, instructionId: added.instructionId };
+  }
+
+  async updateBeneficiary(vaultId: bigint, instructionId: bigint, beneficiary: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.updateBeneficiary(vaultId, instructionId, beneficiary));
+  }
+
+  async updateReleaseKind(vaultId: bigint, releaseKind: ReleaseKind): Promise<VaultTxResult> {
+    return this.send(() => this.contract.updateReleaseKind(vaultId, RELEASE_KINDS.indexOf(releaseKind)));
+  }
+
+  /** Replaces the encrypted release time of an instruction; `condition` comes from its own encrypted input. */
+  async updateReleaseCondition(
+    vaultId: bigint,
+    instructionId: bigint,
+    condition: { handle: Handle; inputProof: string }
+  ): Promise<VaultTxResult> {
+    return this.send(() =>
+      this.contract.updateReleaseCondition(vaultId, instructionId, condition.handle, condition.inputProof)
+    );
+  }
+
+  /** Deactivates the vault for good; it can no longer be edited or executed. */
+  async revokeVault(vaultId: bigint): Promise<VaultTxResult> {
+    return this.send(() => this.contract.revokeVault(vaultId));
+  }
+
+  /** Sets the inactivity window and grace period in seconds. Also counts as a check-in. */
+  async configureInactivity(vaultId: bigint, inactivity: InactivityConfig): Promise<VaultTxResult> {
+    return this.send(() => this.contract.configureInactivity(vaultId, inactivity.window, inactivity.gracePeriod));
+  }
+
+  /** Records a heartbeat for the signer, restarting the inactivity window of all their vaults. */
+  async checkIn(): Promise<VaultTxResult> {
+    return this.send(() => this.contract.checkIn());
+  }
+
+  /** Replaces the guardians and their M-of-N threshold, discarding any earlier approval. */
+  async setGuardians(vaultId: bigint, guardians: string[], threshold: number): Promise<VaultTxResult> {
+    return this.send(() => this.contract.setGuardians(vaultId, guardians, threshold));
+  }
+
+  /** Submits collected guardian signatures in one transaction; they must be ordered by signer address. */
+  async submitGuardianApprovals(vaultId: bigint, signatures: GuardianSignature[]): Promise<VaultTxResult> {
+    return this.send(() =>
+      this.contract.submitGuardianApprovals(
+        vaultId,
+        signatures.map(s => ({ deadline: s.deadline, signature: s.signature }))
+      )
+    );
+  }
+
+  /** Notary only: records a death certificate for `owner`, opening its objection window. */
+  async attestDeath(owner: string, attestation: AttestationInput): Promise<VaultTxResult> {
+    return this.send(() =>
+      this.contract.attestDeath(
+        owner,
+        attestation.documentHash,
+        attestation.jurisdiction,
+        attestation.issuedAt,
+        attestation.signer
+      )
+    );
+  }
+
+  /** Voids an attestation within its objection window. Open to the owner, executors and the notary. */
+  async objectToAttestation(owner: string, attestationId: bigint, reason: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.objectToAttestation(owner, attestationId, reason));
+  }
+
+  /** Notary only: authorizes an executor, or reinstates a suspended one. Revoked executors stay revoked. */
+  async authorizeExecutor(executor: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.authorizeExecutor(executor));
+  }
+
+  /** Notary only: stops an executor from acting until authorized again. */
+  async suspendExecutor(executor: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.suspendExecutor(executor));
+  }
+
+  /** Notary only: stops an executor from acting for good. */
+  async revokeExecutor(executor: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.revokeExecutor(executor));
+  }
+
+  /** Notary only: offers the role to `newNotary`, who must accept it; ZeroAddress withdraws the offer. */
+  async transferNotary(newNotary: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.transferNotary(newNotary));
+  }
+
+  /** Takes over the notary role offered to the signer. */
+  async acceptNotary(): Promise<VaultTxResult> {
+    return this.send(() => this.contract.acceptNotary());
+  }
+
+  /** Stores postfix unlock-expression bytes (see conditions.ts), used once the release kind is Expression. */
+  async setUnlockExpression(vaultId: bigint, expression: string): Promise<VaultTxResult> {
+    return this.send(() => this.contract.setUnlockExpression(vaultId, expression));
+  }
+
+  /** Names the ordered fallbacks of an instruction's beneficiary, replacing any earlier ones. */
+  async setContingents(vaultId: bigint, instructionId: bigint, contingents: string[]): Promise<VaultTxResult> {
+    return this.send(() => this.contract.setContingents(vaultId, instructionId, contingents));
+  }
+
+  async setClaimPolicy(vaultId: bigint, policy: ClaimPolicy): Promise<VaultTxResult> {
+    return this.send(() =>
+      this.contract.setClaimPolicy(vaultId, policy.window, LAPSE_RULES.indexOf(policy.lapseRule))
+    );
+  }
+
+  /** Takes a share held for the signer, within its claim window. */
+  async claimShare(vaultId: bigint, instructionId: bigint): Promise<VaultTxResult> {
+    return this.send(() => this.contract.claimShare(vaultId, instructionId));
+  }
+
+  /**
+   * Moves a share whose claim window closed on to the next contingent, or
+   * redistributes it by the vault's lapse rule. Anyone can send it.
+   */
+  async lapseShare(vaultId: bigint, instructionId: bigint): Promise<VaultTxResult> {
+    return this.send(() => this.contract.lapseShare(vaultId, instructionId));
+  }
+
+  /**
+   * Checks on-chain that the encrypted shares of the vault's instructions sum
+   * to 100. The result is an encrypted boolean only the caller can decrypt,
+   * read back through getShareCheck.
+   */
+  async verifySharePercentage(vaultId: bigint): Promise<VaultTxResult> {
+    return this.send(() => this.contract.verifySharePercentage(vaultId));
+  }
+
+  /**
+   * Starts an execution. The release conditions are decrypted by the oracle,
+   * which then emits InheritanceExecuted or InheritanceConditionNotMet.
+   */
+  async executeInheritance(vaultId: bigint): Promise<VaultTxResult> {
+    return this.send(() => this.contract.executeInheritance(vaultId));
+  }
+
+  /**
+   * Gives up on an execution the oracle has not answered within
+   * EXECUTION_TIMEOUT blocks, so the vault can be executed or edited again.
+   * Open to the owner and authorized executors.
+   */
+  async expireExecution(vaultId: bigint): Promise<VaultTxResult> {
+    return this.send(() => this.contract.expireExecution(vaultId));
+  }
+
+  /**
+   * Runs executeInheritance as a call from the signer without sending it,
+   * throwing the decoded VaultError if it would revert. Whether the release
+   * conditions hold is still up to the oracle.
+   */
+  async dryRunExecution(vaultId: bigint): Promise<void> {
+    await this.call(() => this.contract.executeInheritance.staticCall(vaultId));
+  }
+
+  /**
+   * Queues a public decryption of the asset. The values are only readable
+   * through getDecryptedAsset once the oracle has emitted AssetDecrypted.
+   */
+  async requestAssetDecryption(vaultId: bigint): Promise<VaultTxResult & { requestId: bigint }> {
+    const result = await this.send(() => this.contract.requestAssetDecryption(vaultId));
+    const requested = findEvent(result.events, "AssetDecryptionRequested");
+    if (!requested) {
+      throw new VaultError("UNKNOWN", "AssetDecryptionRequested event missing from receipt");
+    }
+    return { ...result, requestId: requested.requestId };
+  }
+
+  async vaultCount(): Promise<bigint> {
+    return this.call(() => this.contract.vaultCount());
+  }
+
+  async getOwnerVaults(owner: string): Promise<bigint[]> {
+    const ids: bigint[] = await this.call(() => this.contract.getOwnerVaults(owner));
+    return Array.from(ids);
+  }
+
+  async getEncryptedAsset(vaultId: bigint): Promise<EncryptedAsset> {
+    const [owner, assetType, assetValue, accessKey, isActive] = await this.call(() =>
+      this.contract.getEncryptedAsset(vaultId)
+    );
+    return {
+      vaultId,
+      owner,
+      encryptedAssetType: assetType,
+      encryptedAssetValue: assetValue,
+      encryptedAccessKey: accessKey,
+      isActive
+    };
+  }
+
+  async getVault(vaultId: bigint): Promise<VaultSummary> {
+    const [asset, releaseKind] = await this.call(() =>
+      Promise.all([this.contract.encryptedAssets(vaultId), this.contract.releaseKinds(vaultId)])
+    );
+    return {
+      vaultId,
+      owner: asset.owner,
+      timestamp: Number(asset.timestamp),
+      isActive: asset.isActive,
+      releaseKind: RELEASE_KINDS[Number(releaseKind)]
+    };
+  }
+
+  async getInheritanceInstructions(vaultId: bigint): Promise<Instruction[]> {
+    const [beneficiaries, shares, conditions] = await this.call(() =>
+      this.contract.getInheritanceInstructions(vaultId)
+    );
+    return Array.from(beneficiaries as string[], (beneficiary, i) => ({
+      instructionId: BigInt(i),
+      beneficiary,
+      encryptedShare: shares[i],
+      encryptedReleaseCondition: conditions[i]
+    }));
+  }
+
+  async getDecryptedAsset(vaultId: bigint): Promise<DecryptedAsset> {
+    const [assetType, assetValue, accessKey, isRevealed] = await this.call(() =>
+      this.contract.getDecryptedAsset(vaultId)
+    );
+    return {
+      vaultId,
+      assetType: Number(assetType),
+      assetValue: Number(assetValue),
+      accessKey: Number(accessKey),
+      isRevealed
+    };
+  }
+
+  /** Encrypted share of the asset value handed to `beneficiary`; zero until the vault is released. */
+  async getInheritedShare(vaultId: bigint, beneficiary: string): Promise<Handle> {
+    return this.call(() => this.contract.inheritedShares(vaultId, beneficiary));
+  }
+
+  async getContingents(vaultId: bigint, instructionId: bigint): Promise<string[]> {
+    const contingents: string[] = await this.call(() => this.contract.getContingents(vaultId, instructionId));
+    return Array.from(contingents);
+  }
+
+  async getClaimPolicy(vaultId: bigint): Promise<ClaimPolicy> {
+    const [window, lapseRule] = await this.call(() => this.contract.claimPolicies(vaultId));
+    return { window: Number(window), lapseRule: LAPSE_RULES[Number(lapseRule)] };
+  }
+
+  async getShareClaim(vaultId: bigint, instructionId: bigint): Promise<ShareClaim> {
+    const [holder, deadline, contingentsUsed, status, value] = await this.call(() =>
+      this.contract.shareClaims(vaultId, instructionId)
+    );
+    return {
+      holder,
+      deadline: Number(deadline),
+      contingentsUsed: Number(contingentsUsed),
+      status: CLAIM_STATUSES[Number(status)],
+      value
+    };
+  }
+
+  /** Encrypted result of `verifier`'s latest verifySharePercentage for the vault; zero if never checked. */
+  async getShareCheck(vaultId: bigint, verifier: string): Promise<Handle> {
+    return this.call(() => this.contract.shareChecks(vaultId, verifier));
+  }
+
+  async getInactivityConfig(vaultId: bigint): Promise<InactivityConfig> {
+    const [window, gracePeriod] = await this.call(() => this.contract.inactivityConfigs(vaultId));
+    return { window: Number(window), gracePeriod: Number(gracePeriod) };
+  }
+
+  async getLastCheckIn(owner: string): Promise<number> {
+    return Number(await this.call(() => this.contract.lastCheckIn(owner)));
+  }
+
+  /** Time from which an inactivity vault can be executed, in unix seconds. */
+  async getInactivityDeadline(vaultId: bigint): Promise<number> {
+    return Number(await this.call(() => this.contract.inactivityDeadline(vaultId)));
+  }
+
+  async getGuardians(vaultId: bigint): Promise<GuardianSet> {
+    const [guardians, threshold, nonce, approved] = await this.call(() => this.contract.getGuardians(vaultId));
+    return { guardians: Array.from(guardians as string[]), threshold: Number(threshold), nonce, approved };
+  }
+
+  async getDeathAttestations(owner: string): Promise<DeathAttestation[]> {
+    const attestations: DigitalInheritanceVaultFHE.DeathAttestationStructOutput[] = await this.call(() =>
+      this.contract.getDeathAttestations(owner)
+    );
+    return attestations.map((a, i) => ({
+      attestationId: BigInt(i),
+      documentHash: a.documentHash,
+      jurisdiction: a.jurisdiction,
+      issuedAt: Number(a.issuedAt),
+      signer: a.signer,
+      notary: a.notary,
+      finalAt: Number(a.finalAt),
+      objected: a.objected
+    }));
+  }
+
+  /** True once an attestation for `owner` has passed its objection window unopposed. */
+  async isDeathAttested(owner: string): Promise<boolean> {
+    return this.call(() => this.contract.isDeathAttested(owner));
+  }
+
+  /** Hex bytes of the unlock expression, "0x" if none is set. */
+  async getUnlockExpression(vaultId: bigint): Promise<string> {
+    return this.call(() => this.contract.unlockExpressions(vaultId));
+  }
+
+  async getNotary(): Promise<string> {
+    return this.call(() => this.contract.notary());
+  }
+
+  /** Account the notary role is offered to, ZeroAddress if none. */
+  async getPendingNotary(): Promise<string> {
+    return this.call(() => this.contract.pendingNotary());
+  }
+
+  async isAuthorizedExecutor(account: string): Promise<boolean> {
+    return this.call(() => this.contract.authorizedExecutors(account));
+  }
+
+  async getExecutorStatus(account: string): Promise<ExecutorStatus> {
+    return EXECUTOR_STATUSES[Number(await this.call(() => this.contract.executorStatus(account)))];
+  }
+
+  /** Decodes the vault events contained in a list of logs, ignoring foreign ones. */
+  decodeEvents(logs: readonly ethers.Log[]): VaultEvent[] {
+    const events: VaultEvent[] = [];
+    for (const log of logs) {
+      if (normAddr(log.address) !== normAddr(this.address)) continue;
+      let parsed: ethers.LogDescription | null = null;
+      try {
+        parsed = this.contract.interface.parseLog(log);
+      } catch (e) {
+        continue;
+      }
+      if (!parsed) continue;
+
+      switch (parsed.name) {
+        case "VaultCreated":
+          events.push({
+            name: "VaultCreated",
+            vaultId: parsed.args.id,
+            owner: parsed.args.owner,
+            releaseKind: RELEASE_KINDS[Number(parsed.args.releaseKind)]
+          });
+          break;
+        case "InstructionAdded":
+          events.push({
+            name: "InstructionAdded",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId,
+            beneficiary: parsed.args.beneficiary
+          });
+          break;
+        case "InheritanceRequested":
+        case "AssetDecryptionRequested":
+        case "AssetDecrypted":
+        case "ExecutionExpired":
+          events.push({ name: parsed.name, vaultId: parsed.args.vaultId, requestId: parsed.args.requestId });
+          break;
+        case "BeneficiaryUpdated":
+          events.push({
+            name: "BeneficiaryUpdated",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId,
+            previousBeneficiary: parsed.args.previousBeneficiary,
+            newBeneficiary: parsed.args.newBeneficiary
+          });
+          break;
+        case "ReleaseKindUpdated":
+          events.push({
+            name: "ReleaseKindUpdated",
+            vaultId: parsed.args.vaultId,
+            releaseKind: RELEASE_KINDS[Number(parsed.args.releaseKind)]
+          });
+          break;
+        case "ReleaseConditionUpdated":
+          events.push({
+            name: "ReleaseConditionUpdated",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId
+          });
+          break;
+        case "InactivityConfigured":
+          events.push({
+            name: "InactivityConfigured",
+            vaultId: parsed.args.vaultId,
+            window: Number(parsed.args.window),
+            gracePeriod: Number(parsed.args.gracePeriod)
+          });
+          break;
+        case "CheckedIn":
+          events.push({ name: "CheckedIn", owner: parsed.args.owner, timestamp: Number(parsed.args.timestamp) });
+          break;
+        case "GuardiansConfigured":
+          events.push({
+            name: "GuardiansConfigured",
+            vaultId: parsed.args.vaultId,
+            guardians: Array.from(parsed.args.guardians as string[]),
+            threshold: Number(parsed.args.threshold),
+            nonce: parsed.args.nonce
+          });
+          break;
+        case "GuardianApprovalsSubmitted":
+          events.push({
+            name: "GuardianApprovalsSubmitted",
+            vaultId: parsed.args.vaultId,
+            signers: Array.from(parsed.args.signers as string[])
+          });
+          break;
+        case "DeathAttested":
+          events.push({
+            name: "DeathAttested",
+            owner: parsed.args.owner,
+            attestationId: parsed.args.attestationId,
+            documentHash: parsed.args.documentHash,
+            jurisdiction: parsed.args.jurisdiction,
+            issuedAt: Number(parsed.args.issuedAt),
+            signer: parsed.args.signer,
+            notary: parsed.args.notary,
+            finalAt: Number(parsed.args.finalAt)
+          });
+          break;
+        case "AttestationObjected":
+          events.push({
+            name: "AttestationObjected",
+            owner: parsed.args.owner,
+            attestationId: parsed.args.attestationId,
+            objector: parsed.args.objector,
+            reason: parsed.args.reason
+          });
+          break;
+        case "ObjectionWindowUpdated":
+          events.push({ name: "ObjectionWindowUpdated", objectionWindow: Number(parsed.args.objectionWindow) });
+          break;
+        case "UnlockExpressionUpdated":
+          events.push({
+            name: "UnlockExpressionUpdated",
+            vaultId: parsed.args.vaultId,
+            expression: parsed.args.expression
+          });
+          break;
+        case "ContingentsUpdated":
+          events.push({
+            name: "ContingentsUpdated",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId,
+            contingents: Array.from(parsed.args.contingents)
+          });
+          break;
+        case "ClaimPolicyUpdated":
+          events.push({
+            name: "ClaimPolicyUpdated",
+            vaultId: parsed.args.vaultId,
+            window: Number(parsed.args.window),
+            lapseRule: LAPSE_RULES[Number(parsed.args.lapseRule)]
+          });
+          break;
+        case "ShareOffered":
+          events.push({
+            name: "ShareOffered",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId,
+            holder: parsed.args.holder,
+            deadline: Number(parsed.args.deadline)
+          });
+          break;
+        case "ShareClaimed":
+          events.push({
+            name: "ShareClaimed",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId,
+            holder: parsed.args.holder
+          });
+          break;
+        case "ShareLapsed":
+          events.push({
+            name: "ShareLapsed",
+            vaultId: parsed.args.vaultId,
+            instructionId: parsed.args.instructionId,
+            holder: parsed.args.holder,
+            recipients: Array.from(parsed.args.recipients)
+          });
+          break;
+        case "SharesVerified":
+          events.push({ name: "SharesVerified", vaultId: parsed.args.vaultId, verifier: parsed.args.verifier });
+          break;
+        case "ExecutorStatusChanged":
+          events.push({
+            name: "ExecutorStatusChanged",
+            executor: parsed.args.executor,
+            status: EXECUTOR_STATUSES[Number(parsed.args.status)],
+            notary: parsed.args.notary
+          });
+          break;
+        case "NotaryTransferStarted":
+          events.push({
+            name: "NotaryTransferStarted",
+            notary: parsed.args.notary,
+            pendingNotary: parsed.args.pendingNotary
+          });
+          break;
+        case "NotaryTransferred":
+          events.push({
+            name: "NotaryTransferred",
+            previousNotary: parsed.args.previousNotary,
+            newNotary: parsed.args.newNotary
+          });
+          break;
+        case "AssetAdded":
+        case "InheritanceExecuted":
+        case "InheritanceConditionNotMet":
+        case "VaultRevoked":
+          events.push({ name: parsed.name, vaultId: parsed.args.vaultId });
+          break;
+      }
+    }
+    return events;
+  }
+
+  private async send(fn: () => Promise<ethers.ContractTransactionResponse>): Promise<VaultTxResult> {
+    try {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new VaultError("UNKNOWN", `Transaction ${tx.hash} was dropped`);
+      }
+      return {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        events: this.decodeEvents(receipt.logs)
+      };
+    } catch (e) {
+      throw toVaultError(e);
+    }
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (e) {
+      throw toVaultError(e);
+    }
+  }
+}
+
+export async function getVaultClientReadOnly(): Promise<VaultClient> {
+  const provider = await getReadOnlyProvider();
+  return new VaultClient(config.vaultContractAddress, provider);
+}
+
+export async function getVaultClientWithSigner(): Promise<VaultClient> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new VaultClient(config.vaultContractAddress, signer);
+}
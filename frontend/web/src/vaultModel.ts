@@ -0,0 +1,427 @@
+// vaultModel.ts
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { knownAssetDetails, rememberAssetDetails } from "./assetDetails";
+import { config, normAddr } from "./contract";
+import { encryptUint32s } from "./fhe";
+import { activeAttestation } from "./attestation";
+import {
+  ConditionExpr,
+  decodeExpression,
+  encodeExpression,
+  formatExpression,
+  requiredLeaves
+} from "./conditions";
+import { GuardianConfig } from "./guardians";
+import { formatDays } from "./inactivity";
+import type {
+  AttestationProjection,
+  ExecutionProjection,
+  GuardianProjection,
+  InstructionProjection,
+  Projection,
+  VaultProjection,
+  VaultVersion
+} from "./indexer";
+import { BeneficiaryShare, rememberShares } from "./shares";
+import { rememberUnlockTime } from "./timeLock";
+import { LAPSE_RULE_LABELS, NO_CLAIM_WINDOW } from "./succession";
+import { ClaimPolicy, InactivityConfig, ReleaseKind, RELEASE_KINDS, VaultClient } from "./vaultClient";
+
+export const ASSET_TYPES = ["Crypto", "NFT", "Document", "Credentials", "Other"];
+
+/** Label shown while the asset type is still encrypted on-chain. */
+export const ENCRYPTED_ASSET_TYPE = "Encrypted";
+
+// Type code 0 is reserved for "not set"
+export const assetTypeCode = (assetType: string) => ASSET_TYPES.indexOf(assetType) + 1;
+export const assetTypeLabel = (code: number) => ASSET_TYPES[code - 1] ?? "Other";
+
+export const isReleaseKind = (value: string): value is ReleaseKind =>
+  (RELEASE_KINDS as readonly string[]).includes(value);
+
+export const RELEASE_KIND_LABELS: Record<ReleaseKind, string> = {
+  TimeLock: "Time Lock (after date)",
+  Inactivity: "Inactivity Period",
+  MultiSig: "Multi-Signature Approval",
+  DeathCert: "Death Certificate Verification",
+  Expression: "Custom Expression (AND/OR/NOT)"
+};
+
+/** One vault of DigitalInheritanceVaultFHE, as shown by the UI. */
+export interface InheritanceItem {
+  id: string;
+  timestamp: number;
+  owner: string;
+  /** Revealed on-chain, or remembered by the browser that created the vault; see assetDetails.ts. */
+  assetType: string;
+  /** Only known to the browser that created the vault, empty elsewhere. */
+  description: string;
+  beneficiary: string;
+  beneficiaries: string[];
+  /** Instructions with their contingents and, once released, their claims. */
+  instructions: InstructionProjection[];
+  unlockCondition: ReleaseKind;
+  isActive: boolean;
+  revoked: boolean;
+  executionPending: boolean;
+  history: VaultVersion[];
+  inactivity: InactivityConfig | null;
+  /** Owner's latest check-in in unix seconds, 0 if none. */
+  lastCheckIn: number;
+  guardians: GuardianProjection | null;
+  /** The owner's death attestation that has not been objected to, if any. */
+  attestation: AttestationProjection | null;
+  /** Unlock expression, only used while unlockCondition is Expression. */
+  expression: ConditionExpr | null;
+  /** Null while shares are handed over on release without a claim window. */
+  claimPolicy: ClaimPolicy | null;
+  lastExecution: ExecutionProjection | null;
+}
+
+/** Plaintext form input, encrypted by createVaultItem before it leaves the browser. */
+export interface ItemDraft {
+  assetType: string;
+  /** Kept in this browser only, never sent on-chain. */
+  description: string;
+  assetValue: bigint;
+  accessKey: bigint;
+  /** One instruction each; the shares total 100. */
+  beneficiaries: BeneficiaryShare[];
+  unlockCondition: ReleaseKind;
+  /** Unix seconds before which the item cannot be released, 0 for none. */
+  releaseTime: number;
+  /** Required for Inactivity items, ignored otherwise. */
+  inactivity: InactivityConfig | null;
+  /** Required for MultiSig items, ignored otherwise. */
+  guardians: GuardianConfig | null;
+  /** Required for Expression items, ignored otherwise. */
+  expression: ConditionExpr | null;
+  /** Needed for contingents to apply; null hands shares over on release. */
+  claimPolicy: ClaimPolicy | null;
+}
+
+/** `owners` supplies the per-owner state (check-ins, attestations) of the projection the vault belongs to. */
+export function toInheritanceItem(
+  vault: VaultProjection,
+  owners: Pick<Projection, "checkIns" | "attestations"> = { checkIns: {}, attestations: {} }
+): InheritanceItem {
+  const owner = vault.owner.toLowerCase();
+  const known = knownAssetDetails(config.vaultContractAddress, vault.vaultId);
+  return {
+    id: vault.vaultId,
+    timestamp: vault.timestamp,
+    owner: vault.owner,
+    assetType: vault.revealedAssetType
+      ? assetTypeLabel(vault.revealedAssetType)
+      : known?.assetType ?? ENCRYPTED_ASSET_TYPE,
+    description: known?.description ?? "",
+    beneficiary: vault.instructions[0]?.beneficiary ?? "",
+    beneficiaries: vault.instructions.map(instruction => instruction.beneficiary),
+    instructions: vault.instructions,
+    unlockCondition: vault.releaseKind,
+    isActive: vault.isActive,
+    revoked: vault.revoked,
+    executionPending: vault.executionPending,
+    history: vault.history,
+    inactivity: vault.inactivity,
+    lastCheckIn: owners.checkIns[owner] ?? 0,
+    guardians: vault.guardians,
+    attestation: activeAttestation(owners.attestations[owner]),
+    expression: vault.unlockExpression ? expressionOf(vault) : null,
+    claimPolicy: vault.claimPolicy,
+    lastExecution: vault.lastExecution
+  };
+}
+
+function expressionOf(vault: VaultProjection): ConditionExpr | null {
+  try {
+    return decodeExpression(vault.unlockExpression!);
+  } catch (e) {
+    console.warn(`Vault ${vault.vaultId} has an unreadable unlock expression ${vault.unlockExpression}:`, e);
+    return null;
+  }
+}
+
+/** Fields an owner can change after creation. Shares are fixed once stored. */
+export interface ItemEdit {
+  /** Beneficiary of each instruction, in instruction order. */
+  beneficiaries: string[];
+  unlockCondition: ReleaseKind;
+  /** New release time in unix seconds; left out to keep the current one. */
+  releaseTime?: number;
+  /** New inactivity settings; left out to keep the current ones. */
+  inactivity?: InactivityConfig;
+  /** New guardian set; left out to keep the current one. */
+  guardians?: GuardianConfig;
+  /** New unlock expression; left out to keep the current one. */
+  expression?: ConditionExpr;
+  /** Contingents of each instruction, in instruction order; left out to keep the current ones. */
+  contingents?: string[][];
+  /** New claim window and lapse rule; left out to keep the current ones. */
+  claimPolicy?: ClaimPolicy;
+}
+
+const shortAddr = (address = "") => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export function describeVersion(version: VaultVersion): string {
+  switch (version.change) {
+    case "created":
+      return `Created with ${version.releaseKind} release`;
+    case "asset":
+      return "Encrypted asset stored";
+    case "instruction":
+      return `Instruction #${version.instructionId} added for ${shortAddr(version.beneficiary)}`;
+    case "beneficiary":
+      return `Beneficiary of #${version.instructionId} changed from ${shortAddr(version.previousBeneficiary)} to ${shortAddr(version.beneficiary)}`;
+    case "releaseKind":
+      return `Unlock condition changed to ${version.releaseKind}`;
+    case "releaseCondition":
+      return `Release time of #${version.instructionId} replaced`;
+    case "inactivity":
+      return version.inactivity
+        ? `Inactivity window set to ${formatDays(version.inactivity.window)} + ${formatDays(version.inactivity.gracePeriod)} grace`
+        : "Inactivity window set";
+    case "guardians":
+      return `Guardians set, ${version.threshold} of ${version.guardians?.length} must approve`;
+    case "expression":
+      try {
+        return `Unlock expression set to ${formatExpression(decodeExpression(version.expression ?? "0x"))}`;
+      } catch (e) {
+        return "Unlock expression set";
+      }
+    case "contingents":
+      return version.contingents?.length
+        ? `Contingents of #${version.instructionId} set to ${version.contingents.map(shortAddr).join(", ")}`
+        : `Contingents of #${version.instructionId} removed`;
+    case "claimPolicy":
+      return version.claimPolicy?.window
+        ? `Claim window set to ${formatDays(version.claimPolicy.window)}, then ${LAPSE_RULE_LABELS[version.claimPolicy.lapseRule].toLowerCase()}`
+        : "Claim window removed";
+    case "revoked":
+      return "Revoked";
+  }
+}
+
+const sameAddresses = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every((address, i) => normAddr(address) === normAddr(b[i]));
+
+const sameGuardians = (config: GuardianConfig, current: GuardianProjection | null) =>
+  !!current && config.threshold === current.threshold && sameAddresses(config.guardians, current.guardians);
+
+/**
+ * Sends the transactions needed to turn `item` into `edit`, one per changed
+ * field and beneficiary. A new release time is set on every instruction,
+ * since the time lock only passes once all of them have.
+ *
+ * The vault is live while the transactions go out one by one, so they are
+ * ordered to never leave it easier to release than before or after the edit:
+ * release times and the settings of the new condition are stored before the
+ * release kind or expression that relies on them, and release times are only
+ * zeroed once nothing relies on them anymore.
+ */
+export async function updateVaultItem(
+  vault: VaultClient,
+  instance: FhevmInstance | null,
+  account: string,
+  item: InheritanceItem,
+  edit: ItemEdit,
+  onProgress: (message: string) => void = () => {}
+): Promise<number> {
+  const vaultId = BigInt(item.id);
+  let sent = 0;
+
+  for (const [i, beneficiary] of item.beneficiaries.entries()) {
+    if (edit.beneficiaries[i] && normAddr(edit.beneficiaries[i]) !== normAddr(beneficiary)) {
+      onProgress(`Updating beneficiary #${i}...`);
+      await vault.updateBeneficiary(vaultId, BigInt(i), edit.beneficiaries[i]);
+      sent++;
+    }
+  }
+  const updateReleaseTimes = async (releaseTime: number) => {
+    if (!instance) {
+      throw new Error("An FHE instance is needed to encrypt the release time");
+    }
+    onProgress("Encrypting release time...");
+    const condition = await encryptUint32s(
+      instance,
+      vault.address,
+      account,
+      item.beneficiaries.map(() => releaseTime)
+    );
+    for (const i of item.beneficiaries.keys()) {
+      onProgress(`Updating release time of #${i}...`);
+      await vault.updateReleaseCondition(vaultId, BigInt(i), {
+        handle: condition.handles[i],
+        inputProof: condition.inputProof
+      });
+      sent++;
+    }
+    rememberUnlockTime(vault.address, item.id, releaseTime);
+  };
+  // A zero release time has always passed, so it may only be stored once the time lock is no longer used
+  const releaseTime = item.beneficiaries.length > 0 ? edit.releaseTime : undefined;
+  if (releaseTime !== undefined && releaseTime !== 0) {
+    await updateReleaseTimes(releaseTime);
+  }
+  if (
+    edit.inactivity &&
+    (edit.inactivity.window !== item.inactivity?.window || edit.inactivity.gracePeriod !== item.inactivity?.gracePeriod)
+  ) {
+    onProgress("Updating inactivity window...");
+    await vault.configureInactivity(vaultId, edit.inactivity);
+    sent++;
+  }
+  if (edit.guardians && !sameGuardians(edit.guardians, item.guardians)) {
+    onProgress("Updating guardians...");
+    await vault.setGuardians(vaultId, edit.guardians.guardians, edit.guardians.threshold);
+    sent++;
+  }
+  if (edit.expression && (!item.expression || encodeExpression(edit.expression) !== encodeExpression(item.expression))) {
+    onProgress("Updating unlock expression...");
+    await vault.setUnlockExpression(vaultId, encodeExpression(edit.expression));
+    sent++;
+  }
+  if (edit.unlockCondition !== item.unlockCondition) {
+    onProgress("Updating unlock condition...");
+    await vault.updateReleaseKind(vaultId, edit.unlockCondition);
+    sent++;
+  }
+  if (releaseTime === 0) {
+    await updateReleaseTimes(0);
+  }
+  for (const [i, instruction] of item.instructions.entries()) {
+    const contingents = edit.contingents?.[i];
+    if (contingents && !sameAddresses(contingents, instruction.contingents)) {
+      onProgress(`Updating contingents of #${i}...`);
+      await vault.setContingents(vaultId, BigInt(i), contingents);
+      sent++;
+    }
+  }
+  const claimPolicy = item.claimPolicy ?? NO_CLAIM_WINDOW;
+  if (
+    edit.claimPolicy &&
+    (edit.claimPolicy.window !== claimPolicy.window || edit.claimPolicy.lapseRule !== claimPolicy.lapseRule)
+  ) {
+    onProgress("Updating claim window...");
+    await vault.setClaimPolicy(vaultId, edit.claimPolicy);
+    sent++;
+  }
+  return sent;
+}
+
+/** Transactions of a createVaultItem call that have been mined, for resuming it. */
+export interface CreationProgress {
+  vaultId: string;
+  /** Steps done, e.g. "asset", "instruction:0", "contingents:0" or "inactivity". */
+  done: string[];
+}
+
+/**
+ * Creates a vault for `draft`: the asset and the instructions are encrypted
+ * for the vault contract, then stored in one transaction for the vault, one
+ * for the asset and one per beneficiary. An inactivity window, a guardian set,
+ * an unlock expression and a claim window take one more each, as do the
+ * contingents of each beneficiary. The claim window comes right after the
+ * vault, so it is in place by the time an instruction makes it releasable.
+ *
+ * `onStep` receives the progress after every mined transaction; passing it
+ * back as `resume` after a failure carries on with the same vault.
+ */
+export async function createVaultItem(
+  vault: VaultClient,
+  instance: FhevmInstance,
+  account: string,
+  draft: ItemDraft,
+  onProgress: (message: string) => void = () => {},
+  resume: CreationProgress | null = null,
+  onStep: (progress: CreationProgress) => void = () => {}
+): Promise<bigint> {
+  onProgress("Encrypting sensitive data with FHE...");
+  const asset = await encryptUint32s(instance, vault.address, account, [
+    assetTypeCode(draft.assetType),
+    draft.assetValue,
+    draft.accessKey
+  ]);
+  // One input for all instructions: share and release time of each in turn
+  const instructions = await encryptUint32s(
+    instance,
+    vault.address,
+    account,
+    draft.beneficiaries.flatMap(({ share }) => [share, draft.releaseTime])
+  );
+
+  let vaultId: bigint;
+  if (resume) {
+    vaultId = BigInt(resume.vaultId);
+  } else {
+    onProgress("Creating vault...");
+    ({ vaultId } = await vault.createVault(draft.unlockCondition));
+  }
+  const progress: CreationProgress = { vaultId: vaultId.toString(), done: [...(resume?.done ?? [])] };
+  onStep(progress);
+  const step = async (name: string, message: string, send: () => Promise<unknown>) => {
+    if (progress.done.includes(name)) return;
+    onProgress(message);
+    await send();
+    progress.done.push(name);
+    onStep(progress);
+  };
+
+  rememberAssetDetails(vault.address, vaultId.toString(), {
+    assetType: draft.assetType,
+    description: draft.description.trim()
+  });
+  if (draft.claimPolicy) {
+    await step("claimPolicy", "Setting claim window...", () => vault.setClaimPolicy(vaultId, draft.claimPolicy!));
+  }
+
+  await step("asset", "Storing encrypted asset...", () =>
+    vault.addEncryptedAsset(vaultId, {
+      assetType: asset.handles[0],
+      assetValue: asset.handles[1],
+      accessKey: asset.handles[2],
+      inputProof: asset.inputProof
+    })
+  );
+
+  // The vault is new, so its instruction ids follow the order of the draft
+  const shares: Record<string, number> = {};
+  for (const [i, { beneficiary, share }] of draft.beneficiaries.entries()) {
+    await step(`instruction:${i}`, `Storing inheritance instruction ${i + 1} of ${draft.beneficiaries.length}...`, () =>
+      vault.addInheritanceInstruction(vaultId, {
+        beneficiary,
+        share: instructions.handles[2 * i],
+        releaseCondition: instructions.handles[2 * i + 1],
+        inputProof: instructions.inputProof
+      })
+    );
+    shares[i.toString()] = share;
+  }
+  for (const [i, { contingents }] of draft.beneficiaries.entries()) {
+    if (contingents.length === 0) continue;
+    await step(`contingents:${i}`, `Naming contingents of beneficiary ${i + 1}...`, () =>
+      vault.setContingents(vaultId, BigInt(i), contingents)
+    );
+  }
+  rememberShares(vault.address, vaultId.toString(), shares);
+
+  const leaves = requiredLeaves(draft.unlockCondition, draft.expression);
+  if (leaves.has("inactivity") && draft.inactivity) {
+    await step("inactivity", "Configuring inactivity window...", () =>
+      vault.configureInactivity(vaultId, draft.inactivity!)
+    );
+  }
+  if (leaves.has("guardians") && draft.guardians) {
+    const { guardians, threshold } = draft.guardians;
+    await step("guardians", "Naming guardians...", () => vault.setGuardians(vaultId, guardians, threshold));
+  }
+  if (draft.unlockCondition === "Expression" && draft.expression) {
+    await step("expression", "Storing unlock expression...", () =>
+      vault.setUnlockExpression(vaultId, encodeExpression(draft.expression!))
+    );
+  }
+  if (draft.releaseTime > 0) {
+    rememberUnlockTime(vault.address, vaultId.toString(), draft.releaseTime);
+  }
+  return vaultId;
+}
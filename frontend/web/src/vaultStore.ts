@@ -0,0 +1,24 @@
+// vaultStore.ts
+// Plaintext a browser keeps about the vaults it created, such as shares and
+// release times the chain only holds encrypted. Each localStorage key maps
+// "<vault contract>:<vault id>" to one value.
+
+const vaultKey = (vaultAddress: string, vaultId: string) => `${vaultAddress.toLowerCase()}:${vaultId}`;
+
+const readStore = <T>(key: string): Record<string, T> => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "{}");
+  } catch (e) {
+    return {};
+  }
+};
+
+export function writeVaultValue<T>(key: string, vaultAddress: string, vaultId: string, value: T): void {
+  const store = readStore<T>(key);
+  store[vaultKey(vaultAddress, vaultId)] = value;
+  localStorage.setItem(key, JSON.stringify(store));
+}
+
+export function readVaultValue<T>(key: string, vaultAddress: string, vaultId: string): T | undefined {
+  return readStore<T>(key)[vaultKey(vaultAddress, vaultId)];
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\helpers.java
-// Generated at: 2025-10-11T03:35:52.887Z
\ No newline at end of file
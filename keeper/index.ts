@@ -0,0 +1,104 @@
+// keeper/index.ts
+// Runs the executor keeper until it is stopped:
+//
+//   KEEPER_PRIVATE_KEY=0x... npm run keeper            # local hardhat node
+//   KEEPER_PRIVATE_KEY=0x... npm run keeper -- --once  # a single pass
+//
+// Settings come from the environment or a .env file:
+//   KEEPER_PRIVATE_KEY    executor key (required); the notary must have authorized it
+//   KEEPER_RPC_URL        JSON-RPC endpoint, default http://127.0.0.1:8545
+//   KEEPER_VAULT_ADDRESS  vault contract, default the chain's entry in frontend/web/src/deployments.json
+//   KEEPER_POLL_SECONDS   time between passes, default 60
+//   KEEPER_MAX_FEE_GWEI   submit nothing while the max fee per gas is above this
+//   KEEPER_GAS_LIMIT      largest gas limit to execute with, default 5000000
+//   KEEPER_RETRY_HOURS    wait after "Condition not met" before retrying, default 24
+//   KEEPER_STATE_FILE     default .keeper/state-<chainId>.json; delete it after resetting a local node
+//   KEEPER_LOG_LEVEL      debug, info, warn or error, default info
+import "dotenv/config";
+import { ethers } from "ethers";
+import { contractDeployment } from "../frontend/web/src/manifest";
+import { Keeper } from "./keeper";
+import { createLogger, LOG_LEVELS, LogLevel } from "./log";
+
+const DEFAULT_RPC_URL = "http://127.0.0.1:8545";
+const DEFAULT_GAS_LIMIT = 5_000_000n;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}"`);
+  }
+  return value;
+}
+
+async function main() {
+  const level = (process.env.KEEPER_LOG_LEVEL || "info") as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`KEEPER_LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+  const log = createLogger(level);
+
+  const privateKey = process.env.KEEPER_PRIVATE_KEY;
+  if (!privateKey) throw new Error("Set KEEPER_PRIVATE_KEY to the executor's private key");
+  const pollMs = numberFromEnv("KEEPER_POLL_SECONDS", 60) * 1000;
+  const maxFeeGwei = process.env.KEEPER_MAX_FEE_GWEI;
+
+  const provider = new ethers.JsonRpcProvider(process.env.KEEPER_RPC_URL || DEFAULT_RPC_URL);
+  const { chainId } = await provider.getNetwork();
+  const vaultAddress =
+    process.env.KEEPER_VAULT_ADDRESS || contractDeployment(Number(chainId), "DigitalInheritanceVaultFHE")?.address;
+  if (!vaultAddress) {
+    throw new Error(`Set KEEPER_VAULT_ADDRESS; deployments.json has no vault on chain ${chainId}`);
+  }
+  if (!ethers.isAddress(vaultAddress)) throw new Error(`${vaultAddress} is not a valid vault address`);
+  const keeper = new Keeper(
+    provider,
+    new ethers.Wallet(privateKey, provider),
+    {
+      vaultAddress,
+      stateFile: process.env.KEEPER_STATE_FILE || `.keeper/state-${chainId}.json`,
+      maxFeePerGas: maxFeeGwei ? ethers.parseUnits(maxFeeGwei, "gwei") : null,
+      gasLimitCap: BigInt(numberFromEnv("KEEPER_GAS_LIMIT", Number(DEFAULT_GAS_LIMIT))),
+      retryAfter: numberFromEnv("KEEPER_RETRY_HOURS", 24) * 3600
+    },
+    log
+  );
+  await keeper.start();
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = (signal: string) => {
+    log.info("keeper.stopping", { signal });
+    stopping = true;
+    wake?.();
+  };
+  process.on("SIGINT", () => stop("SIGINT"));
+  process.on("SIGTERM", () => stop("SIGTERM"));
+
+  const once = process.argv.includes("--once");
+  while (!stopping) {
+    try {
+      const summary = await keeper.tick();
+      log.info("tick.done", { ...summary });
+    } catch (e: any) {
+      // A flaky RPC endpoint should not end the service; the next pass starts over
+      log.error("tick.failed", { error: e?.shortMessage ?? e?.message ?? String(e) });
+    }
+    if (once) break;
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, pollMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+  provider.destroy();
+}
+
+main().catch(e => {
+  console.error(JSON.stringify({ time: new Date().toISOString(), level: "error", event: "keeper.crashed", error: e.message }));
+  process.exit(1);
+});
@@ -0,0 +1,354 @@
+// keeper/keeper.ts
+// Executor keeper. Every tick it walks the vaults of the deployment, checks
+// the plaintext gates executeInheritance enforces, simulates the call from the
+// executor and submits it when it would go through. The encrypted release
+// times can only be judged by the oracle, so a vault that comes back as not
+// met is left alone for `retryAfter` before it is tried again.
+//
+// Every submission is written to the state file before it is broadcast, with
+// the nonce it uses, so a restarted keeper picks up its transactions in flight
+// instead of executing a vault twice. A request the oracle never answers is
+// expired once the contract allows it, after which the vault is tried again.
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { RELEASE_KINDS } from "../frontend/web/src/releaseKinds";
+import { DigitalInheritanceVaultFHE, DigitalInheritanceVaultFHE__factory } from "../types";
+import type { Logger } from "./log";
+
+export const HARDHAT_CHAIN_ID = 31337n;
+
+/** A JSON-RPC node, or hardhat's in-process network in the tests. */
+export type KeeperProvider = ethers.Provider & { send(method: string, params: any[]): Promise<any> };
+/** The executor account; a wallet outside the tests. */
+export type KeeperSigner = ethers.Signer & { readonly address: string };
+
+// Headroom over the estimate; the FHE library's gas use varies with the ciphertexts
+const GAS_HEADROOM_PERCENT = 120n;
+
+export interface KeeperOptions {
+  vaultAddress: string;
+  /** File the submissions are recorded in; see AttemptState. */
+  stateFile: string;
+  /** Refuse to submit while the network asks more than this per gas, in wei. */
+  maxFeePerGas: bigint | null;
+  /** Refuse to submit an execution estimated above this. */
+  gasLimitCap: bigint;
+  /** Seconds to wait after "Condition not met" before trying a vault again. */
+  retryAfter: number;
+}
+
+/**
+ * submitted: signed with `nonce`, not mined yet; txHash is null if the keeper
+ * stopped before the node accepted it. requested: mined, waiting for the
+ * oracle. notMet and executed: what the oracle decided. failed: the
+ * transaction reverted or was replaced, and expired: the oracle never
+ * answered; either way the vault may be tried again.
+ */
+export type AttemptStatus = "submitted" | "requested" | "notMet" | "executed" | "failed" | "expired";
+
+export interface AttemptState {
+  status: AttemptStatus;
+  nonce: number;
+  txHash: string | null;
+  requestId: string | null;
+  /** Chain time of the last change, in unix seconds. */
+  updatedAt: number;
+}
+
+interface KeeperState {
+  chainId: string;
+  vaultAddress: string;
+  executor: string;
+  attempts: Record<string, AttemptState>;
+}
+
+export interface TickSummary {
+  vaults: number;
+  submitted: string[];
+  resolved: string[];
+}
+
+/** Revert string of a failed call, or the error's message. */
+function revertReason(e: any): string {
+  return e?.reason ?? e?.revert?.args?.[0] ?? e?.shortMessage ?? e?.message ?? "Unknown error";
+}
+
+const isNonceError = (e: any) =>
+  e?.code === "NONCE_EXPIRED" || e?.code === "REPLACEMENT_UNDERPRICED" || /nonce/i.test(e?.message ?? "");
+
+export class Keeper {
+  private readonly vault: DigitalInheritanceVaultFHE;
+  private state: KeeperState | null = null;
+  private nextNonce: number | null = null;
+  private chainId = 0n;
+
+  constructor(
+    private readonly provider: KeeperProvider,
+    private readonly signer: KeeperSigner,
+    private readonly options: KeeperOptions,
+    private readonly log: Logger
+  ) {
+    this.vault = DigitalInheritanceVaultFHE__factory.connect(options.vaultAddress, signer);
+  }
+
+  /** Checks the deployment and the executor, and loads the state of an earlier run. */
+  async start(): Promise<void> {
+    const { chainId } = await this.provider.getNetwork();
+    this.chainId = chainId;
+    if ((await this.provider.getCode(this.options.vaultAddress)) === "0x") {
+      throw new Error(`No vault contract at ${this.options.vaultAddress} on chain ${chainId}`);
+    }
+    if (!(await this.vault.authorizedExecutors(this.signer.address))) {
+      throw new Error(`${this.signer.address} is not an authorized executor of ${this.options.vaultAddress}`);
+    }
+    this.state = this.loadState();
+    this.log.info("keeper.started", {
+      chainId,
+      vault: this.options.vaultAddress,
+      executor: this.signer.address,
+      stateFile: this.options.stateFile,
+      attempts: Object.keys(this.state.attempts).length
+    });
+  }
+
+  /** One pass over every vault. */
+  async tick(): Promise<TickSummary> {
+    const block = await this.provider.getBlock("latest");
+    if (!block) throw new Error("Latest block not found");
+    // Chain time rather than the clock, so a hardhat node that was moved forward is judged as it stands
+    const now = block.timestamp;
+    const count = Number(await this.vault.vaultCount());
+    const summary: TickSummary = { vaults: count, submitted: [], resolved: [] };
+
+    const feeData = await this.provider.getFeeData();
+    const maxFee = feeData.maxFeePerGas ?? feeData.gasPrice;
+    const feeTooHigh = this.options.maxFeePerGas !== null && maxFee !== null && maxFee > this.options.maxFeePerGas;
+    if (feeTooHigh) {
+      this.log.warn("gas.above_cap", { maxFeePerGas: maxFee, cap: this.options.maxFeePerGas });
+    }
+
+    for (let id = 1n; id <= BigInt(count); id++) {
+      try {
+        const attempt = this.attempts()[id.toString()];
+        if (attempt && (await this.resolve(id, attempt, now))) summary.resolved.push(id.toString());
+        if (feeTooHigh || !(await this.isDue(id, now))) continue;
+        if (await this.submit(id, feeData, now)) summary.submitted.push(id.toString());
+      } catch (e: any) {
+        this.log.error("vault.failed", { vaultId: id, error: revertReason(e) });
+      }
+    }
+
+    const waiting = Object.values(this.attempts()).some(a => a.status === "submitted" || a.status === "requested");
+    if (waiting && this.chainId === HARDHAT_CHAIN_ID) {
+      // Stand-in for the decryption oracle of a live network; see @fhevm/hardhat-plugin
+      await this.provider.send("fhevm_awaitDecryptionOracle", []);
+      this.log.debug("oracle.mock_run");
+    }
+    return summary;
+  }
+
+  /** Moves an attempt on from what the chain says; true if the oracle decided it. */
+  private async resolve(vaultId: bigint, attempt: AttemptState, now: number): Promise<boolean> {
+    if (attempt.status === "submitted") {
+      const receipt = attempt.txHash ? await this.provider.getTransactionReceipt(attempt.txHash) : null;
+      if (receipt) {
+        if (receipt.status !== 1) {
+          this.update(vaultId, { status: "failed" }, now);
+          this.log.warn("execution.reverted", { vaultId, txHash: attempt.txHash });
+          return false;
+        }
+        const requested = receipt.logs
+          .map(log => this.vault.interface.parseLog(log))
+          .find(parsed => parsed?.name === "InheritanceRequested");
+        this.update(vaultId, { status: "requested", requestId: requested?.args.requestId.toString() ?? null }, now);
+        this.log.info("execution.requested", { vaultId, txHash: attempt.txHash, requestId: requested?.args.requestId });
+        return false;
+      }
+      const mined = await this.provider.getTransactionCount(this.signer.address, "latest");
+      if (mined <= attempt.nonce) {
+        this.log.debug("execution.in_flight", { vaultId, txHash: attempt.txHash, nonce: attempt.nonce });
+        return false;
+      }
+      // The nonce was used by another transaction; the chain tells whether ours got through
+      if (!(await this.vault.executionPending(vaultId)) && (await this.vault.getEncryptedAsset(vaultId))[4]) {
+        this.update(vaultId, { status: "failed" }, now);
+        this.log.warn("execution.replaced", { vaultId, txHash: attempt.txHash, nonce: attempt.nonce });
+        return false;
+      }
+      this.update(vaultId, { status: "requested" }, now);
+    }
+
+    const current = this.attempts()[vaultId.toString()];
+    if (current.status !== "requested") return false;
+    if (await this.vault.executionPending(vaultId)) {
+      if (!(await this.expireLost(vaultId))) return false;
+      this.update(vaultId, { status: "expired" }, now);
+      return true;
+    }
+    const isActive: boolean = (await this.vault.getEncryptedAsset(vaultId))[4];
+    this.update(vaultId, { status: isActive ? "notMet" : "executed" }, now);
+    this.log.info(isActive ? "execution.condition_not_met" : "execution.executed", {
+      vaultId,
+      requestId: current.requestId
+    });
+    return true;
+  }
+
+  /** Whether the vault should be simulated now: nothing in flight and the plaintext gates hold. */
+  private async isDue(vaultId: bigint, now: number): Promise<boolean> {
+    const attempt = this.attempts()[vaultId.toString()];
+    if (attempt?.status === "submitted" || attempt?.status === "requested" || attempt?.status === "executed") {
+      return false;
+    }
+    if (attempt?.status === "notMet" && now < attempt.updatedAt + this.options.retryAfter) return false;
+
+    const blocked = await this.gate(vaultId, now);
+    // Someone else's request that the oracle lost; the vault is due again once it is expired
+    if (blocked === "Execution pending" && (await this.expireLost(vaultId))) return false;
+    if (blocked) {
+      this.log.debug("vault.blocked", { vaultId, reason: blocked });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Why executeInheritance would revert, from the plaintext checks it starts
+   * with, or null if it would not. Mirrors executionReadiness in the web app's
+   * executor.ts; the simulation has the final word.
+   */
+  private async gate(vaultId: bigint, now: number): Promise<string | null> {
+    const [owner, , , , isActive] = await this.vault.getEncryptedAsset(vaultId);
+    if (!isActive) return "Vault inactive";
+    if (await this.vault.executionPending(vaultId)) return "Execution pending";
+    const [beneficiaries] = await this.vault.getInheritanceInstructions(vaultId);
+    if (beneficiaries.length === 0) return "No inheritance instructions";
+
+    switch (RELEASE_KINDS[Number(await this.vault.releaseKinds(vaultId))]) {
+      case "Inactivity": {
+        const [window] = await this.vault.inactivityConfigs(vaultId);
+        if (window === 0n) return "Inactivity not configured";
+        if (BigInt(now) < (await this.vault.inactivityDeadline(vaultId))) return "Owner still active";
+        break;
+      }
+      case "MultiSig": {
+        const [, threshold, , approved] = await this.vault.getGuardians(vaultId);
+        if (threshold === 0n) return "Guardians not configured";
+        if (!approved) return "Guardian approval missing";
+        break;
+      }
+      case "DeathCert":
+        if (!(await this.vault.isDeathAttested(owner))) return "Death not attested";
+        break;
+      case "Expression":
+        if ((await this.vault.unlockExpressions(vaultId)) === "0x") return "Expression not set";
+        break;
+    }
+    return null;
+  }
+
+  /** Expires the vault's pending execution if the oracle has not answered in time; true if it did. */
+  private async expireLost(vaultId: bigint): Promise<boolean> {
+    const [requestedAt, timeout, blockNumber] = await Promise.all([
+      this.vault.executionRequestedAt(vaultId),
+      this.vault.EXECUTION_TIMEOUT(),
+      this.provider.getBlockNumber()
+    ]);
+    if (BigInt(blockNumber) < requestedAt + timeout) return false;
+    const tx = await this.vault.expireExecution(vaultId, { nonce: await this.takeNonce() });
+    await tx.wait();
+    this.log.warn("execution.expired", { vaultId, requestedAt, txHash: tx.hash });
+    return true;
+  }
+
+  /** Simulates and sends executeInheritance; true if a transaction went out. */
+  private async submit(vaultId: bigint, feeData: ethers.FeeData, now: number): Promise<boolean> {
+    const execute = this.vault.getFunction("executeInheritance");
+    try {
+      await execute.staticCall(vaultId);
+    } catch (e: any) {
+      this.log.info("simulation.reverted", { vaultId, reason: revertReason(e) });
+      return false;
+    }
+
+    const estimate = await execute.estimateGas(vaultId);
+    if (estimate > this.options.gasLimitCap) {
+      this.log.warn("gas.limit_above_cap", { vaultId, estimate, cap: this.options.gasLimitCap });
+      return false;
+    }
+    const gasLimit = [(estimate * GAS_HEADROOM_PERCENT) / 100n, this.options.gasLimitCap].reduce((a, b) => (a < b ? a : b));
+
+    const nonce = await this.takeNonce();
+    this.update(vaultId, { status: "submitted", nonce, txHash: null, requestId: null }, now);
+    try {
+      const tx = await execute(vaultId, {
+        nonce,
+        gasLimit,
+        ...(feeData.maxFeePerGas !== null
+          ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+          : { gasPrice: feeData.gasPrice })
+      });
+      this.update(vaultId, { txHash: tx.hash }, now);
+      this.log.info("execution.submitted", { vaultId, txHash: tx.hash, nonce, gasLimit });
+      return true;
+    } catch (e: any) {
+      // Not broadcast, so the nonce is free again and the vault can be retried next tick
+      delete this.attempts()[vaultId.toString()];
+      this.saveState();
+      this.nextNonce = null;
+      this.log.error(isNonceError(e) ? "nonce.rejected" : "execution.send_failed", { vaultId, nonce, error: revertReason(e) });
+      return false;
+    }
+  }
+
+  /** The next nonce to sign with, synced from the node's pending count when unknown. */
+  private async takeNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.provider.getTransactionCount(this.signer.address, "pending");
+    }
+    return this.nextNonce++;
+  }
+
+  private attempts(): Record<string, AttemptState> {
+    if (!this.state) throw new Error("Keeper not started");
+    return this.state.attempts;
+  }
+
+  private update(vaultId: bigint, change: Partial<AttemptState>, now: number): void {
+    const key = vaultId.toString();
+    const previous = this.attempts()[key] ?? { status: "submitted", nonce: 0, txHash: null, requestId: null, updatedAt: now };
+    this.attempts()[key] = { ...previous, ...change, updatedAt: now };
+    this.saveState();
+  }
+
+  private loadState(): KeeperState {
+    const fresh: KeeperState = {
+      chainId: this.chainId.toString(),
+      vaultAddress: this.options.vaultAddress,
+      executor: this.signer.address,
+      attempts: {}
+    };
+    if (!fs.existsSync(this.options.stateFile)) return fresh;
+    const saved: KeeperState = JSON.parse(fs.readFileSync(this.options.stateFile, "utf8"));
+    if (
+      saved.chainId !== fresh.chainId ||
+      saved.vaultAddress.toLowerCase() !== fresh.vaultAddress.toLowerCase() ||
+      saved.executor.toLowerCase() !== fresh.executor.toLowerCase()
+    ) {
+      throw new Error(
+        `${this.options.stateFile} belongs to ${saved.executor} on vault ${saved.vaultAddress} (chain ${saved.chainId}); ` +
+          "point KEEPER_STATE_FILE elsewhere"
+      );
+    }
+    return saved;
+  }
+
+  // Written to a temporary file and renamed, so a crash never leaves half a state file
+  private saveState(): void {
+    fs.mkdirSync(path.dirname(this.options.stateFile), { recursive: true });
+    const temp = `${this.options.stateFile}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(this.state, null, 2));
+    fs.renameSync(temp, this.options.stateFile);
+  }
+}
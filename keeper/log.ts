@@ -0,0 +1,27 @@
+// keeper/log.ts
+// One JSON object per line on stdout, so the keeper's output can be shipped
+// to any log collector as is.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+}
+
+// Bigints (vault ids, gas, fees) are written as decimal strings
+const replacer = (_: string, value: unknown) => (typeof value === "bigint" ? value.toString() : value);
+
+export function createLogger(minLevel: LogLevel = "info"): Logger {
+  const threshold = LOG_LEVELS.indexOf(minLevel);
+  const write = (level: LogLevel) => (event: string, fields: LogFields = {}) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) return;
+    console.log(JSON.stringify({ time: new Date().toISOString(), level, event, ...fields }, replacer));
+  };
+  return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+}
@@ -0,0 +1,94 @@
+// tasks/abi.ts
+// The web app talks to the contracts through typechain factories generated
+// into frontend/web/src/typechain, so every call it makes is type-checked
+// against the compiled ABI:
+//
+//   npx hardhat abi:sync           compile and regenerate the bindings
+//   npx hardhat abi:sync --check   fail if the bindings differ from the contracts
+//
+// DigitalInheritanceVaultFHE is generated from its compiled artifact.
+// UniversalAdapter has no source in contracts/, so its deployed build in
+// frontend/web/src/abi/UniversalAdapter.json is the source of its bindings.
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { task } from "hardhat/config";
+
+const ROOT = path.join(__dirname, "..");
+const BINDINGS_DIR = path.join(ROOT, "frontend", "web", "src", "typechain");
+const UNIVERSAL_ADAPTER_ARTIFACT = path.join(ROOT, "frontend", "web", "src", "abi", "UniversalAdapter.json");
+
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry =>
+      entry.isDirectory()
+        ? listFiles(path.join(dir, entry.name)).map(file => path.join(entry.name, file))
+        : [entry.name]
+    )
+    .sort();
+}
+
+/** Files that differ between two directories, as paths relative to them. */
+function changedFiles(expectedDir: string, actualDir: string): string[] {
+  const expected = listFiles(expectedDir);
+  const actual = listFiles(actualDir);
+  return [...new Set([...expected, ...actual])]
+    .filter(file => {
+      const a = path.join(expectedDir, file);
+      const b = path.join(actualDir, file);
+      return !fs.existsSync(a) || !fs.existsSync(b) || !fs.readFileSync(a).equals(fs.readFileSync(b));
+    })
+    .sort();
+}
+
+task("abi:sync", "Regenerates the web app's typechain bindings from the compiled contracts")
+  .addFlag("check", "Fail instead of writing if the bindings are out of date")
+  .setAction(async (args, hre) => {
+    await hre.run("compile", { quiet: true });
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "abi-sync-"));
+    try {
+      // Only the ABIs: the app never deploys, so its factories carry no bytecode
+      const vault = await hre.artifacts.readArtifact("DigitalInheritanceVaultFHE");
+      const adapter = JSON.parse(fs.readFileSync(UNIVERSAL_ADAPTER_ARTIFACT, "utf8"));
+      const abiDir = path.join(workDir, "abi");
+      fs.mkdirSync(abiDir);
+      const inputs = [
+        { name: "DigitalInheritanceVaultFHE", abi: vault.abi },
+        { name: "UniversalAdapter", abi: adapter.abi }
+      ].map(({ name, abi }) => {
+        const file = path.join(abiDir, `${name}.json`);
+        fs.writeFileSync(file, JSON.stringify(abi, null, 2));
+        return file;
+      });
+
+      const outDir = path.join(workDir, "typechain");
+      execFileSync(
+        process.execPath,
+        [require.resolve("typechain/dist/cli/cli"), "--target", "ethers-v6", "--out-dir", outDir, ...inputs],
+        { cwd: ROOT, stdio: "pipe" }
+      );
+
+      const changed = changedFiles(outDir, BINDINGS_DIR);
+      if (changed.length === 0) {
+        console.log("The web app's contract bindings are up to date");
+        return;
+      }
+      const relativeDir = path.relative(ROOT, BINDINGS_DIR);
+      if (args.check) {
+        throw new Error(
+          `The web app's contract bindings differ from the contracts in ${changed
+            .map(file => path.join(relativeDir, file))
+            .join(", ")}; run npx hardhat abi:sync`
+        );
+      }
+      fs.rmSync(BINDINGS_DIR, { recursive: true, force: true });
+      fs.cpSync(outDir, BINDINGS_DIR, { recursive: true });
+      for (const file of changed) console.log(`Updated ${path.join(relativeDir, file)}`);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  });
@@ -0,0 +1,96 @@
+// tasks/simulate.ts
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HttpNetworkConfig } from "hardhat/types";
+import { contractDeployment } from "../frontend/web/src/manifest";
+
+/**
+ * Example scenario file:
+ *
+ *   {
+ *     "until": "+3y",
+ *     "steps": [
+ *       { "at": "+90d", "action": "checkIn" },
+ *       { "at": "+400d", "action": "attest", "owner": "0x..." },
+ *       { "at": "+2y", "action": "approve", "vaultId": 3 }
+ *     ]
+ *   }
+ *
+ * Times are relative (+12h, +90d, +2w, +1y), ISO dates or unix seconds.
+ */
+task("vault:simulate", "Replays a scenario on a fork and reports when each vault would release")
+  .addOptionalParam(
+    "address",
+    "Vault contract address; by default the simulated chain's entry in deployments.json",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("vault", "Vault id to simulate; all vaults if omitted", undefined, types.string)
+  .addOptionalParam(
+    "fork",
+    "JSON-RPC URL to fork, or 'none' to use the network as it is. Defaults to the sepolia network on --network hardhat",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("block", "Block number to fork at", undefined, types.int)
+  .addOptionalParam("scenario", "Scenario JSON file of check-ins, approvals and attestations", undefined, types.inputFile)
+  .addOptionalParam("until", "End of the simulation, overriding the scenario's", undefined, types.string)
+  .addFlag("json", "Print the report as JSON")
+  .setAction(async (args, hre) => {
+    // The simulator is shared with the web app's Simulate panel
+    const { forkNetwork, formatTime, scenarioFromInput, simulateRelease, timeline } = await import(
+      "../frontend/web/src/simulator"
+    );
+
+    const forkUrl: string | undefined =
+      args.fork ?? (hre.network.name === "hardhat" ? (hre.config.networks.sepolia as HttpNetworkConfig).url : undefined);
+    const forked = forkUrl !== undefined && forkUrl !== "none";
+
+    // A fork holds the contracts of the chain it was taken from
+    let chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    if (forked) {
+      const source = new hre.ethers.JsonRpcProvider(forkUrl);
+      chainId = Number(await source.send("eth_chainId", []));
+      source.destroy();
+    }
+    const vaultAddress: string | undefined =
+      args.address ?? contractDeployment(chainId, "DigitalInheritanceVaultFHE")?.address;
+    if (!vaultAddress || !hre.ethers.isAddress(vaultAddress)) {
+      throw new Error(`No vault deployed on chain ${chainId} in deployments.json; pass its address with --address`);
+    }
+    if (forked) {
+      if (!args.json) console.log(`Forking ${forkUrl}${args.block === undefined ? "" : ` at block ${args.block}`}`);
+      await forkNetwork(hre.network.provider, forkUrl, args.block);
+    } else if (hre.network.name !== "hardhat") {
+      await hre.fhevm.initializeCLIApi();
+    }
+
+    const latest = await hre.ethers.provider.getBlock("latest");
+    const input = args.scenario ? JSON.parse(fs.readFileSync(args.scenario, "utf8")) : {};
+    const scenario = scenarioFromInput({ ...input, until: args.until ?? input.until }, latest!.timestamp);
+
+    const results = await simulateRelease(hre.network.provider, {
+      vaultAddress,
+      vaultIds: args.vault === undefined ? undefined : [BigInt(args.vault)],
+      scenario,
+      // On a fork the encrypted release times belong to the live network's oracle
+      mock: !forked && hre.fhevm.isMock,
+      onProgress: args.json ? undefined : message => console.log(message)
+    });
+
+    if (args.json) {
+      console.log(JSON.stringify(results, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+      return;
+    }
+    for (const result of results) {
+      console.log(`\nVault #${result.vaultId} (${result.releaseKind}, owner ${result.owner})`);
+      for (const entry of timeline(result)) {
+        console.log(`  ${formatTime(entry.time)}  ${entry.label.padEnd(9)}  ${entry.text}`);
+      }
+      console.log(
+        result.releasedAt === null
+          ? `  => does not release by ${formatTime(scenario.until)}`
+          : `  => releases at ${formatTime(result.releasedAt)}`
+      );
+    }
+  });
@@ -0,0 +1,350 @@
+// tasks/vault.ts
+// Day-to-day vault operations from the command line. Inputs are encrypted
+// with the FHEVM plugin for the selected network (the mock on hardhat and
+// localhost, the relayer on sepolia) and every transaction prints the vault
+// events it emitted. With --json the tasks print a single JSON document.
+//
+//   npx hardhat --network localhost vault:create --kind Inactivity
+//   npx hardhat --network localhost vault:add-asset --vault 1 --type 2 --value 5000 --key 1234
+//   npx hardhat --network localhost vault:add-instruction --vault 1 --beneficiary 0x... --share 100 --release +90d
+//   npx hardhat --network localhost vault:execute --vault 1 --json
+//
+// The in-process hardhat network starts empty on every command, so deploy to
+// a `npx hardhat node` and use --network localhost to work with a vault for
+// longer than one command.
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ethers as Ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import { contractDeployment } from "../frontend/web/src/manifest";
+import { RELEASE_KINDS } from "../frontend/web/src/releaseKinds";
+import { DigitalInheritanceVaultFHE, DigitalInheritanceVaultFHE__factory } from "../types";
+
+// Live oracles answer within a few blocks; give up after this long
+const ORACLE_TIMEOUT_MS = 5 * 60_000;
+const ORACLE_POLL_MS = 5_000;
+
+interface DecodedEvent {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+interface TxReport {
+  transactionHash: string;
+  blockNumber: number;
+  events: DecodedEvent[];
+}
+
+interface TaskContext {
+  vault: DigitalInheritanceVaultFHE;
+  signer: HardhatEthersSigner;
+  json: boolean;
+}
+
+// Bigints are written as decimal strings
+const toJson = (value: unknown) =>
+  JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+
+/** The common options of every task. */
+function vaultTask(name: string, description: string): ConfigurableTaskDefinition {
+  return task(name, description)
+    .addOptionalParam("address", "Vault contract address; by default the network's entry in deployments.json", undefined, types.string)
+    .addOptionalParam("signer", "Index of the account to send from", 0, types.int)
+    .addFlag("json", "Print the result as JSON");
+}
+
+async function connect(args: { address?: string; signer: number; json: boolean }, hre: HardhatRuntimeEnvironment) {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const address = args.address ?? contractDeployment(Number(chainId), "DigitalInheritanceVaultFHE")?.address;
+  if (!address) {
+    throw new Error(`No vault deployed on chain ${chainId} in deployments.json; pass its address with --address`);
+  }
+  if (!hre.ethers.isAddress(address)) {
+    throw new Error(`Vault address ${address} is not a valid address`);
+  }
+  if ((await hre.ethers.provider.getCode(address)) === "0x") {
+    throw new Error(`No vault contract at ${address} on ${hre.network.name}`);
+  }
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[args.signer];
+  if (!signer) {
+    throw new Error(`No account ${args.signer} configured for ${hre.network.name}`);
+  }
+  if (hre.network.name !== "hardhat") {
+    await hre.fhevm.initializeCLIApi();
+  }
+  const vault = DigitalInheritanceVaultFHE__factory.connect(address, signer);
+  return { vault, signer, json: args.json } as TaskContext;
+}
+
+function decodeLogs(vault: DigitalInheritanceVaultFHE, logs: readonly Ethers.Log[]): DecodedEvent[] {
+  const vaultAddress = (vault.target as string).toLowerCase();
+  return logs
+    .filter(log => log.address.toLowerCase() === vaultAddress)
+    .map(log => vault.interface.parseLog(log))
+    .filter((parsed): parsed is Ethers.LogDescription => parsed !== null)
+    .map(parsed => ({
+      name: parsed.name,
+      args: Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, parsed.args[i]]))
+    }));
+}
+
+/** Sends a transaction and reports the vault events it emitted, with the revert reason if it fails. */
+async function send(
+  vault: DigitalInheritanceVaultFHE,
+  method: string,
+  args: unknown[]
+): Promise<TxReport> {
+  let tx: Ethers.ContractTransactionResponse;
+  try {
+    tx = await vault.getFunction(method)(...args);
+  } catch (e) {
+    const { revertReason } = await import("../frontend/web/src/simulator");
+    throw new Error(`${method} failed: ${revertReason(e)}`);
+  }
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+  return { transactionHash: receipt.hash, blockNumber: receipt.blockNumber, events: decodeLogs(vault, receipt.logs) };
+}
+
+function printEvents(events: readonly DecodedEvent[]) {
+  for (const event of events) {
+    const args = Object.entries(event.args).map(([name, value]) => `${name}=${formatValue(value)}`);
+    console.log(`  ${event.name}(${args.join(", ")})`);
+  }
+}
+
+const formatValue = (value: unknown): string =>
+  Array.isArray(value) ? `[${value.map(formatValue).join(", ")}]` : String(value);
+
+function report(context: TaskContext, summary: string, tx: TxReport, extra: Record<string, unknown> = {}) {
+  if (context.json) {
+    console.log(toJson({ ...extra, ...tx }));
+    return;
+  }
+  console.log(summary);
+  console.log(`  tx ${tx.transactionHash} (block ${tx.blockNumber})`);
+  printEvents(tx.events);
+}
+
+/** Parses "+90d" (h, d, w or y) relative to the latest block, an ISO date, or unix seconds. */
+async function parseReleaseTime(text: string, hre: HardhatRuntimeEnvironment): Promise<number> {
+  // Shared with the simulator, which reads scenario times the same way
+  const { parseWhen } = await import("../frontend/web/src/simulator");
+  const latest = await hre.ethers.provider.getBlock("latest");
+  return parseWhen(text, latest!.timestamp);
+}
+
+/** Waits for the oracle to answer the requests made so far; runs the mock oracle on hardhat networks. */
+async function awaitOracle(hre: HardhatRuntimeEnvironment, done: () => Promise<boolean>, json: boolean) {
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+    return;
+  }
+  const deadline = Date.now() + ORACLE_TIMEOUT_MS;
+  while (!(await done())) {
+    if (Date.now() >= deadline) {
+      throw new Error(`The decryption oracle did not answer within ${ORACLE_TIMEOUT_MS / 1000}s`);
+    }
+    if (!json) console.log("Waiting for the decryption oracle...");
+    await new Promise(resolve => setTimeout(resolve, ORACLE_POLL_MS));
+  }
+}
+
+vaultTask("vault:create", "Creates an empty vault owned by the signer")
+  .addOptionalParam("kind", `Release kind: ${RELEASE_KINDS.join(", ")}`, "TimeLock", types.string)
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    const kind = (RELEASE_KINDS as readonly string[]).indexOf(args.kind);
+    if (kind < 0) {
+      throw new Error(`Unknown release kind "${args.kind}", expected one of ${RELEASE_KINDS.join(", ")}`);
+    }
+    const tx = await send(context.vault, "createVault", [kind]);
+    const vaultId = tx.events.find(e => e.name === "VaultCreated")?.args.id;
+    report(context, `Created vault #${vaultId} (${args.kind})`, tx, { vaultId });
+  });
+
+vaultTask("vault:add-asset", "Encrypts an asset and stores it in a vault of the signer")
+  .addParam("vault", "Vault id", undefined, types.string)
+  .addParam("type", "Asset type identifier (uint32)", undefined, types.int)
+  .addParam("value", "Asset value (uint32)", undefined, types.int)
+  .addParam("key", "Access key (uint32)", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    const encrypted = await hre.fhevm
+      .createEncryptedInput(await context.vault.getAddress(), context.signer.address)
+      .add32(args.type)
+      .add32(args.value)
+      .add32(args.key)
+      .encrypt();
+    const tx = await send(context.vault, "addEncryptedAsset", [
+      BigInt(args.vault),
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.handles[2],
+      encrypted.inputProof
+    ]);
+    report(context, `Stored the encrypted asset of vault #${args.vault}`, tx, { vaultId: args.vault });
+  });
+
+vaultTask("vault:add-instruction", "Encrypts a share and release time and adds a beneficiary to a vault")
+  .addParam("vault", "Vault id", undefined, types.string)
+  .addParam("beneficiary", "Beneficiary address", undefined, types.string)
+  .addOptionalParam("share", "Whole percent of the asset value", 100, types.int)
+  .addOptionalParam("release", "Release time: +90d, an ISO date or unix seconds; none by default", "0", types.string)
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    if (!hre.ethers.isAddress(args.beneficiary)) {
+      throw new Error(`Beneficiary ${args.beneficiary} is not a valid address`);
+    }
+    if (!Number.isInteger(args.share) || args.share < 1 || args.share > 100) {
+      throw new Error("Share must be a whole percentage between 1 and 100");
+    }
+    const releaseTime = await parseReleaseTime(args.release, hre);
+    const encrypted = await hre.fhevm
+      .createEncryptedInput(await context.vault.getAddress(), context.signer.address)
+      .add32(args.share)
+      .add32(releaseTime)
+      .encrypt();
+    const tx = await send(context.vault, "addInheritanceInstruction", [
+      BigInt(args.vault),
+      args.beneficiary,
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.inputProof
+    ]);
+    const instructionId = tx.events.find(e => e.name === "InstructionAdded")?.args.instructionId;
+    report(context, `Added instruction #${instructionId} to vault #${args.vault}`, tx, {
+      vaultId: args.vault,
+      instructionId,
+      releaseTime
+    });
+  });
+
+vaultTask("vault:list", "Lists the vaults of an owner")
+  .addOptionalParam("owner", "Owner address; the signer by default", undefined, types.string)
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    const owner: string = args.owner ?? context.signer.address;
+    if (!hre.ethers.isAddress(owner)) {
+      throw new Error(`Owner ${owner} is not a valid address`);
+    }
+    const { vault } = context;
+    const vaultIds: bigint[] = [...(await vault.getOwnerVaults(owner))];
+    const vaults = await Promise.all(
+      vaultIds.map(async vaultId => {
+        const [, , , , isActive] = await vault.getEncryptedAsset(vaultId);
+        const [beneficiaries] = await vault.getInheritanceInstructions(vaultId);
+        const [, , , isRevealed] = await vault.getDecryptedAsset(vaultId);
+        return {
+          vaultId,
+          releaseKind: RELEASE_KINDS[Number(await vault.releaseKinds(vaultId))],
+          isActive,
+          executionPending: (await vault.executionPending(vaultId)) as boolean,
+          beneficiaries: [...beneficiaries] as string[],
+          isRevealed
+        };
+      })
+    );
+
+    if (context.json) {
+      console.log(toJson({ owner, vaults }));
+      return;
+    }
+    if (vaults.length === 0) {
+      console.log(`${owner} has no vaults`);
+      return;
+    }
+    for (const v of vaults) {
+      const state = v.executionPending ? "execution pending" : v.isActive ? "active" : "inactive";
+      console.log(`#${v.vaultId}  ${v.releaseKind.padEnd(10)}  ${state.padEnd(17)}  ${v.beneficiaries.length} beneficiaries`);
+      for (const beneficiary of v.beneficiaries) console.log(`      ${beneficiary}`);
+    }
+  });
+
+vaultTask("vault:execute", "Requests execution of a vault as an authorized executor and reports the outcome")
+  .addParam("vault", "Vault id", undefined, types.string)
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    const { vault } = context;
+    const vaultId = BigInt(args.vault);
+
+    // A dry run surfaces the revert reason without spending gas
+    try {
+      await vault.executeInheritance.staticCall(vaultId);
+    } catch (e) {
+      const { revertReason } = await import("../frontend/web/src/simulator");
+      throw new Error(`Vault #${vaultId} cannot be executed: ${revertReason(e)}`);
+    }
+    const tx = await send(vault, "executeInheritance", [vaultId]);
+
+    await awaitOracle(hre, async () => !(await vault.executionPending(vaultId)), context.json);
+    const outcomes = decodeLogs(
+      vault,
+      await vault.queryFilter(vault.filters.InheritanceExecuted(vaultId), tx.blockNumber).then(async executed => [
+        ...executed,
+        ...(await vault.queryFilter(vault.filters.InheritanceConditionNotMet(vaultId), tx.blockNumber))
+      ])
+    );
+    const outcome = outcomes.some(e => e.name === "InheritanceExecuted") ? "executed" : "conditionNotMet";
+    report(
+      context,
+      outcome === "executed" ? `Vault #${vaultId} was released` : `Vault #${vaultId} was not released: Condition not met`,
+      { ...tx, events: [...tx.events, ...outcomes] },
+      { vaultId, outcome }
+    );
+  });
+
+vaultTask("vault:decrypt", "Decrypts the asset of a vault for its owner, or reveals it publicly with --reveal")
+  .addParam("vault", "Vault id", undefined, types.string)
+  .addFlag("reveal", "Ask the oracle to decrypt the asset on-chain, where anyone can read it")
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    const { vault, signer } = context;
+    const vaultId = BigInt(args.vault);
+
+    if (!args.reveal) {
+      // User decryption: the values are re-encrypted for the signer and never leave this machine
+      const [, assetTypeHandle, assetValueHandle, accessKeyHandle] = await vault.getEncryptedAsset(vaultId);
+      const [assetType, assetValue, accessKey] = await Promise.all(
+        [assetTypeHandle, assetValueHandle, accessKeyHandle].map(handle =>
+          hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, vault.target, signer)
+        )
+      );
+      const asset = { vaultId, assetType, assetValue, accessKey };
+      if (context.json) {
+        console.log(toJson(asset));
+      } else {
+        console.log(`Vault #${vaultId}: asset type ${assetType}, value ${assetValue}, access key ${accessKey}`);
+      }
+      return;
+    }
+
+    let tx: TxReport | null = null;
+    if (!(await vault.getDecryptedAsset(vaultId))[3]) {
+      tx = await send(vault, "requestAssetDecryption", [vaultId]);
+      await awaitOracle(hre, async () => (await vault.getDecryptedAsset(vaultId))[3], context.json);
+    }
+    const [assetType, assetValue, accessKey] = await vault.getDecryptedAsset(vaultId);
+    const asset = { vaultId, assetType, assetValue, accessKey, isRevealed: true };
+    const summary = `Vault #${vaultId} revealed: asset type ${assetType}, value ${assetValue}, access key ${accessKey}`;
+    if (tx) {
+      report(context, summary, tx, asset);
+    } else if (context.json) {
+      console.log(toJson(asset));
+    } else {
+      console.log(`${summary} (revealed earlier)`);
+    }
+  });
+
+vaultTask("notary:authorize", "Authorizes an executor, or reinstates a suspended one, as the notary")
+  .addParam("executor", "Executor address", undefined, types.string)
+  .setAction(async (args, hre) => {
+    const context = await connect(args, hre);
+    if (!hre.ethers.isAddress(args.executor)) {
+      throw new Error(`Executor ${args.executor} is not a valid address`);
+    }
+    const tx = await send(context.vault, "authorizeExecutor", [args.executor]);
+    report(context, `Authorized executor ${args.executor}`, tx, { executor: args.executor });
+  });
@@ -0,0 +1,870 @@
+import { expect } from "chai";
+import type { DigitalInheritanceVaultFHE } from "../types";
+import { ethers, fhevm } from "hardhat";
+import {
+  addInstruction,
+  ClaimStatus,
+  createVault,
+  DAY,
+  decryptBool,
+  decryptUint32,
+  deployVaultFixture,
+  Expr,
+  increaseTime,
+  InstructionInput,
+  LapseRule,
+  latestTime,
+  mineBlocks,
+  ReleaseKind,
+  signReleaseApprovals,
+  Signers
+} from "./fixtures";
+
+describe("DigitalInheritanceVaultFHE", function () {
+  let vault: DigitalInheritanceVaultFHE;
+  let signers: Signers;
+
+  beforeEach(async function () {
+    // Ciphertexts can only be read back on the mock
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+    ({ vault, signers } = await deployVaultFixture());
+  });
+
+  describe("vault creation", function () {
+    it("numbers vaults from 1 and lists them per owner", async function () {
+      const { owner, alice } = signers;
+      await expect(vault.connect(owner).createVault(ReleaseKind.Inactivity))
+        .to.emit(vault, "VaultCreated")
+        .withArgs(1n, owner.address, ReleaseKind.Inactivity);
+      await (await vault.connect(alice).createVault(ReleaseKind.TimeLock)).wait();
+      await (await vault.connect(owner).createVault(ReleaseKind.TimeLock)).wait();
+
+      expect(await vault.vaultCount()).to.equal(3n);
+      expect([...(await vault.getOwnerVaults(owner.address))]).to.deep.equal([1n, 3n]);
+      expect(await vault.releaseKinds(1n)).to.equal(BigInt(ReleaseKind.Inactivity));
+      const [vaultOwner, , , , isActive] = await vault.getEncryptedAsset(1n);
+      expect(vaultOwner).to.equal(owner.address);
+      expect(isActive).to.equal(true);
+    });
+
+    it("starts with the deployer as notary and no executors but the authorized one", async function () {
+      const { notary, executor, stranger } = signers;
+      expect(await vault.notary()).to.equal(notary.address);
+      expect(await vault.authorizedExecutors(executor.address)).to.equal(true);
+      expect(await vault.authorizedExecutors(stranger.address)).to.equal(false);
+    });
+  });
+
+  describe("assets and instructions", function () {
+    it("stores the encrypted asset for the owner to decrypt", async function () {
+      const { owner } = signers;
+      const vaultId = await createVault(vault, owner, { assetType: 3, assetValue: 5000, accessKey: 77 });
+
+      const [, assetType, assetValue, accessKey] = await vault.getEncryptedAsset(vaultId);
+      expect(await decryptUint32(vault, assetType, owner)).to.equal(3n);
+      expect(await decryptUint32(vault, assetValue, owner)).to.equal(5000n);
+      expect(await decryptUint32(vault, accessKey, owner)).to.equal(77n);
+      expect(await vault.calculateTotalValue(vaultId)).to.equal(assetValue);
+    });
+
+    it("adds instructions in order with their encrypted share and release time", async function () {
+      const { owner, alice, bob } = signers;
+      const releaseTime = (await latestTime()) + 30 * DAY;
+      const vaultId = await createVault(vault, owner);
+
+      await expect(
+        addInstruction(vault, owner, vaultId, { beneficiary: alice.address, share: 70, releaseTime })
+      ).to.not.be.reverted;
+      await addInstruction(vault, owner, vaultId, { beneficiary: bob.address, share: 30, releaseTime });
+
+      const [beneficiaries, shares, conditions] = await vault.getInheritanceInstructions(vaultId);
+      expect([...beneficiaries]).to.deep.equal([alice.address, bob.address]);
+      expect(await decryptUint32(vault, shares[0], owner)).to.equal(70n);
+      expect(await decryptUint32(vault, shares[1], owner)).to.equal(30n);
+      expect(await decryptUint32(vault, conditions[0], owner)).to.equal(BigInt(releaseTime));
+    });
+
+    it("emits InstructionAdded with the instruction id", async function () {
+      const { owner, alice } = signers;
+      const vaultId = await createVault(vault, owner);
+      const encrypted = await fhevm
+        .createEncryptedInput(await vault.getAddress(), owner.address)
+        .add32(100)
+        .add32(0)
+        .encrypt();
+
+      await expect(
+        vault.connect(owner).addInheritanceInstruction(
+          vaultId,
+          alice.address,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.inputProof
+        )
+      )
+        .to.emit(vault, "InstructionAdded")
+        .withArgs(vaultId, 0n, alice.address);
+    });
+
+    it("rejects the zero address as beneficiary", async function () {
+      const { owner } = signers;
+      const vaultId = await createVault(vault, owner);
+      await expect(
+        addInstruction(vault, owner, vaultId, { beneficiary: "0x0000000000000000000000000000000000000000", share: 100, releaseTime: 0 })
+      ).to.be.revertedWith("Invalid beneficiary");
+    });
+  });
+
+  describe("frozen vaults", function () {
+    async function addAsset(vaultId: bigint): Promise<unknown> {
+      const { owner } = signers;
+      const encrypted = await fhevm
+        .createEncryptedInput(await vault.getAddress(), owner.address)
+        .add32(1)
+        .add32(2)
+        .add32(3)
+        .encrypt();
+      return vault
+        .connect(owner)
+        .addEncryptedAsset(vaultId, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof);
+    }
+
+    it("takes no assets or instructions once revoked", async function () {
+      const { owner, alice } = signers;
+      const vaultId = await createVault(vault, owner);
+      await (await vault.connect(owner).revokeVault(vaultId)).wait();
+
+      await expect(addAsset(vaultId)).to.be.revertedWith("Vault inactive");
+      await expect(
+        addInstruction(vault, owner, vaultId, { beneficiary: alice.address, share: 100, releaseTime: 0 })
+      ).to.be.revertedWith("Vault inactive");
+    });
+
+    it("takes no assets or instructions once released", async function () {
+      const { owner, alice, bob, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(addAsset(vaultId)).to.be.revertedWith("Vault inactive");
+      await expect(
+        addInstruction(vault, owner, vaultId, { beneficiary: bob.address, share: 100, releaseTime: 0 })
+      ).to.be.revertedWith("Vault inactive");
+    });
+
+    it("takes no assets or instructions while an execution is pending", async function () {
+      const { owner, alice, bob, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+
+      await expect(addAsset(vaultId)).to.be.revertedWith("Execution pending");
+      await expect(
+        addInstruction(vault, owner, vaultId, { beneficiary: bob.address, share: 100, releaseTime: 0 })
+      ).to.be.revertedWith("Execution pending");
+      await fhevm.awaitDecryptionOracle();
+      const [beneficiaries] = await vault.getInheritanceInstructions(vaultId);
+      expect([...beneficiaries]).to.deep.equal([alice.address]);
+    });
+  });
+
+  describe("access control", function () {
+    it("lets only the owner add assets and instructions", async function () {
+      const { owner, stranger } = signers;
+      const vaultId = await createVault(vault, owner);
+      const encrypted = await fhevm
+        .createEncryptedInput(await vault.getAddress(), stranger.address)
+        .add32(1)
+        .add32(2)
+        .add32(3)
+        .encrypt();
+      const asStranger = vault.connect(stranger);
+
+      await expect(
+        asStranger.addEncryptedAsset(vaultId, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof)
+      ).to.be.revertedWith("Not owner");
+      await expect(
+        asStranger.addInheritanceInstruction(vaultId, stranger.address, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+      ).to.be.revertedWith("Not owner");
+      await expect(asStranger.revokeVault(vaultId)).to.be.revertedWith("Not owner");
+      await expect(asStranger.requestAssetDecryption(vaultId)).to.be.revertedWith("Not owner");
+    });
+
+    it("lets only the notary manage executors", async function () {
+      const { executor, stranger } = signers;
+      const asStranger = vault.connect(stranger);
+
+      await expect(asStranger.authorizeExecutor(stranger.address)).to.be.revertedWith("Not notary");
+      await expect(asStranger.suspendExecutor(executor.address)).to.be.revertedWith("Not notary");
+      await expect(asStranger.revokeExecutor(executor.address)).to.be.revertedWith("Not notary");
+      await expect(asStranger.transferNotary(stranger.address)).to.be.revertedWith("Not notary");
+      await expect(asStranger.setObjectionWindow(DAY)).to.be.revertedWith("Not notary");
+    });
+
+    it("lets only authorized executors execute", async function () {
+      const { owner, alice, executor, stranger } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+
+      await expect(vault.connect(stranger).executeInheritance(vaultId)).to.be.revertedWith(
+        "Unauthorized executor"
+      );
+      await expect(vault.connect(owner).executeInheritance(vaultId)).to.be.revertedWith(
+        "Unauthorized executor"
+      );
+
+      await (await vault.suspendExecutor(executor.address)).wait();
+      await expect(vault.connect(executor).executeInheritance(vaultId)).to.be.revertedWith(
+        "Unauthorized executor"
+      );
+      await (await vault.authorizeExecutor(executor.address)).wait();
+      await expect(vault.connect(executor).executeInheritance(vaultId)).to.emit(vault, "InheritanceRequested");
+    });
+
+    it("keeps revoked executors out for good", async function () {
+      const { executor } = signers;
+      await expect(vault.revokeExecutor(executor.address))
+        .to.emit(vault, "ExecutorStatusChanged")
+        .withArgs(executor.address, 3n, signers.notary.address);
+      await expect(vault.authorizeExecutor(executor.address)).to.be.revertedWith("Invalid executor");
+      expect(await vault.authorizedExecutors(executor.address)).to.equal(false);
+    });
+
+    it("hands the notary role over only once the new notary accepts", async function () {
+      const { notary, alice, stranger } = signers;
+      await (await vault.transferNotary(alice.address)).wait();
+      expect(await vault.notary()).to.equal(notary.address);
+      await expect(vault.connect(stranger).acceptNotary()).to.be.revertedWith("Not pending notary");
+
+      await expect(vault.connect(alice).acceptNotary())
+        .to.emit(vault, "NotaryTransferred")
+        .withArgs(notary.address, alice.address);
+      expect(await vault.notary()).to.equal(alice.address);
+      await expect(vault.authorizeExecutor(stranger.address)).to.be.revertedWith("Not notary");
+    });
+  });
+
+  describe("time-based release", function () {
+    it("releases a vault whose release time has passed and hands each beneficiary their share", async function () {
+      const { owner, alice, bob, executor } = signers;
+      const releaseTime = (await latestTime()) - 60;
+      const vaultId = await createVault(vault, owner, {
+        assetValue: 1000,
+        instructions: [
+          { beneficiary: alice.address, share: 60, releaseTime },
+          { beneficiary: bob.address, share: 40, releaseTime }
+        ]
+      });
+
+      await expect(vault.connect(executor).executeInheritance(vaultId)).to.emit(vault, "InheritanceRequested");
+      expect(await vault.executionPending(vaultId)).to.equal(true);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await vault.executionPending(vaultId)).to.equal(false);
+      const [, , , , isActive] = await vault.getEncryptedAsset(vaultId);
+      expect(isActive).to.equal(false);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, alice.address), alice)).to.equal(600n);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, bob.address), bob)).to.equal(400n);
+    });
+
+    it("keeps the vault until every release time has passed", async function () {
+      const { owner, alice, bob, executor } = signers;
+      const now = await latestTime();
+      const vaultId = await createVault(vault, owner, {
+        instructions: [
+          { beneficiary: alice.address, share: 50, releaseTime: now - 60 },
+          { beneficiary: bob.address, share: 50, releaseTime: now + 30 * DAY }
+        ]
+      });
+      const asExecutor = vault.connect(executor);
+
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [, , , , stillActive] = await vault.getEncryptedAsset(vaultId);
+      expect(stillActive).to.equal(true);
+      expect(await vault.executionPending(vaultId)).to.equal(false);
+
+      await increaseTime(31 * DAY);
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [, , , , isActive] = await vault.getEncryptedAsset(vaultId);
+      expect(isActive).to.equal(false);
+    });
+
+    it("emits InheritanceConditionNotMet from the callback when the release time is ahead", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: (await latestTime()) + DAY }]
+      });
+
+      await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+      const fromBlock = await vault.runner!.provider!.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const notMet = await vault.queryFilter(vault.filters.InheritanceConditionNotMet(vaultId), fromBlock);
+      expect(notMet).to.have.length(1);
+    });
+
+    it("refuses a second execution while one is pending and any after release", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      const asExecutor = vault.connect(executor);
+
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Execution pending");
+      await fhevm.awaitDecryptionOracle();
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Vault inactive");
+    });
+
+    it("refuses to release a vault without instructions", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner);
+      const asExecutor = vault.connect(executor);
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("No inheritance instructions");
+
+      await addInstruction(vault, owner, vaultId, { beneficiary: alice.address, share: 100, releaseTime: 0 });
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, alice.address), alice)).to.equal(1000n);
+    });
+
+    it("never releases a revoked vault", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await expect(vault.connect(owner).revokeVault(vaultId)).to.emit(vault, "VaultRevoked").withArgs(vaultId);
+      await expect(vault.connect(executor).executeInheritance(vaultId)).to.be.revertedWith("Vault inactive");
+    });
+  });
+
+  describe("expired executions", function () {
+    async function pendingVault(): Promise<bigint> {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+      return vaultId;
+    }
+
+    it("can only be expired by the owner or an executor once the timeout has passed", async function () {
+      const { owner, stranger } = signers;
+      const vaultId = await pendingVault();
+      await expect(vault.connect(owner).expireExecution(vaultId)).to.be.revertedWith("Execution not expired");
+      await mineBlocks(await vault.EXECUTION_TIMEOUT());
+      await expect(vault.connect(stranger).expireExecution(vaultId)).to.be.revertedWith("Not allowed to expire");
+      await fhevm.awaitDecryptionOracle();
+      await expect(vault.connect(owner).expireExecution(vaultId)).to.be.revertedWith("No execution pending");
+    });
+
+    it("unfreezes a vault whose callback never came and rejects it if it comes late", async function () {
+      const { owner, executor } = signers;
+      const vaultId = await pendingVault();
+      const requestedAt = await vault.executionRequestedAt(vaultId);
+      const [requested] = await vault.queryFilter(vault.filters.InheritanceRequested(vaultId), Number(requestedAt));
+      const requestId = requested.args.requestId;
+
+      await mineBlocks(await vault.EXECUTION_TIMEOUT());
+      await expect(vault.connect(executor).expireExecution(vaultId))
+        .to.emit(vault, "ExecutionExpired")
+        .withArgs(vaultId, requestId);
+      expect(await vault.executionPending(vaultId)).to.equal(false);
+
+      // The oracle answering now must not release a vault whose request was given up on
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Invalid request");
+      expect(await vault.executionPending(vaultId)).to.equal(false);
+      await expect(vault.connect(owner).revokeVault(vaultId)).to.emit(vault, "VaultRevoked");
+    });
+  });
+
+  describe("inactivity release", function () {
+    it("moves the deadline with every check-in of the owner", async function () {
+      const { owner, alice } = signers;
+      const vaultId = await createVault(vault, owner, { releaseKind: ReleaseKind.Inactivity });
+      await expect(vault.connect(owner).configureInactivity(vaultId, 30 * DAY, 7 * DAY))
+        .to.emit(vault, "InactivityConfigured")
+        .withArgs(vaultId, 30 * DAY, 7 * DAY);
+      expect(await vault.inactivityDeadline(vaultId)).to.equal(BigInt((await latestTime()) + 37 * DAY));
+
+      await increaseTime(10 * DAY);
+      await expect(vault.connect(owner).checkIn()).to.emit(vault, "CheckedIn");
+      expect(await vault.inactivityDeadline(vaultId)).to.equal(BigInt((await latestTime()) + 37 * DAY));
+
+      // Only the owner's heartbeat counts
+      const deadline = await vault.inactivityDeadline(vaultId);
+      await increaseTime(DAY);
+      await (await vault.connect(alice).checkIn()).wait();
+      expect(await vault.inactivityDeadline(vaultId)).to.equal(deadline);
+    });
+
+    it("releases only once the window and grace period have passed without a check-in", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        releaseKind: ReleaseKind.Inactivity,
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      const asExecutor = vault.connect(executor);
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Inactivity not configured");
+
+      await (await vault.connect(owner).configureInactivity(vaultId, 30 * DAY, 7 * DAY)).wait();
+      await increaseTime(31 * DAY);
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Owner still active");
+
+      await increaseTime(7 * DAY);
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [, , , , isActive] = await vault.getEncryptedAsset(vaultId);
+      expect(isActive).to.equal(false);
+    });
+  });
+
+  describe("guardian approvals", function () {
+    async function guardedVault(): Promise<bigint> {
+      const { owner, alice, bob, stranger } = signers;
+      const vaultId = await createVault(vault, owner, {
+        releaseKind: ReleaseKind.MultiSig,
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(owner).setGuardians(vaultId, [alice.address, bob.address, stranger.address], 2)).wait();
+      return vaultId;
+    }
+
+    it("approves the release with threshold signatures ordered by signer", async function () {
+      const { alice, bob, executor } = signers;
+      const vaultId = await guardedVault();
+      const asExecutor = vault.connect(executor);
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Guardian approval missing");
+
+      const approvals = await signReleaseApprovals(vault, vaultId, [alice, bob], (await latestTime()) + DAY);
+      const ordered = [alice.address, bob.address].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+      await expect(vault.connect(executor).submitGuardianApprovals(vaultId, approvals))
+        .to.emit(vault, "GuardianApprovalsSubmitted")
+        .withArgs(vaultId, ordered);
+      const [, threshold, nonce, approved] = await vault.getGuardians(vaultId);
+      expect([threshold, nonce, approved]).to.deep.equal([2n, 1n, true]);
+
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, alice.address), alice)).to.equal(1000n);
+    });
+
+    it("rejects too few, unordered, repeated, expired and foreign signatures", async function () {
+      const { alice, bob, executor } = signers;
+      const vaultId = await guardedVault();
+      const deadline = (await latestTime()) + DAY;
+      const [first, second] = await signReleaseApprovals(vault, vaultId, [alice, bob], deadline);
+
+      await expect(vault.submitGuardianApprovals(vaultId, [first])).to.be.revertedWith("Not enough approvals");
+      await expect(vault.submitGuardianApprovals(vaultId, [second, first])).to.be.revertedWith("Unordered signatures");
+      await expect(vault.submitGuardianApprovals(vaultId, [first, first])).to.be.revertedWith("Unordered signatures");
+      const foreign = await signReleaseApprovals(vault, vaultId, [alice, executor], deadline);
+      await expect(vault.submitGuardianApprovals(vaultId, foreign)).to.be.revertedWith("Not guardian");
+
+      const expired = await signReleaseApprovals(vault, vaultId, [alice, bob], (await latestTime()) + 60);
+      await increaseTime(120);
+      await expect(vault.submitGuardianApprovals(vaultId, expired)).to.be.revertedWith("Approval expired");
+    });
+
+    it("voids approvals and older signatures when the guardians change", async function () {
+      const { owner, alice, bob, stranger } = signers;
+      const vaultId = await guardedVault();
+      const approvals = await signReleaseApprovals(vault, vaultId, [alice, bob], (await latestTime()) + DAY);
+      await (await vault.submitGuardianApprovals(vaultId, approvals)).wait();
+
+      await expect(vault.connect(owner).setGuardians(vaultId, [alice.address, bob.address, stranger.address], 2))
+        .to.emit(vault, "GuardiansConfigured")
+        .withArgs(vaultId, [alice.address, bob.address, stranger.address], 2n, 2n);
+      const [, , nonce, approved] = await vault.getGuardians(vaultId);
+      expect([nonce, approved]).to.deep.equal([2n, false]);
+      // The signed nonce no longer matches, so the signatures recover to someone else
+      await expect(vault.submitGuardianApprovals(vaultId, approvals)).to.be.revertedWith("Not guardian");
+    });
+  });
+
+  describe("death attestations", function () {
+    const documentHash = "0x" + "ab".repeat(32);
+
+    async function attest(owner: string): Promise<void> {
+      const { notary, stranger } = signers;
+      await (await vault.connect(notary).attestDeath(owner, documentHash, "FR", await latestTime(), stranger.address)).wait();
+    }
+
+    it("lets only the notary attest, and only once at a time", async function () {
+      const { owner, stranger } = signers;
+      const issuedAt = await latestTime();
+      await expect(
+        vault.connect(stranger).attestDeath(owner.address, documentHash, "FR", issuedAt, stranger.address)
+      ).to.be.revertedWith("Not notary");
+      await attest(owner.address);
+      await expect(vault.attestDeath(owner.address, documentHash, "FR", issuedAt, stranger.address)).to.be.revertedWith(
+        "Attestation exists"
+      );
+    });
+
+    it("becomes final once the objection window has passed", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        releaseKind: ReleaseKind.DeathCert,
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      const asExecutor = vault.connect(executor);
+      await attest(owner.address);
+      expect(await vault.isDeathAttested(owner.address)).to.equal(false);
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Death not attested");
+
+      await increaseTime(7 * DAY);
+      expect(await vault.isDeathAttested(owner.address)).to.equal(true);
+      await expect(vault.connect(owner).objectToAttestation(owner.address, 0n, "Alive")).to.be.revertedWith(
+        "Attestation final"
+      );
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [, , , , isActive] = await vault.getEncryptedAsset(vaultId);
+      expect(isActive).to.equal(false);
+    });
+
+    it("is voided by an objection of the owner, the notary or an executor within the window", async function () {
+      const { owner, executor, stranger } = signers;
+      await attest(owner.address);
+      await expect(vault.connect(stranger).objectToAttestation(owner.address, 0n, "Wrong person")).to.be.revertedWith(
+        "Not allowed to object"
+      );
+      await expect(vault.connect(executor).objectToAttestation(owner.address, 0n, "Wrong person"))
+        .to.emit(vault, "AttestationObjected")
+        .withArgs(owner.address, 0n, executor.address, "Wrong person");
+
+      await increaseTime(7 * DAY);
+      expect(await vault.isDeathAttested(owner.address)).to.equal(false);
+      const [attestation] = await vault.getDeathAttestations(owner.address);
+      expect(attestation.objected).to.equal(true);
+      // A new attestation can follow the voided one
+      await attest(owner.address);
+      expect(await vault.getDeathAttestations(owner.address)).to.have.length(2);
+    });
+  });
+
+  describe("unlock expressions", function () {
+    const encode = (...ops: number[]) => ethers.hexlify(Uint8Array.from(ops));
+
+    it("accepts well-formed postfix that leaves one condition", async function () {
+      for (const ops of [
+        [Expr.TimeLock],
+        [Expr.TimeLock, Expr.Not],
+        [Expr.Inactivity, Expr.Guardians, Expr.Or, Expr.Attestation, Expr.And],
+        Array(8).fill(Expr.TimeLock).concat(Array(7).fill(Expr.And))
+      ]) {
+        expect(await vault.validateUnlockExpression(encode(...ops)), encode(...ops)).to.equal(true);
+      }
+    });
+
+    it("rejects empty, unbalanced, unknown, too long and too deep expressions", async function () {
+      for (const ops of [
+        [],
+        [Expr.And],
+        [Expr.Not],
+        [Expr.TimeLock, Expr.Inactivity],
+        [Expr.TimeLock, Expr.And],
+        [0x05],
+        Array(9).fill(Expr.TimeLock).concat(Array(8).fill(Expr.And)),
+        Array(17).fill(Expr.Not).concat([Expr.TimeLock], Array(16).fill(Expr.Not))
+      ]) {
+        expect(await vault.validateUnlockExpression(encode(...ops)), encode(...ops)).to.equal(false);
+      }
+      const { owner } = signers;
+      const vaultId = await createVault(vault, owner, { releaseKind: ReleaseKind.Expression });
+      await expect(vault.connect(owner).setUnlockExpression(vaultId, encode(Expr.And))).to.be.revertedWith(
+        "Invalid expression"
+      );
+    });
+
+    it("releases an Expression vault only when its expression holds", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        releaseKind: ReleaseKind.Expression,
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      const asOwner = vault.connect(owner);
+      const asExecutor = vault.connect(executor);
+      await expect(asExecutor.executeInheritance(vaultId)).to.be.revertedWith("Expression not set");
+
+      // Release times have passed but no death is attested
+      await (await asOwner.setUnlockExpression(vaultId, encode(Expr.TimeLock, Expr.Attestation, Expr.And))).wait();
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+      expect(await vault.queryFilter(vault.filters.InheritanceConditionNotMet(vaultId), fromBlock)).to.have.length(1);
+
+      // Guardians are not configured, but the owner has gone quiet
+      await (await asOwner.setUnlockExpression(vaultId, encode(Expr.Inactivity, Expr.Guardians, Expr.Or))).wait();
+      await (await asOwner.configureInactivity(vaultId, DAY, 0)).wait();
+      await increaseTime(DAY);
+      await (await asExecutor.executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [, , , , isActive] = await vault.getEncryptedAsset(vaultId);
+      expect(isActive).to.equal(false);
+    });
+  });
+
+  describe("claims and lapses", function () {
+    /** Creates a vault whose shares are held for `window` seconds, and releases it. */
+    async function releaseHeld(instructions: InstructionInput[], window = DAY, lapseRule: number = LapseRule.SplitEqually) {
+      const { owner, executor } = signers;
+      const vaultId = await createVault(vault, owner, { assetValue: 1000, instructions });
+      await (await vault.connect(owner).setClaimPolicy(vaultId, window, lapseRule)).wait();
+      await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      return vaultId;
+    }
+
+    it("holds each share for its holder until claimed within the window", async function () {
+      const { alice, bob } = signers;
+      const vaultId = await releaseHeld([
+        { beneficiary: alice.address, share: 60, releaseTime: 0 },
+        { beneficiary: bob.address, share: 40, releaseTime: 0 }
+      ]);
+      const [holder, , , status] = await vault.shareClaims(vaultId, 0n);
+      expect([holder, status]).to.deep.equal([alice.address, BigInt(ClaimStatus.Pending)]);
+
+      await expect(vault.connect(bob).claimShare(vaultId, 0n)).to.be.revertedWith("Not share holder");
+      await expect(vault.lapseShare(vaultId, 0n)).to.be.revertedWith("Claim window open");
+      await expect(vault.connect(alice).claimShare(vaultId, 0n))
+        .to.emit(vault, "ShareClaimed")
+        .withArgs(vaultId, 0n, alice.address);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, alice.address), alice)).to.equal(600n);
+      await expect(vault.connect(alice).claimShare(vaultId, 0n)).to.be.revertedWith("Nothing to claim");
+
+      await increaseTime(DAY + 1);
+      await expect(vault.connect(bob).claimShare(vaultId, 1n)).to.be.revertedWith("Claim window closed");
+      await expect(vault.lapseShare(vaultId, 0n)).to.be.revertedWith("Nothing to lapse");
+    });
+
+    it("offers a lapsed share to each contingent in turn", async function () {
+      const { owner, alice, bob, stranger, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(owner).setContingents(vaultId, 0n, [bob.address, stranger.address])).wait();
+      await (await vault.connect(owner).setClaimPolicy(vaultId, DAY, LapseRule.SplitEqually)).wait();
+      await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      await increaseTime(DAY + 1);
+      await expect(vault.lapseShare(vaultId, 0n)).to.emit(vault, "ShareOffered");
+      const [holder, , contingentsUsed] = await vault.shareClaims(vaultId, 0n);
+      expect([holder, contingentsUsed]).to.deep.equal([bob.address, 1n]);
+      await expect(vault.connect(stranger).claimShare(vaultId, 0n)).to.be.revertedWith("Not share holder");
+
+      await (await vault.connect(bob).claimShare(vaultId, 0n)).wait();
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, bob.address), bob)).to.equal(1000n);
+    });
+
+    it("gives a lapsed share to the first beneficiary still entitled under FirstRemaining", async function () {
+      const { alice, bob, stranger } = signers;
+      const vaultId = await releaseHeld(
+        [
+          { beneficiary: alice.address, share: 50, releaseTime: 0 },
+          { beneficiary: bob.address, share: 30, releaseTime: 0 },
+          { beneficiary: stranger.address, share: 20, releaseTime: 0 }
+        ],
+        DAY,
+        LapseRule.FirstRemaining
+      );
+      await (await vault.connect(bob).claimShare(vaultId, 1n)).wait();
+      await (await vault.connect(stranger).claimShare(vaultId, 2n)).wait();
+      await increaseTime(DAY + 1);
+
+      await expect(vault.lapseShare(vaultId, 0n)).to.emit(vault, "ShareLapsed").withArgs(vaultId, 0n, alice.address, [1n]);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, bob.address), bob)).to.equal(800n);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, stranger.address), stranger)).to.equal(200n);
+    });
+
+    it("redistributes a lapsed share to the beneficiaries still entitled", async function () {
+      const { alice, bob, stranger } = signers;
+      const vaultId = await releaseHeld([
+        { beneficiary: alice.address, share: 50, releaseTime: 0 },
+        { beneficiary: bob.address, share: 50, releaseTime: 0 }
+      ]);
+      await (await vault.connect(alice).claimShare(vaultId, 0n)).wait();
+      await increaseTime(DAY + 1);
+
+      await expect(vault.connect(stranger).lapseShare(vaultId, 1n))
+        .to.emit(vault, "ShareLapsed")
+        .withArgs(vaultId, 1n, bob.address, [0n]);
+      const [, , , status] = await vault.shareClaims(vaultId, 1n);
+      expect(status).to.equal(BigInt(ClaimStatus.Lapsed));
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, alice.address), alice)).to.equal(1000n);
+    });
+
+    it("returns a lapsed share to the owner's estate when no one else is entitled", async function () {
+      const { owner, alice, stranger } = signers;
+      const vaultId = await releaseHeld([{ beneficiary: alice.address, share: 100, releaseTime: 0 }]);
+      await increaseTime(DAY + 1);
+
+      await expect(vault.connect(stranger).lapseShare(vaultId, 0n))
+        .to.emit(vault, "ShareLapsed")
+        .withArgs(vaultId, 0n, alice.address, []);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, owner.address), owner)).to.equal(1000n);
+      await expect(vault.connect(alice).claimShare(vaultId, 0n)).to.be.revertedWith("Nothing to claim");
+    });
+
+    it("returns the last share to lapse to the owner once every other share has lapsed too", async function () {
+      const { owner, alice, bob } = signers;
+      const vaultId = await releaseHeld([
+        { beneficiary: alice.address, share: 60, releaseTime: 0 },
+        { beneficiary: bob.address, share: 40, releaseTime: 0 }
+      ]);
+      await increaseTime(DAY + 1);
+
+      // Alice's share goes to Bob's pending claim, then Bob lets the whole of it lapse
+      await (await vault.lapseShare(vaultId, 0n)).wait();
+      await expect(vault.lapseShare(vaultId, 1n)).to.emit(vault, "ShareLapsed").withArgs(vaultId, 1n, bob.address, []);
+      expect(await decryptUint32(vault, await vault.inheritedShares(vaultId, owner.address), owner)).to.equal(1000n);
+    });
+  });
+
+  describe("share verification", function () {
+    async function checkShares(shares: number[]): Promise<boolean> {
+      const { owner, alice, bob, stranger } = signers;
+      const beneficiaries = [alice, bob, stranger];
+      const vaultId = await createVault(vault, owner, {
+        instructions: shares.map((share, i) => ({ beneficiary: beneficiaries[i].address, share, releaseTime: 0 }))
+      });
+      await expect(vault.connect(owner).verifySharePercentage(vaultId))
+        .to.emit(vault, "SharesVerified")
+        .withArgs(vaultId, owner.address);
+      return decryptBool(vault, await vault.shareChecks(vaultId, owner.address), owner);
+    }
+
+    it("holds when the shares total 100", async function () {
+      expect(await checkShares([60, 40])).to.equal(true);
+      expect(await checkShares([100])).to.equal(true);
+      expect(await checkShares([34, 33, 33])).to.equal(true);
+    });
+
+    it("fails when the shares do not total 100", async function () {
+      expect(await checkShares([60, 30])).to.equal(false);
+      expect(await checkShares([70, 40])).to.equal(false);
+    });
+
+    it("lets anyone check, for their own eyes only", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(executor).verifySharePercentage(vaultId)).wait();
+      expect(await decryptBool(vault, await vault.shareChecks(vaultId, executor.address), executor)).to.equal(true);
+      const decryptedByAlice = decryptBool(vault, await vault.shareChecks(vaultId, executor.address), alice).then(
+        () => true,
+        () => false
+      );
+      expect(await decryptedByAlice).to.equal(false);
+    });
+
+    it("keeps each caller's result when others check after them", async function () {
+      const { owner, alice, executor } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await (await vault.connect(executor).verifySharePercentage(vaultId)).wait();
+      await (await vault.connect(owner).verifySharePercentage(vaultId)).wait();
+
+      expect(await decryptBool(vault, await vault.shareChecks(vaultId, executor.address), executor)).to.equal(true);
+      expect(await decryptBool(vault, await vault.shareChecks(vaultId, owner.address), owner)).to.equal(true);
+    });
+  });
+
+  describe("inheritance tax", function () {
+    async function taxOf(assetValue: number): Promise<bigint> {
+      const { owner } = signers;
+      const vaultId = await createVault(vault, owner, { assetValue });
+      const asOwner = vault.connect(owner);
+      // The handle is derived from the vault's ciphertexts, so the call returns the one the transaction computes
+      const handle: string = await asOwner.calculateInheritanceTax.staticCall(vaultId);
+      await (await asOwner.calculateInheritanceTax(vaultId)).wait();
+      return decryptUint32(vault, handle, owner);
+    }
+
+    it("charges 10% on values over 1000", async function () {
+      expect(await taxOf(5000)).to.equal(500n);
+      expect(await taxOf(1001)).to.equal(100n);
+    });
+
+    it("charges nothing up to 1000", async function () {
+      expect(await taxOf(1000)).to.equal(0n);
+      expect(await taxOf(800)).to.equal(0n);
+    });
+
+    it("lets only the owner calculate it, for their own eyes only", async function () {
+      const { owner, alice, stranger } = signers;
+      const vaultId = await createVault(vault, owner, {
+        assetValue: 5000,
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      await expect(vault.connect(stranger).calculateInheritanceTax(vaultId)).to.be.revertedWith("Not owner");
+      await expect(vault.connect(alice).calculateInheritanceTax(vaultId)).to.be.revertedWith("Not owner");
+
+      const asOwner = vault.connect(owner);
+      const handle: string = await asOwner.calculateInheritanceTax.staticCall(vaultId);
+      await (await asOwner.calculateInheritanceTax(vaultId)).wait();
+      const decryptedByStranger = decryptUint32(vault, handle, stranger).then(
+        () => true,
+        () => false
+      );
+      expect(await decryptedByStranger).to.equal(false);
+    });
+  });
+
+  describe("decryption callback", function () {
+    it("reveals the asset once the oracle calls back", async function () {
+      const { owner } = signers;
+      const vaultId = await createVault(vault, owner, { assetType: 2, assetValue: 12345, accessKey: 999 });
+
+      await expect(vault.connect(owner).requestAssetDecryption(vaultId)).to.emit(
+        vault,
+        "AssetDecryptionRequested"
+      );
+      const [, , , pending] = await vault.getDecryptedAsset(vaultId);
+      expect(pending).to.equal(false);
+
+      await fhevm.awaitDecryptionOracle();
+      const [assetType, assetValue, accessKey, isRevealed] = await vault.getDecryptedAsset(vaultId);
+      expect([assetType, assetValue, accessKey, isRevealed]).to.deep.equal([2n, 12345n, 999n, true]);
+      await expect(vault.connect(owner).requestAssetDecryption(vaultId)).to.be.revertedWith(
+        "Already decrypted"
+      );
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      const { stranger } = signers;
+      const asStranger = vault.connect(stranger);
+      await expect(asStranger.decryptAssetData(12345n, "0x", "0x")).to.be.revertedWith("Invalid request");
+      await expect(asStranger.finalizeInheritance(12345n, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects callbacks whose signatures do not match the request", async function () {
+      const { owner, alice, executor, stranger } = signers;
+      const vaultId = await createVault(vault, owner, {
+        instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+      });
+      const receipt = await (await vault.connect(executor).executeInheritance(vaultId)).wait();
+      const requested = receipt!.logs
+        .map((log: any) => vault.interface.parseLog(log))
+        .find((parsed: any) => parsed?.name === "InheritanceRequested");
+
+      const forged = vault.interface.getAbiCoder().encode(["bool"], [true]);
+      await expect(vault.connect(stranger).finalizeInheritance(requested!.args.requestId, forged, "0x")).to.be
+        .reverted;
+      expect(await vault.executionPending(vaultId)).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { DigitalInheritanceVaultFHE } from "../types";
+import { ethers, fhevm } from "hardhat";
+import { Keeper, KeeperOptions } from "../keeper/keeper";
+import type { LogFields, Logger } from "../keeper/log";
+import {
+  addInstruction,
+  createVault,
+  DAY,
+  deployVaultFixture,
+  increaseTime,
+  latestTime,
+  mineBlocks,
+  ReleaseKind,
+  Signers
+} from "./fixtures";
+
+interface LogEntry {
+  event: string;
+  fields: LogFields;
+}
+
+/** Keeps what the keeper logs so tests can tell why it left a vault alone. */
+function recordingLogger(): Logger & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  const record = (event: string, fields: LogFields = {}) => {
+    entries.push({ event, fields });
+  };
+  return { entries, debug: record, info: record, warn: record, error: record };
+}
+
+describe("Keeper", function () {
+  let vault: DigitalInheritanceVaultFHE;
+  let signers: Signers;
+  let stateDir: string;
+  let options: KeeperOptions;
+  let log: ReturnType<typeof recordingLogger>;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+    let vaultAddress: string;
+    ({ vault, vaultAddress, signers } = await deployVaultFixture());
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "keeper-"));
+    options = {
+      vaultAddress,
+      stateFile: path.join(stateDir, "state", "keeper.json"),
+      maxFeePerGas: null,
+      gasLimitCap: 10_000_000n,
+      retryAfter: DAY
+    };
+    log = recordingLogger();
+  });
+
+  afterEach(function () {
+    if (stateDir) fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  async function startKeeper(): Promise<Keeper> {
+    const keeper = new Keeper(ethers.provider, signers.executor, options, log);
+    await keeper.start();
+    return keeper;
+  }
+
+  const blockedReasons = () =>
+    Object.fromEntries(log.entries.filter(e => e.event === "vault.blocked").map(e => [String(e.fields.vaultId), e.fields.reason]));
+
+  async function isActive(vaultId: bigint): Promise<boolean> {
+    const [, , , , active] = await vault.getEncryptedAsset(vaultId);
+    return active;
+  }
+
+  it("refuses to start for an account that is not an executor", async function () {
+    const keeper = new Keeper(ethers.provider, signers.stranger, options, log);
+    await expect(keeper.start()).to.be.rejectedWith("is not an authorized executor");
+  });
+
+  it("leaves vaults alone whose plaintext gates do not hold", async function () {
+    const { owner, alice } = signers;
+    const empty = await createVault(vault, owner);
+    const active = await createVault(vault, owner, {
+      releaseKind: ReleaseKind.Inactivity,
+      instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+    });
+    await (await vault.connect(owner).configureInactivity(active, 30 * DAY, 0)).wait();
+    const unguarded = await createVault(vault, owner, {
+      releaseKind: ReleaseKind.MultiSig,
+      instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+    });
+
+    const keeper = await startKeeper();
+    const summary = await keeper.tick();
+
+    expect(summary).to.deep.equal({ vaults: 3, submitted: [], resolved: [] });
+    expect(blockedReasons()).to.deep.equal({
+      [empty.toString()]: "No inheritance instructions",
+      [active.toString()]: "Owner still active",
+      [unguarded.toString()]: "Guardians not configured"
+    });
+  });
+
+  it("executes a due vault, then records that the oracle released it", async function () {
+    const { owner, alice } = signers;
+    const vaultId = await createVault(vault, owner, {
+      instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+    });
+    const keeper = await startKeeper();
+
+    // The tick runs the mock oracle once something is in flight
+    expect((await keeper.tick()).submitted).to.deep.equal([vaultId.toString()]);
+    expect(await isActive(vaultId)).to.equal(false);
+    // One tick reads the receipt, the next what the oracle decided
+    expect(await keeper.tick()).to.deep.equal({ vaults: 1, submitted: [], resolved: [] });
+    expect((await keeper.tick()).resolved).to.deep.equal([vaultId.toString()]);
+
+    const state = JSON.parse(fs.readFileSync(options.stateFile, "utf8"));
+    expect(state.attempts[vaultId.toString()].status).to.equal("executed");
+    expect(await keeper.tick()).to.deep.equal({ vaults: 1, submitted: [], resolved: [] });
+  });
+
+  it("waits retryAfter before trying a vault the oracle found not met again", async function () {
+    const { owner, alice } = signers;
+    const vaultId = await createVault(vault, owner, {
+      instructions: [{ beneficiary: alice.address, share: 100, releaseTime: (await latestTime()) + 3 * DAY }]
+    });
+    const keeper = await startKeeper();
+
+    expect((await keeper.tick()).submitted).to.deep.equal([vaultId.toString()]);
+    await keeper.tick();
+    expect((await keeper.tick()).resolved).to.deep.equal([vaultId.toString()]);
+    const state = JSON.parse(fs.readFileSync(options.stateFile, "utf8"));
+    expect(state.attempts[vaultId.toString()].status).to.equal("notMet");
+    expect((await keeper.tick()).submitted).to.deep.equal([]);
+
+    await increaseTime(DAY);
+    expect((await keeper.tick()).submitted).to.deep.equal([vaultId.toString()]);
+  });
+
+  it("picks up its submissions after a restart instead of executing twice", async function () {
+    const { owner, alice } = signers;
+    const vaultId = await createVault(vault, owner, {
+      instructions: [{ beneficiary: alice.address, share: 100, releaseTime: 0 }]
+    });
+    expect((await (await startKeeper()).tick()).submitted).to.deep.equal([vaultId.toString()]);
+
+    const restarted = await startKeeper();
+    expect(await restarted.tick()).to.deep.equal({ vaults: 1, submitted: [], resolved: [] });
+    expect(await restarted.tick()).to.deep.equal({ vaults: 1, submitted: [], resolved: [vaultId.toString()] });
+    expect(await isActive(vaultId)).to.equal(false);
+  });
+
+  it("expires another executor's request the oracle lost, then executes the vault", async function () {
+    const { notary, owner, alice, bob } = signers;
+    const vaultId = await createVault(vault, owner);
+    await addInstruction(vault, owner, vaultId, { beneficiary: alice.address, share: 100, releaseTime: 0 });
+    await (await vault.connect(notary).authorizeExecutor(bob.address)).wait();
+    await (await vault.connect(bob).executeInheritance(vaultId)).wait();
+    const keeper = await startKeeper();
+
+    expect((await keeper.tick()).submitted).to.deep.equal([]);
+    expect(await vault.executionPending(vaultId)).to.equal(true);
+
+    await mineBlocks(await vault.EXECUTION_TIMEOUT());
+    await keeper.tick();
+    expect(log.entries.map(e => e.event)).to.include("execution.expired");
+    expect(await vault.executionPending(vaultId)).to.equal(false);
+    // The lost callback arriving late is turned away
+    await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Invalid request");
+
+    expect((await keeper.tick()).submitted).to.deep.equal([vaultId.toString()]);
+    expect(await isActive(vaultId)).to.equal(false);
+  });
+});
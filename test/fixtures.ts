@@ -0,0 +1,176 @@
+// test/fixtures.ts
+// Shared setup for the DigitalInheritanceVaultFHE tests on the FHEVM mock.
+//
+// The fixtures deploy a fresh vault instead of going through loadFixture:
+// the mock decryption oracle keeps its own record of the requests it has
+// served, which evm_revert does not roll back, so a snapshot restored after a
+// decryption would make the next request collide with an old one.
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { DigitalInheritanceVaultFHE } from "../types";
+import { ethers, fhevm } from "hardhat";
+
+/** Values of the contract's ReleaseKind enum. */
+export const ReleaseKind = { TimeLock: 0, Inactivity: 1, MultiSig: 2, DeathCert: 3, Expression: 4 } as const;
+
+/** Unlock expression opcodes, as in the contract's LEAF_ and OP_ constants. */
+export const Expr = { TimeLock: 0x01, Inactivity: 0x02, Guardians: 0x03, Attestation: 0x04, And: 0x10, Or: 0x11, Not: 0x12 } as const;
+
+/** Values of the contract's LapseRule enum. */
+export const LapseRule = { SplitEqually: 0, FirstRemaining: 1 } as const;
+
+/** Values of the contract's ClaimStatus enum. */
+export const ClaimStatus = { None: 0, Pending: 1, Claimed: 2, Lapsed: 3 } as const;
+
+export const DAY = 86400;
+
+export interface Signers {
+  /** Deploys the vault and is its notary. */
+  notary: HardhatEthersSigner;
+  /** Authorized by deployVaultFixture. */
+  executor: HardhatEthersSigner;
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  /** Holds no role anywhere. */
+  stranger: HardhatEthersSigner;
+}
+
+export interface VaultFixture {
+  vault: DigitalInheritanceVaultFHE;
+  vaultAddress: string;
+  signers: Signers;
+}
+
+export interface InstructionInput {
+  beneficiary: string;
+  /** Whole percent of the asset value. */
+  share: number;
+  /** Unix seconds after which the instruction may be released. */
+  releaseTime: number;
+}
+
+export interface VaultInput {
+  releaseKind?: number;
+  assetType?: number;
+  assetValue?: number;
+  accessKey?: number;
+  /** Without instructions the vault has an asset but no beneficiary. */
+  instructions?: InstructionInput[];
+}
+
+export async function getSigners(): Promise<Signers> {
+  const [notary, executor, owner, alice, bob, stranger] = await ethers.getSigners();
+  return { notary, executor, owner, alice, bob, stranger };
+}
+
+export async function deployVaultFixture(): Promise<VaultFixture> {
+  const signers = await getSigners();
+  const vault = await ethers.deployContract("DigitalInheritanceVaultFHE", signers.notary);
+  await vault.waitForDeployment();
+  await (await vault.authorizeExecutor(signers.executor.address)).wait();
+  return { vault, vaultAddress: await vault.getAddress(), signers };
+}
+
+export async function latestTime(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return block!.timestamp;
+}
+
+/** Moves the chain forward by `seconds` and mines a block. */
+export async function increaseTime(seconds: number): Promise<void> {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+/** Mines `count` empty blocks. */
+export async function mineBlocks(count: number | bigint): Promise<void> {
+  await ethers.provider.send("hardhat_mine", [ethers.toQuantity(count)]);
+}
+
+/** Creates a vault for `owner` with an encrypted asset and instructions, returning its id. */
+export async function createVault(vault: DigitalInheritanceVaultFHE, owner: HardhatEthersSigner, input: VaultInput = {}): Promise<bigint> {
+  const { releaseKind = ReleaseKind.TimeLock, assetType = 1, assetValue = 1000, accessKey = 4242, instructions = [] } = input;
+  const vaultAddress = await vault.getAddress();
+  const as = vault.connect(owner);
+
+  await (await as.createVault(releaseKind)).wait();
+  const vaultId: bigint = await vault.vaultCount();
+
+  const asset = await fhevm
+    .createEncryptedInput(vaultAddress, owner.address)
+    .add32(assetType)
+    .add32(assetValue)
+    .add32(accessKey)
+    .encrypt();
+  await (await as.addEncryptedAsset(vaultId, asset.handles[0], asset.handles[1], asset.handles[2], asset.inputProof)).wait();
+
+  for (const instruction of instructions) {
+    await addInstruction(vault, owner, vaultId, instruction);
+  }
+  return vaultId;
+}
+
+export async function addInstruction(
+  vault: DigitalInheritanceVaultFHE,
+  owner: HardhatEthersSigner,
+  vaultId: bigint,
+  instruction: InstructionInput
+): Promise<void> {
+  const encrypted = await fhevm
+    .createEncryptedInput(await vault.getAddress(), owner.address)
+    .add32(instruction.share)
+    .add32(instruction.releaseTime)
+    .encrypt();
+  const as = vault.connect(owner);
+  await (
+    await as.addInheritanceInstruction(
+      vaultId,
+      instruction.beneficiary,
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.inputProof
+    )
+  ).wait();
+}
+
+export async function decryptUint32(vault: DigitalInheritanceVaultFHE, handle: string, signer: HardhatEthersSigner): Promise<bigint> {
+  return fhevm.userDecryptEuint(FhevmType.euint32, handle, await vault.getAddress(), signer);
+}
+
+export async function decryptBool(vault: DigitalInheritanceVaultFHE, handle: string, signer: HardhatEthersSigner): Promise<boolean> {
+  return fhevm.userDecryptEbool(handle, await vault.getAddress(), signer);
+}
+
+/**
+ * Signs the vault's current ReleaseApproval for each guardian, ordered by
+ * ascending address as submitGuardianApprovals expects.
+ */
+export async function signReleaseApprovals(
+  vault: DigitalInheritanceVaultFHE,
+  vaultId: bigint,
+  guardians: HardhatEthersSigner[],
+  deadline: number
+): Promise<DigitalInheritanceVaultFHE.GuardianSignatureStruct[]> {
+  const [, , nonce] = await vault.getGuardians(vaultId);
+  const domain = {
+    name: "DigitalInheritanceVaultFHE",
+    version: "1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await vault.getAddress()
+  };
+  const types = {
+    ReleaseApproval: [
+      { name: "vaultId", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" }
+    ]
+  };
+  const ordered = [...guardians].sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1));
+  return Promise.all(
+    ordered.map(async (guardian) => ({
+      deadline,
+      signature: await guardian.signTypedData(domain, types, { vaultId, nonce, deadline })
+    }))
+  );
+}
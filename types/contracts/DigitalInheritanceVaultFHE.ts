@@ -0,0 +1,2886 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace DigitalInheritanceVaultFHE {
+  export type DeathAttestationStruct = {
+    documentHash: BytesLike;
+    jurisdiction: string;
+    issuedAt: BigNumberish;
+    signer: AddressLike;
+    notary: AddressLike;
+    finalAt: BigNumberish;
+    objected: boolean;
+  };
+
+  export type DeathAttestationStructOutput = [
+    documentHash: string,
+    jurisdiction: string,
+    issuedAt: bigint,
+    signer: string,
+    notary: string,
+    finalAt: bigint,
+    objected: boolean
+  ] & {
+    documentHash: string;
+    jurisdiction: string;
+    issuedAt: bigint;
+    signer: string;
+    notary: string;
+    finalAt: bigint;
+    objected: boolean;
+  };
+
+  export type GuardianSignatureStruct = {
+    deadline: BigNumberish;
+    signature: BytesLike;
+  };
+
+  export type GuardianSignatureStructOutput = [
+    deadline: bigint,
+    signature: string
+  ] & { deadline: bigint; signature: string };
+}
+
+export interface DigitalInheritanceVaultFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "EXECUTION_TIMEOUT"
+      | "LEAF_ATTESTATION"
+      | "LEAF_GUARDIANS"
+      | "LEAF_INACTIVITY"
+      | "LEAF_TIME_LOCK"
+      | "MAX_CONTINGENTS"
+      | "MAX_EXPRESSION_DEPTH"
+      | "MAX_EXPRESSION_LENGTH"
+      | "MAX_GUARDIANS"
+      | "OP_AND"
+      | "OP_NOT"
+      | "OP_OR"
+      | "RELEASE_APPROVAL_TYPEHASH"
+      | "acceptNotary"
+      | "addEncryptedAsset"
+      | "addInheritanceInstruction"
+      | "attestDeath"
+      | "authorizeExecutor"
+      | "authorizedExecutors"
+      | "calculateInheritanceTax"
+      | "calculateTotalValue"
+      | "checkIn"
+      | "claimPolicies"
+      | "claimShare"
+      | "configureInactivity"
+      | "createVault"
+      | "decryptAssetData"
+      | "decryptedAssets"
+      | "eip712Domain"
+      | "encryptedAssets"
+      | "executeInheritance"
+      | "executionPending"
+      | "executionRequestedAt"
+      | "executorStatus"
+      | "expireExecution"
+      | "finalizeInheritance"
+      | "getContingents"
+      | "getDeathAttestations"
+      | "getDecryptedAsset"
+      | "getEncryptedAsset"
+      | "getGuardians"
+      | "getInheritanceInstructions"
+      | "getOwnerVaults"
+      | "inactivityConfigs"
+      | "inactivityDeadline"
+      | "inheritanceInstructions"
+      | "inheritedShares"
+      | "isDeathAttested"
+      | "isGuardian"
+      | "lapseShare"
+      | "lastCheckIn"
+      | "notary"
+      | "objectToAttestation"
+      | "objectionWindow"
+      | "pendingNotary"
+      | "protocolId"
+      | "releaseApprovalDigest"
+      | "releaseKinds"
+      | "requestAssetDecryption"
+      | "revokeExecutor"
+      | "revokeVault"
+      | "setClaimPolicy"
+      | "setContingents"
+      | "setGuardians"
+      | "setObjectionWindow"
+      | "setUnlockExpression"
+      | "shareChecks"
+      | "shareClaims"
+      | "submitGuardianApprovals"
+      | "suspendExecutor"
+      | "transferNotary"
+      | "unlockExpressions"
+      | "updateBeneficiary"
+      | "updateReleaseCondition"
+      | "updateReleaseKind"
+      | "validateUnlockExpression"
+      | "vaultCount"
+      | "verifySharePercentage"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssetAdded"
+      | "AssetDecrypted"
+      | "AssetDecryptionRequested"
+      | "AttestationObjected"
+      | "BeneficiaryUpdated"
+      | "CheckedIn"
+      | "ClaimPolicyUpdated"
+      | "ContingentsUpdated"
+      | "DeathAttested"
+      | "DecryptionFulfilled"
+      | "EIP712DomainChanged"
+      | "ExecutionExpired"
+      | "ExecutorStatusChanged"
+      | "GuardianApprovalsSubmitted"
+      | "GuardiansConfigured"
+      | "InactivityConfigured"
+      | "InheritanceConditionNotMet"
+      | "InheritanceExecuted"
+      | "InheritanceRequested"
+      | "InstructionAdded"
+      | "NotaryTransferStarted"
+      | "NotaryTransferred"
+      | "ObjectionWindowUpdated"
+      | "ReleaseConditionUpdated"
+      | "ReleaseKindUpdated"
+      | "ShareClaimed"
+      | "ShareLapsed"
+      | "ShareOffered"
+      | "SharesVerified"
+      | "UnlockExpressionUpdated"
+      | "VaultCreated"
+      | "VaultRevoked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "EXECUTION_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "LEAF_ATTESTATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "LEAF_GUARDIANS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "LEAF_INACTIVITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "LEAF_TIME_LOCK",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CONTINGENTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_EXPRESSION_DEPTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_EXPRESSION_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_GUARDIANS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "OP_AND", values?: undefined): string;
+  encodeFunctionData(functionFragment: "OP_NOT", values?: undefined): string;
+  encodeFunctionData(functionFragment: "OP_OR", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "RELEASE_APPROVAL_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptNotary",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedAsset",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addInheritanceInstruction",
+    values: [BigNumberish, AddressLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestDeath",
+    values: [AddressLike, BytesLike, string, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizeExecutor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizedExecutors",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateInheritanceTax",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateTotalValue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "checkIn", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimPolicies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimShare",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configureInactivity",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createVault",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptAssetData",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedAssets",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedAssets",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeInheritance",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executionPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executionRequestedAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executorStatus",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireExecution",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeInheritance",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getContingents",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDeathAttestations",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedAsset",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAsset",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGuardians",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInheritanceInstructions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOwnerVaults",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "inactivityConfigs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "inactivityDeadline",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "inheritanceInstructions",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "inheritedShares",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isDeathAttested",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isGuardian",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lapseShare",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastCheckIn",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "notary", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "objectToAttestation",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "objectionWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingNotary",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseApprovalDigest",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseKinds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAssetDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeExecutor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeVault",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setClaimPolicy",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setContingents",
+    values: [BigNumberish, BigNumberish, AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGuardians",
+    values: [BigNumberish, AddressLike[], BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setObjectionWindow",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setUnlockExpression",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareChecks",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareClaims",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitGuardianApprovals",
+    values: [BigNumberish, DigitalInheritanceVaultFHE.GuardianSignatureStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "suspendExecutor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferNotary",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unlockExpressions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateBeneficiary",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateReleaseCondition",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateReleaseKind",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validateUnlockExpression",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vaultCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifySharePercentage",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "EXECUTION_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "LEAF_ATTESTATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "LEAF_GUARDIANS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "LEAF_INACTIVITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "LEAF_TIME_LOCK",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CONTINGENTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_EXPRESSION_DEPTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_EXPRESSION_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_GUARDIANS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "OP_AND", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "OP_NOT", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "OP_OR", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "RELEASE_APPROVAL_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptNotary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedAsset",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addInheritanceInstruction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestDeath",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizeExecutor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizedExecutors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateInheritanceTax",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateTotalValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "checkIn", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimPolicies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claimShare", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "configureInactivity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createVault",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptAssetData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedAssets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedAssets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeInheritance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executionPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executionRequestedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executorStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expireExecution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeInheritance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getContingents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDeathAttestations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedAsset",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAsset",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGuardians",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInheritanceInstructions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOwnerVaults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "inactivityConfigs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "inactivityDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "inheritanceInstructions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "inheritedShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isDeathAttested",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isGuardian", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "lapseShare", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastCheckIn",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "notary", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "objectToAttestation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "objectionWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingNotary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseApprovalDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseKinds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAssetDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeExecutor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeVault",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setClaimPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setContingents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGuardians",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setObjectionWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setUnlockExpression",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareChecks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareClaims",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitGuardianApprovals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "suspendExecutor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferNotary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unlockExpressions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateBeneficiary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateReleaseCondition",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateReleaseKind",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validateUnlockExpression",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "vaultCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifySharePercentage",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AssetAddedEvent {
+  export type InputTuple = [vaultId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssetDecryptedEvent {
+  export type InputTuple = [vaultId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint, requestId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssetDecryptionRequestedEvent {
+  export type InputTuple = [vaultId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint, requestId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AttestationObjectedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    attestationId: BigNumberish,
+    objector: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    owner: string,
+    attestationId: bigint,
+    objector: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    owner: string;
+    attestationId: bigint;
+    objector: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BeneficiaryUpdatedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    instructionId: BigNumberish,
+    previousBeneficiary: AddressLike,
+    newBeneficiary: AddressLike
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    instructionId: bigint,
+    previousBeneficiary: string,
+    newBeneficiary: string
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+    previousBeneficiary: string;
+    newBeneficiary: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CheckedInEvent {
+  export type InputTuple = [owner: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [owner: string, timestamp: bigint];
+  export interface OutputObject {
+    owner: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimPolicyUpdatedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    window: BigNumberish,
+    lapseRule: BigNumberish
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    window: bigint,
+    lapseRule: bigint
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    window: bigint;
+    lapseRule: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContingentsUpdatedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    instructionId: BigNumberish,
+    contingents: AddressLike[]
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    instructionId: bigint,
+    contingents: string[]
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+    contingents: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeathAttestedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    attestationId: BigNumberish,
+    documentHash: BytesLike,
+    jurisdiction: string,
+    issuedAt: BigNumberish,
+    signer: AddressLike,
+    notary: AddressLike,
+    finalAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    owner: string,
+    attestationId: bigint,
+    documentHash: string,
+    jurisdiction: string,
+    issuedAt: bigint,
+    signer: string,
+    notary: string,
+    finalAt: bigint
+  ];
+  export interface OutputObject {
+    owner: string;
+    attestationId: bigint;
+    documentHash: string;
+    jurisdiction: string;
+    issuedAt: bigint;
+    signer: string;
+    notary: string;
+    finalAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExecutionExpiredEvent {
+  export type InputTuple = [vaultId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint, requestId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExecutorStatusChangedEvent {
+  export type InputTuple = [
+    executor: AddressLike,
+    status: BigNumberish,
+    notary: AddressLike
+  ];
+  export type OutputTuple = [executor: string, status: bigint, notary: string];
+  export interface OutputObject {
+    executor: string;
+    status: bigint;
+    notary: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GuardianApprovalsSubmittedEvent {
+  export type InputTuple = [vaultId: BigNumberish, signers: AddressLike[]];
+  export type OutputTuple = [vaultId: bigint, signers: string[]];
+  export interface OutputObject {
+    vaultId: bigint;
+    signers: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GuardiansConfiguredEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    guardians: AddressLike[],
+    threshold: BigNumberish,
+    nonce: BigNumberish
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    guardians: string[],
+    threshold: bigint,
+    nonce: bigint
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    guardians: string[];
+    threshold: bigint;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InactivityConfiguredEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    window: BigNumberish,
+    gracePeriod: BigNumberish
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    window: bigint,
+    gracePeriod: bigint
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    window: bigint;
+    gracePeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InheritanceConditionNotMetEvent {
+  export type InputTuple = [vaultId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InheritanceExecutedEvent {
+  export type InputTuple = [vaultId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InheritanceRequestedEvent {
+  export type InputTuple = [vaultId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint, requestId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InstructionAddedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    instructionId: BigNumberish,
+    beneficiary: AddressLike
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    instructionId: bigint,
+    beneficiary: string
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+    beneficiary: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NotaryTransferStartedEvent {
+  export type InputTuple = [notary: AddressLike, pendingNotary: AddressLike];
+  export type OutputTuple = [notary: string, pendingNotary: string];
+  export interface OutputObject {
+    notary: string;
+    pendingNotary: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NotaryTransferredEvent {
+  export type InputTuple = [
+    previousNotary: AddressLike,
+    newNotary: AddressLike
+  ];
+  export type OutputTuple = [previousNotary: string, newNotary: string];
+  export interface OutputObject {
+    previousNotary: string;
+    newNotary: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ObjectionWindowUpdatedEvent {
+  export type InputTuple = [objectionWindow: BigNumberish];
+  export type OutputTuple = [objectionWindow: bigint];
+  export interface OutputObject {
+    objectionWindow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReleaseConditionUpdatedEvent {
+  export type InputTuple = [vaultId: BigNumberish, instructionId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint, instructionId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReleaseKindUpdatedEvent {
+  export type InputTuple = [vaultId: BigNumberish, releaseKind: BigNumberish];
+  export type OutputTuple = [vaultId: bigint, releaseKind: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+    releaseKind: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShareClaimedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    instructionId: BigNumberish,
+    holder: AddressLike
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    instructionId: bigint,
+    holder: string
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+    holder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShareLapsedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    instructionId: BigNumberish,
+    holder: AddressLike,
+    recipients: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    instructionId: bigint,
+    holder: string,
+    recipients: bigint[]
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+    holder: string;
+    recipients: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShareOfferedEvent {
+  export type InputTuple = [
+    vaultId: BigNumberish,
+    instructionId: BigNumberish,
+    holder: AddressLike,
+    deadline: BigNumberish
+  ];
+  export type OutputTuple = [
+    vaultId: bigint,
+    instructionId: bigint,
+    holder: string,
+    deadline: bigint
+  ];
+  export interface OutputObject {
+    vaultId: bigint;
+    instructionId: bigint;
+    holder: string;
+    deadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SharesVerifiedEvent {
+  export type InputTuple = [vaultId: BigNumberish, verifier: AddressLike];
+  export type OutputTuple = [vaultId: bigint, verifier: string];
+  export interface OutputObject {
+    vaultId: bigint;
+    verifier: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnlockExpressionUpdatedEvent {
+  export type InputTuple = [vaultId: BigNumberish, expression: BytesLike];
+  export type OutputTuple = [vaultId: bigint, expression: string];
+  export interface OutputObject {
+    vaultId: bigint;
+    expression: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultCreatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    owner: AddressLike,
+    releaseKind: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, owner: string, releaseKind: bigint];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+    releaseKind: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultRevokedEvent {
+  export type InputTuple = [vaultId: BigNumberish];
+  export type OutputTuple = [vaultId: bigint];
+  export interface OutputObject {
+    vaultId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DigitalInheritanceVaultFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): DigitalInheritanceVaultFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: DigitalInheritanceVaultFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  EXECUTION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  LEAF_ATTESTATION: TypedContractMethod<[], [bigint], "view">;
+
+  LEAF_GUARDIANS: TypedContractMethod<[], [bigint], "view">;
+
+  LEAF_INACTIVITY: TypedContractMethod<[], [bigint], "view">;
+
+  LEAF_TIME_LOCK: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CONTINGENTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_EXPRESSION_DEPTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_EXPRESSION_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_GUARDIANS: TypedContractMethod<[], [bigint], "view">;
+
+  OP_AND: TypedContractMethod<[], [bigint], "view">;
+
+  OP_NOT: TypedContractMethod<[], [bigint], "view">;
+
+  OP_OR: TypedContractMethod<[], [bigint], "view">;
+
+  RELEASE_APPROVAL_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  acceptNotary: TypedContractMethod<[], [void], "nonpayable">;
+
+  addEncryptedAsset: TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      encryptedAssetType: BytesLike,
+      encryptedAssetValue: BytesLike,
+      encryptedAccessKey: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  addInheritanceInstruction: TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      beneficiary: AddressLike,
+      encryptedShare: BytesLike,
+      encryptedReleaseCondition: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  attestDeath: TypedContractMethod<
+    [
+      owner: AddressLike,
+      documentHash: BytesLike,
+      jurisdiction: string,
+      issuedAt: BigNumberish,
+      signer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  authorizeExecutor: TypedContractMethod<
+    [executor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  authorizedExecutors: TypedContractMethod<
+    [executor: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  calculateInheritanceTax: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  calculateTotalValue: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  checkIn: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimPolicies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { window: bigint; lapseRule: bigint }],
+    "view"
+  >;
+
+  claimShare: TypedContractMethod<
+    [vaultId: BigNumberish, instructionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  configureInactivity: TypedContractMethod<
+    [vaultId: BigNumberish, window: BigNumberish, gracePeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createVault: TypedContractMethod<
+    [releaseKind: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptAssetData: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedAssets: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        assetType: bigint;
+        assetValue: bigint;
+        accessKey: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  encryptedAssets: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint, boolean] & {
+        id: bigint;
+        owner: string;
+        encryptedAssetType: string;
+        encryptedAssetValue: string;
+        encryptedAccessKey: string;
+        timestamp: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  executeInheritance: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executionPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  executionRequestedAt: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  executorStatus: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  expireExecution: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  finalizeInheritance: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getContingents: TypedContractMethod<
+    [vaultId: BigNumberish, instructionId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getDeathAttestations: TypedContractMethod<
+    [owner: AddressLike],
+    [DigitalInheritanceVaultFHE.DeathAttestationStructOutput[]],
+    "view"
+  >;
+
+  getDecryptedAsset: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        assetType: bigint;
+        assetValue: bigint;
+        accessKey: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedAsset: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [string, string, string, string, boolean] & {
+        owner: string;
+        encryptedAssetType: string;
+        encryptedAssetValue: string;
+        encryptedAccessKey: string;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getGuardians: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [string[], bigint, bigint, boolean] & {
+        guardians: string[];
+        threshold: bigint;
+        nonce: bigint;
+        approved: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getInheritanceInstructions: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [string[], string[], string[]] & {
+        instructionBeneficiaries: string[];
+        encryptedShares: string[];
+        encryptedConditions: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getOwnerVaults: TypedContractMethod<[owner: AddressLike], [bigint[]], "view">;
+
+  inactivityConfigs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { window: bigint; gracePeriod: bigint }],
+    "view"
+  >;
+
+  inactivityDeadline: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  inheritanceInstructions: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string] & {
+        beneficiary: string;
+        encryptedShare: string;
+        encryptedReleaseCondition: string;
+      }
+    ],
+    "view"
+  >;
+
+  inheritedShares: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  isDeathAttested: TypedContractMethod<[owner: AddressLike], [boolean], "view">;
+
+  isGuardian: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lapseShare: TypedContractMethod<
+    [vaultId: BigNumberish, instructionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  lastCheckIn: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  notary: TypedContractMethod<[], [string], "view">;
+
+  objectToAttestation: TypedContractMethod<
+    [owner: AddressLike, attestationId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  objectionWindow: TypedContractMethod<[], [bigint], "view">;
+
+  pendingNotary: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  releaseApprovalDigest: TypedContractMethod<
+    [vaultId: BigNumberish, deadline: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  releaseKinds: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  requestAssetDecryption: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeExecutor: TypedContractMethod<
+    [executor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeVault: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setClaimPolicy: TypedContractMethod<
+    [vaultId: BigNumberish, window: BigNumberish, lapseRule: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setContingents: TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      instructionId: BigNumberish,
+      fallbacks: AddressLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setGuardians: TypedContractMethod<
+    [vaultId: BigNumberish, guardians: AddressLike[], threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setObjectionWindow: TypedContractMethod<
+    [window: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setUnlockExpression: TypedContractMethod<
+    [vaultId: BigNumberish, expression: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shareChecks: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  shareClaims: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, string] & {
+        holder: string;
+        deadline: bigint;
+        contingentsUsed: bigint;
+        status: bigint;
+        value: string;
+      }
+    ],
+    "view"
+  >;
+
+  submitGuardianApprovals: TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      signatures: DigitalInheritanceVaultFHE.GuardianSignatureStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  suspendExecutor: TypedContractMethod<
+    [executor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferNotary: TypedContractMethod<
+    [newNotary: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unlockExpressions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  updateBeneficiary: TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      instructionId: BigNumberish,
+      newBeneficiary: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateReleaseCondition: TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      instructionId: BigNumberish,
+      newCondition: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateReleaseKind: TypedContractMethod<
+    [vaultId: BigNumberish, releaseKind: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  validateUnlockExpression: TypedContractMethod<
+    [expression: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  vaultCount: TypedContractMethod<[], [bigint], "view">;
+
+  verifySharePercentage: TypedContractMethod<
+    [vaultId: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "EXECUTION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "LEAF_ATTESTATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "LEAF_GUARDIANS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "LEAF_INACTIVITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "LEAF_TIME_LOCK"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CONTINGENTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_EXPRESSION_DEPTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_EXPRESSION_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_GUARDIANS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OP_AND"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OP_NOT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OP_OR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "RELEASE_APPROVAL_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptNotary"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addEncryptedAsset"
+  ): TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      encryptedAssetType: BytesLike,
+      encryptedAssetValue: BytesLike,
+      encryptedAccessKey: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addInheritanceInstruction"
+  ): TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      beneficiary: AddressLike,
+      encryptedShare: BytesLike,
+      encryptedReleaseCondition: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "attestDeath"
+  ): TypedContractMethod<
+    [
+      owner: AddressLike,
+      documentHash: BytesLike,
+      jurisdiction: string,
+      issuedAt: BigNumberish,
+      signer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "authorizeExecutor"
+  ): TypedContractMethod<[executor: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "authorizedExecutors"
+  ): TypedContractMethod<[executor: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "calculateInheritanceTax"
+  ): TypedContractMethod<[vaultId: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "calculateTotalValue"
+  ): TypedContractMethod<[vaultId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "checkIn"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimPolicies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { window: bigint; lapseRule: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "claimShare"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, instructionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "configureInactivity"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, window: BigNumberish, gracePeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createVault"
+  ): TypedContractMethod<[releaseKind: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decryptAssetData"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedAssets"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        assetType: bigint;
+        assetValue: bigint;
+        accessKey: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedAssets"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint, boolean] & {
+        id: bigint;
+        owner: string;
+        encryptedAssetType: string;
+        encryptedAssetValue: string;
+        encryptedAccessKey: string;
+        timestamp: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "executeInheritance"
+  ): TypedContractMethod<[vaultId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executionPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "executionRequestedAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "executorStatus"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "expireExecution"
+  ): TypedContractMethod<[vaultId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "finalizeInheritance"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getContingents"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, instructionId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDeathAttestations"
+  ): TypedContractMethod<
+    [owner: AddressLike],
+    [DigitalInheritanceVaultFHE.DeathAttestationStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptedAsset"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        assetType: bigint;
+        assetValue: bigint;
+        accessKey: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedAsset"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [string, string, string, string, boolean] & {
+        owner: string;
+        encryptedAssetType: string;
+        encryptedAssetValue: string;
+        encryptedAccessKey: string;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getGuardians"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [string[], bigint, bigint, boolean] & {
+        guardians: string[];
+        threshold: bigint;
+        nonce: bigint;
+        approved: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInheritanceInstructions"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish],
+    [
+      [string[], string[], string[]] & {
+        instructionBeneficiaries: string[];
+        encryptedShares: string[];
+        encryptedConditions: string[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOwnerVaults"
+  ): TypedContractMethod<[owner: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "inactivityConfigs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { window: bigint; gracePeriod: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "inactivityDeadline"
+  ): TypedContractMethod<[vaultId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "inheritanceInstructions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string] & {
+        beneficiary: string;
+        encryptedShare: string;
+        encryptedReleaseCondition: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "inheritedShares"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isDeathAttested"
+  ): TypedContractMethod<[owner: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isGuardian"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lapseShare"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, instructionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "lastCheckIn"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "notary"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "objectToAttestation"
+  ): TypedContractMethod<
+    [owner: AddressLike, attestationId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "objectionWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pendingNotary"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "releaseApprovalDigest"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, deadline: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "releaseKinds"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestAssetDecryption"
+  ): TypedContractMethod<[vaultId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeExecutor"
+  ): TypedContractMethod<[executor: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeVault"
+  ): TypedContractMethod<[vaultId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setClaimPolicy"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, window: BigNumberish, lapseRule: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setContingents"
+  ): TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      instructionId: BigNumberish,
+      fallbacks: AddressLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setGuardians"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, guardians: AddressLike[], threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setObjectionWindow"
+  ): TypedContractMethod<[window: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setUnlockExpression"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, expression: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shareChecks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "shareClaims"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, string] & {
+        holder: string;
+        deadline: bigint;
+        contingentsUsed: bigint;
+        status: bigint;
+        value: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitGuardianApprovals"
+  ): TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      signatures: DigitalInheritanceVaultFHE.GuardianSignatureStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "suspendExecutor"
+  ): TypedContractMethod<[executor: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferNotary"
+  ): TypedContractMethod<[newNotary: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unlockExpressions"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "updateBeneficiary"
+  ): TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      instructionId: BigNumberish,
+      newBeneficiary: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateReleaseCondition"
+  ): TypedContractMethod<
+    [
+      vaultId: BigNumberish,
+      instructionId: BigNumberish,
+      newCondition: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateReleaseKind"
+  ): TypedContractMethod<
+    [vaultId: BigNumberish, releaseKind: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "validateUnlockExpression"
+  ): TypedContractMethod<[expression: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "vaultCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "verifySharePercentage"
+  ): TypedContractMethod<[vaultId: BigNumberish], [string], "nonpayable">;
+
+  getEvent(
+    key: "AssetAdded"
+  ): TypedContractEvent<
+    AssetAddedEvent.InputTuple,
+    AssetAddedEvent.OutputTuple,
+    AssetAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssetDecrypted"
+  ): TypedContractEvent<
+    AssetDecryptedEvent.InputTuple,
+    AssetDecryptedEvent.OutputTuple,
+    AssetDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssetDecryptionRequested"
+  ): TypedContractEvent<
+    AssetDecryptionRequestedEvent.InputTuple,
+    AssetDecryptionRequestedEvent.OutputTuple,
+    AssetDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AttestationObjected"
+  ): TypedContractEvent<
+    AttestationObjectedEvent.InputTuple,
+    AttestationObjectedEvent.OutputTuple,
+    AttestationObjectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BeneficiaryUpdated"
+  ): TypedContractEvent<
+    BeneficiaryUpdatedEvent.InputTuple,
+    BeneficiaryUpdatedEvent.OutputTuple,
+    BeneficiaryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CheckedIn"
+  ): TypedContractEvent<
+    CheckedInEvent.InputTuple,
+    CheckedInEvent.OutputTuple,
+    CheckedInEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClaimPolicyUpdated"
+  ): TypedContractEvent<
+    ClaimPolicyUpdatedEvent.InputTuple,
+    ClaimPolicyUpdatedEvent.OutputTuple,
+    ClaimPolicyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContingentsUpdated"
+  ): TypedContractEvent<
+    ContingentsUpdatedEvent.InputTuple,
+    ContingentsUpdatedEvent.OutputTuple,
+    ContingentsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeathAttested"
+  ): TypedContractEvent<
+    DeathAttestedEvent.InputTuple,
+    DeathAttestedEvent.OutputTuple,
+    DeathAttestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExecutionExpired"
+  ): TypedContractEvent<
+    ExecutionExpiredEvent.InputTuple,
+    ExecutionExpiredEvent.OutputTuple,
+    ExecutionExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExecutorStatusChanged"
+  ): TypedContractEvent<
+    ExecutorStatusChangedEvent.InputTuple,
+    ExecutorStatusChangedEvent.OutputTuple,
+    ExecutorStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GuardianApprovalsSubmitted"
+  ): TypedContractEvent<
+    GuardianApprovalsSubmittedEvent.InputTuple,
+    GuardianApprovalsSubmittedEvent.OutputTuple,
+    GuardianApprovalsSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GuardiansConfigured"
+  ): TypedContractEvent<
+    GuardiansConfiguredEvent.InputTuple,
+    GuardiansConfiguredEvent.OutputTuple,
+    GuardiansConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "InactivityConfigured"
+  ): TypedContractEvent<
+    InactivityConfiguredEvent.InputTuple,
+    InactivityConfiguredEvent.OutputTuple,
+    InactivityConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "InheritanceConditionNotMet"
+  ): TypedContractEvent<
+    InheritanceConditionNotMetEvent.InputTuple,
+    InheritanceConditionNotMetEvent.OutputTuple,
+    InheritanceConditionNotMetEvent.OutputObject
+  >;
+  getEvent(
+    key: "InheritanceExecuted"
+  ): TypedContractEvent<
+    InheritanceExecutedEvent.InputTuple,
+    InheritanceExecutedEvent.OutputTuple,
+    InheritanceExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "InheritanceRequested"
+  ): TypedContractEvent<
+    InheritanceRequestedEvent.InputTuple,
+    InheritanceRequestedEvent.OutputTuple,
+    InheritanceRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "InstructionAdded"
+  ): TypedContractEvent<
+    InstructionAddedEvent.InputTuple,
+    InstructionAddedEvent.OutputTuple,
+    InstructionAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NotaryTransferStarted"
+  ): TypedContractEvent<
+    NotaryTransferStartedEvent.InputTuple,
+    NotaryTransferStartedEvent.OutputTuple,
+    NotaryTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NotaryTransferred"
+  ): TypedContractEvent<
+    NotaryTransferredEvent.InputTuple,
+    NotaryTransferredEvent.OutputTuple,
+    NotaryTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ObjectionWindowUpdated"
+  ): TypedContractEvent<
+    ObjectionWindowUpdatedEvent.InputTuple,
+    ObjectionWindowUpdatedEvent.OutputTuple,
+    ObjectionWindowUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReleaseConditionUpdated"
+  ): TypedContractEvent<
+    ReleaseConditionUpdatedEvent.InputTuple,
+    ReleaseConditionUpdatedEvent.OutputTuple,
+    ReleaseConditionUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReleaseKindUpdated"
+  ): TypedContractEvent<
+    ReleaseKindUpdatedEvent.InputTuple,
+    ReleaseKindUpdatedEvent.OutputTuple,
+    ReleaseKindUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShareClaimed"
+  ): TypedContractEvent<
+    ShareClaimedEvent.InputTuple,
+    ShareClaimedEvent.OutputTuple,
+    ShareClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShareLapsed"
+  ): TypedContractEvent<
+    ShareLapsedEvent.InputTuple,
+    ShareLapsedEvent.OutputTuple,
+    ShareLapsedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShareOffered"
+  ): TypedContractEvent<
+    ShareOfferedEvent.InputTuple,
+    ShareOfferedEvent.OutputTuple,
+    ShareOfferedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SharesVerified"
+  ): TypedContractEvent<
+    SharesVerifiedEvent.InputTuple,
+    SharesVerifiedEvent.OutputTuple,
+    SharesVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UnlockExpressionUpdated"
+  ): TypedContractEvent<
+    UnlockExpressionUpdatedEvent.InputTuple,
+    UnlockExpressionUpdatedEvent.OutputTuple,
+    UnlockExpressionUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultCreated"
+  ): TypedContractEvent<
+    VaultCreatedEvent.InputTuple,
+    VaultCreatedEvent.OutputTuple,
+    VaultCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultRevoked"
+  ): TypedContractEvent<
+    VaultRevokedEvent.InputTuple,
+    VaultRevokedEvent.OutputTuple,
+    VaultRevokedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssetAdded(uint256)": TypedContractEvent<
+      AssetAddedEvent.InputTuple,
+      AssetAddedEvent.OutputTuple,
+      AssetAddedEvent.OutputObject
+    >;
+    AssetAdded: TypedContractEvent<
+      AssetAddedEvent.InputTuple,
+      AssetAddedEvent.OutputTuple,
+      AssetAddedEvent.OutputObject
+    >;
+
+    "AssetDecrypted(uint256,uint256)": TypedContractEvent<
+      AssetDecryptedEvent.InputTuple,
+      AssetDecryptedEvent.OutputTuple,
+      AssetDecryptedEvent.OutputObject
+    >;
+    AssetDecrypted: TypedContractEvent<
+      AssetDecryptedEvent.InputTuple,
+      AssetDecryptedEvent.OutputTuple,
+      AssetDecryptedEvent.OutputObject
+    >;
+
+    "AssetDecryptionRequested(uint256,uint256)": TypedContractEvent<
+      AssetDecryptionRequestedEvent.InputTuple,
+      AssetDecryptionRequestedEvent.OutputTuple,
+      AssetDecryptionRequestedEvent.OutputObject
+    >;
+    AssetDecryptionRequested: TypedContractEvent<
+      AssetDecryptionRequestedEvent.InputTuple,
+      AssetDecryptionRequestedEvent.OutputTuple,
+      AssetDecryptionRequestedEvent.OutputObject
+    >;
+
+    "AttestationObjected(address,uint256,address,string)": TypedContractEvent<
+      AttestationObjectedEvent.InputTuple,
+      AttestationObjectedEvent.OutputTuple,
+      AttestationObjectedEvent.OutputObject
+    >;
+    AttestationObjected: TypedContractEvent<
+      AttestationObjectedEvent.InputTuple,
+      AttestationObjectedEvent.OutputTuple,
+      AttestationObjectedEvent.OutputObject
+    >;
+
+    "BeneficiaryUpdated(uint256,uint256,address,address)": TypedContractEvent<
+      BeneficiaryUpdatedEvent.InputTuple,
+      BeneficiaryUpdatedEvent.OutputTuple,
+      BeneficiaryUpdatedEvent.OutputObject
+    >;
+    BeneficiaryUpdated: TypedContractEvent<
+      BeneficiaryUpdatedEvent.InputTuple,
+      BeneficiaryUpdatedEvent.OutputTuple,
+      BeneficiaryUpdatedEvent.OutputObject
+    >;
+
+    "CheckedIn(address,uint256)": TypedContractEvent<
+      CheckedInEvent.InputTuple,
+      CheckedInEvent.OutputTuple,
+      CheckedInEvent.OutputObject
+    >;
+    CheckedIn: TypedContractEvent<
+      CheckedInEvent.InputTuple,
+      CheckedInEvent.OutputTuple,
+      CheckedInEvent.OutputObject
+    >;
+
+    "ClaimPolicyUpdated(uint256,uint256,uint8)": TypedContractEvent<
+      ClaimPolicyUpdatedEvent.InputTuple,
+      ClaimPolicyUpdatedEvent.OutputTuple,
+      ClaimPolicyUpdatedEvent.OutputObject
+    >;
+    ClaimPolicyUpdated: TypedContractEvent<
+      ClaimPolicyUpdatedEvent.InputTuple,
+      ClaimPolicyUpdatedEvent.OutputTuple,
+      ClaimPolicyUpdatedEvent.OutputObject
+    >;
+
+    "ContingentsUpdated(uint256,uint256,address[])": TypedContractEvent<
+      ContingentsUpdatedEvent.InputTuple,
+      ContingentsUpdatedEvent.OutputTuple,
+      ContingentsUpdatedEvent.OutputObject
+    >;
+    ContingentsUpdated: TypedContractEvent<
+      ContingentsUpdatedEvent.InputTuple,
+      ContingentsUpdatedEvent.OutputTuple,
+      ContingentsUpdatedEvent.OutputObject
+    >;
+
+    "DeathAttested(address,uint256,bytes32,string,uint256,address,address,uint256)": TypedContractEvent<
+      DeathAttestedEvent.InputTuple,
+      DeathAttestedEvent.OutputTuple,
+      DeathAttestedEvent.OutputObject
+    >;
+    DeathAttested: TypedContractEvent<
+      DeathAttestedEvent.InputTuple,
+      DeathAttestedEvent.OutputTuple,
+      DeathAttestedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "ExecutionExpired(uint256,uint256)": TypedContractEvent<
+      ExecutionExpiredEvent.InputTuple,
+      ExecutionExpiredEvent.OutputTuple,
+      ExecutionExpiredEvent.OutputObject
+    >;
+    ExecutionExpired: TypedContractEvent<
+      ExecutionExpiredEvent.InputTuple,
+      ExecutionExpiredEvent.OutputTuple,
+      ExecutionExpiredEvent.OutputObject
+    >;
+
+    "ExecutorStatusChanged(address,uint8,address)": TypedContractEvent<
+      ExecutorStatusChangedEvent.InputTuple,
+      ExecutorStatusChangedEvent.OutputTuple,
+      ExecutorStatusChangedEvent.OutputObject
+    >;
+    ExecutorStatusChanged: TypedContractEvent<
+      ExecutorStatusChangedEvent.InputTuple,
+      ExecutorStatusChangedEvent.OutputTuple,
+      ExecutorStatusChangedEvent.OutputObject
+    >;
+
+    "GuardianApprovalsSubmitted(uint256,address[])": TypedContractEvent<
+      GuardianApprovalsSubmittedEvent.InputTuple,
+      GuardianApprovalsSubmittedEvent.OutputTuple,
+      GuardianApprovalsSubmittedEvent.OutputObject
+    >;
+    GuardianApprovalsSubmitted: TypedContractEvent<
+      GuardianApprovalsSubmittedEvent.InputTuple,
+      GuardianApprovalsSubmittedEvent.OutputTuple,
+      GuardianApprovalsSubmittedEvent.OutputObject
+    >;
+
+    "GuardiansConfigured(uint256,address[],uint256,uint256)": TypedContractEvent<
+      GuardiansConfiguredEvent.InputTuple,
+      GuardiansConfiguredEvent.OutputTuple,
+      GuardiansConfiguredEvent.OutputObject
+    >;
+    GuardiansConfigured: TypedContractEvent<
+      GuardiansConfiguredEvent.InputTuple,
+      GuardiansConfiguredEvent.OutputTuple,
+      GuardiansConfiguredEvent.OutputObject
+    >;
+
+    "InactivityConfigured(uint256,uint256,uint256)": TypedContractEvent<
+      InactivityConfiguredEvent.InputTuple,
+      InactivityConfiguredEvent.OutputTuple,
+      InactivityConfiguredEvent.OutputObject
+    >;
+    InactivityConfigured: TypedContractEvent<
+      InactivityConfiguredEvent.InputTuple,
+      InactivityConfiguredEvent.OutputTuple,
+      InactivityConfiguredEvent.OutputObject
+    >;
+
+    "InheritanceConditionNotMet(uint256)": TypedContractEvent<
+      InheritanceConditionNotMetEvent.InputTuple,
+      InheritanceConditionNotMetEvent.OutputTuple,
+      InheritanceConditionNotMetEvent.OutputObject
+    >;
+    InheritanceConditionNotMet: TypedContractEvent<
+      InheritanceConditionNotMetEvent.InputTuple,
+      InheritanceConditionNotMetEvent.OutputTuple,
+      InheritanceConditionNotMetEvent.OutputObject
+    >;
+
+    "InheritanceExecuted(uint256)": TypedContractEvent<
+      InheritanceExecutedEvent.InputTuple,
+      InheritanceExecutedEvent.OutputTuple,
+      InheritanceExecutedEvent.OutputObject
+    >;
+    InheritanceExecuted: TypedContractEvent<
+      InheritanceExecutedEvent.InputTuple,
+      InheritanceExecutedEvent.OutputTuple,
+      InheritanceExecutedEvent.OutputObject
+    >;
+
+    "InheritanceRequested(uint256,uint256)": TypedContractEvent<
+      InheritanceRequestedEvent.InputTuple,
+      InheritanceRequestedEvent.OutputTuple,
+      InheritanceRequestedEvent.OutputObject
+    >;
+    InheritanceRequested: TypedContractEvent<
+      InheritanceRequestedEvent.InputTuple,
+      InheritanceRequestedEvent.OutputTuple,
+      InheritanceRequestedEvent.OutputObject
+    >;
+
+    "InstructionAdded(uint256,uint256,address)": TypedContractEvent<
+      InstructionAddedEvent.InputTuple,
+      InstructionAddedEvent.OutputTuple,
+      InstructionAddedEvent.OutputObject
+    >;
+    InstructionAdded: TypedContractEvent<
+      InstructionAddedEvent.InputTuple,
+      InstructionAddedEvent.OutputTuple,
+      InstructionAddedEvent.OutputObject
+    >;
+
+    "NotaryTransferStarted(address,address)": TypedContractEvent<
+      NotaryTransferStartedEvent.InputTuple,
+      NotaryTransferStartedEvent.OutputTuple,
+      NotaryTransferStartedEvent.OutputObject
+    >;
+    NotaryTransferStarted: TypedContractEvent<
+      NotaryTransferStartedEvent.InputTuple,
+      NotaryTransferStartedEvent.OutputTuple,
+      NotaryTransferStartedEvent.OutputObject
+    >;
+
+    "NotaryTransferred(address,address)": TypedContractEvent<
+      NotaryTransferredEvent.InputTuple,
+      NotaryTransferredEvent.OutputTuple,
+      NotaryTransferredEvent.OutputObject
+    >;
+    NotaryTransferred: TypedContractEvent<
+      NotaryTransferredEvent.InputTuple,
+      NotaryTransferredEvent.OutputTuple,
+      NotaryTransferredEvent.OutputObject
+    >;
+
+    "ObjectionWindowUpdated(uint256)": TypedContractEvent<
+      ObjectionWindowUpdatedEvent.InputTuple,
+      ObjectionWindowUpdatedEvent.OutputTuple,
+      ObjectionWindowUpdatedEvent.OutputObject
+    >;
+    ObjectionWindowUpdated: TypedContractEvent<
+      ObjectionWindowUpdatedEvent.InputTuple,
+      ObjectionWindowUpdatedEvent.OutputTuple,
+      ObjectionWindowUpdatedEvent.OutputObject
+    >;
+
+    "ReleaseConditionUpdated(uint256,uint256)": TypedContractEvent<
+      ReleaseConditionUpdatedEvent.InputTuple,
+      ReleaseConditionUpdatedEvent.OutputTuple,
+      ReleaseConditionUpdatedEvent.OutputObject
+    >;
+    ReleaseConditionUpdated: TypedContractEvent<
+      ReleaseConditionUpdatedEvent.InputTuple,
+      ReleaseConditionUpdatedEvent.OutputTuple,
+      ReleaseConditionUpdatedEvent.OutputObject
+    >;
+
+    "ReleaseKindUpdated(uint256,uint8)": TypedContractEvent<
+      ReleaseKindUpdatedEvent.InputTuple,
+      ReleaseKindUpdatedEvent.OutputTuple,
+      ReleaseKindUpdatedEvent.OutputObject
+    >;
+    ReleaseKindUpdated: TypedContractEvent<
+      ReleaseKindUpdatedEvent.InputTuple,
+      ReleaseKindUpdatedEvent.OutputTuple,
+      ReleaseKindUpdatedEvent.OutputObject
+    >;
+
+    "ShareClaimed(uint256,uint256,address)": TypedContractEvent<
+      ShareClaimedEvent.InputTuple,
+      ShareClaimedEvent.OutputTuple,
+      ShareClaimedEvent.OutputObject
+    >;
+    ShareClaimed: TypedContractEvent<
+      ShareClaimedEvent.InputTuple,
+      ShareClaimedEvent.OutputTuple,
+      ShareClaimedEvent.OutputObject
+    >;
+
+    "ShareLapsed(uint256,uint256,address,uint256[])": TypedContractEvent<
+      ShareLapsedEvent.InputTuple,
+      ShareLapsedEvent.OutputTuple,
+      ShareLapsedEvent.OutputObject
+    >;
+    ShareLapsed: TypedContractEvent<
+      ShareLapsedEvent.InputTuple,
+      ShareLapsedEvent.OutputTuple,
+      ShareLapsedEvent.OutputObject
+    >;
+
+    "ShareOffered(uint256,uint256,address,uint256)": TypedContractEvent<
+      ShareOfferedEvent.InputTuple,
+      ShareOfferedEvent.OutputTuple,
+      ShareOfferedEvent.OutputObject
+    >;
+    ShareOffered: TypedContractEvent<
+      ShareOfferedEvent.InputTuple,
+      ShareOfferedEvent.OutputTuple,
+      ShareOfferedEvent.OutputObject
+    >;
+
+    "SharesVerified(uint256,address)": TypedContractEvent<
+      SharesVerifiedEvent.InputTuple,
+      SharesVerifiedEvent.OutputTuple,
+      SharesVerifiedEvent.OutputObject
+    >;
+    SharesVerified: TypedContractEvent<
+      SharesVerifiedEvent.InputTuple,
+      SharesVerifiedEvent.OutputTuple,
+      SharesVerifiedEvent.OutputObject
+    >;
+
+    "UnlockExpressionUpdated(uint256,bytes)": TypedContractEvent<
+      UnlockExpressionUpdatedEvent.InputTuple,
+      UnlockExpressionUpdatedEvent.OutputTuple,
+      UnlockExpressionUpdatedEvent.OutputObject
+    >;
+    UnlockExpressionUpdated: TypedContractEvent<
+      UnlockExpressionUpdatedEvent.InputTuple,
+      UnlockExpressionUpdatedEvent.OutputTuple,
+      UnlockExpressionUpdatedEvent.OutputObject
+    >;
+
+    "VaultCreated(uint256,address,uint8)": TypedContractEvent<
+      VaultCreatedEvent.InputTuple,
+      VaultCreatedEvent.OutputTuple,
+      VaultCreatedEvent.OutputObject
+    >;
+    VaultCreated: TypedContractEvent<
+      VaultCreatedEvent.InputTuple,
+      VaultCreatedEvent.OutputTuple,
+      VaultCreatedEvent.OutputObject
+    >;
+
+    "VaultRevoked(uint256)": TypedContractEvent<
+      VaultRevokedEvent.InputTuple,
+      VaultRevokedEvent.OutputTuple,
+      VaultRevokedEvent.OutputObject
+    >;
+    VaultRevoked: TypedContractEvent<
+      VaultRevokedEvent.InputTuple,
+      VaultRevokedEvent.OutputTuple,
+      VaultRevokedEvent.OutputObject
+    >;
+  };
+}
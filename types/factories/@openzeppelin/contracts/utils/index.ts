@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as cryptography from "./cryptography";
+export * as math from "./math";
+export { ShortStrings__factory } from "./ShortStrings__factory";
+export { Strings__factory } from "./Strings__factory";
@@ -0,0 +1,2454 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  DigitalInheritanceVaultFHE,
+  DigitalInheritanceVaultFHEInterface,
+} from "../../contracts/DigitalInheritanceVaultFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "AssetAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AssetDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AssetDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "attestationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "objector",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "AttestationObjected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "previousBeneficiary",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newBeneficiary",
+        type: "address",
+      },
+    ],
+    name: "BeneficiaryUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CheckedIn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum DigitalInheritanceVaultFHE.LapseRule",
+        name: "lapseRule",
+        type: "uint8",
+      },
+    ],
+    name: "ClaimPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "contingents",
+        type: "address[]",
+      },
+    ],
+    name: "ContingentsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "attestationId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "jurisdiction",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "issuedAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "notary",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "finalAt",
+        type: "uint256",
+      },
+    ],
+    name: "DeathAttested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ExecutionExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum DigitalInheritanceVaultFHE.ExecutorStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "notary",
+        type: "address",
+      },
+    ],
+    name: "ExecutorStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "signers",
+        type: "address[]",
+      },
+    ],
+    name: "GuardianApprovalsSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "guardians",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "GuardiansConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "InactivityConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "InheritanceConditionNotMet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "InheritanceExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "InheritanceRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+    ],
+    name: "InstructionAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "notary",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingNotary",
+        type: "address",
+      },
+    ],
+    name: "NotaryTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousNotary",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newNotary",
+        type: "address",
+      },
+    ],
+    name: "NotaryTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "objectionWindow",
+        type: "uint256",
+      },
+    ],
+    name: "ObjectionWindowUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+    ],
+    name: "ReleaseConditionUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum DigitalInheritanceVaultFHE.ReleaseKind",
+        name: "releaseKind",
+        type: "uint8",
+      },
+    ],
+    name: "ReleaseKindUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "ShareClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "recipients",
+        type: "uint256[]",
+      },
+    ],
+    name: "ShareLapsed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "ShareOffered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "SharesVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "expression",
+        type: "bytes",
+      },
+    ],
+    name: "UnlockExpressionUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum DigitalInheritanceVaultFHE.ReleaseKind",
+        name: "releaseKind",
+        type: "uint8",
+      },
+    ],
+    name: "VaultCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "VaultRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "EXECUTION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LEAF_ATTESTATION",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LEAF_GUARDIANS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LEAF_INACTIVITY",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "LEAF_TIME_LOCK",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CONTINGENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_EXPRESSION_DEPTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_EXPRESSION_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_GUARDIANS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OP_AND",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OP_NOT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OP_OR",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RELEASE_APPROVAL_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptNotary",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAssetType",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAssetValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAccessKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "addEncryptedAsset",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedReleaseCondition",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "addInheritanceInstruction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "documentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "jurisdiction",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "issuedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "attestDeath",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "authorizeExecutor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "authorizedExecutors",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "calculateInheritanceTax",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "calculateTotalValue",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "checkIn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "claimPolicies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.LapseRule",
+        name: "lapseRule",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+    ],
+    name: "claimShare",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "configureInactivity",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.ReleaseKind",
+        name: "releaseKind",
+        type: "uint8",
+      },
+    ],
+    name: "createVault",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptAssetData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedAssets",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "assetType",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "assetValue",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "accessKey",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedAssets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAssetType",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAssetValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAccessKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "executeInheritance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "executionPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "executionRequestedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "executorStatus",
+    outputs: [
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.ExecutorStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "expireExecution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizeInheritance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+    ],
+    name: "getContingents",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getDeathAttestations",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "documentHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "jurisdiction",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "issuedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "signer",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "notary",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "finalAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "objected",
+            type: "bool",
+          },
+        ],
+        internalType: "struct DigitalInheritanceVaultFHE.DeathAttestation[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedAsset",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "assetType",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "assetValue",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "accessKey",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedAsset",
+    outputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAssetType",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAssetValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAccessKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "getGuardians",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "guardians",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "getInheritanceInstructions",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "instructionBeneficiaries",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedShares",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedConditions",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getOwnerVaults",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "inactivityConfigs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gracePeriod",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "inactivityDeadline",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "inheritanceInstructions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedReleaseCondition",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "inheritedShares",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "isDeathAttested",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isGuardian",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+    ],
+    name: "lapseShare",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastCheckIn",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "notary",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "attestationId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "objectToAttestation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "objectionWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingNotary",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "releaseApprovalDigest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "releaseKinds",
+    outputs: [
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.ReleaseKind",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAssetDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "revokeExecutor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeVault",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.LapseRule",
+        name: "lapseRule",
+        type: "uint8",
+      },
+    ],
+    name: "setClaimPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "fallbacks",
+        type: "address[]",
+      },
+    ],
+    name: "setContingents",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "guardians",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+    ],
+    name: "setGuardians",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+    ],
+    name: "setObjectionWindow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "expression",
+        type: "bytes",
+      },
+    ],
+    name: "setUnlockExpression",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "shareChecks",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "shareClaims",
+    outputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "contingentsUsed",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.ClaimStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "euint32",
+        name: "value",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "signature",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct DigitalInheritanceVaultFHE.GuardianSignature[]",
+        name: "signatures",
+        type: "tuple[]",
+      },
+    ],
+    name: "submitGuardianApprovals",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "suspendExecutor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newNotary",
+        type: "address",
+      },
+    ],
+    name: "transferNotary",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "unlockExpressions",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "newBeneficiary",
+        type: "address",
+      },
+    ],
+    name: "updateBeneficiary",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "instructionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "newCondition",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateReleaseCondition",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DigitalInheritanceVaultFHE.ReleaseKind",
+        name: "releaseKind",
+        type: "uint8",
+      },
+    ],
+    name: "updateReleaseKind",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "expression",
+        type: "bytes",
+      },
+    ],
+    name: "validateUnlockExpression",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "vaultCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vaultId",
+        type: "uint256",
+      },
+    ],
+    name: "verifySharePercentage",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x610160604081815234620002db576200001882620002fb565b601a825260208201917f4469676974616c496e6865726974616e63655661756c7446484500000000000083528151926200005284620002fb565b6001845260208401603160f81b81525f606085516200007181620002df565b828152826020820152828782015201528351906200008f82620002df565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9283815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918289820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319947f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039083825416179055620001b28462000317565b92610120938452620001c487620004e1565b94610140958652519020958660e05251902094610100958087524660a05285519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f84528783015260608201524660808201523060a082015260a0815260c081019581871060018060401b03881117620002c7578690525190206080523060c05262093a80600e553390601b541617601b55335f7ffd746d7d1983b354b0fb9104f9d182254977fb7938cf841c6f4f1e9ebba83a188180a3615f32938462000689853960805184615a0a015260a05184615ad5015260c051846159d4015260e05184615a5901525183615a7f01525182611aa701525181611ad10152f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b608081019081106001600160401b03821117620002c757604052565b604081019081106001600160401b03821117620002c757604052565b805160209081811015620003b15750601f8251116200035257808251920151908083106200034457501790565b825f19910360031b1b161790565b90604051809263305a27a960e01b82528060048301528251908160248401525f935b82851062000397575050604492505f838284010152601f80199101168101030190fd5b848101820151868601604401529381019385935062000374565b906001600160401b038211620002c7575f54926001938481811c91168015620004d6575b83821014620004c257601f81116200048c575b5081601f84116001146200042657509282939183925f946200041a575b50501b915f199060031b1c1916175f5560ff90565b015192505f8062000405565b919083601f1981165f8052845f20945f905b8883831062000471575050501062000458575b505050811b015f5560ff90565b01515f1960f88460031b161c191690555f80806200044b565b85870151885590960195948501948793509081019062000438565b5f805284601f845f20920160051c820191601f860160051c015b828110620004b6575050620003e8565b5f8155018590620004a6565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620003d5565b8051602090818110156200056d5750601f8251116200050e57808251920151908083106200034457501790565b90604051809263305a27a960e01b82528060048301528251908160248401525f935b82851062000553575050604492505f838284010152601f80199101168101030190fd5b848101820151868601604401529381019385935062000530565b9192916001600160401b038111620002c75760019182548381811c911680156200067d575b82821014620004c257601f811162000647575b5080601f8311600114620005e35750819293945f92620005d7575b50505f19600383901b1c191690821b17905560ff90565b015190505f80620005c0565b90601f19831695845f52825f20925f905b8882106200062f575050838596971062000616575b505050811b01905560ff90565b01515f1960f88460031b161c191690555f808062000609565b808785968294968601518155019501930190620005f4565b835f5283601f835f20920160051c820191601f850160051c015b82811062000671575050620005a5565b5f815501849062000661565b90607f16906200059256fe60806040526004361015610011575f80fd5b60e05f35811c908163016ef3bf14613c525781630c537d4214613c375781630cdff76514613b55578163132fa154146138fc578163183ff085146138e457816319ba9046146138c75781631cd02cd6146138ac5781631ff651261461387157816321687cb5146137ac578163217a0d3f1461379557816327a891d01461373c578163351472bd1461371e5781633a0f555d146136985781633ae04966146135f65781633c168afe146134aa578163422c1d371461102f57816343f504a6146134715781635af486961461343e57816360f17ced14610c52578163643590f91461333a578163645cbdfe1461316f57816364a01dc61461314c578163679d86a71461311f578163680efc88146130fe5781636b261717146130e35781636c2532841461309f5781636cd687b11461305c5781636e481db314612d8d578163719e8a2714612d6357816372a295c214612cf557816374ef7ffd146123aa57816375ce95f8146123825781637b0eef13146121cd5781637de10d8a14611e555781637dfa813a14611e3a5781637ec94fa414611c9d5781637f6c804314611be057816381b9615214611b6857816384b0196e14611a92578163859ac18d146111aa57816385a60a4f146118bb578163874d7d4d146118a0578163874ee9951461185c578163894829a41461181457816389f151dc146117a5578163916689561461161f5781639238ece91461148b57816395dfcff21461145957816396c536d9146113f45781639d54c79d146113cc578163a7c6a100146113af578163aa44e910146112f3578163aab08115146112d9578163abc8943714611281578163b1d9d4631461120b57508063b6c7feb4146111aa578063bcf877eb1461117d578063c331876c146110b3578063c3dafbf01461104a578063c69a47cf1461102f578063c773d96d14610fe6578063ca89e37814610fcb578063cc2c4c3914610d5b578063d510125114610c89578063da1f12ab14610c6d578063da5a022314610c52578063dad1c67f146109ea578063dcf6f752146108ac578063df4eb9bd14610893578063e4a2da4514610864578063e81e862114610801578063eabcd8d4146107bd578063ef6fdb1c14610785578063f777df5f14610769578063f9da791e1461072f578063fdb58bea1461057a578063fdb7515b1461045e5763fedac1e114610376575f80fd5b3461045a57602036600319011261045a576004355f52600460205260405f208054906103a182614919565b906103ab83614919565b926103b581614919565b915f5b8281106103ff576103df856103fb866103ed8a604051958695606087526060870190613f14565b90858203602087015261419e565b90838203604085015261419e565b0390f35b8061040c600192846140dc565b50828060a01b039054166104208288614814565b528161042c82856140dc565b5001546104398289614814565b52600261044682856140dc565b5001546104538287614814565b52016103b8565b5f80fd5b3461045a5761046c36614158565b90825f52601660205260405f2054926104868415156149ef565b835f5260056020526104ae60405f20936104a760ff865460601c16156147b0565b83836156ec565b60608280518101031261045a577f473d31dbe67672de26e091af4486452b6b6c049841496e98e5a7185a1a9be0a392610560836105406104f16020809701614d06565b9163ffffffff61050f606061050860408501614d06565b9301614d06565b931663ffffffff19865416178555849067ffffffff0000000082549160201b169067ffffffff000000001916179055565b825463ffffffff60401b191660409190911b63ffffffff60401b16178255565b805460ff60601b1916600160601b179055604051908152a2005b3461045a5760a036600319011261045a57600435610596613ea8565b6001600160401b03919060843583811161045a576105b8903690600401613e4f565b6105c484959295614d17565b6105cd84614d38565b6001600160a01b03928316946106129061060a906105ec88151561494b565b6106026105fa3686846140f5565b604435614dd4565b9336916140f5565b606435614dd4565b906040519260608401908482109082111761071b57604052858352610650602084019180835260408501938452610649308261596a565b339061596a565b61065f8251610649308261596a565b845f52600460205260405f208054600160401b81101561071b57610688916001820181556140dc565b9490946107085760029351166001600160601b0360a01b85541617845551600184015551910155805f52600460205260405f20545f1981019081116106f45760207fdfaf754ca001968589c932714679cf8122ed1d20cd2de075ef61c798cb888dc091604051908152a3005b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f525f60045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b3461045a575f36600319011261045a5760206040517fa7cfdec11fe2d480c83e1139789c6c01f5d9b1c1d736944618a60fae480395348152f35b3461045a575f36600319011261045a576020604051611c208152f35b3461045a57602036600319011261045a576001600160a01b036107a6613e92565b165f526009602052602060405f2054604051908152f35b3461045a57604036600319011261045a576107d6613ea8565b6004355f52601060205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b3461045a57602036600319011261045a5760043561081e81614d17565b61082781614d38565b805f526003602052600660405f200160ff1981541690557fb14506f2903e2c599b638976158db3c7fc03306a02fc3ebfe33708d1068d18425f80a2005b3461045a57602036600319011261045a576004355f526018602052602060ff60405f2054166040519015158152f35b3461045a576108aa6108a436614158565b91614a45565b005b3461045a5760208060031936011261045a576108c6613e92565b601b546001600160a01b0391906108e09083163314614568565b16805f526015825260ff60405f205416811515806109d6575b806109c2575b1561098a5761090d81613f0a565b1561095657805f526015825260405f20600260ff198254161790557f9e5ec7c3e20d29827cb965dfc51e3011da62413e1c553cada6fa43978b7772fa60405192600284523393a3005b60405162461bcd60e51b815260048101839052600c60248201526b2737ba1032bc32b1baba37b960a11b6044820152606490fd5b60405162461bcd60e51b815260048101849052601060248201526f24b73b30b634b21032bc32b1baba37b960811b6044820152606490fd5b506109cc81613f0a565b60038114156108ff565b506109e081613f0a565b60028114156108f9565b3461045a57606036600319011261045a576004356001600160401b0360243581811161045a57610a1e903690600401613e1f565b60443591610a2b85614d17565b610a3485614d38565b81151580610c47575b610a46906149af565b82151580610c3d575b15610c0457845f52602091600a835260405f20935f5b8554811015610aaa57600190885f52600b865260405f20610a8682896142b8565b848060a01b0391549060031b1c165f52865260405f2060ff19815416905501610a65565b5090929193945f5b848110610b905750831161071b57600160401b831161071b578454838655808410610b75575b5083855f52825f20905f5b858110610b5b575050508060018601556002850190815491600183018093116106f4577fbd51389292cfebee31c90296a6e1e7e7faf9ac56765a3a947c29e1ba9b423dbd9683600392550160ff198154169055610b4d60405195869560608752606087019161424d565b9284015260408301520390a2005b60019085610b6884614223565b9301928185015501610ae3565b610b8a90865f5284845f209182019101614237565b86610ad8565b6001906001600160a01b03610bae610ba983898b614213565b614223565b1680151580610be5575b610bc1906149af565b895f52600b865260405f20905f52855260405f208260ff1982541617905501610ab2565b505f8a8152600b87526040808220838352885290205460ff1615610bb8565b60405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081d1a1c995cda1bdb19607a1b6044820152606490fd5b5081831115610a4f565b506010821115610a3d565b3461045a575f36600319011261045a57602060405160048152f35b3461045a575f36600319011261045a5760206040516127118152f35b3461045a5760208060031936011261045a57610ca3613e92565b601b546001600160a01b039190610cbd9083163314614568565b16805f526015825260ff60405f20541681151580610d47575b80610d33575b1561098a57610cea81613f0a565b1561095657805f526015825260405f20600360ff198254161790557f9e5ec7c3e20d29827cb965dfc51e3011da62413e1c553cada6fa43978b7772fa60405192600384523393a3005b50610d3d81613f0a565b6003811415610cdc565b50610d5181613f0a565b6003811415610cd6565b3461045a57604036600319011261045a5760043560246001600160401b03813581811161045a57610d90903690600401613e1f565b9190610d9b85614d38565b845f52602092600a845260405f20926001926001850154610dbd811515614828565b8310610f8f57610dcc83614919565b965f91825b858410610e235760038801805460ff191660011790556040518981528b907f27529ea625623be906c0d26d89e05a2a232564fce7f9d480001dbed5c96dfd629080610e1e818e018f613f14565b0390a2005b610e2e84878461498d565b354211610f5857610e4a610e4385888561498d565b358c61468e565b90610e5685888561498d565b8a81013590601e198136030182121561045a57019182359287841161045a578b0190833603821361045a57610e93610e9992610ea29536916140f5565b90615d9e565b90939193615dd8565b8b5f52600b8a5260405f209060018060a01b039081841692835f528c5260ff60405f20541615610f255716811115610eea57908791610ee1868d614814565b52930192610dd1565b60405162461bcd60e51b8152600481018b905260148186015273556e6f726465726564207369676e61747572657360601b6044820152606490fd5b60405162461bcd60e51b8152600481018d9052600c818801526b2737ba1033bab0b93234b0b760a11b6044820152606490fd5b60405162461bcd60e51b8152600481018a90526010818501526f105c1c1c9bdd985b08195e1c1a5c995960821b6044820152606490fd5b60405162461bcd60e51b81526004810187905260146024820152734e6f7420656e6f75676820617070726f76616c7360601b6044820152606490fd5b3461045a575f36600319011261045a57602060405160018152f35b3461045a57604036600319011261045a57610fff613ea8565b6004355f52600b60205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461045a575f36600319011261045a57602060405160108152f35b3461045a57602036600319011261045a576004355f52600a60205261109d60405f20600181015460028201549161108860ff60038301541691614721565b92604051948594608086526080860190613f14565b9260208501526040840152151560608301520390f35b3461045a57606036600319011261045a576004356024356044356110d683614d17565b6110df83614d38565b8115611147577f26058cf6194c3e34df19ed294c01bddaf641aee8b67dd9a691420e8dc1edb1889160409182516111158161407a565b828152600160208201838152875f526008602052855f20925183555191015582519182526020820152a26108aa6142cd565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642077696e646f7760901b6044820152606490fd5b3461045a57602036600319011261045a576004355f5260036020526020600360405f200154604051908152f35b3461045a57602036600319011261045a576004355f9081526005602090815260409182902054825163ffffffff808316825282841c81169382019390935281841c9092169282019290925260ff606092831c16151591810191909152608090f35b3461045a57602036600319011261045a576004355f52600360205260405f2080549060018060a01b03600182015416906002810154600382015460048301549160ff600660058601549501541694604051968752602087015260408601526060850152608084015260a0830152151560c0820152f35b3461045a5761128f36613e7c565b905f52600460205260405f20805482101561045a576060916112b0916140dc565b5060018060a01b0381541690600260018201549101549060405192835260208301526040820152f35b3461045a575f36600319011261045a576020604051818152f35b3461045a57606036600319011261045a576044356001600160a01b0381811691600435916024359184900361045a577f298e4bb4c7f2192c8b86e6152a1c088f83711c30eda67b5fdfd96b5e202448999160409161135085614d17565b61135985614d38565b845f52600460205261136f835f205483106141d1565b61137a86151561494b565b845f52600460205261138e82845f206140dc565b5080546001600160a01b0319811688179091558351928352166020820152a3005b3461045a575f36600319011261045a576020600254604051908152f35b3461045a575f36600319011261045a57601b546040516001600160a01b039091168152602090f35b3461045a57602036600319011261045a576004355f52600360205260a060405f20600180831b0360018201541690600281015490600381015460ff60066004840154930154169260405194855260208501526040840152606083015215156080820152f35b3461045a57602036600319011261045a576004355f5260066020526103fb60ff60405f205416604051918291826140c9565b3461045a576020908160031936011261045a57906001600160a01b03806114b0613e92565b165f52600c825260405f209081546114c7816147f0565b906114d560405192836140a8565b80825284820180945f52855f205f915b83831061159857505050506040519380850191818652518092526040850160408360051b87010194935f975b84891061151e5787870388f35b9091929394958480600192603f198b82030187528951908151815261154e83830151878584015287830190613f71565b916040810151604083015260608881830151169083015260808881830151169083015260a0808201519083015260c080910151151591015298019401980197919094939294611511565b60078860019260409b9a97989b516115af8161405f565b855481526040516115cd816115c681898b01613fce565b03826140a8565b83820152600286015460408201528c60038701541660608201528c6004870154166080820152600586015460a082015260ff600687015416151560c082015281520192019201919097949396976114e5565b3461045a5760208060031936011261045a5760043590815f526003815260018060a01b03600160405f2001541633148015611796575b1561175a57815f526018815260ff60405f2054161561171f57815f52601a815260405f2054611c2081018091116106f45743106116e3577f53c000f670a0d78650250ca4e375bf0ef559bc0e9d37eb2fa0ba9e977372aec290825f526019815260405f2054805f52601782525f6040812055835f526018825260405f2060ff198154169055604051908152a2005b6064906040519062461bcd60e51b825260048201526015602482015274115e1958dd5d1a5bdb881b9bdd08195e1c1a5c9959605a1b6044820152fd5b6064906040519062461bcd60e51b8252600482015260146024820152734e6f20657865637574696f6e2070656e64696e6760601b6044820152fd5b6064906040519062461bcd60e51b8252600482015260156024820152744e6f7420616c6c6f77656420746f2065787069726560581b6044820152fd5b506117a033614664565b611655565b3461045a57602036600319011261045a576117be613e92565b601b546001600160a01b0391906117d89083163314614568565b16806001600160601b0360a01b601c541617601c55337fdc0488e822053e52dc0d592af75335a729fd6300146299c35ad694d801cb70e05f80a3005b3461045a57602036600319011261045a576004355f52600f6020526103fb6115c661184860405f2060405192838092613fce565b604051918291602083526020830190613f71565b3461045a57604036600319011261045a57611875613ea8565b6004355f52600760205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b3461045a575f36600319011261045a57602060405160088152f35b3461045a5760208060031936011261045a57600435805f526004825260405f20916118e46158cc565b905f915b84548310156119135761190b6001918261190286896140dc565b50015490615668565b9201916118e8565b83905f60018060a01b035f80516020615ee6833981519152908581835416604460405180968193639cd07acb60e01b835260646004840152600460248401525af1908115611a335786935f92611a61575b50818515611a51575b15611a3e575b606491925416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115611a33575f91611a06575b506119b8308261596a565b6119c2338261596a565b815f526010835260405f20335f5283528060405f20556040519133907fd7c051f07afe07641fde9683dcff65889911b73344ff8ac67e124a2bfe070f265f80a38152f35b90508281813d8311611a2c575b611a1d81836140a8565b8101031261045a5751836119ad565b503d611a13565b6040513d5f823e3d90fd5b60649150611a4a6158cc565b9150611973565b9450611a5b6158cc565b9461196d565b8481959293503d8311611a8b575b611a7981836140a8565b8101031261045a578592519087611964565b503d611a6f565b3461045a575f36600319011261045a57611acb7f0000000000000000000000000000000000000000000000000000000000000000615be3565b90611af57f0000000000000000000000000000000000000000000000000000000000000000615ce0565b604051602081018181106001600160401b0382111761071b576103fb92611b48916040525f8352611b3a604051968796600f60f81b8852806020890152870190613f71565b908582036040870152613f71565b904660608501523060808501525f60a085015283820360c0850152613ebe565b3461045a57604036600319011261045a57600435602435600581101561045a57610e1e7fc865c25c5bce6ad53202e445637b6d34ed3f6b4fb6508dbd4bc7b2a501d96d0891611bb684614d17565b611bbf84614d38565b835f526006602052611bd48160405f206142a0565b604051918291826140c9565b3461045a57606036600319011261045a57600435602435604435600281101561045a57611c0c83614d17565b611c1583614d38565b60405191611c228361407a565b80835260016020840193838552855f52601160205260405f2090518155019251926002841015611c89577f1305643174ec93b95af1e35a5a2aa2e750766a7aa9c1fc5787fa9cca118fadc89360ff80198354169116179055610e1e60405192839283613ef1565b634e487b7160e01b5f52602160045260245ffd5b3461045a57606036600319011261045a57611cb6613e92565b602435906044356001600160401b03811161045a57611cd9903690600401613e4f565b926001600160a01b0392831692909190338414908115611e2c575b508015611e1d575b15611de057825f52600d60205260405f2054600183018084116106f457611d2391146148d7565b825f52600c602052611d388260405f206145fc565b50916005830154421015611da75760067f20b47adebc91c04b08858eb9446c6e7f30f3df426251e9278de0f91741964a139301600160ff19825416179055835f52600d6020525f6040812055611da2604051928392835260406020840152339660408401916148b7565b0390a3005b60405162461bcd60e51b8152602060048201526011602482015270105d1d195cdd185d1a5bdb88199a5b985b607a1b6044820152606490fd5b60405162461bcd60e51b8152602060048201526015602482015274139bdd08185b1b1bddd959081d1bc81bd89a9958dd605a1b6044820152606490fd5b50611e2733614664565b611cfc565b9050601b5416331485611cf4565b3461045a575f36600319011261045a57602060405160028152f35b3461045a5760a036600319011261045a57611e6e613e92565b6001600160401b039060443582811161045a57611e8f903690600401613e4f565b60643593608435939192916001600160a01b038516850361045a57611ebf60018060a01b03601b54163314614568565b6001600160a01b031693841515806121c2575b806121b0575b611ee1906148d7565b831515806121a6575b611ef3906148d7565b845f52600d60205260405f205461216c57611f10600e5442614293565b91855f52600c60205260405f209060405190611f2b8261405f565b6024358252611f3b3688886140f5565b926020830193845289604084015260018060a01b03851660608401523360808401528560a08401525f60c08401528054600160401b81101561071b57611f86916001820181556145fc565b939093610708578251845551805191821161071b57611fb582611fac6001870154613f96565b60018701614874565b602090601f83116001146120f75792611fee8360069460c09461205d98975f926120ec575b50508160011b915f199060031b1c19161790565b60018501555b604081015160028501556003840160018060a01b03606083015116906001600160601b0360a01b9182825416179055600485019060018060a01b036080840151169082541617905560a081015160058501550151151591019060ff801983541691151516179055565b845f52600c60205260405f20545f198101938185116106f4577f9a68a6aa3436b66f726a8bcc8aa577140405246246b9819be141d5a1cf81a0d5956120c892885f52600d60205260405f2055604051958652602435602087015260c0604087015260c08601916148b7565b60608401969096526001600160a01b0316608083015260a0820152339381900390a3005b015190508e80611fda565b90600185015f5260205f20915f5b601f198516811061215457508360c09361205d979693600193600697601f1981161061213c575b505050811b016001850155611ff4565b01515f1960f88460031b161c191690558d808061212c565b91926020600181928685015181550194019201612105565b60405162461bcd60e51b81526020600482015260126024820152714174746573746174696f6e2065786973747360701b6044820152606490fd5b5042861115611eea565b506001600160a01b0381161515611ed8565b506024351515611ed2565b3461045a57604036600319011261045a576004356001600160401b0360243581811161045a57612201903690600401613e4f565b919061220c84614d17565b61221584614d38565b61221f8382614323565b1561234857835f52602091600f835260405f2090841161071b5761224d846122478354613f96565b83614874565b5f601f85116001146122c05791610e1e916122a186807fb49da6c9129d554f22a9acedd85d48ac63ddaa88506604196cffa48832d7ca979897965f916122b5575b508160011b915f199060031b1c19161790565b90555b6040519383859485528401916148b7565b90508401358a61228e565b601f19851690825f52845f20915f5b818110612331575091610e1e9391877fb49da6c9129d554f22a9acedd85d48ac63ddaa88506604196cffa48832d7ca979897969410612318575b5050600185811b0190556122a4565b8301355f19600388901b60f8161c191690558780612309565b9192866001819286890135815501940192016122cf565b60405162461bcd60e51b815260206004820152601260248201527124b73b30b634b21032bc383932b9b9b4b7b760711b6044820152606490fd5b3461045a575f36600319011261045a57601c546040516001600160a01b039091168152602090f35b3461045a57602036600319011261045a576123c433614664565b15612cb8576123d4600435614d38565b6004355f52600460205260405f205415612c73576004355f52600660205260ff60405f205416600581101580611c895760018203612b1b576004355f52600860205260405f205415612ad65761242b6004356145a1565b4210612a9c575b611c8957600403612a8c576004355f52600f60205260405f206040519061012082018281106001600160401b0382111761071b57604052600882526101003660208401375f905f5b815461248581613f96565b8210156127da5761249590613f96565b808210156127c657602011156127aa57601f808216900360ff835b54600392831b1c169060128203612570575050825f198101116106f4575f9060206124de5f19860187614814565b515f80516020615ee683398151915254604051630f51ccfb60e41b815260048101929092529093849160249183916001600160a01b03165af18015611a33575f9061253d575b600192506125355f19860187614814565b525b0161247a565b506020823d602011612568575b81612557602093836140a8565b8101031261045a5760019151612524565b3d915061254a565b919391601082036125c557505061258690614309565b915f198301908382116106f457816125bf6125b86125a660019589614814565b516125b1888a614814565b5190615b5f565b9187614814565b52612537565b60119492918086036126d75750506125dc90614309565b92835f198101116126c557506125f55f19840185614814565b51906126018486614814565b5182156126b5575b80156126a3575b602090606460018060a01b035f80516020615ee68339815191525416945f60405196879485936363a2db2960e01b8552600485015260248401528160448401525af18015611a33575f90612670575b600192506125bf5f19860187614814565b506020823d60201161269b575b8161268a602093836140a8565b8101031261045a576001915161265f565b3d915061267d565b5060206126ae61591e565b9050612610565b91506126bf61591e565b91612609565b634e487b7160e01b5f5260045260245ffd5b6001809493965081145f146127065750506126f36004356154e2565b6125bf6126ff86614315565b9587614814565b600281036127495750506004355f52600860205260405f2054151580612730575b6126f390615afb565b506126f361273f6004356145a1565b4210159050612727565b8103612784576126f3906004355f52600a60205260405f20908482015415159182612776575b5050615afb565b60ff9250015416878061276f565b6004355f526020526126f36127a5838060a01b038460405f20015416614615565b615afb565b601f825f5260ff60205f208360051c01918084169003916124b0565b634e487b7160e01b5f52603260045260245ffd5b505050506127e790614807565b515b6040516127f58161407a565b600181526020810191602036843761280c82614807565b525f917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549360018060a01b03805f80516020615f068339815191525416803b1561045a575f6040518092637d6e912360e11b82526020600483015281838161287a602482018b61419e565b03925af18015611a3357612a79575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15612a7557816040518092633263b83b60e01b8252886004830152606060248301528183816128e1606482018a61419e565b63df4eb9bd60e01b604483015203925af18015612a6a57908291612a53575b508590527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01806020526040822054612a4157858252602052604081209151926001600160401b038411612a2d57600160401b8411612a2d578254848455808510612a07575b5091815260208120905b8381106129f35785856129828154614315565b9055805f52601760205260043560405f20556004355f52601860205260405f20600160ff1982541617905560196020528060405f2055601a6020524360405f20556040519081527f7dfa01d9262d74f593c6be7e8ed48f8c473b61894b85d577fd4015e023f86779602060043592a2005b60019060208451940193818401550161296f565b838352846020842091820191015b818110612a225750612965565b5f8155600101612a15565b634e487b7160e01b82526041600452602482fd5b604051633f06d22b60e01b8152600490fd5b612a5c90614095565b612a67578086612900565b80fd5b6040513d84823e3d90fd5b5080fd5b612a84919250614095565b5f9086612889565b612a976004356154e2565b6127e9565b60405162461bcd60e51b81526020600482015260126024820152714f776e6572207374696c6c2061637469766560701b6044820152606490fd5b60405162461bcd60e51b815260206004820152601960248201527f496e6163746976697479206e6f7420636f6e66696775726564000000000000006044820152606490fd5b505f60028203612ba6576004355f52600a602052612b41600160405f2001541515614828565b6004355f52600a60205260ff600360405f2001541615612b61575b612432565b60405162461bcd60e51b815260206004820152601960248201527f477561726469616e20617070726f76616c206d697373696e67000000000000006044820152606490fd5b505f60038203612c14576004355f90815260036020526040902060010154612bd6906001600160a01b0316614615565b6124325760405162461bcd60e51b81526020600482015260126024820152711119585d1a081b9bdd08185d1d195cdd195960721b6044820152606490fd5b505f60048203612b5c576004355f52600f602052612c3560405f2054613f96565b612b5c5760405162461bcd60e51b8152602060048201526012602482015271115e1c1c995cdcda5bdb881b9bdd081cd95d60721b6044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4e6f20696e6865726974616e636520696e737472756374696f6e7300000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152742ab730baba3437b934bd32b21032bc32b1baba37b960591b6044820152606490fd5b3461045a57612d0336613e7c565b905f52601360205260405f20905f5260205260a060405f20600180831b03815416906001810154906002810154600460ff6003840154169201549260405194855260208501526040840152612d5781613f0a565b60608301526080820152f35b3461045a57602036600319011261045a576004355f52601a602052602060405f2054604051908152f35b3461045a5760208060031936011261045a57600435805f526003825260018060a01b0391600192612dc881600160405f200154163314614778565b825f5260058252612de360ff60405f205460601c16156147b0565b825f526003825260405f2060405160808101906001600160401b03918181108382111761071b57604052600381528481019260603685376002810154612e2883614807565b526003810154908251600110156127c657600491604084015201548151600210156127c65760608201525f7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845495805f80516020615f068339815191525416803b1561045a575f6040518092637d6e912360e11b82528b6004830152818381612eb6602482018c61419e565b03925af18015611a3357613049575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561304557826040518092633263b83b60e01b825289600483015260606024830152818381612f1d606482018b61419e565b63fdb7515b60e01b604483015203925af1801561303a57908391613026575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018088526040832054612a41578683528752604082209251938411612a2d57600160401b8411612a2d578254848455808510612fff575b50918152858120905b838110612fee57877ff6fefbf2613866825b37c75ad835e3882d968c9a79b135d6a254d792a3f7f6d3888888612fd68154614315565b9055805f52601682528360405f2055604051908152a2005b825182820155918601918801612fa0565b838352898589852092830192015b82811061301b575050612f97565b5f8155018a9061300d565b61302f90614095565b612a7557818a612f3c565b6040513d85823e3d90fd5b8280fd5b613054919350614095565b5f918a612ec5565b3461045a5761306a36613e7c565b905f52601260205260405f20905f526020526103fb61308b60405f20614721565b604051918291602083526020830190613f14565b3461045a57602036600319011261045a576001600160a01b036130c0613e92565b165f526015602052602060ff60405f205416604051906130df81613f0a565b8152f35b3461045a575f36600319011261045a57602060405160118152f35b3461045a57602061311761311136613e7c565b9061468e565b604051908152f35b3461045a57602036600319011261045a57602061314261313d613e92565b614664565b6040519015158152f35b3461045a57602036600319011261045a57602061314261316a613e92565b614615565b3461045a5760208060031936011261045a5760043561318d81614d17565b5f5260038152600360405f2001805460018060a01b035f80516020615ee6833981519152925f8583865416604460405180948193639cd07acb60e01b83526103e86004840152600460248401525af1938415611a335786915f95613307575b505f946131f89161542f565b915480156132f9575b606484875416916040519687938492635a53accb60e01b84526004840152600a6024840152600160f81b60448401525af1918215611a335785935f936132c6575b50905f6064926132506158cc565b9654166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115611a33575f91613299575b5061328f308261596a565b613117338261596a565b90508181813d83116132bf575b6132b081836140a8565b8101031261045a575182613284565b503d6132a6565b848193959294503d83116132f2575b6132df81836140a8565b8101031261045a5751849290915f613242565b503d6132d5565b506133026158cc565b613201565b94509084813d8111613333575b61331e81836140a8565b8101031261045a5792519285906131f86131ec565b503d613314565b3461045a57602036600319011261045a57613353613e92565b601b546001600160a01b03919061336d9083163314614568565b16805f52601560205260ff60405f2054168115159081613428575b81613413575b50156133db57805f52601560205260405f20600160ff1982541617905560405190600182527f9e5ec7c3e20d29827cb965dfc51e3011da62413e1c553cada6fa43978b7772fa60203393a3005b60405162461bcd60e51b815260206004820152601060248201526f24b73b30b634b21032bc32b1baba37b960811b6044820152606490fd5b6003915061342081613f0a565b14158261338e565b905061343381613f0a565b600181141590613388565b3461045a57602036600319011261045a576004355f5260086020526040805f206001815491015482519182526020820152f35b3461045a57602036600319011261045a576004355f52601160205260405f2060ff6001825492015416906103fb60405192839283613ef1565b3461045a576134b836613e7c565b90805f5260206013815260405f20835f52815260405f20600381018054600160ff82166134e481613f0a565b036135be5782546001600160a01b03163303613586576001830154421161354b5760ff19166002179055600401547fe0965692397b12b80dba3403c4f8e4f788ec6c5a47b598085083109ab5b8c16091906135409033856153a4565b6040519384523393a3005b60405162461bcd60e51b815260048101859052601360248201527210db185a5b481dda5b991bddc818db1bdcd959606a1b6044820152606490fd5b60405162461bcd60e51b815260048101859052601060248201526f2737ba1039b430b932903437b63232b960811b6044820152606490fd5b60405162461bcd60e51b815260048101859052601060248201526f4e6f7468696e6720746f20636c61696d60801b6044820152606490fd5b3461045a575f36600319011261045a57601c546001600160a01b0390818116330361365e57601b5491339083167ffd746d7d1983b354b0fb9104f9d182254977fb7938cf841c6f4f1e9ebba83a185f80a36001600160a01b03199182163317601b5516601c55005b60405162461bcd60e51b81526020600482015260126024820152714e6f742070656e64696e67206e6f7461727960701b6044820152606490fd5b3461045a5760208060031936011261045a576001600160a01b036136ba613e92565b165f526014815260405f20906040518083838295549384815201905f52835f20925f5b85828210613708575050506136f4925003836140a8565b6103fb604051928284938452830190613ebe565b85548452600195860195889550930192016136dd565b3461045a57602036600319011261045a5760206131176004356145a1565b3461045a57602036600319011261045a577f0f13fd3f24777a22f9bb63204fa4188416b4b5a2eedbe89f7b26200daff3c9f0602060043561378860018060a01b03601b54163314614568565b80600e55604051908152a1005b3461045a576108aa6137a636613e7c565b906143f8565b3461045a57608036600319011261045a576004356024356064356001600160401b03811161045a577f2826ef6c98d0a85c7d610521fb62801946851718d0fea97ae66c9c2a945b3cd79161383b6105fa61380c6020943690600401613e4f565b61381588614d17565b61381e88614d38565b875f526004865261383460405f205486106141d1565b36916140f5565b613845308261596a565b61384f338261596a565b845f526004835260026138658360405f206140dc565b500155604051908152a2005b3461045a57602036600319011261045a576004356001600160401b03811161045a576131426138a66020923690600401613e4f565b90614323565b3461045a575f36600319011261045a57602060405160038152f35b3461045a575f36600319011261045a576020600e54604051908152f35b3461045a575f36600319011261045a576108aa6142cd565b3461045a5760208060031936011261045a5760043590600582101561045a5760025490600182018092116106f457816002556139366158cc565b906139f66139426158cc565b926139ee61394e6158cc565b9460066040519161395e8361405f565b8883528683019733895260408401958652606084019182526080840190815260a084019042825260c0850192600184528b5f5260039a8b8b5260405f2096518755600187019060018060a01b039051166001600160601b0360a01b8254161790556002860197518855518a86015551600485015551600584015551151591019060ff801983541691151516179055565b54309061596a565b825f52818152613a0c308360405f20015461596a565b825f52818152613a2330600460405f20015461596a565b6040519060808201918083106001600160401b0384111761071b5760409283525f80825282820181815282850182815260608401838152888452600586529590922092518354915167ffffffffffffffff1990921663ffffffff9182161760209290921b67ffffffff000000001691909117835560149491613ac0919051845463ffffffff60401b1916911660401b63ffffffff60401b16178355565b51815460ff60601b191690151560601b60ff60601b161790556006815260405f20613aec9086906142a0565b335f525260405f208054600160401b81101561071b57613b11916001820181556142b8565b81929154911b9083821b915f19901b19161790557f381755e6193a37451c5a68b3b55b6a90495828ef3fc6e391179b29384aa42e7f60405180611da23395826140c9565b3461045a5760a036600319011261045a576004356084356001600160401b03811161045a57613c06613b8e613c11923690600401613e4f565b613b9a85939293614d17565b613ba385614d38565b845f526003602052613c0660405f20936004613bf661060a613bd1613bc93688876140f5565b602435614dd4565b9360028901948555613be76105fa3689846140f5565b9660038a0197885536916140f5565b950194855554610649308261596a565b54610649308261596a565b7f93a81a8433b364878a9433956ea98b5c547f081b2f66115de4afb79d364765995f80a2005b3461045a575f36600319011261045a57602060405160128152f35b3461045a57606036600319011261045a57600435604460248035906001600160401b03833581811161045a57613c8c903690600401613e1f565b919092613c9887614d17565b613ca187614d38565b865f5260209560048752613cba60405f205487106141d1565b60048411613de3575f5b848110613d8757505050855f526012855260405f20845f52855260405f2090821161071b57600160401b821161071b578054828255808310613d6c575b5082905f52845f20905f5b838110613d5257877f6f1d54ed22631284e195826fd1d1d1dd328ea255a6851b245b3d79c4dc1757868888610e1e8989604080519586958652850152604084019161424d565b60019087613d5f84614223565b9301928185015501613d0c565b613d8190825f5283875f209182019101614237565b86613d01565b6001600160a01b03613d9d610ba983888a614213565b1615613dab57600101613cc4565b60405162461bcd60e51b81526004810189905260128185015271125b9d985b1a590818dbdb9d1a5b99d95b9d60721b81840152606490fd5b60405162461bcd60e51b8152600481018890526014602482015273546f6f206d616e7920636f6e74696e67656e747360601b6044820152606490fd5b9181601f8401121561045a578235916001600160401b03831161045a576020808501948460051b01011161045a57565b9181601f8401121561045a578235916001600160401b03831161045a576020838186019501011161045a57565b604090600319011261045a576004359060243590565b600435906001600160a01b038216820361045a57565b602435906001600160a01b038216820361045a57565b9081518082526020808093019301915f5b828110613edd575050505090565b835185529381019392810192600101613ecf565b908152604081019291906002821015611c895760200152565b60041115611c8957565b9081518082526020808093019301915f5b828110613f33575050505090565b83516001600160a01b031685529381019392810192600101613f25565b5f5b838110613f615750505f910152565b8181015183820152602001613f52565b90602091613f8a81518092818552858086019101613f50565b601f01601f1916010190565b90600182811c92168015613fc4575b6020831014613fb057565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613fa5565b80545f9392613fdc82613f96565b918282526020936001916001811690815f146140405750600114614002575b5050505050565b90939495505f92919252835f2092845f945b83861061402c57505050500101905f80808080613ffb565b805485870183015294019385908201614014565b60ff19168685015250505090151560051b010191505f80808080613ffb565b60e081019081106001600160401b0382111761071b57604052565b604081019081106001600160401b0382111761071b57604052565b6001600160401b03811161071b57604052565b90601f801991011681019081106001600160401b0382111761071b57604052565b919060208301926005821015611c895752565b80548210156127c6575f52600360205f20910201905f90565b9291926001600160401b03821161071b576040519161411e601f8201601f1916602001846140a8565b82948184528183011161045a578281602093845f960137010152565b9080601f8301121561045a57816020614155933591016140f5565b90565b606060031982011261045a57600435916001600160401b0360243581811161045a57836141879160040161413a565b9260443591821161045a576141559160040161413a565b9081518082526020808093019301915f5b8281106141bd575050505090565b8351855293810193928101926001016141af565b156141d857565b60405162461bcd60e51b815260206004820152601360248201527224b73b30b634b21034b739ba393ab1ba34b7b760691b6044820152606490fd5b91908110156127c65760051b0190565b356001600160a01b038116810361045a5790565b818110614242575050565b5f8155600101614237565b9190808252602080920192915f5b828110614269575050505090565b9091929384359060018060a01b03821680920361045a57908152820193820192919060010161425b565b919082018092116106f457565b906005811015611c895760ff80198354169116179055565b80548210156127c6575f5260205f2001905f90565b335f5260096020524260405f20556040514281527fdddb6e14f7f2101397a6526aab95e964de7f1f44ed06aa47a1c9a0e6b992445660203392a2565b80156106f4575f190190565b5f1981146106f45760010190565b811580156143ee575b6143e8575f905f905b838210614346575050600191501490565b909160018383013560f81c81811015806143dd575b1561438757505061436b90614315565b916008831161437f576001905b0190614335565b505050505f90565b6010811480156143d3575b156143b25750506002811061437f576143ac600191614309565b92614378565b9193916012036143ca57831061437f57600190614378565b50505050505f90565b5060118114614392565b50600481111561435b565b50505f90565b506020821161432c565b805f52602060138152604092835f20815f528252835f2060038101600160ff82541661442381613f0a565b036145315760018201544211156144f957845f5260128452855f20835f528452855f206002830190815490805482106144bb575050815460ff191660031790915550546001600160a01b0316937f2550346aa4430df77cb76a4b4543117de376482b969c27af38f0fea28ff936b49291906144b6906144a28387614f54565b908080519586958652850152830190613ebe565b0390a3565b919750959394506144cf92508591506142b8565b905460039190911b1c6001600160a01b031692600181019081106106f4576144f79455614ec8565b565b855162461bcd60e51b815260048101859052601160248201527021b630b4b6903bb4b73237bb9037b832b760791b6044820152606490fd5b855162461bcd60e51b815260048101859052601060248201526f4e6f7468696e6720746f206c6170736560801b6044820152606490fd5b1561456f57565b60405162461bcd60e51b815260206004820152600a6024820152694e6f74206e6f7461727960b01b6044820152606490fd5b5f52600360205261415560405f20600860205260016145eb60405f2092828060a01b0383820154165f526009602052600560405f20549101548181116145f4575b50835490614293565b91015490614293565b90505f6145e2565b80548210156127c6575f52600760205f20910201905f90565b6001600160a01b03165f908152600d60205260409020548015159081614639575090565b600c60205260405f205f19820192509082116106f45760059161465b916145fc565b50015442101590565b6001600160a01b03165f9081526015602052604090205460019060ff1661468a81613f0a565b1490565b805f52600a602052600260405f200154916040519260208401927fa7cfdec11fe2d480c83e1139789c6c01f5d9b1c1d736944618a60fae4803953484526040850152606084015260808301526080825260a08201918083106001600160401b0384111761071b576042926040525190206147066159d1565b906040519161190160f01b8352600283015260228201522090565b90604051918281549182825260209260208301915f5260205f20935f905b828210614755575050506144f7925003836140a8565b85546001600160a01b03168452600195860195889550938101939091019061473f565b1561477f57565b60405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606490fd5b156147b757565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48191958dc9e5c1d1959607a1b6044820152606490fd5b6001600160401b03811161071b5760051b60200190565b8051156127c65760200190565b80518210156127c65760209160051b010190565b1561482f57565b60405162461bcd60e51b815260206004820152601860248201527f477561726469616e73206e6f7420636f6e6669677572656400000000000000006044820152606490fd5b9190601f811161488357505050565b6144f7925f5260205f20906020601f840160051c830193106148ad575b601f0160051c0190614237565b90915081906148a0565b908060209392818452848401375f828201840152601f01601f1916010190565b156148de57565b60405162461bcd60e51b815260206004820152601360248201527224b73b30b634b21030ba3a32b9ba30ba34b7b760691b6044820152606490fd5b90614923826147f0565b61493060405191826140a8565b8281528092614941601f19916147f0565b0190602036910137565b1561495257565b60405162461bcd60e51b8152602060048201526013602482015272496e76616c69642062656e656669636961727960681b6044820152606490fd5b91908110156127c65760051b81013590603e198136030182121561045a570190565b156149b657565b60405162461bcd60e51b8152602060048201526011602482015270496e76616c696420677561726469616e7360781b6044820152606490fd5b156149f657565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b9081602091031261045a5751801515810361045a5790565b90614a9991939293805f526017602052614a6960405f2054956104a78715156149ef565b5f5260176020525f6040812055835f52601860205260405f2060ff19815416905560208082518301019101614a2d565b15614cdf57600360205260405f2091600460205260405f2090601160205260405f20541515915f5b8154811015614c9c57614ad481836140dc565b509060038701549160018101548315614c8c575b8015614c7a575b602090606460018060a01b035f80516020615ee68339815191525416955f6040519788948593630afe14ad60e31b8552600485015260248401528160448401525af18015611a33575f90614c48575b5f93508015614c36575b5f80516020615ee683398151915254604051635a53accb60e01b81526004810192909252606460248301819052600160f81b604484015291946020928692909183916001600160a01b03165af18015611a33575f90614c03575b600193508615614beb5790614be591614bbb308261596a565b865f52601360205260405f20845f52602052600460405f200155838060a01b039054168286614ec8565b01614ac1565b614bfe91848060a01b03905416866153a4565b614be5565b506020833d602011614c2e575b81614c1d602093836140a8565b8101031261045a5760019251614ba2565b3d9150614c10565b506020614c416158cc565b9050614b48565b506020833d602011614c72575b81614c62602093836140a8565b8101031261045a575f9251614b3e565b3d9150614c55565b506020614c856158cc565b9050614aef565b9250614c966158cc565b92614ae8565b505091925050805f526003602052600660405f200160ff1981541690557f1a7174f149ec83409a4f442d5171a305c0add59d37ce459ac8f38df6549630cd5f80a2565b907f175589d61d5569853ceb3a273bdb5ffcc0ff7bf501589834c205a25e74cba20c5f80a2565b519063ffffffff8216820361045a57565b5f5260036020526144f760018060a01b03600160405f200154163314614778565b805f52600360205260ff600660405f2001541615614d9e575f52601860205260ff60405f205416614d6557565b60405162461bcd60e51b8152602060048201526011602482015270457865637574696f6e2070656e64696e6760781b6044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201526d5661756c7420696e61637469766560901b6044820152606490fd5b6020614e249260018060a01b0392835f80516020615ee68339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613f71565b6004606483015203925af1918215611a33575f92614e94575b505f80516020615f068339815191525416803b1561045a57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015611a3357614e8b575090565b61415590614095565b9091506020813d602011614ec0575b81614eb0602093836140a8565b8101031261045a5751905f614e3d565b3d9150614ea3565b9060407fa896e5e7d2dc90422b5d3db6aee568310386a01f878a36d19a201e55f149575391835f526013602052815f20815f52602052815f209460018060a01b031694856001600160601b0360a01b825416178155845f5260116020526003614f34845f205442614293565b9182600182015501600160ff1982541617905582519182526020820152a3565b90815f52600460205260405f205490601160205260ff600160405f200154166002811015611c8957600114905f915f5b84811061532857508061531e575b615315575b614fa082614919565b93805f52601360205260405f20825f52602052600460405f20015483156152ec575f9495968182156152da575b5f80516020615ee683398151915254604051635a53accb60e01b8152600481019290925263ffffffff87166024830152600160f81b6044830152909660209188916064918391906001600160a01b03165af1958615611a33575f966152a6575b50845f198101116106f457858615615292575b5f80516020615ee683398151915254604051630afe14ad60e31b815260048101929092525f19870163ffffffff166024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115611a33575f91615260575b50808315615250575b1561523e575b602090606460018060a01b035f80516020615ee68339815191525416945f60405196879485936303056db360e31b8552600485015260248401528160448401525af1918215611a33575f9261520a575b505f945f5b88811080615201575b156151f65761518b90855f52601360205260405f20815f5260205260405f2087821480156151bd575b6151b757886151b157855b600260ff60038401541661515681613f0a565b0361519057905461517191906001600160a01b0316886153a4565b8061518561517e8a614315565b998d614814565b52614315565b615106565b6151a260046151ac9301918254615668565b809155309061596a565b615171565b89615143565b50614315565b5060ff6003820154166151cf81613f0a565b600181141590816151e1575b50615138565b600291506151ee81613f0a565b14155f6151db565b505095505050505050565b5081871061510f565b9091506020813d602011615236575b81615226602093836140a8565b8101031261045a5751905f615101565b3d9150615219565b5060206152496158cc565b90506150b1565b925061525a6158cc565b926150ab565b90506020813d60201161528a575b8161527b602093836140a8565b8101031261045a57515f6150a2565b3d915061526e565b505f602061529e6158cc565b915050615040565b9095506020813d6020116152d2575b816152c2602093836140a8565b8101031261045a5751945f61502d565b3d91506152b5565b5060206152e56158cc565b9050614fcd565b5f8281526003602052604090206001015461415595509093506001600160a01b031691506153a4565b60019150614f97565b5060018211614f92565b855f52601360205260405f20815f5260205260ff600360405f20015416838214159081615372575b5061535e575b600101614f84565b9261536a600191614315565b939050615356565b905061537d81613f0a565b60018114908115615390575b505f615350565b6002915061539d81613f0a565b145f615389565b600490615408836144f795835f52600360205260405f2093600760205260405f209060018060a01b03841691825f5260205260405f20548061541d575b505f52600760205260405f20905f526020528060405f2055615403308261596a565b61596a565b61541683600283015461596a565b015461596a565b926154289193615668565b915f6153e1565b9081156154d2575b80156154c0575b602090606460018060a01b035f80516020615ee68339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115611a33575f91615491575090565b90506020813d6020116154b8575b816154ac602093836140a8565b8101031261045a575190565b3d915061549f565b5060206154cb6158cc565b905061543e565b90506154dc6158cc565b90615437565b60018060a01b03905f80516020615ee68339815191529082825416916040805193639cd07acb60e01b90818652600195600491600160048301526024935f602484015260209384846044815f82975af18015611a33578a945f91615637575b509a5f9a994263ffffffff16955b615563575b50505050505050505050505090565b909192939495969798999a9b815f52838852895f208d815411156156305789898f898f948f5f908b8f9560028f958e9261559c916140dc565b500154995416915197889687958652828601528401525af190811561562657908e9d9c9b9a9998979695949392915f916155ef575b50916155e16155e7928f9461542f565b90615b5f565b9d019b61554f565b80939e508a8092503d831161561f575b61560981836140a8565b8101031261045a5790518d9c91906155e16155d1565b503d6155ff565b8c513d5f823e3d90fd5b509b615554565b809550868092503d8311615661575b61565081836140a8565b8101031261045a578993515f615541565b503d615646565b9081156156dc575b80156156ca575b602090606460018060a01b035f80516020615ee68339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115611a33575f91615491575090565b5060206156d56158cc565b9050615677565b90506156e66158cc565b90615670565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f2054156158bb57855f528352835f209084518083868295549384815201905f52865f20925f5b888282106158a55750505061575b925003836140a8565b8051808501908186116106f45786018091116106f4576157fc5f86946157aa8961580f968151968161579689935180928d8087019101613f50565b8201908a82015203888101875201856140a8565b61581e60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061419e565b6003199384878303016024880152613f71565b91848303016044850152613f71565b03925af191821561589b575f9261586e575b50501561585e57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b61588d9250803d10615894575b61588581836140a8565b810190614a2d565b5f80615830565b503d61587b565b83513d5f823e3d90fd5b8554845260019586019588955093019201615744565b845163d66ca67560e01b8152600490fd5b5f80516020615ee683398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115611a33575f91615491575090565b5f602060018060a01b035f80516020615ee68339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115611a33575f91615491575090565b5f80516020615f06833981519152546001600160a01b031691823b1561045a57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015611a33576159c85750565b6144f790614095565b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161480615ad2575b15615a2c577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a0815260c081018181106001600160401b0382111761071b5760405251902090565b507f00000000000000000000000000000000000000000000000000000000000000004614615a03565b15615b595760015b5f80516020615ee683398151915254604051639cd07acb60e01b815260ff9290921660048301525f6024830181905260209183916044918391906001600160a01b03165af1908115611a33575f91615491575090565b5f615b03565b908115615bd3575b8015615bc1575b602090606460018060a01b035f80516020615ee68339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115611a33575f91615491575090565b506020615bcc61591e565b9050615b6e565b9050615bdd61591e565b90615b67565b60ff8114615c215760ff811690601f8211615c0f5760405191615c058361407a565b8252602082015290565b604051632cd44ac360e21b8152600490fd5b506040515f815f5491615c3383613f96565b80835292602090600190818116908115615cbc5750600114615c5e575b5050614155925003826140a8565b9150925f80527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563935f925b828410615ca457506141559450505081016020015f80615c50565b85548785018301529485019486945092810192615c89565b9150506020925061415594915060ff191682840152151560051b8201015f80615c50565b60ff8114615d025760ff811690601f8211615c0f5760405191615c058361407a565b506040515f81600191600154615d1781613f96565b8084529360209160018116908115615cbc5750600114615d3f575050614155925003826140a8565b91509260015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6935f925b828410615d8657506141559450505081016020015f80615c50565b85548785018301529485019486945092810192615d6b565b8151919060418303615dce57615dc79250602082015190606060408401519301515f1a90615e63565b9192909190565b50505f9160029190565b615de181613f0a565b80615dea575050565b615df381613f0a565b60018103615e0d5760405163f645eedf60e01b8152600490fd5b615e1681613f0a565b60028103615e375760405163fce698f760e01b815260048101839052602490fd5b80615e43600392613f0a565b14615e4b5750565b602490604051906335e2f38360e21b82526004820152fd5b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411615eda579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa15611a33575f516001600160a01b03811615615ed057905f905f90565b505f906001905f90565b5050505f916003919056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type DigitalInheritanceVaultFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DigitalInheritanceVaultFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DigitalInheritanceVaultFHE__factory extends ContractFactory {
+  constructor(...args: DigitalInheritanceVaultFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DigitalInheritanceVaultFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): DigitalInheritanceVaultFHE__factory {
+    return super.connect(runner) as DigitalInheritanceVaultFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DigitalInheritanceVaultFHEInterface {
+    return new Interface(_abi) as DigitalInheritanceVaultFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DigitalInheritanceVaultFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as DigitalInheritanceVaultFHE;
+  }
+}